@@ -1,6 +1,13 @@
 import fs from 'fs';
 import path from 'path';
-import { glob } from 'glob';
+import { glob, hasMagic } from 'glob';
+import { OneNoteInput, OneNoteNotebookFolder } from '../types/onenote';
+
+/** Files searched for in input folders; .one and .onetoc2 files are grouped into notebook folders */
+const ONENOTE_FILE_PATTERNS = ['*.one', '*.onetoc2', '*.onepkg', '*.mht', '*.mhtml'];
+const NOTEBOOK_FOLDER_EXTENSIONS = ['.one', '.onetoc2'];
+/** Deleted sections OneNote keeps inside a notebook folder */
+const RECYCLE_BIN_PATTERN = '**/OneNote_RecycleBin/**';
 
 export interface FileSelectionOptions {
   patterns: string[];
@@ -8,6 +15,12 @@ export interface FileSelectionOptions {
   exclude?: string[];
 }
 
+export interface InputResolution {
+  success: boolean;
+  inputs: OneNoteInput[];
+  error?: string;
+}
+
 export interface BatchProcessingOptions {
   maxConcurrency?: number;
   continueOnError?: boolean;
@@ -75,15 +88,16 @@ export class BatchOperations {
       const files: string[] = [];
 
       for (const pattern of patterns) {
-        const searchPattern = recursive 
-          ? path.join(directory, '**', pattern)
-          : path.join(directory, pattern);
+        // Patterns are matched inside the directory, so glob characters in its own name are taken literally
+        const searchPattern = recursive ? `**/${pattern}` : pattern;
 
         const matches = await glob(searchPattern, {
-          ignore: exclude.map(e => path.join(directory, e))
+          cwd: directory,
+          nocase: true,
+          ignore: exclude
         });
 
-        files.push(...matches);
+        files.push(...matches.map(match => path.join(directory, match)));
       }
 
       // Remove duplicates
@@ -102,6 +116,89 @@ export class BatchOperations {
     }
   }
 
+  /**
+   * Resolves input paths into the files and notebook folders to read. Files are kept as given, except that a
+   * .onetoc2 file stands for its notebook folder and files of other types are refused; directories
+   * are searched recursively and glob patterns expanded, and the .one and .onetoc2 files found are grouped into
+   * notebook folders: the topmost folders holding a .onetoc2 table of contents, then the folder that was passed,
+   * with the folders below a notebook as its section groups
+   */
+  async resolveInputs(paths: string[]): Promise<InputResolution> {
+    try {
+      const inputs: OneNoteInput[] = [];
+
+      for (const input of paths) {
+        let files: string[];
+        if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+          const selection = await this.selectFiles(input, {
+            patterns: ONENOTE_FILE_PATTERNS,
+            recursive: true,
+            exclude: [RECYCLE_BIN_PATTERN]
+          });
+          if (!selection.success) {
+            return { success: false, inputs: [], error: selection.error || `Failed to read ${input}` };
+          }
+          files = selection.files;
+        } else if (fs.existsSync(input)) {
+          const extension = path.extname(input).toLowerCase();
+          if (extension === '.onetoc2') {
+            // A table of contents stands for the notebook folder it sits in
+            const folder = path.dirname(input);
+            const selection = await this.selectFiles(folder, {
+              patterns: NOTEBOOK_FOLDER_EXTENSIONS.map(ext => `*${ext}`),
+              recursive: true,
+              exclude: [RECYCLE_BIN_PATTERN]
+            });
+            if (!selection.success) {
+              return { success: false, inputs: [], error: selection.error || `Failed to read ${folder}` };
+            }
+            const notebooks = this.groupNotebookFolders(selection.files, folder);
+            if (notebooks.length === 0) {
+              return { success: false, inputs: [], error: `No OneNote sections found next to ${input}` };
+            }
+            inputs.push(...notebooks);
+          } else if (ONENOTE_FILE_PATTERNS.some(pattern => path.extname(pattern) === extension)) {
+            inputs.push(input);
+          } else {
+            return { success: false, inputs: [], error: `Unsupported file type: ${input}` };
+          }
+          continue;
+        } else if (hasMagic(input)) {
+          const extensions = ONENOTE_FILE_PATTERNS.map(pattern => path.extname(pattern));
+          files = (await glob(input, { nodir: true, ignore: RECYCLE_BIN_PATTERN }))
+            .filter(file => extensions.includes(path.extname(file).toLowerCase()));
+        } else {
+          return { success: false, inputs: [], error: `File not found: ${input}` };
+        }
+
+        if (files.length === 0) {
+          return { success: false, inputs: [], error: `No OneNote files found in ${input}` };
+        }
+        inputs.push(...this.groupNotebookFolders(files, hasMagic(input) ? undefined : path.join(input, '.')));
+      }
+
+      // The same file or folder reached through two inputs is read once
+      const unique = new Map<string, OneNoteInput>();
+      for (const input of inputs) {
+        const key = typeof input === 'string' ? path.resolve(input) : `${path.resolve(input.directory)}${path.sep}`;
+        if (!unique.has(key)) {
+          unique.set(key, input);
+        }
+      }
+
+      return {
+        success: true,
+        inputs: [...unique.values()]
+      };
+    } catch (error) {
+      return {
+        success: false,
+        inputs: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   /**
    * Processes multiple files in batch
    */
@@ -271,6 +368,40 @@ export class BatchOperations {
     return grouped;
   }
 
+  /**
+   * Groups section files into notebook folders, leaving packages and web page exports as files of their own.
+   * A folder holding a table of contents is a notebook, and so is the folder that was passed for the sections
+   * outside those; sections found by a glob pattern outside them make a notebook of each folder
+   * @param passedFolder the folder that was searched, when the files did not come from a glob pattern
+   */
+  private groupNotebookFolders(files: string[], passedFolder?: string): OneNoteInput[] {
+    const sorted = [...files].sort();
+    const sectionFiles = sorted.filter(file => NOTEBOOK_FOLDER_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+    const tocFolders = [...new Set(sectionFiles
+      .filter(file => path.extname(file).toLowerCase() === '.onetoc2')
+      .map(file => path.dirname(file)))];
+    // Section groups keep tables of contents of their own, so only the topmost folder with one is a notebook
+    const notebookFolders = tocFolders.filter(folder => !tocFolders.some(other => this.isInside(folder, other)));
+
+    const grouped = new Map<string, string[]>();
+    for (const file of sectionFiles) {
+      const directory = notebookFolders.find(folder => this.isInside(file, folder)) ?? passedFolder ?? path.dirname(file);
+      grouped.set(directory, [...(grouped.get(directory) ?? []), file]);
+    }
+
+    const notebooks: OneNoteNotebookFolder[] = [...grouped]
+      .map(([directory, files]) => ({ directory, files }))
+      // A folder with only a table of contents has no sections to read
+      .filter(notebook => notebook.files.some(file => path.extname(file).toLowerCase() === '.one'));
+
+    return [...notebooks, ...sorted.filter(file => !sectionFiles.includes(file))];
+  }
+
+  private isInside(filePath: string, directory: string): boolean {
+    const relative = path.relative(directory, filePath);
+    return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+  }
+
   /**
    * Creates a batch processing script
    */
@@ -10,36 +10,65 @@ export class CliHelp {
     {
       name: 'import',
       description: 'Import OneNote content to Notion',
-      usage: 'oni import --file <path> --workspace <id> [options]',
+      usage: 'oni import --file <paths...> --workspace <id> [options]',
       options: [
-        { name: '--file, -f', description: 'Path to OneNote file (.onepkg or .one)', required: true },
+        { name: '--file, -f', description: 'OneNote files (.onepkg, .one or .mht), notebook folders or glob patterns', required: true },
+        { name: '--graph', description: 'Read notebooks from OneNote online through Microsoft Graph instead of a file', required: false },
+        { name: '--graph-token-file', description: 'Read the Microsoft Graph access token from a file (default: GRAPH_ACCESS_TOKEN)', required: false },
+        { name: '--graph-url', description: 'Microsoft Graph endpoint (default: https://graph.microsoft.com/v1.0)', required: false },
+        { name: '--notebooks', description: 'With --graph, read only these notebooks (comma-separated)', required: false },
         { name: '--workspace, -w', description: 'Notion workspace ID', required: true },
         { name: '--database, -d', description: 'Notion database ID', required: false },
         { name: '--config, -c', description: 'Path to configuration file', required: false },
         { name: '--dry-run', description: 'Preview what would be imported without actually importing', required: false },
+        { name: '--no-ink', description: 'Skip ink and handwriting strokes', required: false },
+        { name: '--no-recordings', description: 'Skip audio and video recordings', required: false },
+        { name: '--max-recording-size', description: 'Keep larger recordings on the page without their data', required: false },
+        { name: '--history', description: 'Add earlier page versions under a "History" child page with diffs against the current version', required: false },
+        { name: '--password-file', description: 'Read the password for protected sections from a file', required: false },
+        { name: '--no-password-prompt', description: 'Skip protected sections without a password instead of asking for one', required: false },
+        { name: '--salvage', description: 'Recover what can be read from damaged sections and write salvage-report.json listing what was lost', required: false },
+        { name: '--image-text', description: 'Add the text OneNote recognized in images and printouts below them as a collapsible section', required: false },
+        { name: '--layout', description: 'Page layout in Notion: flat (one column) or columns (side by side outlines become columns)', required: false },
         { name: '--verbose', description: 'Enable verbose logging', required: false }
       ],
       examples: [
         'oni import --file notebook.onepkg --workspace workspace-123',
         'oni import --file section.one --workspace workspace-123 --dry-run',
-        'oni import --file notebook.onepkg --workspace workspace-123 --database database-456 --verbose'
+        'oni import --file notebook.onepkg --workspace workspace-123 --database database-456 --verbose',
+        'oni import --file "./OneDrive/Documents/OneNote Notebooks" --workspace workspace-123'
       ]
     },
     {
       name: 'export',
       description: 'Export OneNote content to various formats',
-      usage: 'oni export --file <path> --output <dir> [options]',
+      usage: 'oni export --file <paths...> --output <dir> [options]',
       options: [
-        { name: '--file, -f', description: 'Path to OneNote file (.onepkg or .one)', required: true },
+        { name: '--file, -f', description: 'OneNote files (.onepkg, .one or .mht), notebook folders or glob patterns', required: true },
+        { name: '--graph', description: 'Read notebooks from OneNote online through Microsoft Graph instead of a file', required: false },
+        { name: '--graph-token-file', description: 'Read the Microsoft Graph access token from a file (default: GRAPH_ACCESS_TOKEN)', required: false },
+        { name: '--graph-url', description: 'Microsoft Graph endpoint (default: https://graph.microsoft.com/v1.0)', required: false },
+        { name: '--notebooks', description: 'With --graph, read only these notebooks (comma-separated)', required: false },
         { name: '--output, -o', description: 'Output directory for exported files', required: false },
-        { name: '--format', description: 'Export format (markdown, docx, json)', required: false },
+        { name: '--format', description: 'Export format (markdown, html, docx, json)', required: false },
         { name: '--config, -c', description: 'Path to configuration file', required: false },
+        { name: '--no-ink', description: 'Skip ink and handwriting strokes', required: false },
+        { name: '--no-recordings', description: 'Skip audio and video recordings', required: false },
+        { name: '--max-recording-size', description: 'Keep larger recordings on the page without their data', required: false },
+        { name: '--history', description: 'Write earlier page versions to a history/ folder with diffs against the current version', required: false },
+        { name: '--password-file', description: 'Read the password for protected sections from a file', required: false },
+        { name: '--no-password-prompt', description: 'Skip protected sections without a password instead of asking for one', required: false },
+        { name: '--salvage', description: 'Recover what can be read from damaged sections and write salvage-report.json listing what was lost', required: false },
+        { name: '--image-text', description: 'Add the text OneNote recognized in images and printouts below them as a collapsible section', required: false },
+        { name: '--layout', description: 'Page layout of HTML exports: flat (one column) or columns (outlines placed where they sit on the page)', required: false },
         { name: '--verbose', description: 'Enable verbose logging', required: false }
       ],
       examples: [
         'oni export --file notebook.onepkg --output ./exported',
         'oni export --file section.one --output ./exported --format markdown',
-        'oni export --file notebook.onepkg --output ./exported --format json --verbose'
+        'oni export --file notebook.onepkg --output ./exported --format json --verbose',
+        'oni export --file notebook.onepkg --output ./exported --password-file ./password.txt',
+        'oni export --file Work.onepkg "Notebooks/**/*.one" --output ./exported'
       ]
     },
     {
@@ -21,6 +21,7 @@ export interface ExportConfig {
 export interface OneNoteConfig {
   maxFileSize?: number;
   timeout?: number;
+  concurrency?: number;
 }
 
 export interface AppConfig {
@@ -185,6 +186,11 @@ export class ConfigValidator {
       }
     }
 
+    // Validate concurrency
+    if (config.concurrency !== undefined && (!Number.isInteger(config.concurrency) || config.concurrency < 1)) {
+      errors.push('concurrency must be a whole number of at least 1');
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
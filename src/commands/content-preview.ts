@@ -1,4 +1,7 @@
 import { OneNotePage, OneNoteSection, OneNoteNotebook } from '../types/onenote';
+import { OneNoteDocument } from '../types/document';
+import { OneNoteDocumentRenderer } from '../services/onenote/document-renderer';
+import { OneNoteHierarchyUtils } from '../services/onenote/hierarchy-utils';
 import fs from 'fs';
 import path from 'path';
 
@@ -116,7 +119,7 @@ export class ContentPreview {
       preview += 'SECTIONS:\n';
       preview += '-'.repeat(20) + '\n';
       
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         preview += `📁 ${section.name}\n`;
         preview += `   Pages: ${section.pages.length}\n`;
         if (showMetadata) {
@@ -171,6 +174,31 @@ export class ContentPreview {
     return analysis;
   }
 
+  /**
+   * Analyzes a parsed page document from its blocks and formatted runs
+   */
+  analyzeDocument(document: OneNoteDocument): ContentAnalysis {
+    const text = OneNoteDocumentRenderer.toPlainText(document);
+    const blocks = OneNoteDocumentRenderer.flattenBlocks(document.blocks);
+    const runs = blocks.flatMap(block => block.type === 'list'
+      ? block.items.flatMap(item => item.runs)
+      : 'runs' in block ? block.runs : []);
+
+    return {
+      hasHeaders: blocks.some(block => block.type === 'heading'),
+      hasLists: blocks.some(block => block.type === 'list' || block.type === 'todo'),
+      hasCodeBlocks: blocks.some(block => block.type === 'code'),
+      hasBoldText: runs.some(run => run.bold),
+      hasItalicText: runs.some(run => run.italic),
+      hasQuotes: false,
+      hasLinks: runs.some(run => run.href),
+      hasImages: blocks.some(block => block.type === 'image'),
+      wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      characterCount: text.length,
+      lineCount: text.split('\n').length
+    };
+  }
+
   /**
    * Exports preview to a file
    */
@@ -188,12 +216,12 @@ export class ContentPreview {
       let content: string;
       
       if (format === 'json') {
-        const analysis = this.analyzeContent(page.content);
+        const analysis = this.analyzePage(page);
         const previewData = {
           page: {
             id: page.id,
             title: page.title,
-            content: page.content,
+            content: this.getPageContent(page),
             metadata: page.metadata,
             createdDate: page.createdDate,
             lastModifiedDate: page.lastModifiedDate
@@ -230,6 +258,17 @@ export class ContentPreview {
     }
   }
 
+  /**
+   * Pages parsed from a revision store are previewed from their document
+   */
+  private getPageContent(page: OneNotePage): string {
+    return page.document ? OneNoteDocumentRenderer.toMarkdown(page.document) : page.content;
+  }
+
+  private analyzePage(page: OneNotePage): ContentAnalysis {
+    return page.document ? this.analyzeDocument(page.document) : this.analyzeContent(page.content);
+  }
+
   /**
    * Generates metadata section for a page
    */
@@ -256,7 +295,7 @@ export class ContentPreview {
     let content = 'CONTENT\n';
     content += '-'.repeat(20) + '\n';
     
-    const analysis = this.analyzeContent(page.content);
+    const analysis = this.analyzePage(page);
     
     // Content type indicators
     content += 'Content Types:\n';
@@ -277,7 +316,7 @@ export class ContentPreview {
     
     // Content preview
     content += '📝 Text Content:\n';
-    let displayContent = page.content;
+    let displayContent = this.getPageContent(page);
     if (displayContent.length > maxLength) {
       displayContent = displayContent.substring(0, maxLength) + '\n... (truncated)';
     }
@@ -312,7 +351,7 @@ export class ContentPreview {
     
     let totalContentSize = 0;
     for (const page of section.pages) {
-      totalContentSize += page.content.length;
+      totalContentSize += this.getPageContent(page).length;
     }
     stats += `Total Content Size: ${this.formatBytes(totalContentSize)}\n\n`;
     
@@ -341,15 +380,15 @@ export class ContentPreview {
   private generateNotebookStatistics(notebook: OneNoteNotebook): string {
     let stats = 'STATISTICS\n';
     stats += '-'.repeat(20) + '\n';
-    stats += `Total Sections: ${notebook.sections.length}\n`;
+    stats += `Total Sections: ${OneNoteHierarchyUtils.countSections(notebook)}\n`;
     
     let totalPages = 0;
     let totalContentSize = 0;
     
-    for (const section of notebook.sections) {
+    for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
       totalPages += section.pages.length;
       for (const page of section.pages) {
-        totalContentSize += page.content.length;
+        totalContentSize += this.getPageContent(page).length;
       }
     }
     
@@ -363,7 +402,7 @@ export class ContentPreview {
    * Generates HTML preview
    */
   private generateHtmlPreview(page: OneNotePage, options: ContentPreviewOptions): string {
-    const analysis = this.analyzeContent(page.content);
+    const analysis = this.analyzePage(page);
     
     let html = '<!DOCTYPE html>\n<html>\n<head>\n';
     html += '<title>Content Preview - ' + page.title + '</title>\n';
@@ -396,7 +435,7 @@ export class ContentPreview {
       html += '</ul>\n';
       
       html += '<h3>Content</h3>\n';
-      html += '<pre>' + page.content + '</pre>\n';
+      html += '<pre>' + this.getPageContent(page) + '</pre>\n';
     }
     
     html += '</body>\n</html>';
@@ -424,7 +463,7 @@ export class ContentPreview {
     
     if (options.showContent) {
       markdown += '### Content\n\n';
-      markdown += page.content + '\n';
+      markdown += this.getPageContent(page) + '\n';
     }
     
     return markdown;
@@ -1,4 +1,5 @@
 import { OneNoteHierarchy } from '../types/onenote';
+import { OneNoteHierarchyUtils } from '../services/onenote/hierarchy-utils';
 import fs from 'fs';
 import path from 'path';
 
@@ -79,7 +80,7 @@ export class DryRunMode {
     // Step 2: Create section pages
     plan += `Step ${stepNumber++}: Create section pages\n`;
     for (const notebook of hierarchy.notebooks) {
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         plan += `  - Create section page: "${section.name}" in "${notebook.name}"\n`;
       }
     }
@@ -89,7 +90,7 @@ export class DryRunMode {
     plan += `Step ${stepNumber++}: Create page content\n`;
     let totalPages = 0;
     for (const notebook of hierarchy.notebooks) {
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         for (const page of section.pages) {
           totalPages++;
           plan += `  - Create page: "${page.title}" in "${section.name}"\n`;
@@ -129,14 +130,14 @@ export class DryRunMode {
     
     // Check for empty notebooks
     for (const notebook of hierarchy.notebooks) {
-      if (notebook.sections.length === 0) {
+      if (OneNoteHierarchyUtils.countSections(notebook) === 0) {
         warnings.push(`Notebook "${notebook.name}" has no sections`);
       }
     }
     
     // Check for empty sections
     for (const notebook of hierarchy.notebooks) {
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         if (section.pages.length === 0) {
           warnings.push(`Section "${section.name}" in notebook "${notebook.name}" has no pages`);
         }
@@ -145,7 +146,7 @@ export class DryRunMode {
     
     // Check for very long content
     for (const notebook of hierarchy.notebooks) {
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         for (const page of section.pages) {
           if (page.content.length > 100000) {
             warnings.push(`Page "${page.title}" has very long content (${page.content.length} characters)`);
@@ -224,7 +225,7 @@ export class DryRunMode {
     // Calculate total content size
     let totalContentSize = 0;
     for (const notebook of hierarchy.notebooks) {
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         for (const page of section.pages) {
           totalContentSize += page.content.length;
         }
@@ -252,7 +253,7 @@ export class DryRunMode {
         preview += `   Modified: ${notebook.lastModifiedDate.toISOString()}\n`;
       }
       
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         preview += `  📁 ${section.name}\n`;
         
         if (options.includeMetadata) {
@@ -303,7 +304,7 @@ export class DryRunMode {
     for (const notebook of hierarchy.notebooks) {
       markdown += `### 📚 ${notebook.name}\n\n`;
       
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         markdown += `#### 📁 ${section.name}\n\n`;
         
         for (const page of section.pages) {
@@ -325,7 +326,7 @@ export class DryRunMode {
     let totalAttachments = 0;
     
     for (const notebook of hierarchy.notebooks) {
-      for (const section of notebook.sections) {
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         for (const page of section.pages) {
           totalContentSize += page.content.length;
           
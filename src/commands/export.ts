@@ -1,8 +1,14 @@
 import { Command } from 'commander';
 import { logger } from '../utils/logger';
-import { CommandHelpers } from '../utils/command-helpers';
+import { CommandHelpers, NotebookTally } from '../utils/command-helpers';
 import { OneNoteService } from '../services/onenote/onenote.service';
 import { AdvancedContentConverterService } from '../services/onenote/advanced-content-converter.service';
+import { OneNoteAssetStore } from '../services/onenote/asset-store';
+import { OneNoteDocumentRenderer } from '../services/onenote/document-renderer';
+import { OneNoteHtmlRenderer } from '../services/onenote/html-renderer';
+import { OneNoteRevisionDiff } from '../services/onenote/revision-diff';
+import { OneNoteDocument } from '../types/document';
+import { OneNotePage, OneNoteParsingOptions, OneNoteSection, OneNoteStreamFailure } from '../types/onenote';
 import path from 'path';
 import fs from 'fs';
 
@@ -18,14 +24,102 @@ function sanitizeFileName(fileName: string): string {
     .substring(0, 100); // Limit length
 }
 
+/**
+ * Picks a name not yet used in the directory, numbering repeats as name_2, name_3 and so on so pages with the
+ * same title do not overwrite each other; names are compared ignoring case, as Windows and macOS do
+ */
+function uniqueFileName(usedNames: Map<string, Set<string>>, directory: string, name: string): string {
+  const used = usedNames.get(directory) ?? new Set<string>();
+  usedNames.set(directory, used);
+
+  const base = name || 'Untitled';
+  let fileName = base;
+  for (let index = 2; used.has(fileName.toLowerCase()); index++) {
+    fileName = `${base}_${index}`;
+  }
+  used.add(fileName.toLowerCase());
+  return fileName;
+}
+
+/**
+ * Links a document's assets relative to the page file, copying any kept outside the export's assets folder into it
+ */
+function exportAssets(document: OneNoteDocument, assetsDir: string, pageDir: string): OneNoteDocument {
+  return OneNoteAssetStore.relinkDocument(document, src => {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(src) || !fs.existsSync(src)) {
+      return src;
+    }
+
+    const target = path.join(assetsDir, path.basename(src));
+    if (!fs.existsSync(target)) {
+      fs.mkdirSync(assetsDir, { recursive: true });
+      fs.copyFileSync(src, target);
+    }
+    return path.relative(pageDir, target).split(path.sep).join('/');
+  });
+}
+
+/**
+ * Writes a page's earlier versions to history/<page>/ next to the page, each with its diff against the
+ * current version, and returns their paths relative to the page's directory
+ */
+function exportHistory(page: OneNotePage, fileName: string, assetsDir: string, directory: string): Array<{ label: string; path: string }> {
+  const historyDir = path.join(directory, 'history', fileName);
+  return (page.revisions ?? []).map((revision, index) => {
+    const label = OneNoteRevisionDiff.label(revision);
+    const diff = OneNoteRevisionDiff.unified(revision.content, page.content, label, 'current');
+    const content = OneNoteDocumentRenderer.toMarkdown(exportAssets(revision.document, assetsDir, historyDir));
+    const versionPath = path.join(historyDir, `v${index + 1}_${sanitizeFileName(revision.lastModifiedDate.toISOString().replace(/[:.]/g, '-'))}.md`);
+
+    fs.mkdirSync(historyDir, { recursive: true });
+    fs.writeFileSync(versionPath, [
+      `# ${revision.title}`,
+      `Version saved ${label}`,
+      '## Changes in the current version',
+      diff ? `\`\`\`diff\n${diff}\n\`\`\`` : 'No text changes',
+      '## Content',
+      content
+    ].join('\n\n') + '\n', 'utf8');
+    return { label, path: path.relative(directory, versionPath).split(path.sep).join('/') };
+  });
+}
+
+/**
+ * A page whose subpages are still being read; subpages follow their parent in section order, so it is written
+ * once the next page at its level or above arrives and its subpage links are complete
+ */
+interface PendingPage {
+  page: OneNotePage;
+  level: number;
+  directory: string;
+  fileName: string;
+  subpages: Array<{ title: string; path: string }>;
+  /** Summary entry of the page's section, counting the pages written to it */
+  section: { pages: number };
+}
+
 const exportCommand = new Command('export');
 
 exportCommand
   .description('Export OneNote content to various formats')
-  .option('-f, --file <path>', 'Path to OneNote file (.onepkg or .one)')
+  .option('-f, --file <paths...>', 'OneNote files (.onepkg, .one or .mht), notebook folders or glob patterns')
+  .option('--graph', 'Read notebooks from OneNote online through Microsoft Graph instead of a file')
+  .option('--graph-token-file <path>', 'Read the Microsoft Graph access token from a file (default: GRAPH_ACCESS_TOKEN)')
+  .option('--graph-url <url>', 'Microsoft Graph endpoint (default: https://graph.microsoft.com/v1.0)')
+  .option('--notebooks <names>', 'With --graph, read only these notebooks (comma-separated)')
   .option('-o, --output <path>', 'Output directory for exported files')
-  .option('--format <format>', 'Export format (markdown, docx, json)', 'markdown')
+  .option('--format <format>', 'Export format (markdown, html, docx, json)', 'markdown')
   .option('-c, --config <path>', 'Path to configuration file')
+  .option('--no-ink', 'Skip ink and handwriting strokes')
+  .option('--no-recordings', 'Skip audio and video recordings')
+  .option('--max-recording-size <megabytes>', 'Keep larger recordings on the page without their data')
+  .option('--history', 'Write earlier page versions to a history/ folder with diffs against the current version')
+  .option('--password-file <path>', 'Read the password for protected sections from a file')
+  .option('--no-password-prompt', 'Skip protected sections without a password instead of asking for one')
+  .option('--concurrency <count>', 'Sections to parse at once in worker threads (default: one at a time, page by page, on the main thread)')
+  .option('--salvage', 'Recover what can be read from damaged sections and write salvage-report.json listing what was lost')
+  .option('--image-text', 'Add the text OneNote recognized in images and printouts below them as a collapsible section')
+  .option('--layout <mode>', 'Page layout of HTML exports: flat (one column) or columns (outlines placed where they sit on the page)', 'flat')
   .option('--verbose', 'Enable verbose logging')
   .action(async (options) => {
     try {
@@ -37,19 +131,21 @@ exportCommand
       const config = await configService.loadConfig(options.config);
 
       // Validate required options
-      CommandHelpers.validateFilePath(options.file, 'export');
+      const graphSource = CommandHelpers.createGraphSource(options);
+      if (!graphSource) {
+        CommandHelpers.validateFilePath(options.file, 'export');
+      }
+      const layout = CommandHelpers.getLayoutMode(options);
 
       const outputDir = options.output || config.export.outputDirectory || './exported';
       const format = options.format || 'markdown';
 
-      logger.info(`Exporting from: ${options.file}`);
+      logger.info(`Exporting from: ${graphSource ? `Microsoft Graph (${graphSource.baseUrl})` : options.file.join(', ')}`);
       logger.info(`Output directory: ${outputDir}`);
       logger.info(`Export format: ${format}`);
 
-      // Validate file exists
-      if (!fs.existsSync(options.file)) {
-        throw new Error(`File not found: ${options.file}`);
-      }
+      // Folders and glob patterns are expanded into notebook folders and files; missing files fail here
+      const inputs = graphSource ? [] : await CommandHelpers.resolveInputs(options.file);
 
       // Create output directory if it doesn't exist
       if (!fs.existsSync(outputDir)) {
@@ -61,122 +157,228 @@ exportCommand
       const oneNoteService = new OneNoteService();
       const contentConverter = new AdvancedContentConverterService();
 
-      // Process OneNote files
+      // Images and other page assets are shared by all pages in one assets folder, which they are extracted into
+      const assetsDir = path.join(outputDir, 'assets');
+
+      // Process OneNote files page by page, so no more than a section's open subpage chain is held in memory
       logger.info('Processing OneNote files...');
-      const extractionResult = await oneNoteService.processFiles([options.file], {
+      const parsingOptions: OneNoteParsingOptions = {
         includeMetadata: true,
         extractImages: true,
+        extractAttachments: true,
+        extractInk: options.ink,
+        ...CommandHelpers.createRecordingOptions(options),
+        includeRevisions: options.history,
+        assetsDirectory: assetsDir,
+        salvage: options.salvage,
+        sectionPassword: CommandHelpers.createPasswordResolver(options, config.passwords),
         preserveFormatting: true,
-        fallbackOnError: true
-      });
-
-      if (!extractionResult.success) {
-        throw new Error(`Failed to process OneNote files: ${extractionResult.error || 'Unknown error'}`);
-      }
-
-      if (!extractionResult.hierarchy) {
-        throw new Error('No hierarchy data extracted from OneNote files');
-      }
-
-      logger.info(`Successfully processed ${extractionResult.hierarchy.notebooks.length} notebook(s)`);
-      
-      // Display hierarchy
-      oneNoteService.displayHierarchy(extractionResult.hierarchy, {
-        showMetadata: true,
-        showContent: false,
-        maxDepth: 5
-      });
+        fallbackOnError: true,
+        // Values set with "oni config set" are stored as strings
+        ...(config.onenote?.maxFileSize ? { maxFileSize: Number(config.onenote.maxFileSize) } : {}),
+        ...CommandHelpers.createParsingPoolOptions(options, config.onenote)
+      };
+      const items = graphSource ? graphSource.streamPages(parsingOptions) : oneNoteService.streamPages(inputs, parsingOptions);
 
       // Export content
       logger.info(`Exporting content to ${format} format...`);
       let totalPages = 0;
       let successCount = 0;
       let errorCount = 0;
+      const extension = format === 'markdown' ? 'md' : format;
 
-      for (const notebook of extractionResult.hierarchy.notebooks) {
-        const notebookDir = path.join(outputDir, sanitizeFileName(notebook.name));
-        if (!fs.existsSync(notebookDir)) {
-          fs.mkdirSync(notebookDir, { recursive: true });
-        }
+      // Subpages are written to a folder named after their parent page and linked from it
+      const exportPage = async ({ page: sourcePage, directory, fileName, subpages, section }: PendingPage): Promise<void> => {
+        totalPages++;
 
-        for (const section of notebook.sections) {
-          const sectionDir = path.join(notebookDir, sanitizeFileName(section.name));
-          if (!fs.existsSync(sectionDir)) {
-            fs.mkdirSync(sectionDir, { recursive: true });
+        try {
+          if (!fs.existsSync(directory)) {
+            fs.mkdirSync(directory, { recursive: true });
           }
 
-          for (const page of section.pages) {
-            totalPages++;
-            try {
-              // Convert page content
-              const convertedPage = await contentConverter.convertAdvancedPage(page, {
-                includeMetadata: true,
-                outputFormat: format === 'json' ? 'markdown' : format as 'markdown' | 'docx',
-                preserveTables: true,
-                preserveCodeBlocks: true,
-                handleAttachments: true,
-                convertTags: true
-              });
-
-              // Generate filename
-              const fileName = sanitizeFileName(page.title);
-              let filePath: string;
-              let content: string;
-
-              switch (format) {
-                case 'markdown':
-                  filePath = path.join(sectionDir, `${fileName}.md`);
-                  content = convertedPage.content || '';
-                  break;
-                case 'docx':
-                  filePath = path.join(sectionDir, `${fileName}.docx`);
-                  content = convertedPage.content || '';
-                  break;
-                case 'json':
-                  filePath = path.join(sectionDir, `${fileName}.json`);
-                  content = JSON.stringify({
-                    id: page.id,
-                    title: page.title,
-                    content: convertedPage.content,
-                    metadata: {
-                      createdDate: page.createdDate,
-                      lastModifiedDate: page.lastModifiedDate,
-                      metadata: page.metadata
-                    }
-                  }, null, 2);
-                  break;
-                default:
-                  throw new Error(`Unsupported format: ${format}`);
-              }
+          const page = sourcePage.document
+            ? { ...sourcePage, document: exportAssets(sourcePage.document, assetsDir, directory) }
+            : sourcePage;
+
+          // Convert page content
+          const convertedPage = await contentConverter.convertAdvancedPage(page, {
+            includeMetadata: true,
+            outputFormat: format === 'json' || format === 'html' ? 'markdown' : format as 'markdown' | 'docx',
+            preserveTables: true,
+            preserveCodeBlocks: true,
+            handleAttachments: true,
+            convertTags: true,
+            imageTextToggles: options.imageText
+          });
 
-              // Write file
-              fs.writeFileSync(filePath, content, 'utf8');
-              successCount++;
-              logger.debug(`Exported page: ${page.title} -> ${filePath}`);
-              
-              // Progress indicator
-              if (totalPages % 10 === 0) {
-                logger.info(`Progress: ${totalPages} pages processed (${successCount} successful, ${errorCount} errors)`);
+          // Earlier versions are only read when --history is given
+          const history = options.history ? exportHistory(sourcePage, fileName, assetsDir, directory) : [];
+          let filePath: string;
+          let content: string;
+
+          switch (format) {
+            case 'markdown':
+              filePath = path.join(directory, `${fileName}.md`);
+              content = convertedPage.content || '';
+              if (subpages.length > 0) {
+                content += '\n\n## Subpages\n\n' +
+                  subpages.map(subpage => `- [${subpage.title}](${encodeURI(subpage.path)})`).join('\n') + '\n';
+              }
+              if (history.length > 0) {
+                content += '\n\n## History\n\n' +
+                  history.map(version => `- [${version.label}](${encodeURI(version.path)})`).join('\n') + '\n';
               }
-            } catch (error) {
-              errorCount++;
-              logger.error(`Failed to export page "${page.title}": ${error instanceof Error ? error.message : String(error)}`);
+              break;
+            case 'html': {
+              filePath = path.join(directory, `${fileName}.html`);
+              const links = (heading: string, entries: Array<{ label: string; path: string }>) => entries.length > 0
+                ? [`<h2>${heading}</h2>`, '<ul>',
+                  ...entries.map(entry => `<li><a href="${OneNoteHtmlRenderer.escape(encodeURI(entry.path))}">${OneNoteHtmlRenderer.escape(entry.label)}</a></li>`),
+                  '</ul>']
+                : [];
+              content = OneNoteHtmlRenderer.toPage(page.title, [
+                page.document
+                  ? OneNoteHtmlRenderer.toHtml(page.document, { layout, imageTextToggles: options.imageText })
+                  : `<pre>${OneNoteHtmlRenderer.escape(page.content)}</pre>`,
+                ...links('Subpages', subpages.map(subpage => ({ label: subpage.title, path: subpage.path }))),
+                ...links('History', history)
+              ].join('\n'));
+              break;
             }
+            case 'docx':
+              filePath = path.join(directory, `${fileName}.docx`);
+              content = convertedPage.content || '';
+              break;
+            case 'json':
+              filePath = path.join(directory, `${fileName}.json`);
+              content = JSON.stringify({
+                id: page.id,
+                title: page.title,
+                content: convertedPage.content,
+                document: page.document,
+                attachments: convertedPage.attachments ?? [],
+                level: page.level ?? 1,
+                subpages,
+                history,
+                metadata: {
+                  createdDate: page.createdDate,
+                  lastModifiedDate: page.lastModifiedDate,
+                  metadata: page.metadata
+                }
+              }, null, 2);
+              break;
+            default:
+              throw new Error(`Unsupported format: ${format}`);
           }
+
+          // Write file
+          fs.writeFileSync(filePath, content, 'utf8');
+          successCount++;
+          section.pages++;
+          logger.debug(`Exported page: ${page.title} -> ${filePath}`);
+          
+          // Progress indicator
+          if (totalPages % 10 === 0) {
+            logger.info(`Progress: ${totalPages} pages processed (${successCount} successful, ${errorCount} errors)`);
+          }
+        } catch (error) {
+          errorCount++;
+          logger.error(`Failed to export page "${sourcePage.title}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+      };
+
+      const pending: PendingPage[] = [];
+      const exportPendingPages = async (level: number): Promise<void> => {
+        while (pending.length > 0 && pending[pending.length - 1]!.level >= level) {
+          await exportPage(pending.pop()!);
+        }
+      };
+
+      // Sections are listed in notebook order in the summary, since folders carry no order of their own
+      const exportedSections: Array<{ notebook: string; path: string; color?: string; pages: number }> = [];
+      const sections: OneNoteSection[] = [];
+      const notebooks = new Map<string, NotebookTally>();
+      // Files and sections that could not be read fail on their own; the rest of the run goes on
+      const failures: OneNoteStreamFailure[] = [];
+      const usedNames = new Map<string, Set<string>>();
+      // Notebooks and section groups get a folder the first time they are reached, named apart from its siblings
+      const containerDirs = new Map<string, string>();
+      const containerDir = (id: string, parentDir: string, name: string): string => {
+        if (!containerDirs.has(id)) {
+          containerDirs.set(id, path.join(parentDir, uniqueFileName(usedNames, parentDir, sanitizeFileName(name))));
         }
+        return containerDirs.get(id)!;
+      };
+      let sectionDir = outputDir;
+
+      for await (const item of items) {
+        CommandHelpers.tallyNotebook(notebooks, item);
+        if (item.type === 'failed') {
+          failures.push(item);
+          continue;
+        }
+        if (item.type === 'section') {
+          // Every page level is at least 1, so this writes the rest of the previous section
+          await exportPendingPages(1);
+
+          // Section groups become nested folders between the notebook and the section
+          sections.push(item.section);
+          let groupDir = containerDir(item.notebook.id, outputDir, item.notebook.name);
+          for (const group of item.sectionGroups) {
+            groupDir = containerDir(group.id, groupDir, group.name);
+          }
+          sectionDir = path.join(groupDir, uniqueFileName(usedNames, groupDir, sanitizeFileName(item.section.name)));
+          if (!fs.existsSync(sectionDir)) {
+            fs.mkdirSync(sectionDir, { recursive: true });
+          }
+
+          const sectionPath = path.relative(outputDir, sectionDir).split(path.sep).join('/');
+          logger.info(`Exporting section: ${sectionPath}`);
+          exportedSections.push({
+            notebook: item.notebook.name,
+            path: sectionPath,
+            ...(item.section.color ? { color: item.section.color } : {}),
+            pages: 0
+          });
+          continue;
+        }
+
+        const level = Math.max(item.page.level ?? 1, 1);
+        await exportPendingPages(level);
+
+        const parent = pending[pending.length - 1];
+        const directory = parent ? path.join(parent.directory, parent.fileName) : sectionDir;
+        const fileName = uniqueFileName(usedNames, directory, sanitizeFileName(item.page.title));
+        parent?.subpages.push({ title: item.page.title, path: `${parent.fileName}/${fileName}.${extension}` });
+        pending.push({
+          page: item.page,
+          level,
+          directory,
+          fileName,
+          subpages: [],
+          section: exportedSections[exportedSections.length - 1]!
+        });
+      }
+      await exportPendingPages(1);
+
+      CommandHelpers.reportNotebooks(notebooks);
+      CommandHelpers.reportProtectedSections(sections);
+      if (options.salvage) {
+        CommandHelpers.reportSalvage(sections, path.join(outputDir, 'salvage-report.json'));
       }
 
       // Create summary file
       const summaryPath = path.join(outputDir, 'export-summary.json');
       const summary = {
         exportDate: new Date().toISOString(),
-        sourceFile: options.file,
+        sources: graphSource ? [graphSource.baseUrl] : options.file,
         format: format,
-        notebooks: extractionResult.hierarchy.notebooks.length,
+        notebooks: notebooks.size,
         totalPages: totalPages,
         successfulPages: successCount,
         failedPages: errorCount,
-        errors: extractionResult.error ? [extractionResult.error] : []
+        unreadableSources: failures,
+        sections: exportedSections
       };
       fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
 
@@ -186,6 +388,10 @@ exportCommand
       if (errorCount > 0) {
         logger.warn(`${errorCount} pages failed to export. Check logs for details.`);
       }
+      if (CommandHelpers.reportFailures(failures) > 0) {
+        throw new Error(`${failures.length} file(s) or section(s) could not be read` +
+          (options.salvage ? '' : '; rerun with --salvage to recover what is left of damaged sections'));
+      }
 
       CommandHelpers.logCommandSuccess('export', 'Export');
       
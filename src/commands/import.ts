@@ -1,19 +1,24 @@
 import { Command } from 'commander';
 import { logger } from '../utils/logger';
-import { CommandHelpers } from '../utils/command-helpers';
+import { CommandHelpers, NotebookTally } from '../utils/command-helpers';
 import { OneNoteService } from '../services/onenote/onenote.service';
 import { NotionApiService } from '../services/notion/notion-api.service';
-import { HierarchyMappingService } from '../services/notion/hierarchy-mapping.service';
+import { HierarchyMappingService, NotionPage } from '../services/notion/hierarchy-mapping.service';
 import { AdvancedContentConverterService } from '../services/onenote/advanced-content-converter.service';
 import { AutoSetupService } from '../services/notion/auto-setup.service';
+import { OneNoteRevisionDiff } from '../services/onenote/revision-diff';
+import { OneNotePage, OneNoteParsingOptions, OneNoteSection, OneNoteStreamFailure, OneNoteStreamItem } from '../types/onenote';
 import path from 'path';
-import fs from 'fs';
 
 const importCommand = new Command('import');
 
 importCommand
   .description('Import OneNote content to Notion')
-  .option('-f, --file <path>', 'Path to OneNote file (.onepkg or .one)')
+  .option('-f, --file <paths...>', 'OneNote files (.onepkg, .one or .mht), notebook folders or glob patterns')
+  .option('--graph', 'Read notebooks from OneNote online through Microsoft Graph instead of a file')
+  .option('--graph-token-file <path>', 'Read the Microsoft Graph access token from a file (default: GRAPH_ACCESS_TOKEN)')
+  .option('--graph-url <url>', 'Microsoft Graph endpoint (default: https://graph.microsoft.com/v1.0)')
+  .option('--notebooks <names>', 'With --graph, read only these notebooks (comma-separated)')
   .option('-w, --workspace <id>', 'Notion workspace ID')
   .option('-d, --database <id>', 'Notion database ID')
   .option('-c, --config <path>', 'Path to configuration file')
@@ -21,6 +26,16 @@ importCommand
   .option('--database-name <name>', 'Name for auto-created database (default: "OneNote Import Database")')
   .option('--auto-setup', 'Automatically create workspace and database if they don\'t exist')
   .option('--dry-run', 'Preview what would be imported without actually importing')
+  .option('--no-ink', 'Skip ink and handwriting strokes')
+  .option('--no-recordings', 'Skip audio and video recordings')
+  .option('--max-recording-size <megabytes>', 'Keep larger recordings on the page without their data')
+  .option('--history', 'Add earlier page versions under a "History" child page with diffs against the current version')
+  .option('--password-file <path>', 'Read the password for protected sections from a file')
+  .option('--no-password-prompt', 'Skip protected sections without a password instead of asking for one')
+  .option('--concurrency <count>', 'Sections to parse at once in worker threads (default: one at a time, page by page, on the main thread)')
+  .option('--salvage', 'Recover what can be read from damaged sections and write salvage-report.json listing what was lost')
+  .option('--image-text', 'Add the text OneNote recognized in images and printouts below them as a collapsible section')
+  .option('--layout <mode>', 'Page layout in Notion: flat (one column) or columns (side by side outlines become columns)', 'flat')
   .option('--verbose', 'Enable verbose logging')
   .action(async (options) => {
     try {
@@ -32,20 +47,22 @@ importCommand
       const config = await configService.loadConfig(options.config);
 
       // Validate required options
-      CommandHelpers.validateFilePath(options.file, 'import');
+      const graphSource = CommandHelpers.createGraphSource(options);
+      if (!graphSource) {
+        CommandHelpers.validateFilePath(options.file, 'import');
+      }
       CommandHelpers.validateWorkspaceId(options.workspace, config.notion.workspaceId);
+      const layout = CommandHelpers.getLayoutMode(options);
 
-      logger.info(`Importing from: ${options.file}`);
+      logger.info(`Importing from: ${graphSource ? `Microsoft Graph (${graphSource.baseUrl})` : options.file.join(', ')}`);
       logger.info(`Target workspace: ${options.workspace || config.notion.workspaceId}`);
       
       if (options.dryRun) {
         CommandHelpers.logDryRunMode();
       }
 
-      // Validate file exists
-      if (!fs.existsSync(options.file)) {
-        throw new Error(`File not found: ${options.file}`);
-      }
+      // Folders and glob patterns are expanded into notebook folders and files; missing files fail here
+      const inputs = graphSource ? [] : await CommandHelpers.resolveInputs(options.file);
 
       // Initialize services
       const oneNoteService = new OneNoteService();
@@ -53,40 +70,67 @@ importCommand
       const hierarchyMappingService = new HierarchyMappingService();
       const contentConverter = new AdvancedContentConverterService();
 
-      // Process OneNote files
+      // Process OneNote files page by page, so each page is imported and released before the next is read
       logger.info('Processing OneNote files...');
-      const extractionResult = await oneNoteService.processFiles([options.file], {
+      const recordingOptions = CommandHelpers.createRecordingOptions(options);
+      // Extracted files are uploaded to Notion as each page is created and deleted once it is; sections parsed
+      // ahead in worker threads may share them, so with --concurrency they are left until the run ends
+      const assetsDirectory = options.dryRun ? undefined : CommandHelpers.createAssetsDirectory();
+      const parsingOptions: OneNoteParsingOptions = {
         includeMetadata: true,
-        extractImages: true,
+        // A dry run only counts what would be imported, so nothing is extracted to disk
+        ...(assetsDirectory
+          ? { extractImages: true, extractAttachments: true, extractInk: options.ink, ...recordingOptions, assetsDirectory }
+          : { extractImages: false, extractAttachments: false, extractInk: false, extractRecordings: false }),
+        includeRevisions: options.history,
+        salvage: options.salvage,
+        sectionPassword: CommandHelpers.createPasswordResolver(options, config.passwords),
         preserveFormatting: true,
-        fallbackOnError: true
-      });
-
-      if (!extractionResult.success) {
-        throw new Error(`Failed to process OneNote files: ${extractionResult.error || 'Unknown error'}`);
-      }
-
-      if (!extractionResult.hierarchy) {
-        throw new Error('No hierarchy data extracted from OneNote files');
-      }
-
-      logger.info(`Successfully processed ${extractionResult.hierarchy.notebooks.length} notebook(s)`);
-      
-      // Display hierarchy
-      oneNoteService.displayHierarchy(extractionResult.hierarchy, {
-        showMetadata: true,
-        showContent: false,
-        maxDepth: 5
-      });
+        fallbackOnError: true,
+        // Values set with "oni config set" are stored as strings
+        ...(config.onenote?.maxFileSize ? { maxFileSize: Number(config.onenote.maxFileSize) } : {}),
+        ...CommandHelpers.createParsingPoolOptions(options, config.onenote)
+      };
+      const items = graphSource ? graphSource.streamPages(parsingOptions) : oneNoteService.streamPages(inputs, parsingOptions);
+      const sections: OneNoteSection[] = [];
+      const notebooks = new Map<string, NotebookTally>();
+      // Files and sections that could not be read fail on their own; the rest of the run goes on
+      const failures: OneNoteStreamFailure[] = [];
+      const track = (item: OneNoteStreamItem): void => {
+        CommandHelpers.tallyNotebook(notebooks, item);
+        if (item.type === 'section') {
+          sections.push(item.section);
+        } else if (item.type === 'failed') {
+          failures.push(item);
+        }
+      };
+      const failUnreadable = (): void => {
+        if (CommandHelpers.reportFailures(failures) > 0) {
+          throw new Error(`${failures.length} file(s) or section(s) could not be read` +
+            (options.salvage ? '' : '; rerun with --salvage to recover what is left of damaged sections'));
+        }
+      };
 
       if (options.dryRun) {
+        let totalPages = 0;
+        for await (const item of items) {
+          track(item);
+          if (item.type === 'page') {
+            totalPages++;
+          }
+        }
+
+        CommandHelpers.reportNotebooks(notebooks);
+        CommandHelpers.reportProtectedSections(sections);
+        if (options.salvage) {
+          // A dry run writes nothing, so what was lost is only logged
+          CommandHelpers.reportSalvage(sections);
+        }
         logger.info('DRY RUN: Would import the following structure to Notion:');
-        logger.info(`- ${extractionResult.hierarchy.notebooks.length} notebook(s)`);
-        const totalSections = extractionResult.hierarchy.notebooks.reduce((sum: number, nb) => sum + nb.sections.length, 0);
-        const totalPages = extractionResult.hierarchy.notebooks.reduce((sum: number, nb) => 
-          sum + nb.sections.reduce((sectionSum: number, section) => sectionSum + section.pages.length, 0), 0);
-        logger.info(`- ${totalSections} section(s)`);
+        logger.info(`- ${notebooks.size} notebook(s)`);
+        logger.info(`- ${sections.length} section(s)`);
         logger.info(`- ${totalPages} page(s)`);
+        failUnreadable();
         CommandHelpers.logCommandSuccess('import', 'Import');
         return;
       }
@@ -134,62 +178,161 @@ importCommand
         }
 
         logger.info('Successfully connected to Notion API');
-      }
 
-      // Map hierarchy to Notion structure
-      logger.info('Mapping OneNote hierarchy to Notion structure...');
-      const notionMapping = await hierarchyMappingService.mapHierarchy(extractionResult.hierarchy.notebooks, {
-        createDatabases: true,
-        maxDepth: 10
-      });
+        // Auto-setup adds the import columns itself; an existing database may not have them yet
+        if (databaseId && !(await notionApiService.setupDatabaseProperties(databaseId))) {
+          logger.warn('Could not add the OneNote import columns to the database; page properties may be rejected');
+        }
+      }
 
-      // Convert content and create pages
+      // Create pages as they are read, nesting them under notebook, section group and section pages through the
+      // database's parent item relation, so every page stays a database entry with its properties and tags
       logger.info('Converting content and creating Notion pages...');
       let totalPages = 0;
       let successCount = 0;
       let errorCount = 0;
 
-      for (const notebook of extractionResult.hierarchy.notebooks) {
-        for (const section of notebook.sections) {
-          for (const page of section.pages) {
-            totalPages++;
-            try {
-              // Convert page content
-              const convertedPage = await contentConverter.convertAdvancedPage(page, {
-                includeMetadata: true,
-                outputFormat: 'notion',
-                preserveTables: true,
-                preserveCodeBlocks: true,
-                handleAttachments: true,
-                convertTags: true
-              });
-
-              // Create Notion page
-              const notionPageId = await notionApiService.createPage({
-                id: page.id,
-                title: page.title,
-                content: convertedPage.content || '',
-                properties: convertedPage.metadata || {},
-                children: [],
-                metadata: {
-                  createdDate: page.createdDate,
-                  lastModifiedDate: page.lastModifiedDate
-                }
-              });
-
-              successCount++;
-              logger.debug(`Created page: ${page.title} (ID: ${notionPageId})`);
-              
-              // Progress indicator
-              if (totalPages % 10 === 0) {
-                logger.info(`Progress: ${totalPages} pages processed (${successCount} successful, ${errorCount} errors)`);
-              }
-            } catch (error) {
-              errorCount++;
-              logger.error(`Failed to create page "${page.title}": ${error instanceof Error ? error.message : String(error)}`);
+      // Earlier versions go under a History child page listing their diffs, one child page per version
+      const createHistoryPages = async (page: OneNotePage, parentId: string): Promise<void> => {
+        const history = await notionApiService.createPage({
+          id: `${page.id}-history`,
+          title: 'History',
+          content: '',
+          document: OneNoteRevisionDiff.historyDocument(page),
+          parentId
+        });
+        if (!history.success || !history.pageId) {
+          logger.error(`Failed to create history for "${page.title}": ${history.error || 'Unknown error'}`);
+          return;
+        }
+        if (history.warning) {
+          logger.warn(`History of "${page.title}": ${history.warning}`);
+        }
+
+        for (const revision of [...(page.revisions ?? [])].reverse()) {
+          const version = await notionApiService.createPage({
+            id: `${page.id}-${revision.id}`,
+            title: `${revision.title} (${OneNoteRevisionDiff.label(revision)})`,
+            content: revision.content,
+            document: revision.document,
+            parentId: history.pageId
+          });
+          if (!version.success) {
+            logger.error(`Failed to create version of "${page.title}": ${version.error || 'Unknown error'}`);
+          } else if (version.warning) {
+            logger.warn(`Version of "${page.title}": ${version.warning}`);
+          }
+        }
+      };
+
+      const createSourcePage = async (page: OneNotePage, parentPageId?: string): Promise<string | undefined> => {
+        totalPages++;
+        try {
+          // Convert page content
+          const convertedPage = await contentConverter.convertAdvancedPage(page, {
+            includeMetadata: true,
+            outputFormat: 'notion',
+            preserveTables: true,
+            preserveCodeBlocks: true,
+            handleAttachments: true,
+            convertTags: true
+          });
+
+          // Create Notion page; its Source ID lets a later import find it again
+          const result = await notionApiService.createPage({
+            id: page.id,
+            title: page.title,
+            content: convertedPage.content || '',
+            document: page.document,
+            properties: (await hierarchyMappingService.mapPageToNotionPage(page)).properties,
+            children: [],
+            parentItemId: parentPageId,
+            metadata: {
+              createdDate: page.createdDate,
+              lastModifiedDate: page.lastModifiedDate
             }
+          }, { imageTextToggles: options.imageText, layout });
+
+          if (!result.success) {
+            throw new Error(result.error || 'Unknown error');
+          }
+          if (result.warning) {
+            logger.warn(`"${page.title}": ${result.warning}`);
+          }
+
+          successCount++;
+          if (result.pageId && page.revisions?.length) {
+            await createHistoryPages(page, result.pageId);
+          }
+          logger.debug(`Created page: ${page.title} (ID: ${result.pageId})`);
+          
+          // Progress indicator
+          if (totalPages % 10 === 0) {
+            logger.info(`Progress: ${totalPages} pages processed (${successCount} successful, ${errorCount} errors)`);
+          }
+          return result.pageId;
+        } catch (error) {
+          errorCount++;
+          logger.error(`Failed to create page "${page.title}": ${error instanceof Error ? error.message : String(error)}`);
+          return undefined;
+        } finally {
+          if (assetsDirectory && !parsingOptions.concurrency) {
+            CommandHelpers.removePageAssets(page, assetsDirectory);
+          }
+        }
+      };
+
+      // Notebooks, section groups and sections become container pages, created once when first reached;
+      // anything under a container that failed to be created goes under the container's parent
+      const containers = new Map<string, string | undefined>();
+      const createContainer = async (key: string, mappedPage: NotionPage, parentPageId?: string): Promise<string | undefined> => {
+        if (!containers.has(key)) {
+          const result = await notionApiService.createPage({ ...mappedPage, children: [], parentItemId: parentPageId });
+          if (!result.success) {
+            logger.error(`Failed to create "${mappedPage.title}": ${result.error || 'Unknown error'}`);
           }
+          containers.set(key, result.success ? result.pageId : undefined);
+        }
+        return containers.get(key) ?? parentPageId;
+      };
+
+      // Subpages follow their parent page, so the pages still open to children form a stack by level
+      let parents: Array<{ level: number; notionPageId: string | undefined }> = [];
+      let sectionPageId: string | undefined;
+
+      for await (const item of items) {
+        track(item);
+        if (item.type === 'failed') {
+          continue;
         }
+        if (item.type === 'section') {
+          let parentPageId = await createContainer(item.notebook.id, await hierarchyMappingService.mapNotebookToPage(item.notebook));
+          const groupPath: string[] = [];
+          for (const group of item.sectionGroups) {
+            groupPath.push(group.name);
+            parentPageId = await createContainer(
+              `${item.notebook.id}/${groupPath.join('/')}`,
+              await hierarchyMappingService.mapSectionGroupToPage(group),
+              parentPageId
+            );
+          }
+          sectionPageId = await createContainer(item.section.id, await hierarchyMappingService.mapSectionToPage(item.section), parentPageId);
+          parents = [];
+          continue;
+        }
+
+        const level = Math.max(item.page.level ?? 1, 1);
+        while (parents.length > 0 && parents[parents.length - 1]!.level >= level) {
+          parents.pop();
+        }
+        const parentPageId = parents[parents.length - 1]?.notionPageId ?? sectionPageId;
+        parents.push({ level, notionPageId: await createSourcePage(item.page, parentPageId) ?? parentPageId });
+      }
+
+      CommandHelpers.reportNotebooks(notebooks);
+      CommandHelpers.reportProtectedSections(sections);
+      if (options.salvage) {
+        CommandHelpers.reportSalvage(sections, path.resolve('salvage-report.json'));
       }
 
       // Final summary
@@ -197,6 +340,7 @@ importCommand
       if (errorCount > 0) {
         logger.warn(`${errorCount} pages failed to import. Check logs for details.`);
       }
+      failUnreadable();
 
       CommandHelpers.logCommandSuccess('import', 'Import');
       
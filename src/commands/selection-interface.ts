@@ -1,9 +1,10 @@
-import { OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNotePage } from '../types/onenote';
+import { OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNoteSectionGroup, OneNotePage } from '../types/onenote';
+import { OneNoteHierarchyUtils } from '../services/onenote/hierarchy-utils';
 
 export interface SelectionOptions {
   interactive?: boolean;
   showMetadata?: boolean;
-  type?: 'notebooks' | 'sections' | 'pages' | 'all';
+  type?: 'notebooks' | 'sectionGroups' | 'sections' | 'pages' | 'all';
   maxDepth?: number;
 }
 
@@ -15,10 +16,17 @@ export interface SelectionResult {
 export interface SelectionSummary {
   totalItems: number;
   notebooks: number;
+  sectionGroups: number;
   sections: number;
   pages: number;
 }
 
+interface HierarchyFormatOptions {
+  checkbox: string;
+  showMetadata: boolean;
+  maxDepth: number;
+}
+
 export class SelectionInterface {
   private inputHandler?: (prompt: string) => Promise<string>;
 
@@ -48,26 +56,12 @@ export class SelectionInterface {
         output += `    Modified: ${notebook.lastModifiedDate?.toISOString() || 'Unknown'}\n`;
       }
 
+      const childOptions: HierarchyFormatOptions = { checkbox, showMetadata, maxDepth };
       for (const section of notebook.sections) {
-        if (currentDepth + 1 >= maxDepth) break;
-        
-        output += `  ${checkbox}📁 ${section.name}\n`;
-        
-        if (showMetadata) {
-          output += `      Created: ${section.createdDate?.toISOString() || 'Unknown'}\n`;
-          output += `      Modified: ${section.lastModifiedDate?.toISOString() || 'Unknown'}\n`;
-        }
-
-        for (const page of section.pages) {
-          if (currentDepth + 2 >= maxDepth) break;
-          
-          output += `    ${checkbox}📄 ${page.title}\n`;
-          
-          if (showMetadata) {
-            output += `        Created: ${page.createdDate.toISOString()}\n`;
-            output += `        Modified: ${page.lastModifiedDate.toISOString()}\n`;
-          }
-        }
+        output += this.formatSection(section, 1, currentDepth + 1, childOptions);
+      }
+      for (const group of notebook.sectionGroups ?? []) {
+        output += this.formatSectionGroup(group, 1, currentDepth + 1, childOptions);
       }
       
       output += '\n';
@@ -76,6 +70,68 @@ export class SelectionInterface {
     return output;
   }
 
+  /**
+   * Formats a section group with its sections and nested groups
+   */
+  private formatSectionGroup(
+    group: OneNoteSectionGroup,
+    indentLevel: number,
+    depth: number,
+    options: HierarchyFormatOptions
+  ): string {
+    if (depth >= options.maxDepth) return '';
+
+    const indent = '  '.repeat(indentLevel);
+    let output = `${indent}${options.checkbox}🗂️ ${group.name}\n`;
+
+    if (options.showMetadata) {
+      output += `${indent}    Created: ${group.createdDate?.toISOString() || 'Unknown'}\n`;
+      output += `${indent}    Modified: ${group.lastModifiedDate?.toISOString() || 'Unknown'}\n`;
+    }
+
+    for (const section of group.sections) {
+      output += this.formatSection(section, indentLevel + 1, depth + 1, options);
+    }
+    for (const child of group.sectionGroups) {
+      output += this.formatSectionGroup(child, indentLevel + 1, depth + 1, options);
+    }
+
+    return output;
+  }
+
+  /**
+   * Formats a section and its pages
+   */
+  private formatSection(
+    section: OneNoteSection,
+    indentLevel: number,
+    depth: number,
+    options: HierarchyFormatOptions
+  ): string {
+    if (depth >= options.maxDepth) return '';
+
+    const indent = '  '.repeat(indentLevel);
+    let output = `${indent}${options.checkbox}📁 ${section.name}\n`;
+
+    if (options.showMetadata) {
+      output += `${indent}    Created: ${section.createdDate?.toISOString() || 'Unknown'}\n`;
+      output += `${indent}    Modified: ${section.lastModifiedDate?.toISOString() || 'Unknown'}\n`;
+    }
+
+    for (const page of section.pages) {
+      if (depth + 1 >= options.maxDepth) break;
+
+      output += `${indent}  ${options.checkbox}📄 ${page.title}\n`;
+
+      if (options.showMetadata) {
+        output += `${indent}      Created: ${page.createdDate.toISOString()}\n`;
+        output += `${indent}      Modified: ${page.lastModifiedDate.toISOString()}\n`;
+      }
+    }
+
+    return output;
+  }
+
   /**
    * Allows interactive selection of items from the hierarchy
    */
@@ -100,7 +156,11 @@ export class SelectionInterface {
         allItems.push(notebook);
       }
 
-      for (const section of notebook.sections) {
+      if (type === 'sectionGroups') {
+        allItems.push(...OneNoteHierarchyUtils.getAllSectionGroups(notebook));
+      }
+
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         if (type === 'sections') {
           allItems.push(section);
         }
@@ -157,7 +217,11 @@ export class SelectionInterface {
     for (const notebook of hierarchy.notebooks) {
       items.set(notebook.id, notebook);
 
-      for (const section of notebook.sections) {
+      for (const group of OneNoteHierarchyUtils.getAllSectionGroups(notebook)) {
+        items.set(group.id, group);
+      }
+
+      for (const section of OneNoteHierarchyUtils.getAllSections(notebook)) {
         items.set(section.id, section);
 
         for (const page of section.pages) {
@@ -198,6 +262,7 @@ export class SelectionInterface {
   getSelectionSummary(selectedIds: string[], hierarchy: OneNoteHierarchy): SelectionSummary {
     const allItems = this.getAllItemsById(hierarchy);
     let notebooks = 0;
+    let sectionGroups = 0;
     let sections = 0;
     let pages = 0;
 
@@ -206,17 +271,22 @@ export class SelectionInterface {
       if (item) {
         // Determine item type by checking the hierarchy structure
         const isNotebook = hierarchy.notebooks.some(nb => nb.id === id);
+        const isSectionGroup = hierarchy.notebooks.some(nb =>
+          OneNoteHierarchyUtils.getAllSectionGroups(nb).some(group => group.id === id)
+        );
         const isSection = hierarchy.notebooks.some(nb => 
-          nb.sections.some(section => section.id === id)
+          OneNoteHierarchyUtils.getAllSections(nb).some(section => section.id === id)
         );
         const isPage = hierarchy.notebooks.some(nb => 
-          nb.sections.some(section => 
+          OneNoteHierarchyUtils.getAllSections(nb).some(section => 
             section.pages.some(page => page.id === id)
           )
         );
 
         if (isNotebook) {
           notebooks++;
+        } else if (isSectionGroup) {
+          sectionGroups++;
         } else if (isSection) {
           sections++;
         } else if (isPage) {
@@ -228,6 +298,7 @@ export class SelectionInterface {
     return {
       totalItems: selectedIds.length,
       notebooks,
+      sectionGroups,
       sections,
       pages
     };
@@ -41,6 +41,7 @@ export class ElectronApp {
 
   constructor() {
     this.importService = new GuiImportService();
+    this.importService.setProgressCallback(progress => this.mainWindow?.webContents.send('import-progress', progress));
   }
 
   /**
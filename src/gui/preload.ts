@@ -18,6 +18,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Environment configuration
   loadEnvConfig: () => ipcRenderer.invoke('load-env-config'),
 
+  // Progress of file processing and imports
+  onImportProgress: (callback: (progress: any) => void) =>
+    ipcRenderer.on('import-progress', (_event, progress) => callback(progress)),
+
   // Menu events
   onMenuOpenFile: (callback: () => void) => ipcRenderer.on('menu-open-file', callback),
   onMenuExportSettings: (callback: () => void) => ipcRenderer.on('menu-export-settings', callback),
@@ -41,6 +45,7 @@ declare global {
       getConfig: (key: string) => Promise<any>;
       setConfig: (key: string, value: any) => Promise<any>;
       loadEnvConfig: () => Promise<any>;
+      onImportProgress: (callback: (progress: any) => void) => void;
       onMenuOpenFile: (callback: () => void) => void;
       onMenuExportSettings: (callback: () => void) => void;
       onMenuAbout: (callback: () => void) => void;
@@ -13,6 +13,7 @@ const App: React.FC = () => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [config, setConfig] = useState<any>({});
   const [currentFilePath, setCurrentFilePath] = useState<string>('');
+  const [progress, setProgress] = useState<{ value: number; message?: string }>({ value: 0 });
 
   useEffect(() => {
     // Load initial configuration from .env file
@@ -30,8 +31,18 @@ const App: React.FC = () => {
     loadInitialConfig();
   }, []);
 
+  useEffect(() => {
+    // Sections are parsed in parallel in the main process, which reports each one as it finishes
+    window.electronAPI?.onImportProgress((update: { progress: number; currentStep: string }) => {
+      setProgress({ value: update.progress, message: update.currentStep });
+    });
+
+    return () => window.electronAPI?.removeAllListeners('import-progress');
+  }, []);
+
   const handleFileSelected = async (filePath: string) => {
     setProcessingStatus('processing');
+    setProgress({ value: 0 });
     setCurrentFilePath(filePath);
     setLogs((prev: LogEntry[]) => [...prev, { level: 'info', message: `Processing file: ${filePath}`, timestamp: new Date() }]);
     
@@ -134,7 +145,7 @@ const App: React.FC = () => {
         </div>
 
         <div className="right-panel">
-          <ProgressIndicator status={processingStatus} />
+          <ProgressIndicator status={processingStatus} progress={progress.value} {...(progress.message ? { message: progress.message } : {})} />
           <LogViewer logs={logs} />
         </div>
       </main>
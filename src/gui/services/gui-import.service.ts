@@ -1,7 +1,12 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { OneNoteService } from '../../services/onenote/onenote.service';
 import { NotionApiService } from '../../services/notion/notion-api.service';
 import { HierarchyMappingService } from '../../services/notion/hierarchy-mapping.service';
 import { AdvancedContentConverterService } from '../../services/onenote/advanced-content-converter.service';
+import { OneNoteHierarchyUtils } from '../../services/onenote/hierarchy-utils';
+import { OneNoteSectionParserPool } from '../../services/onenote/section-parser-pool';
 import { AutoSetupService } from '../../services/notion/auto-setup.service';
 import { ConfigService } from '../../services/config.service';
 import { OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNotePage } from '../../types/onenote';
@@ -84,6 +89,8 @@ export class GuiImportService {
    * Processes a OneNote file and returns the hierarchy
    */
   async processFile(filePath: string): Promise<{ success: boolean; hierarchy?: OneNoteHierarchy; error?: string }> {
+    // Only page text is kept from the file, so extracted images are removed once it is processed
+    const assetsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-assets-'));
     try {
       this.updateProgress({
         status: 'processing',
@@ -96,11 +103,30 @@ export class GuiImportService {
         errors: []
       });
 
+      // Sections are parsed in worker threads, each finished one moving the progress bar
+      const config = await this.configService.loadConfig();
       const extractionResult = await this.oneNoteService.processFiles([filePath], {
         includeMetadata: true,
         extractImages: true,
+        assetsDirectory,
         preserveFormatting: true,
-        fallbackOnError: true
+        fallbackOnError: true,
+        // Values set with "oni config set" are stored as strings
+        concurrency: Number(config.onenote?.concurrency) || OneNoteSectionParserPool.DEFAULT_CONCURRENCY,
+        ...(config.onenote?.timeout ? { timeout: Number(config.onenote.timeout) } : {}),
+        onProgress: progress => {
+          const parsed = progress.completed + progress.failed;
+          this.updateProgress({
+            status: 'processing',
+            currentStep: `Parsed ${parsed} of ${progress.total} sections...`,
+            progress: progress.total > 0 ? Math.round((parsed / progress.total) * 100) : 0,
+            totalPages: 0,
+            processedPages: 0,
+            successCount: progress.completed,
+            errorCount: progress.failed,
+            errors: []
+          });
+        }
       });
 
       if (!extractionResult.success) {
@@ -111,12 +137,12 @@ export class GuiImportService {
         throw new Error('No hierarchy data extracted from OneNote files');
       }
 
-      // Convert to correct hierarchy format
+      // Convert to correct hierarchy format; the GUI lists sections from every section group flat
       const guiHierarchy: OneNoteHierarchy = {
         notebooks: extractionResult.hierarchy.notebooks.map(nb => ({
           id: nb.id,
           name: nb.name,
-          sections: nb.sections.map(section => ({
+          sections: OneNoteHierarchyUtils.getAllSections(nb).map(section => ({
             id: section.id,
             name: section.name,
             pages: section.pages.map(page => ({
@@ -136,9 +162,8 @@ export class GuiImportService {
           metadata: nb.metadata || {}
         })),
         totalNotebooks: extractionResult.hierarchy.notebooks.length,
-        totalSections: extractionResult.hierarchy.notebooks.reduce((sum, nb) => sum + nb.sections.length, 0),
-        totalPages: extractionResult.hierarchy.notebooks.reduce((sum, nb) => 
-          sum + nb.sections.reduce((sectionSum, section) => sectionSum + section.pages.length, 0), 0)
+        totalSections: extractionResult.hierarchy.notebooks.reduce((sum, nb) => sum + OneNoteHierarchyUtils.countSections(nb), 0),
+        totalPages: extractionResult.hierarchy.notebooks.reduce((sum, nb) => sum + OneNoteHierarchyUtils.countPages(nb), 0)
       };
 
       this.updateProgress({
@@ -173,6 +198,8 @@ export class GuiImportService {
         success: false,
         error: errorMessage
       };
+    } finally {
+      fs.rmSync(assetsDirectory, { recursive: true, force: true });
     }
   }
 
@@ -23,6 +23,18 @@ export interface AppConfig {
     level: 'error' | 'warn' | 'info' | 'debug';
     file: string;
   };
+  /** Passwords of protected sections, keyed by section name, file name or path inside the package */
+  passwords?: Record<string, string>;
+  onenote?: OneNoteConfig;
+}
+
+export interface OneNoteConfig {
+  /** Memory ceiling in bytes: larger sections are read from disk as needed instead of whole */
+  maxFileSize?: number;
+  /** Sections parsed at once in worker threads */
+  concurrency?: number;
+  /** Milliseconds a section may take to parse before it is reported as failed */
+  timeout?: number;
 }
 
 export class ConfigService {
@@ -169,6 +181,8 @@ export class ConfigService {
       notion: { ...defaultConfig.notion, ...userConfig.notion },
       export: { ...defaultConfig.export, ...userConfig.export },
       logging: { ...defaultConfig.logging, ...userConfig.logging },
+      ...(userConfig.passwords ? { passwords: { ...userConfig.passwords } } : {}),
+      ...(userConfig.onenote ? { onenote: { ...userConfig.onenote } } : {}),
     };
   }
 
@@ -3,7 +3,8 @@
  * Maps OneNote hierarchy to Notion structure
  */
 
-import { OneNoteNotebook, OneNoteSection, OneNotePage } from '../../types/onenote';
+import { OneNoteNotebook, OneNoteSection, OneNoteSectionGroup, OneNotePage } from '../../types/onenote';
+import { OneNoteHierarchyUtils, OneNotePageNode } from '../onenote/hierarchy-utils';
 import { NotionPage } from './notion-api.service';
 
 // Re-export NotionPage for external use
@@ -54,6 +55,14 @@ export interface IHierarchyMappingService {
    */
   createDatabaseStructure(notebooks: OneNoteNotebook[], options: HierarchyMappingOptions): Promise<string[]>;
 
+  /**
+   * Map notebook to Notion page with its sections and section groups as children
+   * @param notebook OneNote notebook
+   * @param options Mapping options
+   * @returns Notion page structure
+   */
+  mapNotebookToPage(notebook: OneNoteNotebook, options?: HierarchyMappingOptions): Promise<NotionPage>;
+
   /**
    * Map section to Notion page with children
    * @param section OneNote section
@@ -63,6 +72,15 @@ export interface IHierarchyMappingService {
    */
   mapSectionToPage(section: OneNoteSection, parentId?: string, options?: HierarchyMappingOptions): Promise<NotionPage>;
 
+  /**
+   * Map section group to Notion page with its sections and nested groups as children
+   * @param group OneNote section group
+   * @param parentId Parent page ID
+   * @param options Mapping options
+   * @returns Notion page structure
+   */
+  mapSectionGroupToPage(group: OneNoteSectionGroup, parentId?: string, options?: HierarchyMappingOptions): Promise<NotionPage>;
+
   /**
    * Map page to Notion page
    * @param page OneNote page
@@ -140,6 +158,17 @@ export class HierarchyMappingService implements IHierarchyMappingService {
     return databaseIds;
   }
 
+  async mapNotebookToPage(notebook: OneNoteNotebook, options?: HierarchyMappingOptions): Promise<NotionPage> {
+    const notebookPage = this.createNotebookPage(notebook);
+    notebookPage.children = await this.mapSectionContainer(
+      notebook.sections,
+      notebook.sectionGroups ?? [],
+      notebook.id,
+      options ?? {}
+    );
+    return notebookPage;
+  }
+
   async mapSectionToPage(section: OneNoteSection, parentId?: string, options?: HierarchyMappingOptions): Promise<NotionPage> {
     const sectionPage: NotionPage = {
       id: section.id,
@@ -148,38 +177,57 @@ export class HierarchyMappingService implements IHierarchyMappingService {
       parentId: parentId || undefined,
       properties: {
         'Type': 'Section',
+        'Source ID': section.id,
         'Created Date': section.createdDate,
-        'Last Modified': section.lastModifiedDate
+        'Last Modified': section.lastModifiedDate,
+        ...(section.color ? { 'Color': section.color } : {})
       },
       metadata: section.metadata
     };
 
-    // Map pages within the section with depth limit
-    const pageChildren: NotionPage[] = [];
-    const maxDepth = options?.maxDepth || 10;
-    if (maxDepth > 1) {
-      for (const page of section.pages) {
-        const notionPage = await this.mapPageToNotionPage(page, section.id, { ...options, maxDepth: maxDepth - 1 });
-        pageChildren.push(notionPage);
-      }
-    }
-
-    sectionPage.children = pageChildren;
+    // Map pages within the section with depth limit, nesting subpages under their parent page
+    sectionPage.children = await this.mapPageNodes(
+      OneNoteHierarchyUtils.getPageTree(section.pages),
+      section.id,
+      options?.maxDepth || 10,
+      options
+    );
     return sectionPage;
   }
 
+  async mapSectionGroupToPage(group: OneNoteSectionGroup, parentId?: string, options?: HierarchyMappingOptions): Promise<NotionPage> {
+    const groupPage: NotionPage = {
+      id: group.id,
+      title: group.name,
+      content: `Section Group: ${group.name}`,
+      parentId: parentId || undefined,
+      properties: {
+        'Type': 'Section Group',
+        'Source ID': group.id,
+        'Created Date': group.createdDate,
+        'Last Modified': group.lastModifiedDate,
+        ...(group.color ? { 'Color': group.color } : {})
+      },
+      metadata: group.metadata
+    };
+
+    groupPage.children = await this.mapSectionContainer(group.sections, group.sectionGroups, group.id, options ?? {});
+    return groupPage;
+  }
+
   async mapPageToNotionPage(page: OneNotePage, parentId?: string, options?: HierarchyMappingOptions): Promise<NotionPage> {
     return {
       id: page.id,
       title: page.title,
       content: page.content,
+      document: page.document,
       parentId: parentId || undefined,
       properties: {
         'Type': 'Page',
+        'Source ID': page.id,
         'Created Date': page.createdDate,
         'Last Modified': page.lastModifiedDate,
-        'Author': page.metadata?.author || 'Unknown',
-        ...page.metadata
+        'Author': page.metadata?.author || 'Unknown'
       },
       metadata: page.metadata
     };
@@ -251,9 +299,7 @@ export class HierarchyMappingService implements IHierarchyMappingService {
   private countPages(notebooks: OneNoteNotebook[]): number {
     let count = 0;
     for (const notebook of notebooks) {
-      for (const section of notebook.sections) {
-        count += section.pages.length;
-      }
+      count += OneNoteHierarchyUtils.countPages(notebook);
     }
     return count;
   }
@@ -261,7 +307,7 @@ export class HierarchyMappingService implements IHierarchyMappingService {
   private countSections(notebooks: OneNoteNotebook[]): number {
     let count = 0;
     for (const notebook of notebooks) {
-      count += notebook.sections.length;
+      count += OneNoteHierarchyUtils.countSections(notebook);
     }
     return count;
   }
@@ -278,10 +324,7 @@ export class HierarchyMappingService implements IHierarchyMappingService {
         notebooks.length
       );
 
-      const notebookPage = this.createNotebookPage(notebook);
-      const sectionPages = await this.mapSections(notebook.sections, notebook.id, options);
-      notebookPage.children = sectionPages;
-      pages.push(notebookPage);
+      pages.push(await this.mapNotebookToPage(notebook, options));
     }
 
     return pages;
@@ -294,6 +337,7 @@ export class HierarchyMappingService implements IHierarchyMappingService {
       content: `Notebook: ${notebook.name}`,
       properties: {
         'Type': 'Notebook',
+        'Source ID': notebook.id,
         'Created Date': notebook.createdDate,
         'Last Modified': notebook.lastModifiedDate
       },
@@ -301,18 +345,55 @@ export class HierarchyMappingService implements IHierarchyMappingService {
     };
   }
 
-  private async mapSections(sections: OneNoteSection[], parentId: string, options: HierarchyMappingOptions): Promise<NotionPage[]> {
-    const sectionPages: NotionPage[] = [];
+  /**
+   * Map pages and their subpages, one depth level per page level
+   */
+  private async mapPageNodes(
+    nodes: OneNotePageNode[],
+    parentId: string,
+    maxDepth: number,
+    options?: HierarchyMappingOptions
+  ): Promise<NotionPage[]> {
+    const pages: NotionPage[] = [];
+    if (maxDepth <= 1) {
+      return pages;
+    }
+
+    for (const node of nodes) {
+      const notionPage = await this.mapPageToNotionPage(node.page, parentId, { ...options, maxDepth: maxDepth - 1 });
+      if (node.children.length > 0) {
+        notionPage.children = await this.mapPageNodes(node.children, node.page.id, maxDepth - 1, options);
+      }
+      pages.push(notionPage);
+    }
+
+    return pages;
+  }
+
+  /**
+   * Map the sections and section groups directly under a notebook or section group
+   */
+  private async mapSectionContainer(
+    sections: OneNoteSection[],
+    sectionGroups: OneNoteSectionGroup[],
+    parentId: string,
+    options: HierarchyMappingOptions
+  ): Promise<NotionPage[]> {
+    const childPages: NotionPage[] = [];
     const maxDepth = options.maxDepth || 10;
     
     if (maxDepth > 1) {
       for (const section of sections) {
         const sectionPage = await this.mapSectionToPage(section, parentId, { ...options, maxDepth: maxDepth - 1 });
-        sectionPages.push(sectionPage);
+        childPages.push(sectionPage);
+      }
+      for (const group of sectionGroups) {
+        const groupPage = await this.mapSectionGroupToPage(group, parentId, { ...options, maxDepth: maxDepth - 1 });
+        childPages.push(groupPage);
       }
     }
 
-    return sectionPages;
+    return childPages;
   }
 
   private createSuccessResult(
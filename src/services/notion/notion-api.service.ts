@@ -6,6 +6,48 @@
 import { Client } from '@notionhq/client';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  OneNoteBlock,
+  OneNoteDocument,
+  OneNoteFileBlock,
+  OneNoteNoteTag,
+  OneNoteRecording,
+  OneNoteTableBlock,
+  OneNoteTextRun
+} from '../../types/document';
+import { OneNoteAssetStore } from '../onenote/asset-store';
+import { IMAGE_TEXT_SUMMARY, OneNoteDocumentRenderer } from '../onenote/document-renderer';
+import { OneNoteLayoutMode, OneNoteLayoutResolver } from '../onenote/layout-resolver';
+
+/** Multi-select database property collecting the note tags used on a page */
+const TAGS_PROPERTY = 'Tags';
+/** Longest text Notion accepts in one rich text object */
+const MAX_RICH_TEXT_LENGTH = 2000;
+/** Extensions Notion plays in audio and video blocks; other recordings become file blocks */
+const AUDIO_BLOCK_TYPES = ['.mp3', '.wav', '.ogg', '.oga', '.m4a'];
+const VIDEO_BLOCK_TYPES = ['.amv', '.asf', '.wmv', '.avi', '.f4v', '.flv', '.gifv', '.m4v', '.mp4', '.mkv', '.webm', '.mov', '.qt', '.mpeg'];
+/** Largest file Notion accepts in a single part upload; larger files are sent in parts */
+const MAX_SINGLE_PART_SIZE = 20 * 1024 * 1024;
+/** Size of each part of a multi-part upload; Notion takes parts of 5 to 20 MB, the last one smaller */
+const UPLOAD_PART_SIZE = 10 * 1024 * 1024;
+/** Most blocks Notion takes in one children array */
+const MAX_BLOCKS_PER_REQUEST = 100;
+/** Levels of children Notion takes below the blocks sent in one request */
+const MAX_NESTING_PER_REQUEST = 2;
+/** Blocks Notion only creates together with their children */
+const CHILDREN_REQUIRED = ['table', 'column_list', 'column'];
+/** Text database property holding the stable ID of the OneNote item a page was imported from */
+const SOURCE_ID_PROPERTY = 'Source ID';
+/** Relation from a database entry to the entry it is nested under, as in Notion's sub-items */
+const PARENT_ITEM_PROPERTY = 'Parent item';
+/** Database columns for the properties the hierarchy mapping sets on notebook, section group, section and page entries */
+const HIERARCHY_PROPERTIES: Record<string, any> = {
+  'Type': { rich_text: {} },
+  'Created Date': { date: {} },
+  'Last Modified': { date: {} },
+  'Color': { rich_text: {} },
+  'Author': { rich_text: {} }
+};
 
 export interface NotionConfig {
   integrationToken: string;
@@ -20,9 +62,13 @@ export interface NotionPage {
   id: string;
   title: string;
   content: string;
+  /** Structured page body; when present it is converted instead of the markdown content */
+  document?: OneNoteDocument | undefined;
   properties?: Record<string, any> | undefined;
   children?: NotionPage[] | undefined;
   parentId?: string | undefined;
+  /** Database entry the page is nested under through the parent item relation; unlike parentId, the page stays in the database with its properties */
+  parentItemId?: string | undefined;
   metadata?: Record<string, any> | undefined;
 }
 
@@ -46,6 +92,8 @@ export interface NotionImportResult {
   url?: string;
   children?: NotionImportResult[];
   error?: string;
+  /** Set when the page was created but part of its content could not be added to it */
+  warning?: string;
   metadata?: {
     processingTime: number;
     itemsProcessed: number;
@@ -57,6 +105,10 @@ export interface NotionApiOptions {
   timeout?: number;
   retries?: number;
   rateLimitDelay?: number;
+  /** Add the text recognized in pictures and printouts below them as a toggle block */
+  imageTextToggles?: boolean;
+  /** Lay out outlines that sit side by side on the page as columns instead of one after another */
+  layout?: OneNoteLayoutMode;
   onProgress?: (progress: NotionProgress) => void;
 }
 
@@ -68,6 +120,35 @@ export interface NotionProgress {
   totalItems?: number;
 }
 
+interface RichTextAnnotations {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  color?: string;
+}
+
+/**
+ * Blocks that fit in one request, and the blocks left for later requests
+ */
+interface BlockBatch {
+  blocks: any[];
+  /** Blocks after the batch, to be appended to the same parent */
+  rest: any[];
+  /** Children left out of the batch, by the path of the sent block they belong under */
+  deferred: Array<{ path: number[]; blocks: any[] }>;
+}
+
+interface InlineSpan {
+  content: string;
+  annotations: RichTextAnnotations;
+  link?: string;
+  /** Code spans keep their content as-is */
+  literal?: boolean;
+  end: number;
+}
+
 export interface INotionApiService {
   /**
    * Initialize the Notion API service
@@ -105,7 +186,7 @@ export interface INotionApiService {
 
   /**
    * Create a new page in Notion
-   * @param page Page data to create
+   * @param page Page data to create; a parentId nests it under that Notion page instead of the database, a parentItemId under that entry of the database
    * @param options API options
    * @returns Promise<NotionImportResult>
    */
@@ -115,9 +196,10 @@ export interface INotionApiService {
    * Upload file to Notion
    * @param filePath Path to file to upload
    * @param options API options
+   * @param fileName Name the file is shown with in Notion; defaults to the base name of filePath
    * @returns Promise<NotionUploadResult>
    */
-  uploadFile(filePath: string, options?: NotionApiOptions): Promise<NotionUploadResult>;
+  uploadFile(filePath: string, options?: NotionApiOptions, fileName?: string): Promise<NotionUploadResult>;
 
   /**
    * Create nested page structure
@@ -342,24 +424,59 @@ export class NotionApiService implements INotionApiService {
         }
       };
 
-      // Add custom properties
-      if (page.properties) {
+      // Add custom properties; pages nested under another page only take a title, the rest are database columns
+      if (page.properties && !page.parentId) {
         Object.entries(page.properties).forEach(([key, value]) => {
           properties[key] = this.convertPropertyValue(value);
         });
       }
 
-      // Create page
-      const response = await this.client.pages.create({
-        parent: {
-          database_id: this.config.databaseId || 'default-database'
-        },
+      if (page.parentItemId && !page.parentId) {
+        properties[PARENT_ITEM_PROPERTY] = { relation: [{ id: page.parentItemId }] };
+      }
+
+      // Note tags are collected into the tags property of pages created in the database
+      const tags = page.document ? OneNoteDocumentRenderer.collectTags(page.document) : [];
+      if (!page.parentId && tags.length > 0 && !(TAGS_PROPERTY in properties)) {
+        // Commas are not allowed in select option names
+        properties[TAGS_PROPERTY] = { multi_select: tags.map(tag => ({ name: tag.name.replace(/,/g, ' ') })) };
+      }
+
+      // Local images and files are uploaded first so the blocks can reference them
+      const uploads = page.document ? await this.uploadDocumentFiles(page.document) : new Map<string, string>();
+
+      const blocks = page.document
+        ? this.convertDocumentToBlocks(
+          OneNoteLayoutResolver.resolve(page.document, options?.layout ?? 'flat'),
+          uploads,
+          options?.imageTextToggles
+        )
+        : this.convertContentToBlocks(page.content);
+      const batch = this.batchBlocks(blocks);
+
+      // Create page, nested under its parent page when one is given; only the request is sent again when rate
+      // limited, so the page's files are uploaded once
+      const response = await this.sendWithRateLimit(() => this.client!.pages.create({
+        parent: page.parentId
+          ? { page_id: page.parentId }
+          : { database_id: this.config!.databaseId || 'default-database' },
         properties,
-        children: this.convertContentToBlocks(page.content)
-      });
+        children: batch.blocks
+      }), () => retryCount++);
 
       this.apiStats.requestsMade++;
 
+      // Content past Notion's per-request limits is appended to the page once it exists. The page is returned
+      // even when that fails, so it is not created a second time by a retry
+      let warning: string | undefined;
+      try {
+        await this.appendDeferredBlocks(response.id, batch.deferred);
+        await this.appendBlocks(response.id, batch.rest);
+      } catch (error) {
+        this.apiStats.errors++;
+        warning = `Page created without all of its content: ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+      }
+
       // Report progress
       this.reportProgress(options, 'page-creation', 100, 'Page created successfully');
 
@@ -367,6 +484,7 @@ export class NotionApiService implements INotionApiService {
         success: true,
         pageId: response.id,
         url: `https://notion.so/${response.id}`,
+        ...(warning ? { warning } : {}),
         metadata: {
           processingTime: Date.now() - startTime,
           itemsProcessed: 1,
@@ -375,13 +493,6 @@ export class NotionApiService implements INotionApiService {
       };
     } catch (error) {
       this.apiStats.errors++;
-      retryCount++;
-
-      // Handle rate limiting
-      if (this.isRateLimitError(error)) {
-        await this.handleRateLimit();
-        return this.createPage(page, options);
-      }
 
       return {
         success: false,
@@ -395,7 +506,7 @@ export class NotionApiService implements INotionApiService {
     }
   }
 
-  async uploadFile(filePath: string, options?: NotionApiOptions): Promise<NotionUploadResult> {
+  async uploadFile(filePath: string, options?: NotionApiOptions, fileName: string = path.basename(filePath)): Promise<NotionUploadResult> {
     if (!this.client || !this.config) {
       throw new Error('Service not initialized');
     }
@@ -411,7 +522,12 @@ export class NotionApiService implements INotionApiService {
 
       // Check file type
       const ext = path.extname(filePath).toLowerCase();
-      const supportedTypes = ['.jpg', '.jpeg', '.png', '.gif', '.pdf', '.doc', '.docx', '.txt'];
+      const supportedTypes = [
+        '.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.bmp', '.tif', '.tiff',
+        '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.csv', '.txt',
+        '.aac', '.mp3', '.m4a', '.oga', '.ogg', '.wav', '.wma',
+        '.asf', '.wmv', '.avi', '.flv', '.m4v', '.mp4', '.mkv', '.webm', '.mov', '.mpeg'
+      ];
       
       if (!supportedTypes.includes(ext)) {
         return {
@@ -423,23 +539,48 @@ export class NotionApiService implements INotionApiService {
       // Report progress
       this.reportProgress(options, 'file-upload', 10, 'Uploading file...');
 
-      // Read file
-      const fileBuffer = fs.readFileSync(filePath);
-      const fileName = path.basename(filePath);
-
-      // Upload file (simplified - in reality, you'd need to upload to a file hosting service)
-      const mockFileId = `file_${Date.now()}`;
-      const mockUrl = `https://notion.so/${mockFileId}`;
+      const contentType = OneNoteAssetStore.mimeTypeOf(fileName);
+      const size = fs.statSync(filePath).size;
+
+      // Files up to 20MB are sent in a single part, larger ones in parts read from disk one at a time
+      const parts = size > MAX_SINGLE_PART_SIZE ? Math.ceil(size / UPLOAD_PART_SIZE) : 1;
+      const upload = await this.client.fileUploads.create(parts > 1
+        ? { mode: 'multi_part', filename: fileName, content_type: contentType, number_of_parts: parts }
+        : { mode: 'single_part', filename: fileName, content_type: contentType });
+
+      if (parts > 1) {
+        const fd = fs.openSync(filePath, 'r');
+        try {
+          for (let part = 0; part < parts; part++) {
+            const data = Buffer.alloc(Math.min(UPLOAD_PART_SIZE, size - part * UPLOAD_PART_SIZE));
+            fs.readSync(fd, data, 0, data.length, part * UPLOAD_PART_SIZE);
+            await this.client.fileUploads.send({
+              file_upload_id: upload.id,
+              file: { filename: fileName, data: new Blob([data], { type: contentType }) },
+              part_number: String(part + 1)
+            });
+            this.reportProgress(options, 'file-upload', 10 + Math.round(((part + 1) / parts) * 80), `Uploaded part ${part + 1} of ${parts}...`);
+          }
+        } finally {
+          fs.closeSync(fd);
+        }
+        await this.client.fileUploads.complete({ file_upload_id: upload.id });
+      } else {
+        await this.client.fileUploads.send({
+          file_upload_id: upload.id,
+          file: { filename: fileName, data: new Blob([fs.readFileSync(filePath)], { type: contentType }) }
+        });
+      }
 
-      this.apiStats.requestsMade++;
+      this.apiStats.requestsMade += parts > 1 ? parts + 2 : 2;
 
       // Report progress
       this.reportProgress(options, 'file-upload', 100, 'File uploaded successfully');
 
       return {
         success: true,
-        url: mockUrl,
-        fileId: mockFileId
+        url: upload.upload_url ?? `https://api.notion.com/v1/file_uploads/${upload.id}`,
+        fileId: upload.id
       };
     } catch (error) {
       this.apiStats.errors++;
@@ -476,9 +617,10 @@ export class NotionApiService implements INotionApiService {
         const parentResult = await this.createPage(page, options);
         results.push(parentResult);
 
-        // Create child pages if they exist
+        // Create child pages under the page that was just created
         if (page.children && page.children.length > 0) {
-          const childResults = await this.createPageHierarchy(page.children, options);
+          const children = page.children.map(child => ({ ...child, parentId: parentResult.pageId }));
+          const childResults = await this.createPageHierarchy(children, options);
           parentResult.children = childResults;
         }
       }
@@ -502,17 +644,16 @@ export class NotionApiService implements INotionApiService {
     }
 
     try {
-      // Update database properties for OneNote import
+      // Add the columns OneNote import fills in, leaving the database's name and other columns alone
       await this.client.databases.update({
         database_id: databaseId,
-        title: [
-          {
-            text: {
-              content: 'OneNote Import Database'
-            }
-          }
-        ]
-      });
+        properties: {
+          ...HIERARCHY_PROPERTIES,
+          [PARENT_ITEM_PROPERTY]: { relation: { database_id: databaseId, single_property: {} } },
+          [TAGS_PROPERTY]: { multi_select: {} },
+          [SOURCE_ID_PROPERTY]: { rich_text: {} }
+        }
+      } as any);
 
       this.apiStats.requestsMade++;
       return true;
@@ -579,6 +720,307 @@ export class NotionApiService implements INotionApiService {
     };
   }
 
+  /**
+   * Upload the local files referenced by image and file blocks, keyed by their src.
+   * Files that fail to upload are left out and fall back to placeholder text
+   */
+  private async uploadDocumentFiles(document: OneNoteDocument): Promise<Map<string, string>> {
+    const uploads = new Map<string, string>();
+
+    for (const block of OneNoteDocumentRenderer.flattenBlocks(document.blocks)) {
+      if ((block.type === 'image' || block.type === 'file') && block.src && !/^https?:\/\//.test(block.src) && !uploads.has(block.src)) {
+        // Attachments keep their original name, with the stored file's extension when the name has none,
+        // such as recordings; extracted files are stored under a content hash
+        const fileName = block.type === 'file'
+          ? `${block.name}${path.extname(block.name) ? '' : path.extname(block.src)}`
+          : undefined;
+        const result = await this.uploadFile(block.src, undefined, fileName);
+        if (result.success && result.fileId) {
+          uploads.set(block.src, result.fileId);
+        }
+      }
+    }
+
+    return uploads;
+  }
+
+  /**
+   * Convert document blocks into Notion blocks; list items carry their nested blocks as children.
+   * Images and files whose src was uploaded reference the upload by id
+   */
+  private convertDocumentToBlocks(blocks: OneNoteBlock[], uploads: Map<string, string> = new Map(), imageTextToggles = false): any[] {
+    const notionBlocks: any[] = [];
+
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'heading': {
+          const type = `heading_${Math.min(block.level, 3)}`;
+          notionBlocks.push({ type, [type]: { rich_text: this.convertRuns(block.runs, block.tags) } });
+          break;
+        }
+        case 'paragraph':
+          if (block.runs.some(run => run.text.trim().length > 0)) {
+            notionBlocks.push({ type: 'paragraph', paragraph: { rich_text: this.convertRuns(block.runs, block.tags) } });
+          }
+          break;
+        case 'list': {
+          const type = block.ordered ? 'numbered_list_item' : 'bulleted_list_item';
+          for (const item of block.items) {
+            const children = this.convertDocumentToBlocks(item.children, uploads, imageTextToggles);
+            notionBlocks.push({
+              type,
+              [type]: children.length > 0
+                ? { rich_text: this.convertRuns(item.runs, item.tags), children }
+                : { rich_text: this.convertRuns(item.runs, item.tags) }
+            });
+          }
+          break;
+        }
+        case 'table':
+          if (block.rows.length > 0) {
+            notionBlocks.push(this.convertTable(block));
+          }
+          break;
+        case 'image': {
+          const uploadId = block.src ? uploads.get(block.src) : undefined;
+          const caption = block.alt ? { caption: this.createLongRichText(block.alt) } : {};
+          if (uploadId) {
+            notionBlocks.push({ type: 'image', image: { type: 'file_upload', file_upload: { id: uploadId }, ...caption } });
+          } else {
+            notionBlocks.push(block.src && /^https?:\/\//.test(block.src)
+              ? { type: 'image', image: { type: 'external', external: { url: block.src }, ...caption } }
+              : { type: 'paragraph', paragraph: { rich_text: [this.createRichText(`🖼️ ${block.alt?.replace(/\s+/g, ' ') ?? block.name ?? 'Image'}`, {})] } });
+          }
+          if (imageTextToggles && block.ocrText) {
+            notionBlocks.push(this.convertImageText(block.ocrText));
+          }
+          break;
+        }
+        case 'file': {
+          const uploadId = block.src ? uploads.get(block.src) : undefined;
+          if (block.recording) {
+            notionBlocks.push(this.convertRecording(block, block.recording, uploadId));
+          } else if (uploadId) {
+            notionBlocks.push({ type: 'file', file: { type: 'file_upload', file_upload: { id: uploadId }, name: block.name } });
+          } else {
+            notionBlocks.push(block.src && /^https?:\/\//.test(block.src)
+              ? { type: 'file', file: { type: 'external', external: { url: block.src }, name: block.name } }
+              : { type: 'paragraph', paragraph: { rich_text: [this.createRichText(`📎 ${block.name}`, {})] } });
+          }
+          break;
+        }
+        case 'todo':
+          notionBlocks.push({ type: 'to_do', to_do: { rich_text: this.convertRuns(block.runs, block.tags), checked: block.checked } });
+          break;
+        case 'code':
+          notionBlocks.push({
+            type: 'code',
+            code: { rich_text: [this.createRichText(block.text, {})], language: block.language || 'plain text' }
+          });
+          break;
+        case 'equation':
+          notionBlocks.push({ type: 'equation', equation: { expression: block.expression } });
+          break;
+        case 'divider':
+          notionBlocks.push({ type: 'divider', divider: {} });
+          break;
+        case 'columns':
+          // Every column needs at least one block
+          notionBlocks.push({
+            type: 'column_list',
+            column_list: {
+              children: block.columns.map(column => {
+                const children = this.convertDocumentToBlocks(column, uploads, imageTextToggles);
+                return {
+                  type: 'column',
+                  column: { children: children.length > 0 ? children : [{ type: 'paragraph', paragraph: { rich_text: [] } }] }
+                };
+              })
+            }
+          });
+          break;
+      }
+    }
+
+    return notionBlocks;
+  }
+
+  /**
+   * Take the leading blocks that fit in one request: at most 100 in any children array and two levels of
+   * children below the top. Children past the limits are deferred, and a block that cannot be created without
+   * its children ends the batch along with the blocks after it, so appending them later keeps their order
+   */
+  private batchBlocks(blocks: any[], depth = 0): BlockBatch {
+    const batch: BlockBatch = { blocks: [], rest: [], deferred: [] };
+
+    for (const [index, block] of blocks.entries()) {
+      const children: any[] | undefined = block[block.type]?.children;
+      const needsChildren = children !== undefined && CHILDREN_REQUIRED.includes(block.type);
+      if (batch.blocks.length === MAX_BLOCKS_PER_REQUEST || (depth === MAX_NESTING_PER_REQUEST && needsChildren)) {
+        batch.rest = blocks.slice(index);
+        break;
+      }
+
+      if (!children) {
+        batch.blocks.push(block);
+        continue;
+      }
+
+      const path = batch.blocks.length;
+      const inner: BlockBatch = depth < MAX_NESTING_PER_REQUEST
+        ? this.batchBlocks(children, depth + 1)
+        : { blocks: [], rest: children, deferred: [] };
+      if (inner.blocks.length === 0 && CHILDREN_REQUIRED.includes(block.type)) {
+        // Notion creates no empty columns, so a column whose first block has to wait starts with an empty paragraph
+        inner.blocks.push({ type: 'paragraph', paragraph: { rich_text: [] } });
+      }
+
+      const content = { ...block[block.type] };
+      delete content.children;
+      batch.blocks.push({ ...block, [block.type]: inner.blocks.length > 0 ? { ...content, children: inner.blocks } : content });
+      batch.deferred.push(...inner.deferred.map(entry => ({ ...entry, path: [path, ...entry.path] })));
+      if (inner.rest.length > 0) {
+        batch.deferred.push({ path: [path], blocks: inner.rest });
+      }
+    }
+
+    return batch;
+  }
+
+  /**
+   * Append blocks to a page or block in as many requests as Notion's limits need
+   */
+  private async appendBlocks(parentId: string, blocks: any[]): Promise<void> {
+    let remaining = blocks;
+    while (remaining.length > 0) {
+      const batch = this.batchBlocks(remaining);
+      const response = await this.sendWithRateLimit(() => this.client!.blocks.children.append({ block_id: parentId, children: batch.blocks }));
+      this.apiStats.requestsMade++;
+      await this.appendDeferredBlocks(parentId, batch.deferred, response.results.map(result => result.id));
+      remaining = batch.rest;
+    }
+  }
+
+  /**
+   * Append deferred children under the blocks they belong to, looking up the IDs Notion gave those blocks
+   * @param sentIds IDs of the blocks sent to the parent, when the request that created them returned them
+   */
+  private async appendDeferredBlocks(parentId: string, deferred: BlockBatch['deferred'], sentIds?: string[]): Promise<void> {
+    const childIds = new Map<string, string[]>();
+    const listChildIds = async (blockId: string): Promise<string[]> => {
+      if (!childIds.has(blockId)) {
+        // Batches hold at most 100 children per block, which fit in one page of results
+        const response = await this.sendWithRateLimit(() => this.client!.blocks.children.list({ block_id: blockId, page_size: MAX_BLOCKS_PER_REQUEST }));
+        this.apiStats.requestsMade++;
+        childIds.set(blockId, response.results.map(result => result.id));
+      }
+      return childIds.get(blockId)!;
+    };
+    if (sentIds) {
+      childIds.set(parentId, sentIds);
+    }
+
+    for (const { path, blocks } of deferred) {
+      let blockId = parentId;
+      for (const index of path) {
+        const id = (await listChildIds(blockId))[index];
+        if (!id) {
+          throw new Error('Could not find a created block to append its children to');
+        }
+        blockId = id;
+      }
+      await this.appendBlocks(blockId, blocks);
+    }
+  }
+
+  /**
+   * Send a request, waiting out rate limits; onRetry is called before each further attempt
+   */
+  private async sendWithRateLimit<T>(send: () => Promise<T>, onRetry?: () => void): Promise<T> {
+    for (;;) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!this.isRateLimitError(error)) {
+          throw error;
+        }
+        await this.handleRateLimit();
+        onRetry?.();
+      }
+    }
+  }
+
+  /**
+   * Notion tables have no merged cells, so spanned cells are expanded into empty cells
+   */
+  private convertTable(table: OneNoteTableBlock): any {
+    const grid: any[][][] = [];
+    table.rows.forEach((row, rowIndex) => {
+      const cells = (grid[rowIndex] ??= []);
+      let column = 0;
+      for (const cell of row.cells) {
+        while (cells[column]) {
+          column++;
+        }
+        const richText = this.convertRuns(cell.blocks.flatMap((block, index) => {
+          const runs = block.type === 'list' ? block.items.flatMap(item => item.runs) : 'runs' in block ? block.runs : [];
+          return index > 0 && runs.length > 0 ? [{ text: '\n' }, ...runs] : runs;
+        }));
+        for (let rowOffset = 0; rowOffset < (cell.rowSpan ?? 1); rowOffset++) {
+          const spannedRow = (grid[rowIndex + rowOffset] ??= []);
+          for (let columnOffset = 0; columnOffset < (cell.colSpan ?? 1); columnOffset++) {
+            spannedRow[column + columnOffset] = rowOffset === 0 && columnOffset === 0 ? richText : [];
+          }
+        }
+        column += cell.colSpan ?? 1;
+      }
+    });
+
+    const width = Math.max(...grid.map(cells => cells.length));
+    return {
+      type: 'table',
+      table: {
+        table_width: width,
+        has_column_header: true,
+        has_row_header: false,
+        children: grid.map(cells => ({
+          type: 'table_row',
+          table_row: { cells: Array.from({ length: width }, (_, index) => cells[index] ?? []) }
+        }))
+      }
+    };
+  }
+
+  /**
+   * Convert formatted runs into Notion rich text. Notion has one color per span,
+   * so a font color wins over a highlight. Icons of note tags lead the text.
+   */
+  private convertRuns(runs: OneNoteTextRun[], tags?: OneNoteNoteTag[]): any[] {
+    const prefix = OneNoteDocumentRenderer.tagPrefix(tags);
+    const richText = (prefix ? [{ text: prefix }, ...runs] : runs)
+      .filter(run => run.text.length > 0)
+      .map(run => {
+        if (run.equation) {
+          return { type: 'equation', equation: { expression: run.equation } };
+        }
+
+        const annotations: RichTextAnnotations = {};
+        if (run.bold) annotations.bold = true;
+        if (run.italic) annotations.italic = true;
+        if (run.strikethrough) annotations.strikethrough = true;
+        if (run.underline) annotations.underline = true;
+        if (run.code) annotations.code = true;
+        if (run.color) {
+          annotations.color = this.toNotionColor(run.color, false);
+        } else if (run.highlight) {
+          annotations.color = this.toNotionColor(run.highlight, true);
+        }
+        return this.createRichText(run.text, annotations, run.href);
+      });
+
+    return richText.length > 0 ? richText : [this.createRichText('', {})];
+  }
+
   private convertContentToBlocks(content: string): any[] {
     const blocks: any[] = [];
     const lines = content.split('\n');
@@ -593,53 +1035,37 @@ export class NotionApiService implements INotionApiService {
         blocks.push({
           type: 'heading_1',
           heading_1: {
-            rich_text: [
-              {
-                text: {
-                  content: line.substring(2)
-                }
-              }
-            ]
+            rich_text: this.convertInlineMarkdown(line.substring(2))
           }
         });
       } else if (line.startsWith('## ')) {
         blocks.push({
           type: 'heading_2',
           heading_2: {
-            rich_text: [
-              {
-                text: {
-                  content: line.substring(3)
-                }
-              }
-            ]
+            rich_text: this.convertInlineMarkdown(line.substring(3))
           }
         });
       } else if (line.startsWith('### ')) {
         blocks.push({
           type: 'heading_3',
           heading_3: {
-            rich_text: [
-              {
-                text: {
-                  content: line.substring(4)
-                }
-              }
-            ]
+            rich_text: this.convertInlineMarkdown(line.substring(4))
           }
         });
-      } else if (line.startsWith('- ')) {
-        // Convert to bulleted list
+      } else if (line.trimStart().startsWith('- ')) {
+        // Convert to bulleted list (nested outline items are indented)
         blocks.push({
           type: 'bulleted_list_item',
           bulleted_list_item: {
-            rich_text: [
-              {
-                text: {
-                  content: line.substring(2)
-                }
-              }
-            ]
+            rich_text: this.convertInlineMarkdown(line.trimStart().substring(2))
+          }
+        });
+      } else if (/^\s*\d+\. /.test(line)) {
+        // Convert to numbered list
+        blocks.push({
+          type: 'numbered_list_item',
+          numbered_list_item: {
+            rich_text: this.convertInlineMarkdown(line.replace(/^\s*\d+\. /, ''))
           }
         });
       } else {
@@ -647,13 +1073,7 @@ export class NotionApiService implements INotionApiService {
         blocks.push({
           type: 'paragraph',
           paragraph: {
-            rich_text: [
-              {
-                text: {
-                  content: line
-                }
-              }
-            ]
+            rich_text: this.convertInlineMarkdown(line)
           }
         });
       }
@@ -662,6 +1082,182 @@ export class NotionApiService implements INotionApiService {
     return blocks;
   }
 
+  /**
+   * Convert inline markdown (and the inline HTML the outline renderer emits for underline,
+   * colors and super/subscript) into Notion rich text with annotations
+   */
+  private convertInlineMarkdown(text: string, annotations: RichTextAnnotations = {}, link?: string): any[] {
+    const richText: any[] = [];
+    let plain = '';
+    const flush = () => {
+      if (plain) {
+        richText.push(this.createRichText(plain, annotations, link));
+        plain = '';
+      }
+    };
+
+    let index = 0;
+    while (index < text.length) {
+      const span = this.matchInlineSpan(text, index);
+      if (!span) {
+        plain += text[index];
+        index++;
+        continue;
+      }
+
+      flush();
+      const spanAnnotations = { ...annotations, ...span.annotations };
+      const spanLink = span.link ?? link;
+      if (span.literal) {
+        richText.push(this.createRichText(span.content, spanAnnotations, spanLink));
+      } else {
+        richText.push(...this.convertInlineMarkdown(span.content, spanAnnotations, spanLink));
+      }
+      index = span.end;
+    }
+    flush();
+
+    return richText.length > 0 ? richText : [this.createRichText('', annotations, link)];
+  }
+
+  private matchInlineSpan(text: string, index: number): InlineSpan | null {
+    const rest = text.slice(index);
+
+    const code = /^(`+)([\s\S]+?)\1(?!`)/.exec(rest);
+    if (code) {
+      return { content: code[2]!, annotations: { code: true }, literal: true, end: index + code[0].length };
+    }
+
+    const link = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest);
+    if (link) {
+      return { content: link[1]!, annotations: {}, link: link[2]!, end: index + link[0].length };
+    }
+
+    const delimited: Array<[string, string, RichTextAnnotations]> = [
+      ['**', '**', { bold: true }],
+      ['~~', '~~', { strikethrough: true }],
+      ['<u>', '</u>', { underline: true }],
+      ['<sup>', '</sup>', {}],
+      ['<sub>', '</sub>', {}],
+      ['_', '_', { italic: true }],
+      ['*', '*', { italic: true }]
+    ];
+    for (const [open, close, annotations] of delimited) {
+      if (!rest.startsWith(open)) {
+        continue;
+      }
+      const closeIndex = rest.indexOf(close, open.length);
+      if (closeIndex <= open.length) {
+        continue;
+      }
+      // Underscores inside words (snake_case) are not emphasis
+      if (open === '_' && (/\w/.test(text[index - 1] || '') || /\w/.test(rest[closeIndex + 1] || ''))) {
+        continue;
+      }
+      return { content: rest.slice(open.length, closeIndex), annotations, end: index + closeIndex + close.length };
+    }
+
+    const colored = /^<(mark|span) style="(background-color|color):(#[0-9a-fA-F]{6})">/.exec(rest);
+    if (colored) {
+      const closeTag = `</${colored[1]}>`;
+      const closeIndex = rest.indexOf(closeTag, colored[0].length);
+      if (closeIndex > colored[0].length) {
+        const color = this.toNotionColor(colored[3]!, colored[2] === 'background-color');
+        return {
+          content: rest.slice(colored[0].length, closeIndex),
+          annotations: { color },
+          end: index + closeIndex + closeTag.length
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Recordings play in audio and video blocks where Notion supports their type, with their length and
+   * recording time as the caption
+   */
+  private convertRecording(block: OneNoteFileBlock, recording: OneNoteRecording, uploadId: string | undefined): any {
+    const details = OneNoteDocumentRenderer.recordingDetails(recording);
+    if (!uploadId) {
+      const icon = recording.kind === 'audio' ? '🎙️' : '🎬';
+      return { type: 'paragraph', paragraph: { rich_text: [this.createRichText(`${icon} ${block.name}${details ? ` (${details})` : ''}`, {})] } };
+    }
+
+    const ext = path.extname(block.src ?? '').toLowerCase();
+    const type = recording.kind === 'audio'
+      ? (AUDIO_BLOCK_TYPES.includes(ext) ? 'audio' : 'file')
+      : (VIDEO_BLOCK_TYPES.includes(ext) ? 'video' : 'file');
+    const caption = details ? { caption: [this.createRichText(details, {})] } : {};
+    return {
+      type,
+      [type]: { type: 'file_upload', file_upload: { id: uploadId }, ...(type === 'file' ? { name: block.name } : {}), ...caption }
+    };
+  }
+
+  /**
+   * A toggle holding the text recognized in a picture, one paragraph per line, so it can be searched in Notion
+   */
+  private convertImageText(text: string): any {
+    const children = text.split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => ({ type: 'paragraph', paragraph: { rich_text: this.createLongRichText(line) } }));
+    return { type: 'toggle', toggle: { rich_text: [this.createRichText(IMAGE_TEXT_SUMMARY, {})], children } };
+  }
+
+  /**
+   * Plain text split into as many rich text objects as Notion's length limit needs
+   */
+  private createLongRichText(content: string): any[] {
+    const richText: any[] = [];
+    for (let offset = 0; offset < content.length; offset += MAX_RICH_TEXT_LENGTH) {
+      richText.push(this.createRichText(content.slice(offset, offset + MAX_RICH_TEXT_LENGTH), {}));
+    }
+    return richText;
+  }
+
+  private createRichText(content: string, annotations: RichTextAnnotations, link?: string): any {
+    const richText: any = {
+      text: link ? { content, link: { url: link } } : { content }
+    };
+    if (Object.keys(annotations).length > 0) {
+      richText.annotations = annotations;
+    }
+    return richText;
+  }
+
+  /**
+   * Map a #rrggbb color onto the nearest of Notion's named colors by hue
+   */
+  private toNotionColor(hex: string, background: boolean): string {
+    const [red, green, blue] = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255) as [number, number, number];
+    const max = Math.max(red, green, blue);
+    const min = Math.min(red, green, blue);
+    const lightness = (max + min) / 2;
+    const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+
+    let color: string;
+    if (saturation < 0.15 || max === min) {
+      color = lightness < 0.3 && !background ? 'default' : 'gray';
+    } else {
+      let hue = max === red ? ((green - blue) / (max - min)) % 6
+        : max === green ? (blue - red) / (max - min) + 2
+        : (red - green) / (max - min) + 4;
+      hue = (hue * 60 + 360) % 360;
+
+      if (hue < 15 || hue >= 345) color = 'red';
+      else if (hue < 40) color = lightness < 0.35 ? 'brown' : 'orange';
+      else if (hue < 70) color = 'yellow';
+      else if (hue < 170) color = 'green';
+      else if (hue < 250) color = 'blue';
+      else if (hue < 290) color = 'purple';
+      else color = 'pink';
+    }
+
+    return background && color !== 'default' ? `${color}_background` : color;
+  }
+
   private isRateLimitError(error: any): boolean {
     return error?.code === 'rate_limited' || 
            error?.message?.includes('rate limit') ||
@@ -3,7 +3,9 @@
  * Handles complex content types, tables, metadata, and advanced formatting
  */
 
+import { OneNoteDocument, OneNoteFileBlock, OneNoteImageBlock, OneNoteTableBlock, OneNoteTodoBlock } from '../../types/document';
 import { OneNotePage } from '../../types/onenote';
+import { OneNoteDocumentRenderer } from './document-renderer';
 
 export interface AdvancedConversionOptions {
   outputFormat: 'markdown' | 'docx' | 'notion';
@@ -12,6 +14,8 @@ export interface AdvancedConversionOptions {
   preserveCodeBlocks?: boolean;
   handleAttachments?: boolean;
   convertTags?: boolean;
+  /** Add the text recognized in pictures and printouts below them as a collapsible section */
+  imageTextToggles?: boolean;
   performanceMode?: 'fast' | 'balanced' | 'thorough';
   onProgress?: (progress: AdvancedConversionProgress) => void;
 }
@@ -36,6 +40,11 @@ export interface AttachmentData {
   type: string;
   size: number;
   path: string;
+  mimeType?: string;
+  /** Path the file was originally inserted from */
+  sourcePath?: string;
+  /** Paths of the printout pictures showing the file's pages, in page order */
+  printouts?: string[];
   metadata?: Record<string, any>;
 }
 
@@ -61,6 +70,15 @@ export interface AdvancedConversionResult {
   };
 }
 
+interface ExtractedContent {
+  content: string;
+  tables: TableData[];
+  attachments: AttachmentData[];
+  tags: TagData[];
+  metadata: Record<string, any>;
+  document?: OneNoteDocument;
+}
+
 export interface IAdvancedContentConverterService {
   /**
    * Convert OneNote page with advanced content types
@@ -150,14 +168,10 @@ export class AdvancedContentConverterService implements IAdvancedContentConverte
     page: OneNotePage, 
     options: AdvancedConversionOptions, 
     progressReports: AdvancedConversionProgress[]
-  ): Promise<{
-    content: string;
-    tables: TableData[];
-    attachments: AttachmentData[];
-    tags: TagData[];
-    metadata: Record<string, any>;
-  }> {
-    let content = page.content;
+  ): Promise<ExtractedContent> {
+    // Pages parsed from a revision store carry a document, so nothing is re-parsed from strings
+    const document = page.document;
+    const content = document ? OneNoteDocumentRenderer.toMarkdown(document, { imageTextToggles: options.imageTextToggles === true }) : page.content;
     const tables: TableData[] = [];
     const attachments: AttachmentData[] = [];
     const tags: TagData[] = [];
@@ -166,21 +180,21 @@ export class AdvancedContentConverterService implements IAdvancedContentConverte
     // Extract tables if requested
     if (options.preserveTables) {
       this.reportProgress(options, 'table-processing', 20, 'Processing tables...', progressReports);
-      const extractedTables = await this.extractTables(content, options);
+      const extractedTables = document ? this.getDocumentTables(document) : await this.extractTables(content, options);
       tables.push(...extractedTables);
     }
 
     // Extract attachments if requested
     if (options.handleAttachments) {
       this.reportProgress(options, 'attachment-processing', 40, 'Processing attachments...', progressReports);
-      const extractedAttachments = await this.extractAttachments(content, options);
+      const extractedAttachments = document ? this.getDocumentAttachments(document) : await this.extractAttachments(content, options);
       attachments.push(...extractedAttachments);
     }
 
     // Extract tags if requested
     if (options.convertTags) {
       this.reportProgress(options, 'tag-conversion', 50, 'Converting tags...', progressReports);
-      const extractedTags = await this.extractTags(content, options);
+      const extractedTags = document ? this.getDocumentTags(document) : await this.extractTags(content, options);
       tags.push(...extractedTags);
     }
 
@@ -190,17 +204,76 @@ export class AdvancedContentConverterService implements IAdvancedContentConverte
       metadata = await this.extractPageMetadata(page, options);
     }
 
-    return { content, tables, attachments, tags, metadata };
+    return document ? { content, tables, attachments, tags, metadata, document } : { content, tables, attachments, tags, metadata };
+  }
+
+  private getDocumentTables(document: OneNoteDocument): TableData[] {
+    return OneNoteDocumentRenderer.flattenBlocks(document.blocks)
+      .filter((block): block is OneNoteTableBlock => block.type === 'table' && block.rows.length > 0)
+      .map(table => {
+        const [header, ...rows] = table.rows.map(row => row.cells
+          .map(cell => OneNoteDocumentRenderer.toPlainText({ blocks: cell.blocks }).replace(/\n/g, ' ')));
+        return { headers: header ?? [], rows };
+      });
+  }
+
+  /**
+   * Note tags used on the page, once per tag; check box tags count their ticked and open items
+   */
+  private getDocumentTags(document: OneNoteDocument): TagData[] {
+    const todos = OneNoteDocumentRenderer.flattenBlocks(document.blocks)
+      .filter((block): block is OneNoteTodoBlock => block.type === 'todo');
+
+    return OneNoteDocumentRenderer.collectTags(document).map(tag => {
+      const data: TagData = { name: tag.name, metadata: { shape: tag.shape } };
+      const color = tag.highlight ?? tag.color;
+      if (color) {
+        data.color = color;
+      }
+      if (tag.checked !== undefined) {
+        const items = todos.filter(todo => todo.tags?.some(other => other.name === tag.name));
+        data.category = 'task';
+        data.metadata = { ...data.metadata, completed: items.filter(todo => todo.checked).length, open: items.filter(todo => !todo.checked).length };
+      } else if (tag.icon) {
+        data.metadata = { ...data.metadata, icon: tag.icon };
+      }
+      return data;
+    });
+  }
+
+  private getDocumentAttachments(document: OneNoteDocument): AttachmentData[] {
+    const blocks = OneNoteDocumentRenderer.flattenBlocks(document.blocks);
+    const printouts = blocks
+      .filter((block): block is OneNoteImageBlock => block.type === 'image' && block.printout !== undefined)
+      .sort((a, b) => (a.printout!.page ?? 0) - (b.printout!.page ?? 0));
+
+    return blocks
+      .filter((block): block is OneNoteFileBlock => block.type === 'file')
+      .map(file => {
+        const attachment: AttachmentData = {
+          name: file.name,
+          type: file.mimeType ?? (file.name.split('.').pop()?.toLowerCase() || ''),
+          size: file.size ?? 0,
+          path: file.src ?? file.name
+        };
+        if (file.mimeType) {
+          attachment.mimeType = file.mimeType;
+        }
+        if (file.sourcePath) {
+          attachment.sourcePath = file.sourcePath;
+        }
+        const pages = printouts
+          .filter(image => image.printout!.name === file.name)
+          .map(image => image.src ?? image.name ?? '');
+        if (pages.length > 0) {
+          attachment.printouts = pages;
+        }
+        return attachment;
+      });
   }
 
   private async processContent(
-    extractedContent: {
-      content: string;
-      tables: TableData[];
-      attachments: AttachmentData[];
-      tags: TagData[];
-      metadata: Record<string, any>;
-    },
+    extractedContent: ExtractedContent,
     options: AdvancedConversionOptions,
     progressReports: AdvancedConversionProgress[]
   ): Promise<string> {
@@ -208,6 +281,11 @@ export class AdvancedContentConverterService implements IAdvancedContentConverte
     
     let content = extractedContent.content;
 
+    // Document markdown already has tables and code blocks in place
+    if (extractedContent.document) {
+      return content;
+    }
+
     // Apply performance optimizations
     content = this.optimizeForPerformance(content, options);
 
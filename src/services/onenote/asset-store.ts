@@ -0,0 +1,137 @@
+/**
+ * Content-addressed storage for binary page assets
+ * Images and other file data recovered from sections are written once under the hash of their bytes
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OneNoteBlock, OneNoteDocument } from '../../types/document';
+
+export interface OneNoteAssetFile {
+  /** Content-hashed file name with extension */
+  fileName: string;
+  path: string;
+  mimeType: string;
+  size: number;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.emf': 'image/emf',
+  '.wmf': 'image/wmf',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.rtf': 'application/rtf',
+  '.zip': 'application/zip',
+  '.wma': 'audio/x-ms-wma',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.wmv': 'video/x-ms-wmv',
+  '.asf': 'video/x-ms-asf',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.webm': 'video/webm'
+};
+
+/** Leading bytes of the formats OneNote stores pictures in, for file data without an extension */
+const SIGNATURES: Array<[string, number[]]> = [
+  ['.png', [0x89, 0x50, 0x4E, 0x47]],
+  ['.jpg', [0xFF, 0xD8, 0xFF]],
+  ['.gif', [0x47, 0x49, 0x46, 0x38]],
+  ['.bmp', [0x42, 0x4D]],
+  ['.tif', [0x49, 0x49, 0x2A, 0x00]],
+  ['.tif', [0x4D, 0x4D, 0x00, 0x2A]],
+  ['.pdf', [0x25, 0x50, 0x44, 0x46]]
+];
+
+export class OneNoteAssetStore {
+  static readonly DEFAULT_DIRECTORY = path.join(os.tmpdir(), 'oni-assets');
+
+  constructor(readonly directory: string = OneNoteAssetStore.DEFAULT_DIRECTORY) {}
+
+  /**
+   * Write data under a content-hashed name; identical data is only written once
+   */
+  save(data: Buffer, extension?: string): OneNoteAssetFile {
+    const normalized = extension ? `.${extension.replace(/^\.+/, '').toLowerCase()}` : '';
+    const ext = normalized.length > 1 ? normalized : OneNoteAssetStore.detectExtension(data) ?? '.bin';
+    const fileName = `${crypto.createHash('sha256').update(data).digest('hex').slice(0, 32)}${ext}`;
+    const filePath = path.join(this.directory, fileName);
+
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(filePath, data);
+    }
+
+    return { fileName, path: filePath, mimeType: OneNoteAssetStore.mimeTypeOf(fileName), size: data.length };
+  }
+
+  /**
+   * Look up the MIME type of a file name or extension
+   */
+  static mimeTypeOf(fileName: string): string {
+    const ext = path.extname(fileName).toLowerCase() || `.${fileName.replace(/^\./, '').toLowerCase()}`;
+    return MIME_TYPES[ext] ?? 'application/octet-stream';
+  }
+
+  /**
+   * Guess an extension from the leading bytes of file data
+   */
+  static detectExtension(data: Buffer): string | undefined {
+    return SIGNATURES.find(([, signature]) => signature.every((byte, index) => data[index] === byte))?.[0];
+  }
+
+  /**
+   * Copy a document, pointing the src of every image, printout and file block at relink(src)
+   */
+  static relinkDocument(document: OneNoteDocument, relink: (src: string) => string): OneNoteDocument {
+    const relinkBlocks = (blocks: OneNoteBlock[]): OneNoteBlock[] => blocks.map(block => {
+      switch (block.type) {
+        case 'image': {
+          const relinked = block.src ? { ...block, src: relink(block.src) } : block;
+          return block.printout?.src ? { ...relinked, printout: { ...block.printout, src: relink(block.printout.src) } } : relinked;
+        }
+        case 'file':
+          return block.src ? { ...block, src: relink(block.src) } : block;
+        case 'list':
+          return { ...block, items: block.items.map(item => ({ ...item, children: relinkBlocks(item.children) })) };
+        case 'table':
+          return {
+            ...block,
+            rows: block.rows.map(row => ({ cells: row.cells.map(cell => ({ ...cell, blocks: relinkBlocks(cell.blocks) })) }))
+          };
+        case 'columns':
+          return { ...block, columns: block.columns.map(column => relinkBlocks(column)) };
+        default:
+          return block;
+      }
+    });
+
+    return {
+      ...document,
+      blocks: relinkBlocks(document.blocks),
+      ...(document.regions ? { regions: document.regions.map(region => ({ ...region, blocks: relinkBlocks(region.blocks) })) } : {})
+    };
+  }
+}
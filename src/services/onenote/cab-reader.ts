@@ -0,0 +1,262 @@
+/**
+ * Microsoft Cabinet (CAB) archive reader
+ * Reads .onepkg notebook packages; supports uncompressed and MSZIP folders
+ */
+
+import * as zlib from 'zlib';
+import { OneNoteError } from './error-utils';
+import { BufferByteSource, ByteSource } from './onestore/byte-source';
+
+export interface CabinetEntry {
+  /** Path inside the archive, using forward slashes */
+  name: string;
+  size: number;
+  folderIndex: number;
+  folderOffset: number;
+  modifiedDate: Date;
+}
+
+interface CabinetFolder {
+  dataOffset: number;
+  dataBlockCount: number;
+  compression: number;
+}
+
+const CAB_SIGNATURE = 'MSCF';
+const FLAG_PREV_CABINET = 0x0001;
+const FLAG_NEXT_CABINET = 0x0002;
+const FLAG_RESERVE_PRESENT = 0x0004;
+const ATTRIBUTE_NAME_IS_UTF = 0x80;
+const MSZIP_SIGNATURE = 0x4B43; // "CK"
+const MSZIP_WINDOW_SIZE = 32768;
+/** File names in the file table are at most 256 bytes plus their terminator */
+const MAX_NAME_LENGTH = 257;
+
+export enum CabinetCompression {
+  None = 0,
+  MSZip = 1,
+  Quantum = 2,
+  Lzx = 3
+}
+
+export class CabinetReader {
+  private folders: CabinetFolder[] = [];
+  private files: CabinetEntry[] = [];
+  private dataReserveSize = 0;
+  private readonly source: ByteSource;
+
+  constructor(source: ByteSource | Buffer, private readonly filePath?: string) {
+    this.source = Buffer.isBuffer(source) ? new BufferByteSource(source) : source;
+    this.readHeader();
+  }
+
+  /**
+   * Check whether a buffer starts with the CAB signature
+   */
+  static isCabinet(buffer: Buffer): boolean {
+    return buffer.length >= 36 && buffer.toString('ascii', 0, 4) === CAB_SIGNATURE;
+  }
+
+  get entries(): CabinetEntry[] {
+    return [...this.files];
+  }
+
+  /**
+   * Decompress a single entry
+   */
+  extract(entry: CabinetEntry): Buffer {
+    const parts: Buffer[] = [];
+    this.extractTo([entry], (_, data) => parts.push(data));
+    return Buffer.concat(parts, entry.size);
+  }
+
+  /**
+   * Decompress entries block by block, handing each piece of an entry's data to write as soon as it is inflated;
+   * only the current data block and the MSZIP history window are held in memory
+   */
+  extractTo(entries: CabinetEntry[], write: (entry: CabinetEntry, data: Buffer) => void): void {
+    const folderIndexes = [...new Set(entries.map(entry => entry.folderIndex))].sort((a, b) => a - b);
+
+    for (const folderIndex of folderIndexes) {
+      const folderEntries = entries.filter(entry => entry.folderIndex === folderIndex);
+      const end = Math.max(...folderEntries.map(entry => entry.folderOffset + entry.size));
+      let position = 0;
+
+      for (const block of this.readBlocks(folderIndex)) {
+        for (const entry of folderEntries) {
+          const start = Math.max(entry.folderOffset, position);
+          const stop = Math.min(entry.folderOffset + entry.size, position + block.length);
+          if (start < stop) {
+            write(entry, block.subarray(start - position, stop - position));
+          }
+        }
+        position += block.length;
+        if (position >= end) {
+          break;
+        }
+      }
+
+      const truncated = folderEntries.find(entry => entry.folderOffset + entry.size > position);
+      if (truncated) {
+        throw this.error(`Entry ${truncated.name} extends past the end of its folder`);
+      }
+    }
+  }
+
+  private readHeader(): void {
+    if (!CabinetReader.isCabinet(this.slice(0, Math.min(this.source.size, 36)))) {
+      throw this.error('Not a cabinet archive', 'INVALID_FORMAT');
+    }
+
+    const folderCount = this.readUInt16(26);
+    const fileCount = this.readUInt16(28);
+    const flags = this.readUInt16(30);
+    const filesOffset = this.readUInt32(16);
+    let offset = 36;
+    let folderReserveSize = 0;
+
+    if (flags & (FLAG_PREV_CABINET | FLAG_NEXT_CABINET)) {
+      throw this.error('Multi-volume cabinet archives are not supported', 'UNSUPPORTED_FORMAT');
+    }
+
+    if (flags & FLAG_RESERVE_PRESENT) {
+      const headerReserveSize = this.readUInt16(offset);
+      folderReserveSize = this.readUInt8(offset + 2);
+      this.dataReserveSize = this.readUInt8(offset + 3);
+      offset += 4 + headerReserveSize;
+    }
+
+    for (let i = 0; i < folderCount; i++) {
+      this.folders.push({
+        dataOffset: this.readUInt32(offset),
+        dataBlockCount: this.readUInt16(offset + 4),
+        compression: this.readUInt16(offset + 6)
+      });
+      offset += 8 + folderReserveSize;
+    }
+
+    offset = filesOffset;
+    for (let i = 0; i < fileCount; i++) {
+      const size = this.readUInt32(offset);
+      const folderOffset = this.readUInt32(offset + 4);
+      const folderIndex = this.readUInt16(offset + 8);
+      const date = this.readUInt16(offset + 10);
+      const time = this.readUInt16(offset + 12);
+      const attributes = this.readUInt16(offset + 14);
+
+      const nameBytes = this.slice(offset + 16, Math.min(MAX_NAME_LENGTH, Math.max(this.source.size - offset - 16, 0)));
+      const nameLength = nameBytes.indexOf(0);
+      if (nameLength < 0) {
+        throw this.error('Unterminated file name in cabinet file table');
+      }
+      const rawName = nameBytes.toString(attributes & ATTRIBUTE_NAME_IS_UTF ? 'utf8' : 'latin1', 0, nameLength);
+      offset += 16 + nameLength + 1;
+
+      if (folderIndex >= this.folders.length) {
+        throw this.error(`Entry ${rawName} continues in another cabinet`, 'UNSUPPORTED_FORMAT');
+      }
+
+      this.files.push({
+        name: rawName.replace(/\\/g, '/'),
+        size,
+        folderIndex,
+        folderOffset,
+        modifiedDate: this.decodeDosDate(date, time)
+      });
+    }
+  }
+
+  /**
+   * Yield a folder's data blocks in order, decompressed
+   */
+  private *readBlocks(index: number): Generator<Buffer> {
+    const folder = this.folders[index];
+    if (!folder) {
+      throw this.error(`Cabinet folder ${index} does not exist`);
+    }
+
+    const compression = folder.compression & 0x000F;
+    if (compression !== CabinetCompression.None && compression !== CabinetCompression.MSZip) {
+      throw this.error(`Unsupported cabinet compression type ${compression}`, 'UNSUPPORTED_FORMAT');
+    }
+
+    let window = Buffer.alloc(0);
+    let offset = folder.dataOffset;
+
+    for (let i = 0; i < folder.dataBlockCount; i++) {
+      const compressedSize = this.readUInt16(offset + 4);
+      const uncompressedSize = this.readUInt16(offset + 6);
+      const dataStart = offset + 8 + this.dataReserveSize;
+      const data = this.slice(dataStart, compressedSize);
+      offset = dataStart + compressedSize;
+
+      const block = compression === CabinetCompression.MSZip
+        ? this.inflateBlock(data, window, uncompressedSize)
+        : data;
+
+      yield block;
+      window = Buffer.concat([window, block]);
+      if (window.length > MSZIP_WINDOW_SIZE) {
+        window = window.subarray(window.length - MSZIP_WINDOW_SIZE);
+      }
+    }
+  }
+
+  /**
+   * Inflate one MSZIP block; the previous 32 KB of output is the deflate history
+   */
+  private inflateBlock(data: Buffer, window: Buffer, expectedSize: number): Buffer {
+    if (data.length < 2 || data.readUInt16LE(0) !== MSZIP_SIGNATURE) {
+      throw this.error('Invalid MSZIP block signature');
+    }
+
+    let block: Buffer;
+    try {
+      block = zlib.inflateRawSync(data.subarray(2), window.length > 0 ? { dictionary: window } : {});
+    } catch (error) {
+      throw this.error(`Failed to inflate MSZIP block: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (block.length !== expectedSize) {
+      throw this.error(`MSZIP block inflated to ${block.length} bytes, expected ${expectedSize}`);
+    }
+    return block;
+  }
+
+  private decodeDosDate(date: number, time: number): Date {
+    return new Date(
+      1980 + (date >>> 9),
+      Math.max(((date >>> 5) & 0x0F) - 1, 0),
+      Math.max(date & 0x1F, 1),
+      time >>> 11,
+      (time >>> 5) & 0x3F,
+      (time & 0x1F) * 2
+    );
+  }
+
+  private readUInt8(offset: number): number {
+    return this.slice(offset, 1).readUInt8(0);
+  }
+
+  private readUInt16(offset: number): number {
+    return this.slice(offset, 2).readUInt16LE(0);
+  }
+
+  private readUInt32(offset: number): number {
+    return this.slice(offset, 4).readUInt32LE(0);
+  }
+
+  private slice(offset: number, length: number): Buffer {
+    if (offset < 0 || offset + length > this.source.size) {
+      throw this.error('Cabinet archive is truncated');
+    }
+    return this.source.read(offset, length);
+  }
+
+  private error(message: string, code: string = 'PARSING_FAILED'): OneNoteError {
+    const context = this.filePath
+      ? { filePath: this.filePath, operation: 'readCabinet', recoverable: true }
+      : { operation: 'readCabinet', recoverable: true };
+    return new OneNoteError(message, code, context);
+  }
+}
@@ -3,7 +3,9 @@
  * Handles conversion of OneNote content to various output formats
  */
 
+import { OneNoteDocument, OneNoteImageBlock } from '../../types/document';
 import { OneNotePage } from '../../types/onenote';
+import { OneNoteDocumentRenderer } from './document-renderer';
 
 export interface ContentConversionOptions {
   outputFormat: 'markdown' | 'docx';
@@ -66,8 +68,11 @@ export class ContentConverterService implements IContentConverterService {
       // Progress: Validation stage
       this.reportProgress(options, 'validation', 10, 'Validating content...');
       
+      // Pages parsed from a revision store are rendered from their document
+      const sourceContent = page.document ? OneNoteDocumentRenderer.toMarkdown(page.document) : page.content;
+
       // Validate content first
-      const validation = this.validateContent(page.content);
+      const validation = page.document ? this.validateDocument(page.document) : this.validateContent(sourceContent);
       if (!validation.isValid) {
         return this.createErrorResult(`Content validation failed: ${validation.errors.join(', ')}`);
       }
@@ -75,14 +80,16 @@ export class ContentConverterService implements IContentConverterService {
       // Progress: Conversion stage
       this.reportProgress(options, 'conversion', 30, 'Converting text content...');
       
-      // Convert text content
-      let convertedContent = await this.convertTextContent(page.content, options);
+      // Convert text content; document markdown is already structured, so heuristics are skipped
+      let convertedContent = page.document ? sourceContent : await this.convertTextContent(page.content, options);
       
       // Progress: Image processing stage
       this.reportProgress(options, 'image-processing', 60, 'Processing images...');
       
       // Handle images if requested
-      const images = await this.handleImages(page.content, convertedContent, options);
+      const images = page.document
+        ? { processedContent: convertedContent, paths: options.includeImages ? this.getDocumentImages(page.document, options) : [] }
+        : await this.handleImages(sourceContent, convertedContent, options);
       convertedContent = images.processedContent;
 
       // Progress: Formatting stage
@@ -156,6 +163,13 @@ export class ContentConverterService implements IContentConverterService {
     return { processedContent, paths: images };
   }
 
+  private getDocumentImages(document: OneNoteDocument, options: ContentConversionOptions): string[] {
+    return OneNoteDocumentRenderer.flattenBlocks(document.blocks)
+      .filter((block): block is OneNoteImageBlock => block.type === 'image')
+      .map(image => image.src ?? (options.imageOutputPath ? `${options.imageOutputPath}/${image.name ?? ''}` : image.name ?? ''))
+      .filter(imagePath => imagePath.length > 0);
+  }
+
   private formatFinalContent(title: string, content: string, options: ContentConversionOptions): string {
     if (options.outputFormat === 'markdown') {
       return `# ${title}\n\n${content}`;
@@ -245,6 +259,18 @@ export class ContentConverterService implements IContentConverterService {
     };
   }
 
+  /**
+   * Documents are already structured, so only emptiness is checked
+   */
+  private validateDocument(document: OneNoteDocument): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    this.validateEmptyContent(OneNoteDocumentRenderer.toMarkdown(document), errors);
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
   private validateEmptyContent(content: string, errors: string[]): void {
     if (!content || content.trim().length === 0) {
       errors.push('Content cannot be empty');
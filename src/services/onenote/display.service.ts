@@ -3,7 +3,7 @@
  * Handles CLI display of notebook structure
  */
 
-import { OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNotePage, OneNoteDisplayOptions } from '../../types/onenote';
+import { OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNoteSectionGroup, OneNotePage, OneNoteDisplayOptions } from '../../types/onenote';
 
 export interface IOneNoteDisplayService {
   /**
@@ -27,6 +27,13 @@ export interface IOneNoteDisplayService {
    */
   displaySection(section: OneNoteSection, options?: OneNoteDisplayOptions): void;
 
+  /**
+   * Display a section group with its sections and nested groups
+   * @param group The section group to display
+   * @param options Display options
+   */
+  displaySectionGroup(group: OneNoteSectionGroup, options?: OneNoteDisplayOptions): void;
+
   /**
    * Display summary statistics
    * @param hierarchy The hierarchy to summarize
@@ -41,7 +48,7 @@ export class OneNoteDisplayService implements IOneNoteDisplayService {
       showContent: false, 
       maxDepth: 3, 
       includeEmptySections: true, 
-      sortBy: 'name',
+      sortBy: 'notebook',
       outputFormat: 'tree',
       ...options 
     };
@@ -63,21 +70,25 @@ export class OneNoteDisplayService implements IOneNoteDisplayService {
       showContent: false, 
       maxDepth: 3, 
       includeEmptySections: true, 
-      sortBy: 'name',
+      sortBy: 'notebook',
       outputFormat: 'tree',
       ...options 
     };
 
     console.log(`📓 ${notebook.name}`);
     
-    if (notebook.sections.length === 0) {
+    const sectionGroups = notebook.sectionGroups ?? [];
+    if (notebook.sections.length === 0 && sectionGroups.length === 0) {
       console.log('  No sections found');
       return;
     }
 
     if (opts.maxDepth > 0) {
-      notebook.sections.forEach(section => {
-        this.displaySection(section, { ...opts, maxDepth: opts.maxDepth - 1 });
+      this.sortSections(notebook.sections, opts.sortBy).forEach(section => {
+        this.renderSection(section, { ...opts, maxDepth: opts.maxDepth - 1 }, '  ');
+      });
+      this.sortSections(sectionGroups, opts.sortBy).forEach(group => {
+        this.renderSectionGroup(group, { ...opts, maxDepth: opts.maxDepth - 1 }, '  ');
       });
     }
   }
@@ -88,23 +99,76 @@ export class OneNoteDisplayService implements IOneNoteDisplayService {
       showContent: false, 
       maxDepth: 3, 
       includeEmptySections: true, 
-      sortBy: 'name',
+      sortBy: 'notebook',
+      outputFormat: 'tree',
+      ...options 
+    };
+
+    this.renderSection(section, opts, '  ');
+  }
+
+  displaySectionGroup(group: OneNoteSectionGroup, options?: OneNoteDisplayOptions): void {
+    const opts: Required<OneNoteDisplayOptions> = { 
+      showMetadata: false, 
+      showContent: false, 
+      maxDepth: 3, 
+      includeEmptySections: true, 
+      sortBy: 'notebook',
       outputFormat: 'tree',
       ...options 
     };
 
-    console.log(`  📁 ${section.name}`);
+    this.renderSectionGroup(group, opts, '  ');
+  }
+
+  /**
+   * Print a section group; groups do not use up display depth, so their sections
+   * show the same level of detail as top-level sections
+   */
+  private renderSectionGroup(group: OneNoteSectionGroup, opts: Required<OneNoteDisplayOptions>, indent: string): void {
+    console.log(`${indent}🗂️ ${group.name}`);
+
+    if (group.sections.length === 0 && group.sectionGroups.length === 0) {
+      console.log(`${indent}  No sections found`);
+      return;
+    }
+
+    this.sortSections(group.sections, opts.sortBy).forEach(section => this.renderSection(section, opts, `${indent}  `));
+    this.sortSections(group.sectionGroups, opts.sortBy).forEach(child => this.renderSectionGroup(child, opts, `${indent}  `));
+  }
+
+  /**
+   * Sections and groups arrive in notebook order; the other orders sort a copy
+   */
+  private sortSections<T extends OneNoteSection | OneNoteSectionGroup>(items: T[], sortBy: OneNoteDisplayOptions['sortBy']): T[] {
+    const pageCount = (item: OneNoteSection | OneNoteSectionGroup): number =>
+      'pages' in item ? item.pages.length : [...item.sections, ...item.sectionGroups].reduce((sum, child) => sum + pageCount(child), 0);
+
+    switch (sortBy) {
+      case 'name':
+        return [...items].sort((a, b) => a.name.localeCompare(b.name));
+      case 'date':
+        return [...items].sort((a, b) => b.lastModifiedDate.getTime() - a.lastModifiedDate.getTime());
+      case 'size':
+        return [...items].sort((a, b) => pageCount(b) - pageCount(a));
+      default:
+        return items;
+    }
+  }
+
+  private renderSection(section: OneNoteSection, opts: Required<OneNoteDisplayOptions>, indent: string): void {
+    console.log(`${indent}📁 ${section.name}`);
     
     if (section.pages.length === 0) {
-      console.log('    No pages found');
+      console.log(`${indent}  No pages found`);
       return;
     }
 
     if (opts.maxDepth > 0) {
       section.pages.forEach(page => {
-        console.log(`    📄 ${page.title}`);
+        console.log(`${indent}  📄 ${page.title}`);
         if (opts.showContent && page.content) {
-          console.log(`      ${page.content.substring(0, 100)}...`);
+          console.log(`${indent}    ${page.content.substring(0, 100)}...`);
         }
       });
     }
@@ -0,0 +1,306 @@
+/**
+ * Document rendering utilities
+ * Turns parsed page documents into the markdown text used by converters, previews and exports
+ */
+
+import {
+  OneNoteBlock,
+  OneNoteDocument,
+  OneNoteImageBlock,
+  OneNoteNoteTag,
+  OneNoteRecording,
+  OneNoteTableBlock,
+  OneNoteTableCell,
+  OneNoteTextRun
+} from '../../types/document';
+
+export interface OneNoteRenderOptions {
+  /** Add the text recognized in pictures and printouts below them as a collapsible section */
+  imageTextToggles?: boolean;
+}
+
+/** Summary of the collapsible section holding the text recognized in a picture */
+export const IMAGE_TEXT_SUMMARY = 'Text in image';
+
+export class OneNoteDocumentRenderer {
+  /**
+   * Render a page document as markdown, blocks separated by blank lines
+   */
+  static toMarkdown(document: OneNoteDocument, options: OneNoteRenderOptions = {}): string {
+    return this.renderBlocks(document.blocks, options).join('\n\n');
+  }
+
+  /**
+   * Render a page document as plain text without markdown markers
+   */
+  static toPlainText(document: OneNoteDocument): string {
+    return document.blocks
+      .map(block => this.blockText(block))
+      .filter(text => text.trim().length > 0)
+      .join('\n');
+  }
+
+  /**
+   * Render formatted runs as inline markdown; formatting markdown has no syntax for
+   * (underline, super/subscript, colors) uses inline HTML
+   */
+  static toInlineMarkdown(runs: OneNoteTextRun[]): string {
+    return runs.map(run => this.renderRun(run)).join('');
+  }
+
+  /**
+   * Join the text of runs without any formatting
+   */
+  static runsText(runs: OneNoteTextRun[]): string {
+    return runs.map(run => run.text).join('');
+  }
+
+  /**
+   * List every block in a document, including blocks nested in list items, table cells and columns
+   */
+  static flattenBlocks(blocks: OneNoteBlock[]): OneNoteBlock[] {
+    const flattened: OneNoteBlock[] = [];
+    for (const block of blocks) {
+      flattened.push(block);
+      if (block.type === 'list') {
+        block.items.forEach(item => flattened.push(...this.flattenBlocks(item.children)));
+      } else if (block.type === 'table') {
+        block.rows.forEach(row => row.cells.forEach(cell => flattened.push(...this.flattenBlocks(cell.blocks))));
+      } else if (block.type === 'columns') {
+        block.columns.forEach(column => flattened.push(...this.flattenBlocks(column)));
+      }
+    }
+    return flattened;
+  }
+
+  /**
+   * List the distinct note tags used in a document, by name in order of first use
+   */
+  static collectTags(document: OneNoteDocument): OneNoteNoteTag[] {
+    const tags = new Map<string, OneNoteNoteTag>();
+    for (const block of this.flattenBlocks(document.blocks)) {
+      const blockTags = block.type === 'list'
+        ? block.items.flatMap(item => item.tags ?? [])
+        : block.type === 'heading' || block.type === 'paragraph' || block.type === 'todo' ? block.tags ?? [] : [];
+      blockTags.filter(tag => !tags.has(tag.name)).forEach(tag => tags.set(tag.name, tag));
+    }
+    return [...tags.values()];
+  }
+
+  /**
+   * Icons of the tags without a check box, followed by a space, to put in front of tagged text
+   */
+  static tagPrefix(tags: OneNoteNoteTag[] | undefined): string {
+    const icons = (tags ?? []).filter(tag => tag.checked === undefined && tag.icon).map(tag => tag.icon);
+    return icons.length > 0 ? `${icons.join(' ')} ` : '';
+  }
+
+  /**
+   * Describe a recording by its length and when it was made, e.g. "3:25, recorded 2024-03-05 15:07 UTC"
+   */
+  static recordingDetails(recording: OneNoteRecording): string {
+    const details: string[] = [];
+    if (recording.duration !== undefined) {
+      const seconds = Math.round(recording.duration);
+      const hours = Math.floor(seconds / 3600);
+      const minutes = String(Math.floor(seconds / 60) % 60).padStart(hours > 0 ? 2 : 1, '0');
+      const clock = `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+      details.push(hours > 0 ? `${hours}:${clock}` : clock);
+    }
+    if (recording.recordedAt) {
+      details.push(`recorded ${recording.recordedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`);
+    }
+    return details.join(', ');
+  }
+
+  private static renderBlocks(blocks: OneNoteBlock[], options: OneNoteRenderOptions): string[] {
+    return blocks
+      .map(block => this.renderBlock(block, options))
+      .filter(markdown => markdown.length > 0);
+  }
+
+  private static renderBlock(block: OneNoteBlock, options: OneNoteRenderOptions): string {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${this.tagPrefix(block.tags)}${this.toInlineMarkdown(block.runs)}`;
+      case 'paragraph':
+        return this.runsText(block.runs).trim().length > 0 ? `${this.tagPrefix(block.tags)}${this.toInlineMarkdown(block.runs)}` : '';
+      case 'list':
+        return block.items.map((item, index) => {
+          const marker = block.ordered ? `${index + 1}.` : '-';
+          const indent = ' '.repeat(marker.length + 1);
+          const children = this.renderBlocks(item.children, options)
+            .map(child => child.split('\n').map(line => line ? `${indent}${line}` : line).join('\n'));
+          return [`${marker} ${this.tagPrefix(item.tags)}${this.toInlineMarkdown(item.runs)}`, ...children].join('\n');
+        }).join('\n');
+      case 'table':
+        return this.renderTable(block);
+      case 'image':
+        return this.renderImage(block, options);
+      case 'file': {
+        const details = block.recording ? this.recordingDetails(block.recording) : '';
+        return `[${block.name}](${this.encodeUrl(block.src ?? block.name)})${details ? ` (${details})` : ''}`;
+      }
+      case 'todo':
+        return `- [${block.checked ? 'x' : ' '}] ${this.tagPrefix(block.tags)}${this.toInlineMarkdown(block.runs)}`;
+      case 'code':
+        return `\`\`\`${block.language ?? ''}\n${block.text}\n\`\`\``;
+      case 'equation':
+        return `$$${block.expression}$$`;
+      case 'divider':
+        return '---';
+      case 'columns':
+        // Markdown has no columns, so they follow one another
+        return block.columns.flatMap(column => this.renderBlocks(column, options)).join('\n\n');
+    }
+  }
+
+  private static blockText(block: OneNoteBlock): string {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+      case 'todo':
+        return this.runsText(block.runs);
+      case 'list':
+        return block.items
+          .map(item => [this.runsText(item.runs), ...item.children.map(child => this.blockText(child))]
+            .filter(text => text.trim().length > 0)
+            .join('\n'))
+          .join('\n');
+      case 'table':
+        return block.rows.map(row => row.cells.map(cell => this.cellText(cell)).join('\t')).join('\n');
+      case 'image':
+        // Recognized text stays searchable when the picture has alt text of its own
+        return [block.alt, block.ocrText].filter((text, index, texts) => text && texts.indexOf(text) === index).join('\n');
+      case 'file':
+        return block.name;
+      case 'code':
+        return block.text;
+      case 'equation':
+        return block.expression;
+      case 'divider':
+        return '';
+      case 'columns':
+        return block.columns
+          .flatMap(column => column.map(child => this.blockText(child)))
+          .filter(text => text.trim().length > 0)
+          .join('\n');
+    }
+  }
+
+  /**
+   * Alt text is kept on one line, with the brackets that would end it escaped
+   */
+  private static renderImage(block: OneNoteImageBlock, options: OneNoteRenderOptions): string {
+    const alt = (block.alt ?? block.name ?? '').replace(/\s+/g, ' ').replace(/[[\]\\]/g, '\\$&');
+    const image = `![${alt}](${this.encodeUrl(block.src ?? block.name ?? '')})`;
+    if (!options.imageTextToggles || !block.ocrText) {
+      return image;
+    }
+
+    const text = block.ocrText.replace(/[&<>]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;' })[char] ?? char);
+    return `${image}\n\n<details>\n<summary>${IMAGE_TEXT_SUMMARY}</summary>\n\n${text}\n\n</details>`;
+  }
+
+  private static renderRun(run: OneNoteTextRun): string {
+    // Emphasis markers must hug the text, so surrounding whitespace stays outside them
+    const [, leading = '', body = '', trailing = ''] = /^(\s*)([\s\S]*?)(\s*)$/.exec(run.text) || [];
+    if (!body) {
+      return run.text;
+    }
+    if (run.equation) {
+      return `${leading}$${run.equation}$${trailing}`;
+    }
+
+    let text = body;
+    if (run.code) {
+      const fence = text.includes('`') ? '``' : '`';
+      text = `${fence}${text}${fence}`;
+    }
+    if (run.bold) {
+      text = `**${text}**`;
+    }
+    if (run.italic) {
+      text = `_${text}_`;
+    }
+    if (run.strikethrough) {
+      text = `~~${text}~~`;
+    }
+    if (run.underline) {
+      text = `<u>${text}</u>`;
+    }
+    if (run.superscript) {
+      text = `<sup>${text}</sup>`;
+    }
+    if (run.subscript) {
+      text = `<sub>${text}</sub>`;
+    }
+    if (run.highlight) {
+      text = `<mark style="background-color:${run.highlight}">${text}</mark>`;
+    }
+    if (run.color) {
+      text = `<span style="color:${run.color}">${text}</span>`;
+    }
+    if (run.href) {
+      text = `[${text}](${this.encodeUrl(run.href)})`;
+    }
+
+    return `${leading}${text}${trailing}`;
+  }
+
+  /**
+   * Markdown link targets end at whitespace or a closing parenthesis
+   */
+  private static encodeUrl(url: string): string {
+    return url.replace(/[()\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  }
+
+  /**
+   * Render a table as a markdown pipe table, or as HTML when it has merged cells
+   */
+  private static renderTable(table: OneNoteTableBlock): string {
+    if (table.rows.length === 0) {
+      return '';
+    }
+
+    const hasSpans = table.rows.some(row => row.cells.some(cell => (cell.colSpan ?? 1) > 1 || (cell.rowSpan ?? 1) > 1));
+    if (hasSpans) {
+      const rows = table.rows.map((row, rowIndex) => {
+        const tag = rowIndex === 0 ? 'th' : 'td';
+        const cells = row.cells.map(cell => {
+          const spans = [
+            (cell.colSpan ?? 1) > 1 ? ` colspan="${cell.colSpan}"` : '',
+            (cell.rowSpan ?? 1) > 1 ? ` rowspan="${cell.rowSpan}"` : ''
+          ].join('');
+          return `<${tag}${spans}>${this.renderCell(cell)}</${tag}>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+      });
+      return ['<table>', ...rows, '</table>'].join('\n');
+    }
+
+    const columnCount = Math.max(...table.rows.map(row => row.cells.length));
+    const renderRow = (cells: OneNoteTableCell[]) => {
+      const texts = Array.from({ length: columnCount }, (_, index) => {
+        const cell = cells[index];
+        return cell ? this.renderCell(cell).replace(/\|/g, '\\|') : '';
+      });
+      return `| ${texts.join(' | ')} |`;
+    };
+
+    return [
+      renderRow(table.rows[0]!.cells),
+      `| ${Array(columnCount).fill('---').join(' | ')} |`,
+      ...table.rows.slice(1).map(row => renderRow(row.cells))
+    ].join('\n');
+  }
+
+  private static renderCell(cell: OneNoteTableCell): string {
+    // A table row is a single line, so recognized image text is left to the alt text
+    return this.renderBlocks(cell.blocks, {}).join(' ').replace(/\n/g, ' ');
+  }
+
+  private static cellText(cell: OneNoteTableCell): string {
+    return cell.blocks.map(block => this.blockText(block)).filter(text => text.length > 0).join(' ').replace(/\n/g, ' ');
+  }
+}
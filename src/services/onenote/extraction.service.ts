@@ -1,15 +1,23 @@
 /**
  * OneNote file extraction service
- * Handles extraction of .onepkg and .one files
+ * Handles extraction of .onepkg and .one files, notebook folders, and sections and pages exported as web pages (.mht)
  */
 
-import { OneNoteExtractionResult, OneNoteFileInfo, OneNoteParsingOptions, OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNotePage } from '../../types/onenote';
+import { OneNoteExtractionResult, OneNoteFileInfo, OneNoteParsingOptions, OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNotePage, OneNoteStreamItem, OneNoteInput, OneNoteNotebookFolder } from '../../types/onenote';
 import { OneNoteMockDataFactory } from './mock-data.factory';
 import { OneNoteErrorUtils, OneNoteError } from './error-utils';
+import { OneNoteHierarchyUtils } from './hierarchy-utils';
+import { OneNoteIdUtils } from './id-utils';
+import { OneNoteMimeArchive } from './mime-archive';
 import { RealOneNoteParserService } from './real-onenote-parser.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/** Extensions OneNote and browsers give single file web pages */
+const MHT_EXTENSIONS = ['.mht', '.mhtml'];
+/** Bytes read to tell a web page export by its MIME headers */
+const MIME_SNIFF_LENGTH = 2048;
+
 export interface IOneNoteExtractionService {
   /**
    * Extract content from a .onepkg file (notebook package)
@@ -27,6 +35,22 @@ export interface IOneNoteExtractionService {
    */
   extractFromOne(filePath: string, options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult>;
 
+  /**
+   * Extract content from a section or page exported from OneNote as a single file web page (.mht)
+   * @param filePath Path to the .mht file
+   * @param options Parsing options
+   * @returns Extraction result with hierarchy
+   */
+  extractFromMht(filePath: string, options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult>;
+
+  /**
+   * Extract content from a notebook kept as a folder of section files, with subfolders as section groups
+   * @param folder The notebook folder and its .one and .onetoc2 files
+   * @param options Parsing options
+   * @returns Extraction result with hierarchy
+   */
+  extractFromFolder(folder: OneNoteNotebookFolder, options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult>;
+
   /**
    * Validate if a file is a valid OneNote file
    * @param filePath Path to the file
@@ -35,12 +59,20 @@ export interface IOneNoteExtractionService {
   validateOneNoteFile(filePath: string): Promise<OneNoteFileInfo>;
 
   /**
-   * Extract multiple OneNote files (mixed .onepkg and .one)
-   * @param filePaths Array of file paths
-   * @param options Parsing options
+   * Extract multiple OneNote files (mixed .onepkg, .one and .mht) and notebook folders
+   * @param filePaths Array of file paths and notebook folders
+   * @param options Parsing options; with concurrency set sections are parsed side by side in worker threads
    * @returns Combined extraction result
    */
-  extractMultiple(filePaths: string[], options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult>;
+  extractMultiple(filePaths: OneNoteInput[], options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult>;
+
+  /**
+   * Read multiple OneNote files and notebook folders page by page, without collecting them into a hierarchy
+   * @param filePaths Array of file paths and notebook folders
+   * @param options Parsing options; maxFileSize is the memory ceiling for reading a file whole
+   * @returns Each section as it is opened, followed by its pages, and each file or section that could not be read
+   */
+  streamPages(filePaths: OneNoteInput[], options?: OneNoteParsingOptions): AsyncGenerator<OneNoteStreamItem>;
 }
 
 export class OneNoteExtractionService implements IOneNoteExtractionService {
@@ -73,7 +105,7 @@ export class OneNoteExtractionService implements IOneNoteExtractionService {
         success: true,
         hierarchy,
         extractedFiles: hierarchy.notebooks.flatMap(nb => 
-          nb.sections.map(section => `${section.id}.one`)
+          OneNoteHierarchyUtils.getAllSections(nb).map(section => `${section.id}.one`)
         )
       };
     } catch (error) {
@@ -86,49 +118,21 @@ export class OneNoteExtractionService implements IOneNoteExtractionService {
   }
 
   async extractFromOne(filePath: string, options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult> {
-    try {
-      // Check if file exists
-      if (!fs.existsSync(filePath)) {
-        throw new OneNoteError('File not found', 'FILE_NOT_FOUND', { filePath, operation: 'extractFromOne' });
-      }
-
-      // Check if file is corrupted
-      if (path.basename(filePath).includes('corrupted')) {
-        throw new OneNoteError('Invalid file format', 'INVALID_FORMAT', { 
-          filePath, 
-          operation: 'extractFromOne',
-          recoverable: true 
-        });
-      }
+    return this.extractSection(filePath, () => this.realParser.parseOneFile(filePath, options));
+  }
 
-      // Use real parser to extract content
-      const section = await this.realParser.parseOneFile(filePath, options);
-      
-      // Create hierarchy with the parsed section
-      const hierarchy: OneNoteHierarchy = {
-        notebooks: [{
-          id: this.generateId('notebook'),
-          name: this.extractNotebookName(filePath),
-          createdDate: new Date(),
-          lastModifiedDate: new Date(),
-          sections: [section],
-          metadata: {
-            filePath,
-            fileType: 'one',
-            parsedAt: new Date().toISOString()
-          }
-        }],
-        totalNotebooks: 1,
-        totalSections: 1,
-        totalPages: section.pages.length
-      };
+  async extractFromMht(filePath: string, options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult> {
+    return this.extractSection(filePath, () => this.realParser.parseOneFile(filePath, options), 'mht');
+  }
 
+  async extractFromFolder(folder: OneNoteNotebookFolder, options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult> {
+    try {
       return {
         success: true,
-        hierarchy
+        hierarchy: await OneNoteHierarchyUtils.collectStream(this.realParser.streamNotebookFolder(folder, options))
       };
     } catch (error) {
-      return OneNoteErrorUtils.createErrorResponse(error as Error, { filePath, operation: 'extractFromOne' });
+      return OneNoteErrorUtils.createErrorResponse(error as Error, { filePath: folder.directory, operation: 'extractFromFolder' });
     }
   }
 
@@ -142,7 +146,7 @@ export class OneNoteExtractionService implements IOneNoteExtractionService {
     const ext = path.extname(filePath).toLowerCase();
     
     // Determine file type and validity
-    let type: 'onepkg' | 'one';
+    let type: 'onepkg' | 'one' | 'mht';
     let isValid = false;
 
     if (ext === '.onepkg') {
@@ -151,21 +155,36 @@ export class OneNoteExtractionService implements IOneNoteExtractionService {
     } else if (ext === '.one') {
       type = 'one';
       isValid = !path.basename(filePath).includes('invalid');
+    } else if (MHT_EXTENSIONS.includes(ext) || this.isMimeArchive(filePath)) {
+      // Web page exports are told by their MIME headers, whatever they are named
+      type = 'mht';
+      isValid = this.isMimeArchive(filePath);
     } else {
       type = 'one'; // Default fallback
       isValid = false;
     }
 
+    // Sections the parser reads with caveats, such as OneNote 2007 sections, are reported as warnings
+    let warnings: string[] = [];
+    if (isValid) {
+      try {
+        warnings = (await this.realParser.validateFile(filePath)).warnings;
+      } catch (error) {
+        // A package that cannot be opened is reported when it is extracted
+      }
+    }
+
     return {
       path: filePath,
       type,
       size: stats.size,
       isValid,
-      lastModified: stats.mtime
+      lastModified: stats.mtime,
+      ...(warnings.length > 0 ? { warnings } : {})
     };
   }
 
-  async extractMultiple(filePaths: string[], options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult> {
+  async extractMultiple(filePaths: OneNoteInput[], options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult> {
     try {
       if (filePaths.length === 0) {
         return {
@@ -184,15 +203,36 @@ export class OneNoteExtractionService implements IOneNoteExtractionService {
       let totalSections = 0;
       let totalPages = 0;
 
+      // With a concurrency set the .one files are parsed side by side in worker threads up front
+      const sectionFiles = options?.concurrency
+        ? filePaths.filter((filePath): filePath is string => typeof filePath === 'string' && path.extname(filePath).toLowerCase() === '.one')
+        : [];
+      const parsedSections = new Map(sectionFiles.length > 0
+        ? (await this.realParser.parseSections(sectionFiles.map(filePath => ({ filePath })), options))
+          .map((outcome, index) => [sectionFiles[index]!, outcome] as const)
+        : []);
+
       for (const filePath of filePaths) {
         try {
-          const ext = path.extname(filePath).toLowerCase();
+          const kind = typeof filePath === 'string' ? this.fileKind(filePath) : 'folder';
           let result: OneNoteExtractionResult;
 
-          if (ext === '.onepkg') {
+          if (typeof filePath !== 'string') {
+            result = await this.extractFromFolder(filePath, options);
+          } else if (kind === 'onepkg') {
             result = await this.extractFromOnepkg(filePath, options);
-          } else if (ext === '.one') {
-            result = await this.extractFromOne(filePath, options);
+          } else if (kind === 'mht') {
+            result = await this.extractFromMht(filePath, options);
+          } else if (kind === 'one') {
+            const outcome = parsedSections.get(filePath);
+            result = outcome
+              ? await this.extractSection(filePath, async () => {
+                if ('error' in outcome) {
+                  throw outcome.error;
+                }
+                return outcome.section;
+              })
+              : await this.extractFromOne(filePath, options);
           } else {
             // Skip invalid files
             continue;
@@ -206,7 +246,7 @@ export class OneNoteExtractionService implements IOneNoteExtractionService {
             totalPages += result.hierarchy.totalPages;
           }
         } catch (error) {
-          console.warn(`Failed to extract ${filePath}:`, error);
+          console.warn(`Failed to extract ${this.inputPath(filePath)}:`, error);
         }
       }
 
@@ -227,12 +267,123 @@ export class OneNoteExtractionService implements IOneNoteExtractionService {
     }
   }
 
+  async *streamPages(filePaths: OneNoteInput[], options?: OneNoteParsingOptions): AsyncGenerator<OneNoteStreamItem> {
+    for (const filePath of filePaths) {
+      const kind = typeof filePath === 'string' ? this.fileKind(filePath) : 'folder';
+      let items: AsyncGenerator<OneNoteStreamItem>;
+
+      if (typeof filePath !== 'string') {
+        items = this.realParser.streamNotebookFolder(filePath, options);
+      } else if (kind === 'onepkg') {
+        items = this.realParser.streamOnepkgFile(filePath, options);
+      } else if (kind === 'one' || kind === 'mht') {
+        // Web page exports are read as sections of their own, like .one files
+        items = this.realParser.streamOneFile(filePath, options);
+      } else {
+        yield { type: 'failed', source: filePath, error: 'Unsupported file type' };
+        continue;
+      }
+
+      try {
+        yield* items;
+      } catch (error) {
+        yield { type: 'failed', source: this.inputPath(filePath), error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  }
+
+  /**
+   * Wrap a .one or .mht file's section in a notebook of its own
+   * @param parse Reads the section, once the file is known to exist
+   */
+  private async extractSection(
+    filePath: string,
+    parse: () => Promise<OneNoteSection>,
+    fileType: 'one' | 'mht' = 'one'
+  ): Promise<OneNoteExtractionResult> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(filePath)) {
+        throw new OneNoteError('File not found', 'FILE_NOT_FOUND', { filePath, operation: 'extractFromOne' });
+      }
+
+      // Check if file is corrupted
+      if (path.basename(filePath).includes('corrupted')) {
+        throw new OneNoteError('Invalid file format', 'INVALID_FORMAT', { 
+          filePath, 
+          operation: 'extractFromOne',
+          recoverable: true 
+        });
+      }
+
+      // Use real parser to extract content
+      const section = await parse();
+      
+      // Create hierarchy with the parsed section
+      const hierarchy: OneNoteHierarchy = {
+        notebooks: [{
+          // A section file on its own is a notebook of one section, identified by it
+          id: OneNoteIdUtils.fromContent('notebook', section.id),
+          name: this.extractNotebookName(filePath),
+          createdDate: new Date(),
+          lastModifiedDate: new Date(),
+          sections: [section],
+          metadata: {
+            filePath,
+            fileType,
+            parsedAt: new Date().toISOString()
+          }
+        }],
+        totalNotebooks: 1,
+        totalSections: 1,
+        totalPages: section.pages.length
+      };
+
+      return {
+        success: true,
+        hierarchy
+      };
+    } catch (error) {
+      return OneNoteErrorUtils.createErrorResponse(error as Error, { filePath, operation: 'extractFromOne' });
+    }
+  }
+
+  /**
+   * Tell the kind of an input file by its extension, or by its MIME headers for web page exports saved
+   * under another name
+   */
+  private fileKind(filePath: string): 'onepkg' | 'one' | 'mht' | undefined {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.onepkg') {
+      return 'onepkg';
+    }
+    if (ext === '.one') {
+      return 'one';
+    }
+    return MHT_EXTENSIONS.includes(ext) || this.isMimeArchive(filePath) ? 'mht' : undefined;
+  }
+
+  private inputPath(input: OneNoteInput): string {
+    return typeof input === 'string' ? input : input.directory;
+  }
+
+  private isMimeArchive(filePath: string): boolean {
+    try {
+      const fd = fs.openSync(filePath, 'r');
+      try {
+        const start = Buffer.alloc(MIME_SNIFF_LENGTH);
+        return OneNoteMimeArchive.isMimeArchive(start.subarray(0, fs.readSync(fd, start, 0, start.length, 0)));
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch (error) {
+      // Missing and unreadable files are reported when they are extracted
+      return false;
+    }
+  }
+
   private extractNotebookName(filePath: string): string {
     const fileName = path.basename(filePath, path.extname(filePath));
     return fileName || 'Untitled Notebook';
   }
-
-  private generateId(prefix: string): string {
-    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
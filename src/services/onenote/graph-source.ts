@@ -0,0 +1,342 @@
+/**
+ * Microsoft Graph source
+ * Reads notebooks straight from the OneNote API of Microsoft Graph instead of from exported files: notebooks,
+ * section groups, sections and pages are listed through /me/onenote, and each page's HTML and the pictures and
+ * files it refers to are fetched and read into the same notebooks, sections and pages the file parser gives
+ */
+
+import {
+  OneNoteHierarchy,
+  OneNoteNotebook,
+  OneNotePage,
+  OneNoteParsingOptions,
+  OneNoteSection,
+  OneNoteSectionGroup,
+  OneNoteStreamItem
+} from '../../types/onenote';
+import { OneNoteAssetStore } from './asset-store';
+import { OneNoteDocumentRenderer } from './document-renderer';
+import { OneNoteError } from './error-utils';
+import { OneNoteHierarchyUtils } from './hierarchy-utils';
+import { OneNoteHtmlPageReader } from './html-page-reader';
+import { HtmlElement, OneNoteHtmlTree } from './html-tree';
+import { OneNoteIdUtils } from './id-utils';
+import { OneNoteMimePart } from './mime-archive';
+
+export interface OneNoteGraphSourceOptions {
+  /** OAuth access token with the Notes.Read scope */
+  accessToken: string;
+  /** Graph endpoint, such as a national cloud's; defaults to the public v1.0 endpoint */
+  baseUrl?: string;
+  /** Only read notebooks with these names, in any case */
+  notebooks?: string[];
+  /** Times a throttled request is retried before it fails */
+  maxRetries?: number;
+}
+
+interface GraphEntity {
+  id: string;
+  displayName?: string;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+}
+
+interface GraphPage extends GraphEntity {
+  title?: string;
+  /** Indentation from 0 for a top-level page; listed with pagelevel=true */
+  level?: number;
+  order?: number;
+  links?: { oneNoteWebUrl?: { href?: string } };
+}
+
+interface GraphCollection<T> {
+  value?: T[];
+  '@odata.nextLink'?: string;
+}
+
+const DEFAULT_BASE_URL = 'https://graph.microsoft.com/v1.0';
+const DEFAULT_MAX_RETRIES = 3;
+/** Throttled requests without a Retry-After wait this long, doubling with each retry */
+const RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+
+export class OneNoteGraphSource {
+  readonly baseUrl: string;
+
+  constructor(private readonly options: OneNoteGraphSourceOptions) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  /**
+   * Read the notebooks one page at a time, section by section in notebook order; each page's HTML and
+   * resources are only fetched when the page is reached
+   */
+  async *streamPages(options: OneNoteParsingOptions = {}): AsyncGenerator<OneNoteStreamItem> {
+    const assets = options.extractImages === false && options.extractAttachments === false
+      ? undefined
+      : new OneNoteAssetStore(options.assetsDirectory);
+    const names = this.options.notebooks?.map(name => name.trim().toLowerCase());
+
+    for (const entity of await this.list<GraphEntity>('/me/onenote/notebooks')) {
+      if (names && !names.includes((entity.displayName ?? '').toLowerCase())) {
+        continue;
+      }
+      const notebook: OneNoteNotebook = {
+        ...this.createContainer('notebook', entity, 'Untitled Notebook'),
+        sections: [],
+        sectionGroups: []
+      };
+      yield* this.streamContainer(`/me/onenote/notebooks/${encodeURIComponent(entity.id)}`, notebook, [], options, assets);
+    }
+  }
+
+  /**
+   * Read the notebooks whole, with their section groups, sections and pages
+   */
+  async readHierarchy(options: OneNoteParsingOptions = {}): Promise<OneNoteHierarchy> {
+    return OneNoteHierarchyUtils.collectStream(this.streamPages(options));
+  }
+
+  /**
+   * Sections come before section groups, as OneNote shows them
+   */
+  private async *streamContainer(
+    resource: string,
+    notebook: OneNoteNotebook,
+    sectionGroups: OneNoteSectionGroup[],
+    options: OneNoteParsingOptions,
+    assets: OneNoteAssetStore | undefined
+  ): AsyncGenerator<OneNoteStreamItem> {
+    for (const entity of await this.list<GraphEntity>(`${resource}/sections`)) {
+      const section: OneNoteSection = {
+        ...this.createContainer('section', entity, 'Untitled Section'),
+        pages: []
+      };
+      section.metadata.sectionId = section.id;
+      yield { type: 'section', notebook, sectionGroups, section };
+
+      const pages = await this.list<GraphPage>(`/me/onenote/sections/${encodeURIComponent(entity.id)}/pages?pagelevel=true`);
+      pages.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+      for (const [index, page] of pages.entries()) {
+        yield { type: 'page', notebook, sectionGroups, section, page: await this.readPage(page, section, index, options, assets) };
+      }
+    }
+
+    for (const entity of await this.list<GraphEntity>(`${resource}/sectionGroups`)) {
+      const group: OneNoteSectionGroup = {
+        ...this.createContainer('section-group', entity, 'Untitled Section Group'),
+        sections: [],
+        sectionGroups: []
+      };
+      yield* this.streamContainer(
+        `/me/onenote/sectionGroups/${encodeURIComponent(entity.id)}`,
+        notebook,
+        [...sectionGroups, group],
+        options,
+        assets
+      );
+    }
+  }
+
+  /**
+   * Fetch a page's HTML and the pictures and files it links to, and read them like a web page export;
+   * with fallbackOnError, a page that cannot be fetched is kept with the error in its metadata
+   */
+  private async readPage(
+    entity: GraphPage,
+    section: OneNoteSection,
+    index: number,
+    options: OneNoteParsingOptions,
+    assets: OneNoteAssetStore | undefined
+  ): Promise<OneNotePage> {
+    const location = `${this.baseUrl}/me/onenote/pages/${encodeURIComponent(entity.id)}/content`;
+    const page: OneNotePage = {
+      id: OneNoteIdUtils.fromContent('page', entity.id),
+      title: entity.title?.trim() || 'Untitled Page',
+      content: '',
+      createdDate: this.readDate(entity.createdDateTime),
+      lastModifiedDate: this.readDate(entity.lastModifiedDateTime ?? entity.createdDateTime),
+      level: (entity.level ?? 0) + 1,
+      metadata: {
+        format: 'graph',
+        graphId: entity.id,
+        ...(entity.links?.oneNoteWebUrl?.href ? { webUrl: entity.links.oneNoteWebUrl.href } : {}),
+        parsedAt: new Date().toISOString(),
+        sectionId: section.id,
+        pageIndex: index
+      }
+    };
+
+    try {
+      const response = await this.request(location, 'text/html');
+      const part: OneNoteMimePart = { contentType: 'text/html', charset: 'utf-8', location, data: Buffer.from(await response.arrayBuffer()) };
+      const resources = await this.fetchResources(part, options, page);
+      const read = new OneNoteHtmlPageReader([part, ...resources], assets, options).read(part);
+      if (read) {
+        page.title = entity.title?.trim() || read.title;
+        page.document = read.document;
+        page.content = OneNoteDocumentRenderer.toMarkdown(read.document);
+      }
+      return page;
+    } catch (error) {
+      if (!options.fallbackOnError) {
+        throw error;
+      }
+      page.metadata.parseError = error instanceof Error ? error.message : String(error);
+      return page;
+    }
+  }
+
+  /**
+   * Fetch the pictures and attachments a page links to on the Graph endpoint; the access token is not sent
+   * anywhere else, so links to other sites are left to the page reader as they are. Resources that fail to
+   * download are listed in the page's resourceErrors and left out
+   */
+  private async fetchResources(part: OneNoteMimePart, options: OneNoteParsingOptions, page: OneNotePage): Promise<OneNoteMimePart[]> {
+    const links: Array<{ url: string; type?: string; name?: string }> = [];
+    const visit = (element: HtmlElement) => {
+      for (const child of element.children) {
+        if (typeof child === 'string') {
+          continue;
+        }
+        if (child.tag === 'img' && options.extractImages !== false) {
+          const fullResolution = child.attributes['data-fullres-src'];
+          const url = fullResolution ?? child.attributes['src'];
+          const type = (fullResolution ? child.attributes['data-fullres-src-type'] : undefined) ?? child.attributes['data-src-type'];
+          if (url) {
+            links.push({ url, ...(type ? { type } : {}) });
+          }
+        } else if (child.tag === 'object' && options.extractAttachments !== false) {
+          const url = child.attributes['data'];
+          const type = child.attributes['type'];
+          const name = child.attributes['data-attachment'];
+          if (url) {
+            links.push({ url, ...(type ? { type } : {}), ...(name ? { name } : {}) });
+          }
+        }
+        visit(child);
+      }
+    };
+    visit(OneNoteHtmlTree.parse(part.data.toString('utf8')));
+
+    const parts: OneNoteMimePart[] = [];
+    const fetched = new Set<string>();
+    for (const link of links) {
+      const url = this.resolve(link.url, part.location);
+      if (!url || fetched.has(url) || !this.isGraphUrl(url)) {
+        continue;
+      }
+      fetched.add(url);
+
+      try {
+        const response = await this.request(url, '*/*');
+        const contentType = link.type ?? response.headers.get('content-type')?.split(';')[0]?.trim() ?? 'application/octet-stream';
+        parts.push({
+          contentType: contentType.toLowerCase(),
+          location: url,
+          ...(link.name ? { name: link.name } : {}),
+          data: Buffer.from(await response.arrayBuffer())
+        });
+      } catch (error) {
+        if (error instanceof OneNoteError && error.code === 'GRAPH_UNAUTHORIZED') {
+          throw error;
+        }
+        page.metadata.resourceErrors = [...(page.metadata.resourceErrors ?? []), error instanceof Error ? error.message : String(error)];
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * Every item of a collection, following its next links
+   */
+  private async list<T>(resource: string): Promise<T[]> {
+    const items: T[] = [];
+    let url: string | undefined = `${this.baseUrl}${resource}`;
+    while (url) {
+      const collection = await (await this.request(url, 'application/json')).json() as GraphCollection<T>;
+      items.push(...(collection.value ?? []));
+      const next: string | undefined = collection['@odata.nextLink'];
+      url = next && this.isGraphUrl(next) ? next : undefined;
+    }
+    return items;
+  }
+
+  /**
+   * A GET request with the access token; throttled requests are retried after the delay Graph asks for
+   */
+  private async request(url: string, accept: string): Promise<Response> {
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, { headers: { Authorization: `Bearer ${this.options.accessToken}`, Accept: accept } });
+      } catch (error) {
+        throw new OneNoteError(
+          `Could not reach Microsoft Graph at ${url}: ${error instanceof Error ? error.message : String(error)}`,
+          'GRAPH_UNREACHABLE',
+          { operation: 'streamPages', recoverable: true }
+        );
+      }
+      if (response.ok) {
+        return response;
+      }
+      // Unread bodies would hold their connection open
+      await response.body?.cancel();
+
+      if ((response.status === 429 || response.status === 503) && attempt < maxRetries) {
+        const retryAfter = Number(response.headers.get('retry-after'));
+        const delay = Number.isFinite(retryAfter) && retryAfter >= 0 ? retryAfter * 1000 : RETRY_DELAY * 2 ** attempt;
+        await new Promise(resolve => setTimeout(resolve, Math.min(delay, MAX_RETRY_DELAY)));
+        continue;
+      }
+      const unauthorized = response.status === 401 || response.status === 403;
+      throw new OneNoteError(
+        unauthorized
+          ? `Microsoft Graph refused the access token: ${response.status} ${response.statusText}`
+          : `Microsoft Graph request failed: ${response.status} ${response.statusText} (${url})`,
+        unauthorized ? 'GRAPH_UNAUTHORIZED' : 'GRAPH_REQUEST_FAILED',
+        { operation: 'streamPages', recoverable: response.status === 429 || response.status >= 500 }
+      );
+    }
+  }
+
+  /**
+   * Notebooks, section groups and sections are identified by a hash of their Graph ID, which stays the same
+   * for as long as the item exists
+   */
+  private createContainer(
+    prefix: string,
+    entity: GraphEntity,
+    fallbackName: string
+  ): Pick<OneNoteSection, 'id' | 'name' | 'createdDate' | 'lastModifiedDate' | 'metadata'> {
+    return {
+      id: OneNoteIdUtils.fromContent(prefix, entity.id),
+      name: entity.displayName?.trim() || fallbackName,
+      createdDate: this.readDate(entity.createdDateTime),
+      lastModifiedDate: this.readDate(entity.lastModifiedDateTime ?? entity.createdDateTime),
+      metadata: { source: 'graph', graphId: entity.id, parsedAt: new Date().toISOString() }
+    };
+  }
+
+  private readDate(value: string | undefined): Date {
+    const date = value ? new Date(value) : new Date(NaN);
+    return Number.isNaN(date.getTime()) ? new Date() : date;
+  }
+
+  private resolve(reference: string, base: string | undefined): string | undefined {
+    try {
+      return new URL(reference, base).href;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private isGraphUrl(url: string): boolean {
+    try {
+      return new URL(url).origin === new URL(this.baseUrl).origin;
+    } catch (error) {
+      return false;
+    }
+  }
+}
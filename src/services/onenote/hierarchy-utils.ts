@@ -0,0 +1,155 @@
+/**
+ * Helpers for walking notebooks that contain nested section groups and subpages
+ */
+
+import { OneNoteHierarchy, OneNoteNotebook, OneNotePage, OneNoteSection, OneNoteSectionGroup, OneNoteStreamItem } from '../../types/onenote';
+
+export interface OneNoteSectionLocation {
+  section: OneNoteSection;
+  /** Names of the section groups between the notebook and the section */
+  groupPath: string[];
+}
+
+export interface OneNotePageNode {
+  page: OneNotePage;
+  /** Subpages that follow the page at a deeper level */
+  children: OneNotePageNode[];
+}
+
+export class OneNoteHierarchyUtils {
+  /**
+   * List every section in a notebook, top-level sections first, then each group depth-first
+   */
+  static getAllSections(notebook: OneNoteNotebook): OneNoteSection[] {
+    return OneNoteHierarchyUtils.getSectionLocations(notebook).map(location => location.section);
+  }
+
+  /**
+   * List every section in a notebook together with its section group path
+   */
+  static getSectionLocations(notebook: OneNoteNotebook): OneNoteSectionLocation[] {
+    const locations: OneNoteSectionLocation[] = notebook.sections.map(section => ({ section, groupPath: [] }));
+    for (const group of notebook.sectionGroups ?? []) {
+      OneNoteHierarchyUtils.collectGroupSections(group, [], locations);
+    }
+    return locations;
+  }
+
+  /**
+   * List every section group in a notebook, parents before their children
+   */
+  static getAllSectionGroups(notebook: OneNoteNotebook): OneNoteSectionGroup[] {
+    const groups: OneNoteSectionGroup[] = [];
+    const visit = (group: OneNoteSectionGroup): void => {
+      groups.push(group);
+      group.sectionGroups.forEach(visit);
+    };
+    (notebook.sectionGroups ?? []).forEach(visit);
+    return groups;
+  }
+
+  /**
+   * Count the sections in a group, including nested groups
+   */
+  static countGroupSections(group: OneNoteSectionGroup): number {
+    return group.sections.length +
+      group.sectionGroups.reduce((sum, child) => sum + OneNoteHierarchyUtils.countGroupSections(child), 0);
+  }
+
+  /**
+   * Count the sections in a notebook, including those inside section groups
+   */
+  static countSections(notebook: OneNoteNotebook): number {
+    return OneNoteHierarchyUtils.getAllSections(notebook).length;
+  }
+
+  /**
+   * Count the pages in a notebook, including those inside section groups
+   */
+  static countPages(notebook: OneNoteNotebook): number {
+    return OneNoteHierarchyUtils.getAllSections(notebook).reduce((sum, section) => sum + section.pages.length, 0);
+  }
+
+  /**
+   * Nest a section's pages by page level: each subpage belongs to the closest
+   * preceding page with a lower level, and section order is kept within each level
+   */
+  static getPageTree(pages: OneNotePage[]): OneNotePageNode[] {
+    const roots: OneNotePageNode[] = [];
+    const stack: Array<{ node: OneNotePageNode; level: number }> = [];
+
+    for (const page of pages) {
+      const level = Math.max(page.level ?? 1, 1);
+      const node: OneNotePageNode = { page, children: [] };
+
+      while (stack.length > 0 && stack[stack.length - 1]!.level >= level) {
+        stack.pop();
+      }
+
+      const parent = stack[stack.length - 1];
+      (parent ? parent.node.children : roots).push(node);
+      stack.push({ node, level });
+    }
+
+    return roots;
+  }
+
+  /**
+   * Collect streamed sections and pages into whole notebooks, keeping the order they were read in
+   */
+  static async collectStream(items: AsyncIterable<OneNoteStreamItem>): Promise<OneNoteHierarchy> {
+    const notebooks = new Map<string, OneNoteNotebook>();
+    const groups = new Map<string, OneNoteSectionGroup>();
+    const sections = new Map<string, OneNoteSection>();
+
+    for await (const item of items) {
+      if (item.type === 'failed') {
+        console.warn(`Failed to parse section ${item.source}: ${item.error}`);
+        continue;
+      }
+      if (item.type === 'page') {
+        sections.get(item.section.id)?.pages.push(item.page);
+        continue;
+      }
+
+      let notebook = notebooks.get(item.notebook.id);
+      if (!notebook) {
+        notebook = { ...item.notebook, sections: [], sectionGroups: [] };
+        notebooks.set(notebook.id, notebook);
+      }
+      let container: { sections: OneNoteSection[]; sectionGroups?: OneNoteSectionGroup[] } = notebook;
+      for (const shell of item.sectionGroups) {
+        let group = groups.get(shell.id);
+        if (!group) {
+          group = { ...shell, sections: [], sectionGroups: [] };
+          groups.set(group.id, group);
+          container.sectionGroups?.push(group);
+        }
+        container = group;
+      }
+      const section = { ...item.section, pages: [] };
+      sections.set(section.id, section);
+      container.sections.push(section);
+    }
+
+    const list = [...notebooks.values()];
+    return {
+      notebooks: list,
+      totalNotebooks: list.length,
+      totalSections: list.reduce((total, notebook) => total + OneNoteHierarchyUtils.countSections(notebook), 0),
+      totalPages: list.reduce((total, notebook) => total + OneNoteHierarchyUtils.countPages(notebook), 0)
+    };
+  }
+
+  private static collectGroupSections(
+    group: OneNoteSectionGroup,
+    parentPath: string[],
+    locations: OneNoteSectionLocation[]
+  ): void {
+    const groupPath = [...parentPath, group.name];
+    locations.push(...group.sections.map(section => ({ section, groupPath })));
+    for (const child of group.sectionGroups) {
+      OneNoteHierarchyUtils.collectGroupSections(child, groupPath, locations);
+    }
+  }
+}
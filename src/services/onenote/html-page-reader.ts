@@ -0,0 +1,606 @@
+/**
+ * HTML page reader
+ * Reads the HTML pages of a OneNote web page export (.mht), or the page HTML Microsoft Graph serves, into
+ * page documents, saving the pictures and files they refer to as assets
+ */
+
+import * as path from 'path';
+import {
+  OneNoteBlock,
+  OneNoteDocument,
+  OneNoteFileBlock,
+  OneNoteImageBlock,
+  OneNoteLayoutRegion,
+  OneNoteListBlock,
+  OneNoteListItem,
+  OneNoteNoteTag,
+  OneNoteTableRow,
+  OneNoteTextRun
+} from '../../types/document';
+import { OneNoteParsingOptions } from '../../types/onenote';
+import { OneNoteAssetStore } from './asset-store';
+import { OneNoteDocumentRenderer } from './document-renderer';
+import { HtmlElement, HtmlNode, OneNoteHtmlTree } from './html-tree';
+import { OneNoteLayoutResolver } from './layout-resolver';
+import { OneNoteMimeArchive, OneNoteMimePart } from './mime-archive';
+
+export interface OneNoteHtmlPage {
+  title: string;
+  document: OneNoteDocument;
+}
+
+type RunFormat = Omit<OneNoteTextRun, 'text'>;
+
+interface ReadContext {
+  format: RunFormat;
+  /** Positioned outlines are collected here; inside tables and lists they are read in place */
+  regions?: OneNoteLayoutRegion[];
+  /** Page offset of the positioned element being read, in CSS pixels */
+  origin: { x: number; y: number };
+}
+
+/** Elements that hold no page content */
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'title', 'meta', 'link', 'noscript', 'template', 'frameset', 'frame', 'xml']);
+/** Elements that start a block of their own */
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'table', 'pre', 'hr', 'img', 'object', 'blockquote',
+  'section', 'article', 'center', 'dl', 'body', 'main', 'header', 'footer'
+]);
+const CSS_PIXELS: Record<string, number> = { px: 1, pt: 96 / 72, pc: 16, in: 96, cm: 96 / 2.54, mm: 96 / 25.4 };
+/** Colors that are the default text and background colors rather than formatting */
+const DEFAULT_COLORS = new Set(['#000000', '#ffffff', 'windowtext', 'window', 'black', 'white', 'auto', 'transparent', 'inherit']);
+/** OneNote puts the text it recognized in a picture in its alt text, after this label */
+const RECOGNIZED_TEXT_LABEL = /^machine generated alternative text:\s*/i;
+/** Labels and icons of the note tags Graph names in data-tag attributes; others are labelled from their name */
+const DATA_TAGS: Record<string, { name: string; icon?: string }> = {
+  'to-do': { name: 'To Do' },
+  important: { name: 'Important', icon: '⭐' },
+  question: { name: 'Question', icon: '❓' },
+  critical: { name: 'Critical', icon: '❗' },
+  idea: { name: 'Idea', icon: '💡' },
+  contact: { name: 'Contact', icon: '📇' },
+  address: { name: 'Address', icon: '🏠' },
+  'remember-for-later': { name: 'Remember for later', icon: '📌' }
+};
+const DEFAULT_NOTE_TAG_ICON = '🏷️';
+
+export class OneNoteHtmlPageReader {
+  /**
+   * @param parts The parts of the archive the pages refer to pictures and files in
+   * @param assets Where picture and attachment data is written; without it images and files keep their metadata only
+   */
+  constructor(
+    private readonly parts: OneNoteMimePart[],
+    private readonly assets?: OneNoteAssetStore,
+    private readonly options: Pick<OneNoteParsingOptions, 'extractImages' | 'extractAttachments'> = {}
+  ) {}
+
+  /**
+   * Read an HTML part into a page; parts without page content, such as the frames of a section export,
+   * give null
+   */
+  read(part: OneNoteMimePart): OneNoteHtmlPage | null {
+    const root = OneNoteHtmlTree.parse(OneNoteMimeArchive.text(part));
+    if (OneNoteHtmlTree.find(root, 'frameset')) {
+      return null;
+    }
+    const titleElement = OneNoteHtmlTree.find(root, 'title');
+    let title = titleElement ? this.collapse(OneNoteHtmlTree.textOf(titleElement)).trim() : '';
+
+    const regions: OneNoteLayoutRegion[] = [];
+    const flow = this.readBlocks((OneNoteHtmlTree.find(root, 'body') ?? root).children, part, { format: {}, regions, origin: { x: 0, y: 0 } });
+    if (flow.length > 0 && regions.length > 0) {
+      regions.unshift({ x: 0, y: 0, blocks: flow });
+    }
+    const placed = regions.length > 0 ? regions : [{ x: 0, y: 0, blocks: flow }];
+
+    // OneNote writes the page title as the first paragraph of the page as well
+    const first = OneNoteLayoutResolver.rows(placed)[0]?.[0];
+    const firstText = first?.blocks[0] ? this.blockText(first.blocks[0]) : '';
+    if (first && firstText && (!title || firstText === title)) {
+      title = firstText;
+      first.blocks.shift();
+    }
+
+    const filled = placed.filter(region => region.blocks.length > 0);
+    const blocks = OneNoteLayoutResolver.readingOrder(filled);
+    if (blocks.length === 0 && !title) {
+      return null;
+    }
+    return { title: title || 'Untitled Page', document: filled.length > 1 ? { blocks, regions: filled } : { blocks } };
+  }
+
+  /**
+   * Read elements into blocks; text and inline elements between blocks become paragraphs
+   */
+  private readBlocks(nodes: HtmlNode[], base: OneNoteMimePart, context: ReadContext): OneNoteBlock[] {
+    const blocks: OneNoteBlock[] = [];
+    let pending: HtmlNode[] = [];
+    const flush = () => {
+      const runs = this.readRuns(pending, context.format);
+      if (OneNoteDocumentRenderer.runsText(runs).trim().length > 0) {
+        blocks.push({ type: 'paragraph', runs });
+      }
+      pending = [];
+    };
+
+    for (const node of nodes) {
+      if (typeof node === 'string' || node.tag === 'br') {
+        pending.push(node);
+        continue;
+      }
+      if (SKIPPED_ELEMENTS.has(node.tag)) {
+        continue;
+      }
+
+      const position = context.regions ? this.readPosition(node) : undefined;
+      if (position && context.regions) {
+        flush();
+        const x = context.origin.x + position.x;
+        const y = context.origin.y + position.y;
+        const regionBlocks = this.readBlocks(node.children, base, { ...context, origin: { x, y } });
+        if (regionBlocks.length > 0) {
+          context.regions.push({ x, y, ...(position.width !== undefined ? { width: position.width } : {}), blocks: regionBlocks });
+        }
+        continue;
+      }
+
+      const file = node.tag === 'a' ? this.readFileLink(node, base) : null;
+      if (file) {
+        flush();
+        blocks.push(file);
+        continue;
+      }
+
+      if (/^h[1-6]$/.test(node.tag)) {
+        flush();
+        const runs = this.readRuns(node.children, this.formatOf(node, context.format));
+        const tags = this.readTags(node);
+        if (OneNoteDocumentRenderer.runsText(runs).trim().length > 0) {
+          blocks.push({ type: 'heading', level: Number(node.tag[1]) as 1 | 2 | 3 | 4 | 5 | 6, runs, ...(tags.length > 0 ? { tags } : {}) });
+        }
+      } else if (node.tag === 'ul' || node.tag === 'ol') {
+        flush();
+        const list = this.readList(node, base, context);
+        if (list.items.length > 0) {
+          blocks.push(list);
+        }
+      } else if (node.tag === 'table') {
+        flush();
+        const rows = this.readTableRows(node, base, context);
+        if (rows.length > 0) {
+          blocks.push({ type: 'table', rows });
+        }
+      } else if (node.tag === 'img') {
+        flush();
+        blocks.push(this.readImage(node, base));
+      } else if (node.tag === 'object') {
+        flush();
+        const attachment = this.readObject(node, base);
+        if (attachment) {
+          blocks.push(attachment);
+        }
+      } else if (node.tag === 'pre') {
+        flush();
+        blocks.push({ type: 'code', text: OneNoteHtmlTree.textOf(node).replace(/\r\n?/g, '\n').replace(/^\n|\n$/g, '') });
+      } else if (node.tag === 'hr') {
+        flush();
+        blocks.push({ type: 'divider' });
+      } else if (BLOCK_ELEMENTS.has(node.tag) || this.containsBlock(node, base)) {
+        // Paragraphs, outlines and inline elements around pictures are read as containers of their own
+        flush();
+        const inner = this.readBlocks(node.children, base, { ...context, format: this.formatOf(node, context.format) });
+        const tags = this.readTags(node);
+        const [first] = inner;
+        if (tags.length > 0 && (first?.type === 'paragraph' || first?.type === 'heading')) {
+          first.tags = tags;
+        }
+        blocks.push(...inner);
+      } else {
+        pending.push(node);
+      }
+    }
+
+    flush();
+    return blocks;
+  }
+
+  /**
+   * Read a list; lists written directly inside a list, as Office writes indented items, are nested under
+   * the item before them
+   */
+  private readList(list: HtmlElement, base: OneNoteMimePart, context: ReadContext): OneNoteListBlock {
+    const items: OneNoteListItem[] = [];
+    const nested: ReadContext = { format: context.format, origin: context.origin };
+
+    for (const child of list.children) {
+      if (typeof child === 'string') {
+        continue;
+      }
+      if (child.tag === 'ul' || child.tag === 'ol') {
+        const sublist = this.readList(child, base, nested);
+        if (sublist.items.length === 0) {
+          continue;
+        }
+        const previous = items[items.length - 1];
+        if (previous) {
+          previous.children.push(sublist);
+        } else {
+          items.push({ runs: [], children: [sublist] });
+        }
+      } else if (child.tag === 'li') {
+        const format = this.formatOf(child, context.format);
+        const inline = child.children.findIndex(node => typeof node !== 'string' && node.tag !== 'br' &&
+          (BLOCK_ELEMENTS.has(node.tag) || this.containsBlock(node, base)));
+        const leading = inline < 0 ? child.children : child.children.slice(0, inline);
+        const children = this.readBlocks(inline < 0 ? [] : child.children.slice(inline), base, { ...nested, format });
+        let runs = this.readRuns(leading, format);
+
+        // Items whose text is written in a paragraph of their own
+        const [first] = children;
+        if (OneNoteDocumentRenderer.runsText(runs).trim().length === 0 && first?.type === 'paragraph') {
+          runs = first.runs;
+          children.shift();
+        }
+        const tags = this.readTags(child);
+        items.push({ runs, children, ...(tags.length > 0 ? { tags } : {}) });
+      }
+    }
+
+    return { type: 'list', ordered: list.tag === 'ol', items };
+  }
+
+  private readTableRows(table: HtmlElement, base: OneNoteMimePart, context: ReadContext): OneNoteTableRow[] {
+    const rows: OneNoteTableRow[] = [];
+    const nested: ReadContext = { format: context.format, origin: context.origin };
+    const visit = (element: HtmlElement) => {
+      for (const child of element.children) {
+        if (typeof child === 'string') {
+          continue;
+        }
+        if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+          visit(child);
+        } else if (child.tag === 'tr') {
+          const cells = child.children
+            .filter((cell): cell is HtmlElement => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+            .map(cell => {
+              const colSpan = Number(cell.attributes['colspan']);
+              const rowSpan = Number(cell.attributes['rowspan']);
+              return {
+                blocks: this.readBlocks(cell.children, base, { ...nested, format: this.formatOf(cell, context.format) }),
+                ...(colSpan > 1 ? { colSpan } : {}),
+                ...(rowSpan > 1 ? { rowSpan } : {})
+              };
+            });
+          if (cells.length > 0) {
+            rows.push({ cells });
+          }
+        }
+      }
+    };
+
+    visit(table);
+    return rows;
+  }
+
+  private readImage(element: HtmlElement, base: OneNoteMimePart): OneNoteImageBlock {
+    // Graph links the picture as inserted in data-fullres-src and a resized copy in src
+    const sources = [element.attributes['data-fullres-src'], element.attributes['src']].filter((source): source is string => !!source);
+    const found = sources.map(source => ({ source, part: OneNoteMimeArchive.find(this.parts, source, base) })).find(({ part }) => part);
+    const src = found?.source ?? element.attributes['src'] ?? '';
+    const part = found?.part;
+    const block: OneNoteImageBlock = { type: 'image' };
+
+    const name = part ? OneNoteMimeArchive.fileName(part) : src && !/^data:/i.test(src) ? path.posix.basename(src) : undefined;
+    if (name) {
+      block.name = name;
+    }
+    if (part) {
+      block.mimeType = part.contentType;
+      if (this.assets && this.options.extractImages !== false) {
+        const asset = this.assets.save(part.data, name ? path.extname(name) : undefined);
+        block.src = asset.path;
+        block.mimeType = asset.mimeType;
+      }
+    } else if (/^https?:\/\//i.test(src)) {
+      block.src = src;
+    }
+
+    const alt = this.collapse(element.attributes['alt'] ?? '').trim();
+    if (RECOGNIZED_TEXT_LABEL.test(alt)) {
+      // The line breaks of the recognized text are lost in the attribute
+      block.ocrText = alt.replace(RECOGNIZED_TEXT_LABEL, '');
+      if (block.ocrText) {
+        block.alt = block.ocrText;
+      }
+    } else if (alt) {
+      block.alt = alt;
+    }
+
+    const style = OneNoteHtmlTree.readStyle(element);
+    for (const key of ['width', 'height'] as const) {
+      const value = this.toPixels(element.attributes[key] ?? style.get(key));
+      if (value !== undefined) {
+        block[key] = Math.round(value);
+      }
+    }
+    return block;
+  }
+
+  private readFileLink(element: HtmlElement, base: OneNoteMimePart): OneNoteFileBlock | null {
+    const part = this.linkedFile(element, base);
+    if (!part) {
+      return null;
+    }
+    return this.readFile(this.collapse(OneNoteHtmlTree.textOf(element)).trim(), part);
+  }
+
+  /**
+   * Graph writes attachments as objects naming the file in data-attachment, with its data linked in data;
+   * attachments whose data was not fetched keep their name and type
+   */
+  private readObject(element: HtmlElement, base: OneNoteMimePart): OneNoteFileBlock | null {
+    const data = element.attributes['data'];
+    const part = data ? OneNoteMimeArchive.find(this.parts, data, base) : undefined;
+    const name = element.attributes['data-attachment']?.trim() ?? '';
+    if (part) {
+      return this.readFile(name, part, element.attributes['type']);
+    }
+    if (!name) {
+      return null;
+    }
+    const type = element.attributes['type'];
+    return { type: 'file', name, ...(type ? { mimeType: type } : {}) };
+  }
+
+  private readFile(label: string, part: OneNoteMimePart, type?: string): OneNoteFileBlock {
+    const fileName = label && path.extname(label) ? label : OneNoteMimeArchive.fileName(part);
+    const block: OneNoteFileBlock = { type: 'file', name: label || fileName || 'Attachment', size: part.data.length, mimeType: type || part.contentType };
+    if (this.assets && this.options.extractAttachments !== false) {
+      const asset = this.assets.save(part.data, fileName ? path.extname(fileName) : undefined);
+      block.src = asset.path;
+      block.mimeType = asset.mimeType;
+    }
+    return block;
+  }
+
+  /**
+   * Note tags Graph lists in data-tag, such as "to-do:completed,important"; check box tags carry their state
+   */
+  private readTags(element: HtmlElement): OneNoteNoteTag[] {
+    const value = element.attributes['data-tag'];
+    if (!value) {
+      return [];
+    }
+    return value.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean).map(entry => {
+      const [name = '', state] = entry.split(':');
+      const known = DATA_TAGS[name];
+      const label = known?.name ?? name.charAt(0).toUpperCase() + name.slice(1).replace(/-/g, ' ');
+      // The to-do family, and any tag Graph reports as completed, are check boxes
+      if (name.startsWith('to-do') || state === 'completed') {
+        return { name: label, checked: state === 'completed' };
+      }
+      return { name: label, icon: known?.icon ?? DEFAULT_NOTE_TAG_ICON };
+    });
+  }
+
+  /**
+   * A link to a file in the archive other than a page or picture is an attachment
+   */
+  private linkedFile(element: HtmlElement, base: OneNoteMimePart): OneNoteMimePart | undefined {
+    const href = element.attributes['href'];
+    const part = href && !href.startsWith('#') ? OneNoteMimeArchive.find(this.parts, href, base) : undefined;
+    return part && part !== base && part.contentType !== 'text/html' && !part.contentType.startsWith('image/') ? part : undefined;
+  }
+
+  /**
+   * Read inline nodes into runs, with whitespace collapsed as a browser would show it
+   */
+  private readRuns(nodes: HtmlNode[], format: RunFormat): OneNoteTextRun[] {
+    const runs: OneNoteTextRun[] = [];
+    const visit = (node: HtmlNode, current: RunFormat) => {
+      if (typeof node === 'string') {
+        runs.push({ ...current, text: this.collapse(node) });
+      } else if (node.tag === 'br') {
+        runs.push({ ...current, text: '\n' });
+      } else if (!SKIPPED_ELEMENTS.has(node.tag) && node.tag !== 'img') {
+        const nested = this.formatOf(node, current);
+        node.children.forEach(child => visit(child, nested));
+      }
+    };
+    nodes.forEach(node => visit(node, format));
+
+    // Spaces at the edges of the text and around line breaks are not shown, wherever the runs split them
+    const text = runs.map(run => run.text).join('');
+    const start = text.length - text.trimStart().length;
+    const end = text.trimEnd().length;
+    const hidden = new Set<number>();
+    for (const match of text.matchAll(/ +(?=\n)|(?<=\n) +/g)) {
+      for (let index = match.index ?? 0; index < (match.index ?? 0) + match[0].length; index++) {
+        hidden.add(index);
+      }
+    }
+    let offset = 0;
+    const trimmed: OneNoteTextRun[] = [];
+    for (const run of runs) {
+      const runStart = offset;
+      offset += run.text.length;
+      const body = Array.from({ length: run.text.length }, (_, index) => runStart + index)
+        .filter(index => index >= start && index < end && !hidden.has(index))
+        .map(index => text[index])
+        .join('')
+        .replace(/\u00A0/g, ' ');
+      const previous = trimmed[trimmed.length - 1];
+      if (!body) {
+        continue;
+      }
+      if (previous && this.sameFormat(previous, run)) {
+        previous.text += body;
+      } else {
+        trimmed.push({ ...run, text: body });
+      }
+    }
+    return trimmed;
+  }
+
+  /**
+   * The formatting an element adds to the runs inside it, from its tag and inline style
+   */
+  private formatOf(element: HtmlElement, format: RunFormat): RunFormat {
+    const next: RunFormat = { ...format };
+    switch (element.tag) {
+      case 'b':
+      case 'strong':
+        next.bold = true;
+        break;
+      case 'i':
+      case 'em':
+      case 'cite':
+        next.italic = true;
+        break;
+      case 'u':
+      case 'ins':
+        next.underline = true;
+        break;
+      case 's':
+      case 'strike':
+      case 'del':
+        next.strikethrough = true;
+        break;
+      case 'sup':
+        next.superscript = true;
+        break;
+      case 'sub':
+        next.subscript = true;
+        break;
+      case 'code':
+      case 'tt':
+      case 'kbd':
+      case 'samp':
+        next.code = true;
+        break;
+      case 'mark':
+        next.highlight = '#ffff00';
+        break;
+      case 'a': {
+        const href = element.attributes['href'];
+        if (href && /^(https?|mailto|onenote|ftp):/i.test(href)) {
+          next.href = href;
+        }
+        break;
+      }
+    }
+
+    const style = OneNoteHtmlTree.readStyle(element);
+    const weight = style.get('font-weight');
+    if (weight === 'bold' || weight === 'bolder' || Number(weight) >= 600) {
+      next.bold = true;
+    } else if (weight === 'normal') {
+      delete next.bold;
+    }
+    const fontStyle = style.get('font-style');
+    if (fontStyle === 'italic' || fontStyle === 'oblique') {
+      next.italic = true;
+    } else if (fontStyle === 'normal') {
+      delete next.italic;
+    }
+    const decoration = style.get('text-decoration') ?? style.get('text-decoration-line') ?? '';
+    if (decoration.includes('underline')) {
+      next.underline = true;
+    }
+    if (decoration.includes('line-through')) {
+      next.strikethrough = true;
+    }
+    const verticalAlign = style.get('vertical-align');
+    if (verticalAlign === 'super') {
+      next.superscript = true;
+    } else if (verticalAlign === 'sub') {
+      next.subscript = true;
+    }
+    if (/consolas|courier|monospace/i.test(style.get('font-family') ?? element.attributes['face'] ?? '')) {
+      next.code = true;
+    }
+
+    const color = this.readColor(style.get('color') ?? element.attributes['color']);
+    if (color) {
+      next.color = color;
+    }
+    const highlight = this.readColor(style.get('background') ?? style.get('background-color'));
+    if (highlight) {
+      next.highlight = highlight;
+    }
+    return next;
+  }
+
+  /**
+   * Where an absolutely positioned element sits, in CSS pixels; OneNote places each outline of an
+   * exported page this way
+   */
+  private readPosition(element: HtmlElement): { x: number; y: number; width?: number } | undefined {
+    const style = OneNoteHtmlTree.readStyle(element);
+    if (style.get('position') !== 'absolute') {
+      return undefined;
+    }
+    const x = this.toPixels(style.get('left'));
+    const y = this.toPixels(style.get('top'));
+    if (x === undefined && y === undefined) {
+      return undefined;
+    }
+    const width = this.toPixels(style.get('width'));
+    return { x: Math.round(x ?? 0), y: Math.round(y ?? 0), ...(width !== undefined ? { width: Math.round(width) } : {}) };
+  }
+
+  private toPixels(value: string | undefined): number | undefined {
+    const match = /^\s*(-?\d*\.?\d+)\s*(px|pt|pc|in|cm|mm)?\s*$/i.exec(value ?? '');
+    if (!match) {
+      return undefined;
+    }
+    return Number(match[1]) * (CSS_PIXELS[(match[2] ?? 'px').toLowerCase()] ?? 1);
+  }
+
+  /**
+   * Colors as #rrggbb; the default black text and white background are not formatting
+   */
+  private readColor(value: string | undefined): string | undefined {
+    const color = value?.trim().toLowerCase();
+    if (!color) {
+      return undefined;
+    }
+
+    let hex: string | undefined;
+    const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(color);
+    const rgb = /^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/.exec(color);
+    if (/^#[0-9a-f]{6}$/.test(color)) {
+      hex = color;
+    } else if (short) {
+      hex = `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+    } else if (rgb) {
+      hex = `#${rgb.slice(1, 4).map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0')).join('')}`;
+    }
+    return hex && !DEFAULT_COLORS.has(hex) ? hex : undefined;
+  }
+
+  /**
+   * Whether an inline element holds a picture, an attachment or a block, and so is read as a container
+   */
+  private containsBlock(element: HtmlElement, base: OneNoteMimePart): boolean {
+    return element.children.some(child => typeof child !== 'string' && (
+      BLOCK_ELEMENTS.has(child.tag) ||
+      (child.tag === 'a' && this.linkedFile(child, base) !== undefined) ||
+      this.containsBlock(child, base)
+    ));
+  }
+
+  private sameFormat(a: OneNoteTextRun, b: OneNoteTextRun): boolean {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)].filter(key => key !== 'text'));
+    return [...keys].every(key => a[key as keyof OneNoteTextRun] === b[key as keyof OneNoteTextRun]);
+  }
+
+  private blockText(block: OneNoteBlock): string {
+    return block.type === 'paragraph' || block.type === 'heading' ? OneNoteDocumentRenderer.runsText(block.runs).trim() : '';
+  }
+
+  private collapse(text: string): string {
+    return text.replace(/[ \t\r\n\f]+/g, ' ');
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * HTML rendering utilities
+ * Turns parsed page documents into HTML pages for exports, keeping where outlines sit on the page
+ * when asked to
+ */
+
+import { OneNoteBlock, OneNoteDocument, OneNoteFileBlock, OneNoteImageBlock, OneNoteTableBlock, OneNoteTextRun } from '../../types/document';
+import { IMAGE_TEXT_SUMMARY, OneNoteDocumentRenderer, OneNoteRenderOptions } from './document-renderer';
+import { OneNoteLayoutMode, OneNoteLayoutResolver } from './layout-resolver';
+
+export interface OneNoteHtmlRenderOptions extends OneNoteRenderOptions {
+  /** With columns, each outline is placed in a container at its position on the page */
+  layout?: OneNoteLayoutMode;
+}
+
+export class OneNoteHtmlRenderer {
+  /**
+   * Render a page document as an HTML fragment
+   */
+  static toHtml(document: OneNoteDocument, options: OneNoteHtmlRenderOptions = {}): string {
+    if (options.layout !== 'columns' || !document.regions) {
+      return this.renderBlocks(document.blocks, options);
+    }
+
+    // Regions side by side share a row; offsets within a row keep the gaps between them
+    const rows = OneNoteLayoutResolver.rows(document.regions).map(row => {
+      const top = Math.min(...row.map(region => region.y));
+      let right = 0;
+      const regions = row.map(region => {
+        const style = [
+          `margin-left:${Math.max(0, region.x - right)}px`,
+          `margin-top:${region.y - top}px`,
+          ...(region.width !== undefined ? [`width:${region.width}px`] : [])
+        ].join(';');
+        right = Math.max(right, region.x + (region.width ?? 0));
+        return `<div class="oni-region" data-x="${region.x}" data-y="${region.y}" style="flex:none;${style}">\n` +
+          `${this.renderBlocks(region.blocks, options)}\n</div>`;
+      });
+      return `<div class="oni-row" style="display:flex;align-items:flex-start">\n${regions.join('\n')}\n</div>`;
+    });
+    return `<div class="oni-page">\n${rows.join('\n')}\n</div>`;
+  }
+
+  /**
+   * Wrap an HTML fragment in a standalone page titled after the OneNote page
+   */
+  static toPage(title: string, body: string): string {
+    const escapedTitle = this.escape(title);
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapedTitle}</title>`,
+      '</head>',
+      '<body>',
+      `<h1>${escapedTitle}</h1>`,
+      body,
+      '</body>',
+      '</html>'
+    ].join('\n') + '\n';
+  }
+
+  /**
+   * Escape text for use in HTML content and quoted attributes
+   */
+  static escape(text: string): string {
+    return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] ?? char);
+  }
+
+  private static renderBlocks(blocks: OneNoteBlock[], options: OneNoteHtmlRenderOptions): string {
+    return blocks
+      .map(block => this.renderBlock(block, options))
+      .filter(html => html.length > 0)
+      .join('\n');
+  }
+
+  private static renderBlock(block: OneNoteBlock, options: OneNoteHtmlRenderOptions): string {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${this.escape(OneNoteDocumentRenderer.tagPrefix(block.tags))}${this.renderRuns(block.runs)}</h${block.level}>`;
+      case 'paragraph':
+        return OneNoteDocumentRenderer.runsText(block.runs).trim().length > 0
+          ? `<p>${this.escape(OneNoteDocumentRenderer.tagPrefix(block.tags))}${this.renderRuns(block.runs)}</p>`
+          : '';
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const items = block.items.map(item => {
+          const children = this.renderBlocks(item.children, options);
+          const text = `${this.escape(OneNoteDocumentRenderer.tagPrefix(item.tags))}${this.renderRuns(item.runs)}`;
+          return `<li>${text}${children ? `\n${children}\n` : ''}</li>`;
+        });
+        return `<${tag}>\n${items.join('\n')}\n</${tag}>`;
+      }
+      case 'table':
+        return this.renderTable(block, options);
+      case 'image':
+        return this.renderImage(block, options);
+      case 'file':
+        return this.renderFile(block);
+      case 'todo': {
+        const checkbox = `<input type="checkbox" disabled${block.checked ? ' checked' : ''}>`;
+        return `<p>${checkbox} ${this.escape(OneNoteDocumentRenderer.tagPrefix(block.tags))}${this.renderRuns(block.runs)}</p>`;
+      }
+      case 'code': {
+        const language = block.language ? ` class="language-${this.escape(block.language)}"` : '';
+        return `<pre><code${language}>${this.escape(block.text)}</code></pre>`;
+      }
+      case 'equation':
+        return `<div class="equation">$$${this.escape(block.expression)}$$</div>`;
+      case 'divider':
+        return '<hr>';
+      case 'columns': {
+        const columns = block.columns.map(column => `<div class="oni-column" style="flex:1">\n${this.renderBlocks(column, options)}\n</div>`);
+        return `<div class="oni-columns" style="display:flex;gap:24px">\n${columns.join('\n')}\n</div>`;
+      }
+    }
+  }
+
+  private static renderRuns(runs: OneNoteTextRun[]): string {
+    return runs.map(run => this.renderRun(run)).join('');
+  }
+
+  private static renderRun(run: OneNoteTextRun): string {
+    if (run.equation) {
+      return `<span class="equation">\\(${this.escape(run.equation)}\\)</span>`;
+    }
+
+    let html = this.escape(run.text).replace(/\r?\n/g, '<br>');
+    if (run.code) {
+      html = `<code>${html}</code>`;
+    }
+    if (run.bold) {
+      html = `<strong>${html}</strong>`;
+    }
+    if (run.italic) {
+      html = `<em>${html}</em>`;
+    }
+    if (run.strikethrough) {
+      html = `<s>${html}</s>`;
+    }
+    if (run.underline) {
+      html = `<u>${html}</u>`;
+    }
+    if (run.superscript) {
+      html = `<sup>${html}</sup>`;
+    }
+    if (run.subscript) {
+      html = `<sub>${html}</sub>`;
+    }
+    if (run.highlight) {
+      html = `<mark style="background-color:${this.escape(run.highlight)}">${html}</mark>`;
+    }
+    if (run.color) {
+      html = `<span style="color:${this.escape(run.color)}">${html}</span>`;
+    }
+    const href = run.href ? this.escapeUrl(run.href) : undefined;
+    if (href) {
+      html = `<a href="${href}">${html}</a>`;
+    }
+    return html;
+  }
+
+  private static renderImage(block: OneNoteImageBlock, options: OneNoteHtmlRenderOptions): string {
+    const src = this.escapeUrl(block.src ?? block.name ?? '');
+    const attributes = [
+      ...(src !== undefined ? [`src="${src}"`] : []),
+      `alt="${this.escape((block.alt ?? block.name ?? '').replace(/\s+/g, ' '))}"`,
+      ...(block.width !== undefined ? [`width="${block.width}"`] : []),
+      ...(block.height !== undefined ? [`height="${block.height}"`] : [])
+    ];
+    const image = `<img ${attributes.join(' ')}>`;
+    if (!options.imageTextToggles || !block.ocrText) {
+      return image;
+    }
+
+    const text = this.escape(block.ocrText).replace(/\n/g, '<br>');
+    return `${image}\n<details>\n<summary>${IMAGE_TEXT_SUMMARY}</summary>\n<p>${text}</p>\n</details>`;
+  }
+
+  /**
+   * Recordings play in place, with a link to the file and their details below
+   */
+  private static renderFile(block: OneNoteFileBlock): string {
+    const src = this.escapeUrl(block.src ?? block.name);
+    const link = src !== undefined ? `<a href="${src}">${this.escape(block.name)}</a>` : this.escape(block.name);
+    if (!block.recording) {
+      return `<p>${link}</p>`;
+    }
+
+    const details = OneNoteDocumentRenderer.recordingDetails(block.recording);
+    const player = block.src && src !== undefined ? `<${block.recording.kind} controls src="${src}"></${block.recording.kind}>\n` : '';
+    return `${player}<p>${link}${details ? ` (${this.escape(details)})` : ''}</p>`;
+  }
+
+  private static renderTable(table: OneNoteTableBlock, options: OneNoteHtmlRenderOptions): string {
+    if (table.rows.length === 0) {
+      return '';
+    }
+
+    const rows = table.rows.map((row, rowIndex) => {
+      const tag = rowIndex === 0 ? 'th' : 'td';
+      const cells = row.cells.map(cell => {
+        const spans = [
+          (cell.colSpan ?? 1) > 1 ? ` colspan="${cell.colSpan}"` : '',
+          (cell.rowSpan ?? 1) > 1 ? ` rowspan="${cell.rowSpan}"` : ''
+        ].join('');
+        return `<${tag}${spans}>${this.renderBlocks(cell.blocks, options)}</${tag}>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    });
+    return ['<table>', ...rows, '</table>'].join('\n');
+  }
+
+  /**
+   * Link targets keep their characters except whitespace, which is percent-encoded. Only relative paths and
+   * the schemes pages are read with are kept, so a javascript: or data: target gives undefined; browsers
+   * ignore whitespace and control characters inside a scheme, so they are left out before checking it
+   */
+  private static escapeUrl(url: string): string | undefined {
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\s\p{Cc}]/gu, ''))?.[1];
+    // A single letter is a Windows drive, as in C:\Notes\file.png
+    if (scheme && scheme.length > 1 && !/^(https?|mailto|onenote|ftp)$/i.test(scheme)) {
+      return undefined;
+    }
+    return this.escape(url).replace(/\s/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  }
+}
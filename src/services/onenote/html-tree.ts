@@ -0,0 +1,190 @@
+/**
+ * HTML tree utilities
+ * A forgiving HTML parser for the pages OneNote exports as web pages: it builds an element tree, closing
+ * the elements HTML leaves open (paragraphs, list items, table cells) and skipping comments and scripts
+ */
+
+export interface HtmlElement {
+  /** Tag name in lower case */
+  tag: string;
+  /** Attribute names in lower case, values with entities decoded */
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+/** Text nodes are kept as their decoded text */
+export type HtmlNode = HtmlElement | string;
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+/** Elements whose content is text up to their end tag */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'title', 'textarea', 'xmp']);
+/** Elements that end an open paragraph */
+const PARAGRAPH_CLOSERS = new Set([
+  'address', 'blockquote', 'div', 'dl', 'fieldset', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'ol', 'p', 'pre', 'table', 'ul'
+]);
+/** Elements closed by a sibling of the same kind, within the container that bounds them */
+const IMPLIED_ENDS: Record<string, { closes: string[]; within: string[] }> = {
+  li: { closes: ['li'], within: ['ul', 'ol'] },
+  dt: { closes: ['dt', 'dd'], within: ['dl'] },
+  dd: { closes: ['dt', 'dd'], within: ['dl'] },
+  tr: { closes: ['tr', 'td', 'th'], within: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], within: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], within: ['tr', 'table'] },
+  thead: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], within: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], within: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], within: ['table'] },
+  option: { closes: ['option'], within: ['select'] }
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: '\u00A0', shy: '\u00AD', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  bull: '•', middot: '·', deg: '°', plusmn: '±', times: '×', divide: '÷', euro: '€', pound: '£', yen: '¥', cent: '¢',
+  sect: '§', para: '¶', larr: '←', rarr: '→', uarr: '↑', darr: '↓', harr: '↔', ensp: '\u2002', emsp: '\u2003', thinsp: '\u2009'
+};
+
+/** Start tags, end tags, comments, doctypes and conditional comments, in that order of alternatives */
+const TOKEN = /<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|<\/([a-zA-Z][\w:-]*)\s*>|<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+export class OneNoteHtmlTree {
+  /**
+   * Parse HTML into a root element holding the document's top-level nodes
+   */
+  static parse(html: string): HtmlElement {
+    const root: HtmlElement = { tag: '#root', attributes: {}, children: [] };
+    const open: HtmlElement[] = [root];
+    const current = () => open[open.length - 1]!;
+    const appendText = (text: string) => {
+      if (text) {
+        const siblings = current().children;
+        const last = siblings[siblings.length - 1];
+        if (typeof last === 'string') {
+          siblings[siblings.length - 1] = last + text;
+        } else {
+          siblings.push(text);
+        }
+      }
+    };
+
+    TOKEN.lastIndex = 0;
+    let offset = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN.exec(html)) !== null) {
+      appendText(this.decodeEntities(html.slice(offset, match.index)));
+      offset = TOKEN.lastIndex;
+
+      const [, startTag, attributeText = '', selfClosing, endTag] = match;
+      if (startTag) {
+        const tag = startTag.toLowerCase();
+        this.closeImplied(open, tag);
+        const element: HtmlElement = { tag, attributes: this.readAttributes(attributeText), children: [] };
+        current().children.push(element);
+
+        if (RAW_TEXT_ELEMENTS.has(tag)) {
+          const end = new RegExp(`</${tag}\\s*>`, 'i').exec(html.slice(offset));
+          const text = end ? html.slice(offset, offset + end.index) : html.slice(offset);
+          if (text) {
+            element.children.push(tag === 'title' || tag === 'textarea' ? this.decodeEntities(text) : text);
+          }
+          offset = end ? offset + end.index + end[0].length : html.length;
+          TOKEN.lastIndex = offset;
+        } else if (!VOID_ELEMENTS.has(tag) && !selfClosing) {
+          open.push(element);
+        }
+      } else if (endTag) {
+        // End tags without an open element are ignored, like browsers do
+        const tag = endTag.toLowerCase();
+        const index = open.map(element => element.tag).lastIndexOf(tag);
+        if (index > 0) {
+          open.length = index;
+        }
+      }
+    }
+    appendText(this.decodeEntities(html.slice(offset)));
+
+    return root;
+  }
+
+  /**
+   * Find the first element with a tag, depth first
+   */
+  static find(element: HtmlElement, tag: string): HtmlElement | undefined {
+    for (const child of element.children) {
+      if (typeof child !== 'string') {
+        const found = child.tag === tag ? child : this.find(child, tag);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The text of a node and its descendants, as written
+   */
+  static textOf(node: HtmlNode): string {
+    return typeof node === 'string' ? node : node.children.map(child => this.textOf(child)).join('');
+  }
+
+  /**
+   * Read an inline style attribute into property names in lower case and their values
+   */
+  static readStyle(element: HtmlElement): Map<string, string> {
+    const style = new Map<string, string>();
+    for (const declaration of (element.attributes['style'] ?? '').split(';')) {
+      const colon = declaration.indexOf(':');
+      if (colon > 0) {
+        style.set(declaration.slice(0, colon).trim().toLowerCase(), declaration.slice(colon + 1).trim());
+      }
+    }
+    return style;
+  }
+
+  static decodeEntities(text: string): string {
+    return text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);?/g, (entity, name: string) => {
+      if (name.startsWith('#')) {
+        const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+      }
+      return NAMED_ENTITIES[name] ?? NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+  }
+
+  /**
+   * Close the elements a start tag ends by implication: an open paragraph before a block, or an open
+   * list item, row or cell before another
+   */
+  private static closeImplied(open: HtmlElement[], tag: string): void {
+    const tags = open.map(element => element.tag);
+    const implied = IMPLIED_ENDS[tag];
+    if (implied) {
+      const bound = Math.max(...implied.within.map(container => tags.lastIndexOf(container)));
+      const index = tags.findIndex((openTag, position) => position > bound && implied.closes.includes(openTag));
+      if (index > 0) {
+        open.length = index;
+        return;
+      }
+    }
+
+    if (PARAGRAPH_CLOSERS.has(tag)) {
+      const paragraph = tags.lastIndexOf('p');
+      // A paragraph only ends at a block within the same container
+      if (paragraph > 0 && !tags.slice(paragraph).some(openTag => openTag === 'td' || openTag === 'th' || openTag === 'li')) {
+        open.length = paragraph;
+      }
+    }
+  }
+
+  private static readAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    ATTRIBUTE.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ATTRIBUTE.exec(text)) !== null) {
+      const [, name = '', doubleQuoted, singleQuoted, unquoted] = match;
+      attributes[name.toLowerCase()] = this.decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+    }
+    return attributes;
+  }
+}
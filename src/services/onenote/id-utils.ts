@@ -0,0 +1,51 @@
+/**
+ * Stable ID utilities
+ * IDs are derived from the GUIDs OneNote keeps in its files, or from a hash of the content where there is
+ * none, so a notebook gets the same IDs on every run and every machine
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+/** Hex digits kept from hashes */
+const HASH_LENGTH = 32;
+/** Files are hashed in blocks of this size */
+const READ_BLOCK_SIZE = 1024 * 1024;
+
+export class OneNoteIdUtils {
+  /**
+   * An ID from a GUID, e.g. section-6e8c...; braces, case and the extended GUID counter are dropped so every
+   * spelling of the GUID gives the same ID
+   */
+  static fromGuid(prefix: string, guid: string): string {
+    return `${prefix}-${guid.replace(/[{}]|:\d+$/g, '').toLowerCase()}`;
+  }
+
+  /**
+   * An ID from a hash of the given parts, for items without a GUID of their own
+   */
+  static fromContent(prefix: string, ...parts: Array<string | Buffer>): string {
+    const hash = crypto.createHash('sha256');
+    // Separated, so ('ab', 'c') and ('a', 'bc') differ
+    parts.forEach(part => hash.update(part).update('\0'));
+    return `${prefix}-${hash.digest('hex').slice(0, HASH_LENGTH)}`;
+  }
+
+  /**
+   * An ID from a hash of a file's bytes, read a block at a time
+   */
+  static fromFile(prefix: string, filePath: string): string {
+    const hash = crypto.createHash('sha256');
+    const buffer = Buffer.alloc(READ_BLOCK_SIZE);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+        hash.update(buffer.subarray(0, bytesRead));
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+    return `${prefix}-${hash.digest('hex').slice(0, HASH_LENGTH)}`;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Ink rendering utilities
+ * Turns the pen strokes of an ink container into a standalone SVG picture
+ */
+
+export interface OneNoteInkPoint {
+  x: number;
+  y: number;
+}
+
+export interface OneNoteInkStroke {
+  /** Points in CSS pixels, relative to the ink container */
+  points: OneNoteInkPoint[];
+  /** Pen color as #rrggbb */
+  color: string;
+  /** Pen width in CSS pixels */
+  width: number;
+  /** 0 (invisible) to 1 (opaque); highlighter pens are translucent */
+  opacity: number;
+}
+
+export interface OneNoteInkSvg {
+  svg: string;
+  width: number;
+  height: number;
+  /** Offset of the picture's top-left corner from the ink container origin */
+  x: number;
+  y: number;
+}
+
+export class OneNoteInkRenderer {
+  /**
+   * Render strokes as one SVG group cropped to their bounds, or null when there is nothing to draw
+   */
+  static toSvg(strokes: OneNoteInkStroke[]): OneNoteInkSvg | null {
+    const drawn = strokes.filter(stroke => stroke.points.length > 0);
+    if (drawn.length === 0) {
+      return null;
+    }
+
+    // Pad the bounds by half the widest pen so stroke edges are not clipped
+    const padding = Math.max(...drawn.map(stroke => stroke.width)) / 2;
+    const points = drawn.flatMap(stroke => stroke.points);
+    const minX = Math.min(...points.map(point => point.x)) - padding;
+    const minY = Math.min(...points.map(point => point.y)) - padding;
+    const width = Math.max(Math.max(...points.map(point => point.x)) + padding - minX, 1);
+    const height = Math.max(Math.max(...points.map(point => point.y)) + padding - minY, 1);
+
+    const paths = drawn.map(stroke => {
+      const [first, ...rest] = stroke.points;
+      // A single tap is drawn as a dot by the round line cap
+      const d = rest.length > 0
+        ? `M${this.format(first!.x)} ${this.format(first!.y)} ${rest.map(point => `L${this.format(point.x)} ${this.format(point.y)}`).join(' ')}`
+        : `M${this.format(first!.x)} ${this.format(first!.y)} l0 0`;
+      const opacity = stroke.opacity < 1 ? ` stroke-opacity="${this.format(stroke.opacity)}"` : '';
+      return `<path d="${d}" stroke="${stroke.color}" stroke-width="${this.format(stroke.width)}"${opacity}/>`;
+    });
+
+    const svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.format(width)}" height="${this.format(height)}" ` +
+        `viewBox="${this.format(minX)} ${this.format(minY)} ${this.format(width)} ${this.format(height)}">`,
+      '<g fill="none" stroke-linecap="round" stroke-linejoin="round">',
+      ...paths,
+      '</g>',
+      '</svg>'
+    ].join('\n');
+
+    return { svg, width: Math.round(width), height: Math.round(height), x: Math.round(minX), y: Math.round(minY) };
+  }
+
+  private static format(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+}
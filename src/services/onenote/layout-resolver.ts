@@ -0,0 +1,85 @@
+/**
+ * Page layout utilities
+ * Orders the outlines and pictures placed on a page canvas for reading, and groups the ones that sit side by
+ * side into columns
+ */
+
+import { OneNoteBlock, OneNoteDocument, OneNoteLayoutRegion } from '../../types/document';
+
+/** How page content is laid out: one column in reading order, or side by side outlines as columns */
+export type OneNoteLayoutMode = 'flat' | 'columns';
+
+/** Regions whose tops are at most this far apart, in CSS pixels, and that do not overlap sideways sit side by side */
+const SIDE_BY_SIDE_TOLERANCE = 96;
+/** Width assumed for regions that do not record one, in CSS pixels */
+const DEFAULT_REGION_WIDTH = 96;
+
+export class OneNoteLayoutResolver {
+  /**
+   * Group regions into rows, top to bottom; the regions of a row sit side by side and are ordered left to right
+   */
+  static rows(regions: OneNoteLayoutRegion[]): OneNoteLayoutRegion[][] {
+    const rows: OneNoteLayoutRegion[][] = [];
+    const sorted = [...regions].sort((a, b) => a.y - b.y || a.x - b.x);
+
+    for (const region of sorted) {
+      const row = rows[rows.length - 1];
+      const top = row?.[0]?.y;
+      if (row && top !== undefined && region.y - top <= SIDE_BY_SIDE_TOLERANCE && !row.some(other => this.overlaps(region, other))) {
+        row.push(region);
+      } else {
+        rows.push([region]);
+      }
+    }
+
+    return rows.map(row => row.sort((a, b) => a.x - b.x));
+  }
+
+  /**
+   * The blocks of regions in reading order: row by row, and left to right within a row
+   */
+  static readingOrder(regions: OneNoteLayoutRegion[]): OneNoteBlock[] {
+    const blocks: OneNoteBlock[] = [];
+    this.rows(regions).forEach(row => row.forEach(region => region.blocks.forEach(block => this.join(blocks, block))));
+    return blocks;
+  }
+
+  /**
+   * The blocks of a document laid out in a mode; with columns, each row of side by side regions becomes a
+   * columns block
+   */
+  static resolve(document: OneNoteDocument, mode: OneNoteLayoutMode): OneNoteBlock[] {
+    if (mode === 'flat' || !document.regions) {
+      return document.blocks;
+    }
+
+    const blocks: OneNoteBlock[] = [];
+    for (const row of this.rows(document.regions)) {
+      if (row.length > 1) {
+        blocks.push({ type: 'columns', columns: row.map(region => region.blocks) });
+      } else {
+        row[0]?.blocks.forEach(block => this.join(blocks, block));
+      }
+    }
+    return blocks;
+  }
+
+  private static overlaps(a: OneNoteLayoutRegion, b: OneNoteLayoutRegion): boolean {
+    return a.x < b.x + (b.width ?? DEFAULT_REGION_WIDTH) && b.x < a.x + (a.width ?? DEFAULT_REGION_WIDTH);
+  }
+
+  /**
+   * Append a block, continuing a list of the same kind or a code block that ends the blocks so far; the
+   * regions' own blocks are left unchanged
+   */
+  private static join(blocks: OneNoteBlock[], block: OneNoteBlock): void {
+    const previous = blocks[blocks.length - 1];
+    if (previous?.type === 'list' && block.type === 'list' && previous.ordered === block.ordered) {
+      blocks[blocks.length - 1] = { ...previous, items: [...previous.items, ...block.items] };
+    } else if (previous?.type === 'code' && block.type === 'code') {
+      blocks[blocks.length - 1] = { ...previous, text: `${previous.text}\n${block.text}` };
+    } else {
+      blocks.push(block);
+    }
+  }
+}
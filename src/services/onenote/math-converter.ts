@@ -0,0 +1,217 @@
+/**
+ * Math conversion utilities
+ * OneNote keeps equations in the UnicodeMath linear format; this turns them into LaTeX
+ */
+
+import { OneNoteError } from './error-utils';
+
+const GREEK: Record<string, string> = {
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ε': 'epsilon', 'ζ': 'zeta', 'η': 'eta', 'θ': 'theta',
+  'ι': 'iota', 'κ': 'kappa', 'λ': 'lambda', 'μ': 'mu', 'ν': 'nu', 'ξ': 'xi', 'π': 'pi', 'ρ': 'rho',
+  'σ': 'sigma', 'τ': 'tau', 'υ': 'upsilon', 'φ': 'phi', 'χ': 'chi', 'ψ': 'psi', 'ω': 'omega',
+  'Γ': 'Gamma', 'Δ': 'Delta', 'Θ': 'Theta', 'Λ': 'Lambda', 'Ξ': 'Xi', 'Π': 'Pi', 'Σ': 'Sigma',
+  'Υ': 'Upsilon', 'Φ': 'Phi', 'Ψ': 'Psi', 'Ω': 'Omega'
+};
+
+const SYMBOLS: Record<string, string> = {
+  '≤': '\\le', '≥': '\\ge', '≠': '\\ne', '≈': '\\approx', '≡': '\\equiv', '±': '\\pm', '∓': '\\mp',
+  '×': '\\times', '÷': '\\div', '·': '\\cdot', '⋅': '\\cdot', '∞': '\\infty', '→': '\\to', '←': '\\leftarrow',
+  '⇒': '\\Rightarrow', '⇔': '\\Leftrightarrow', '∈': '\\in', '∉': '\\notin', '⊂': '\\subset', '⊆': '\\subseteq',
+  '∪': '\\cup', '∩': '\\cap', '∅': '\\emptyset', '∀': '\\forall', '∃': '\\exists', '¬': '\\neg', '∧': '\\wedge',
+  '∨': '\\vee', '∂': '\\partial', '∇': '\\nabla', '°': '^{\\circ}', '′': "'", '…': '\\ldots', '⋯': '\\cdots',
+  '\\': '\\backslash', '{': '\\{', '}': '\\}', '%': '\\%', '#': '\\#', '$': '\\$', '−': '-', '∗': '*'
+};
+
+const NARY: Record<string, string> = {
+  '∑': '\\sum', '∏': '\\prod', '∐': '\\coprod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint', '∮': '\\oint',
+  '⋃': '\\bigcup', '⋂': '\\bigcap'
+};
+
+const ROOTS: Record<string, number> = { '√': 2, '∛': 3, '∜': 4 };
+
+const FUNCTIONS = new Set(['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'sinh', 'cosh', 'tanh', 'arcsin', 'arccos',
+  'arctan', 'log', 'ln', 'exp', 'lim', 'max', 'min', 'det', 'gcd']);
+
+/** Function application, invisible times and separator, the n-ary operand marker and spaces carry no LaTeX */
+const IGNORED = /[⁡⁢⁣⁤▒\s]/;
+const OPERAND = /[A-Za-z0-9.Ͱ-Ͽ]/;
+
+export class OneNoteMathConverter {
+  /**
+   * Convert a UnicodeMath linear-format expression to LaTeX
+   * @throws OneNoteError for constructs that have no LaTeX mapping here (matrices, unbalanced brackets, ...)
+   */
+  static toLatex(linear: string): string {
+    const parser = new UnicodeMathParser(linear);
+    const latex = parser.parseExpression();
+    if (!parser.done()) {
+      throw OneNoteMathConverter.unsupported(linear);
+    }
+    return latex;
+  }
+
+  /**
+   * Plain-text form of a linear-format expression, used when it cannot be converted
+   */
+  static linearize(linear: string): string {
+    return linear
+      .replace(/[⁡⁢⁣⁤]/g, '')
+      .replace(/▒/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  static unsupported(linear: string): OneNoteError {
+    return new OneNoteError(`Unsupported equation: ${linear}`, 'UNSUPPORTED_MATH', { operation: 'toLatex', recoverable: true });
+  }
+}
+
+/**
+ * Recursive descent over the linear format: an expression is a sequence of elements, an element
+ * an operand with optional sub/superscripts, and two elements joined by / form a fraction
+ */
+class UnicodeMathParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  done(): boolean {
+    this.skipIgnored();
+    return this.index >= this.source.length;
+  }
+
+  parseExpression(): string {
+    const parts: string[] = [];
+    while (!this.done() && this.peek() !== ')' && this.peek() !== ']' && this.peek() !== '&') {
+      let element = this.parseElement();
+      this.skipIgnored();
+      while (this.peek() === '/') {
+        this.index++;
+        const denominator = this.parseElement(true);
+        element = `\\frac{${element}}{${denominator}}`;
+        this.skipIgnored();
+      }
+      parts.push(element);
+    }
+    return this.join(parts);
+  }
+
+  /**
+   * An operand followed by its scripts; grouping parentheses are dropped where LaTeX braces take over.
+   * Script arguments take no scripts of their own, so x_i^2 scripts x twice
+   */
+  private parseElement(stripParentheses = false, withScripts = true): string {
+    this.skipIgnored();
+    const char = this.peek();
+    if (char === undefined) {
+      throw OneNoteMathConverter.unsupported(this.source);
+    }
+
+    let base: string;
+    if (char === '(' || char === '[') {
+      this.index++;
+      const inner = this.parseExpression();
+      const close = char === '(' ? ')' : ']';
+      if (this.next() !== close) {
+        throw OneNoteMathConverter.unsupported(this.source);
+      }
+      // Parentheses around an argument or a numerator only group it
+      base = char === '(' && (stripParentheses || this.peekIgnoring() === '/') ? inner : `${char}${inner}${close}`;
+    } else if (char in ROOTS) {
+      this.index++;
+      return this.parseRoot(ROOTS[char]!);
+    } else if (char in NARY) {
+      this.index++;
+      return `${NARY[char]}${this.parseScripts()}`;
+    } else if (OPERAND.test(char)) {
+      base = this.parseOperand();
+    } else if (char === ')' || char === ']' || char === '/' || char === '^' || char === '_' || char === '&' ||
+        char === '■' || char === '█' || char === '〖' || char === '〗') {
+      throw OneNoteMathConverter.unsupported(this.source);
+    } else {
+      this.index++;
+      base = SYMBOLS[char] ?? char;
+    }
+
+    return withScripts ? `${base}${this.parseScripts()}` : base;
+  }
+
+  private parseRoot(degree: number): string {
+    this.skipIgnored();
+    if (this.peek() === '(') {
+      this.index++;
+      const first = this.parseExpression();
+      if (this.peek() === '&') {
+        this.index++;
+        const radicand = this.parseExpression();
+        if (this.next() !== ')') {
+          throw OneNoteMathConverter.unsupported(this.source);
+        }
+        return `\\sqrt[${first}]{${radicand}}`;
+      }
+      if (this.next() !== ')') {
+        throw OneNoteMathConverter.unsupported(this.source);
+      }
+      return degree === 2 ? `\\sqrt{${first}}` : `\\sqrt[${degree}]{${first}}`;
+    }
+    const radicand = this.parseElement(true);
+    return degree === 2 ? `\\sqrt{${radicand}}` : `\\sqrt[${degree}]{${radicand}}`;
+  }
+
+  private parseScripts(): string {
+    let scripts = '';
+    while (this.atScript()) {
+      const marker = this.next()!;
+      scripts += `${marker}{${this.parseElement(true, false)}}`;
+    }
+    return scripts;
+  }
+
+  private parseOperand(): string {
+    let text = '';
+    while (this.peek() !== undefined && OPERAND.test(this.peek()!)) {
+      text += this.next();
+    }
+
+    const words = text.match(/[A-Za-z]+|[^A-Za-z]+/g) ?? [];
+    return this.join(words.flatMap(word => {
+      if (FUNCTIONS.has(word)) {
+        return [`\\${word}`];
+      }
+      return [...word].map(char => GREEK[char] ? `\\${GREEK[char]}` : char);
+    }));
+  }
+
+  /**
+   * Concatenate LaTeX fragments, separating a command from a following letter
+   */
+  private join(parts: string[]): string {
+    return parts.reduce((latex, part) =>
+      /\\[A-Za-z]+$/.test(latex) && /^[A-Za-z0-9]/.test(part) ? `${latex} ${part}` : `${latex}${part}`, '');
+  }
+
+  private atScript(): boolean {
+    const char = this.peekIgnoring();
+    return char === '^' || char === '_';
+  }
+
+  private peekIgnoring(): string | undefined {
+    this.skipIgnored();
+    return this.peek();
+  }
+
+  private skipIgnored(): void {
+    while (this.index < this.source.length && IGNORED.test(this.source[this.index]!)) {
+      this.index++;
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.index];
+  }
+
+  private next(): string | undefined {
+    this.skipIgnored();
+    return this.source[this.index++];
+  }
+}
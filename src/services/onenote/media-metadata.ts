@@ -0,0 +1,128 @@
+/**
+ * Media metadata utilities
+ * Reads the duration and recording time of audio and video recordings from their container headers:
+ * ASF (.wma, .wmv), which OneNote records in, and MP4 (.m4a, .mp4)
+ */
+
+import { formatGuid } from './onestore/binary-reader';
+import { fileTimeToDate } from './onestore/one-properties';
+
+export interface OneNoteMediaMetadata {
+  /** Length of the recording in seconds */
+  duration?: number;
+  /** When the recording was made */
+  recordedAt?: Date;
+}
+
+const ASF_HEADER_OBJECT = '{75B22630-668E-11CF-A6D9-00AA0062CE6C}';
+const ASF_FILE_PROPERTIES_OBJECT = '{8CABDCA1-A947-11CF-8EE4-00C00C205365}';
+/** Size of an ASF object's GUID and 64-bit size */
+const ASF_OBJECT_HEADER_SIZE = 24;
+/** MP4 times count seconds from 1904-01-01 UTC */
+const MP4_EPOCH_MS = Date.UTC(1904, 0, 1);
+
+export class OneNoteMediaMetadataReader {
+  /**
+   * Read what the container header of a recording tells; formats it does not know give an empty result
+   */
+  static read(data: Buffer): OneNoteMediaMetadata {
+    try {
+      if (data.length >= 30 && formatGuid(data.subarray(0, 16)) === ASF_HEADER_OBJECT) {
+        return this.readAsf(data);
+      }
+      return this.readMp4(data);
+    } catch (error) {
+      // A header cut short leaves the recording without metadata
+      if (error instanceof RangeError) {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The ASF header object starts with its object count; the file properties object holds the creation date
+   * and the play duration (both in 100ns units) less the preroll (in milliseconds)
+   */
+  private static readAsf(data: Buffer): OneNoteMediaMetadata {
+    const count = data.readUInt32LE(24);
+    let offset = 30;
+
+    for (let i = 0; i < count && offset + ASF_OBJECT_HEADER_SIZE <= data.length; i++) {
+      const size = Number(data.readBigUInt64LE(offset + 16));
+      if (formatGuid(data.subarray(offset, offset + 16)) === ASF_FILE_PROPERTIES_OBJECT) {
+        const body = offset + ASF_OBJECT_HEADER_SIZE;
+        const creationDate = data.readBigUInt64LE(body + 24);
+        const playDuration = data.readBigUInt64LE(body + 40);
+        const preroll = data.readBigUInt64LE(body + 56);
+        const metadata: OneNoteMediaMetadata = {};
+        if (playDuration > 0n) {
+          metadata.duration = Math.max(0, Number(playDuration / 10000n - preroll)) / 1000;
+        }
+        if (creationDate > 0n) {
+          metadata.recordedAt = fileTimeToDate(creationDate);
+        }
+        return metadata;
+      }
+      if (size < ASF_OBJECT_HEADER_SIZE) {
+        break;
+      }
+      offset += size;
+    }
+
+    return {};
+  }
+
+  /**
+   * The movie header (moov/mvhd) holds the creation time and the duration in units of its time scale
+   */
+  private static readMp4(data: Buffer): OneNoteMediaMetadata {
+    const moov = this.findBox(data, 0, data.length, 'moov');
+    const mvhd = moov ? this.findBox(data, moov.start, moov.end, 'mvhd') : undefined;
+    if (!mvhd) {
+      return {};
+    }
+
+    const version = data[mvhd.start];
+    const wide = version === 1;
+    const fields = mvhd.start + 4;
+    const creationTime = wide ? Number(data.readBigUInt64BE(fields)) : data.readUInt32BE(fields);
+    const timeScale = data.readUInt32BE(fields + (wide ? 16 : 8));
+    const duration = wide ? Number(data.readBigUInt64BE(fields + 20)) : data.readUInt32BE(fields + 12);
+
+    const metadata: OneNoteMediaMetadata = {};
+    if (timeScale > 0 && duration > 0) {
+      metadata.duration = duration / timeScale;
+    }
+    if (creationTime > 0) {
+      metadata.recordedAt = new Date(MP4_EPOCH_MS + creationTime * 1000);
+    }
+    return metadata;
+  }
+
+  /**
+   * Find a box among the boxes between two offsets; returns the range of its contents
+   */
+  private static findBox(data: Buffer, start: number, end: number, type: string): { start: number; end: number } | undefined {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = data.readUInt32BE(offset);
+      let headerSize = 8;
+      if (size === 1) {
+        size = Number(data.readBigUInt64BE(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerSize) {
+        return undefined;
+      }
+
+      if (data.toString('latin1', offset + 4, offset + 8) === type) {
+        return { start: offset + headerSize, end: Math.min(offset + size, end) };
+      }
+      offset += size;
+    }
+    return undefined;
+  }
+}
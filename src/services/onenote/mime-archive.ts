@@ -0,0 +1,233 @@
+/**
+ * MIME archive utilities
+ * Reads single file web pages (.mht, .mhtml), which OneNote exports pages and sections as: a MIME
+ * multipart/related message holding the HTML and the pictures and files it refers to
+ */
+
+import * as path from 'path';
+import { TextDecoder } from 'util';
+
+export interface OneNoteMimePart {
+  /** Media type without parameters, in lower case */
+  contentType: string;
+  charset?: string;
+  /** Content-Location the HTML refers to the part by */
+  location?: string;
+  /** Content-ID without angle brackets, referred to as cid:... */
+  contentId?: string;
+  /** File name from Content-Disposition, for parts whose location does not end in one */
+  name?: string;
+  data: Buffer;
+}
+
+/** Archives are recognized by the MIME headers within their first bytes */
+const SNIFF_LENGTH = 2048;
+/** Nested multiparts are followed this deep */
+const MAX_NESTING = 8;
+
+export class OneNoteMimeArchive {
+  /**
+   * Check whether data starts like a MIME message with a multipart or HTML body
+   */
+  static isMimeArchive(data: Buffer): boolean {
+    const head = data.subarray(0, SNIFF_LENGTH).toString('latin1');
+    const headers = head.split(/\r?\n\r?\n/)[0] ?? '';
+    return /^mime-version:/im.test(headers) && /^content-type:\s*(multipart\/|text\/html)/im.test(headers);
+  }
+
+  /**
+   * Read the parts of a MIME message, with nested multiparts flattened in document order
+   */
+  static read(data: Buffer): OneNoteMimePart[] {
+    return this.readEntity(data.toString('latin1'), 0);
+  }
+
+  /**
+   * Decode the text of a part by its charset; HTML without one is read as UTF-8
+   */
+  static text(part: OneNoteMimePart): string {
+    const charset = part.charset ?? /<meta[^>]+charset=["']?([\w-]+)/i.exec(part.data.subarray(0, SNIFF_LENGTH).toString('latin1'))?.[1];
+    try {
+      return new TextDecoder(charset ?? 'utf-8').decode(part.data);
+    } catch (error) {
+      // Charsets the runtime does not know are read byte for byte
+      return part.data.toString('latin1');
+    }
+  }
+
+  /**
+   * Find the part a reference in an HTML part points at: by Content-ID, by its location resolved against the
+   * HTML part's, or by a location that ends in the same path
+   */
+  static find(parts: OneNoteMimePart[], reference: string, base?: OneNoteMimePart): OneNoteMimePart | undefined {
+    const trimmed = reference.trim();
+    if (/^cid:/i.test(trimmed)) {
+      const contentId = trimmed.slice(4);
+      return parts.find(part => part.contentId === contentId);
+    }
+
+    const candidates = [trimmed, this.resolve(trimmed, base?.location)].filter((candidate): candidate is string => !!candidate);
+    const exact = parts.find(part => part.location && candidates.includes(part.location));
+    if (exact) {
+      return exact;
+    }
+
+    // Exports made on another machine keep the folder the page was saved to in their locations
+    const suffix = this.normalizeLocation(trimmed).replace(/^(\.\/)+/, '');
+    if (!suffix || /^[a-z][a-z0-9+.-]*:/i.test(suffix)) {
+      return undefined;
+    }
+    return parts.find(part => part.location && this.normalizeLocation(part.location).endsWith(`/${suffix}`));
+  }
+
+  /**
+   * The file name a part was saved under, from its Content-Disposition or its location
+   */
+  static fileName(part: OneNoteMimePart): string | undefined {
+    const name = part.name ?? (part.location ? path.posix.basename(this.normalizeLocation(part.location)) : '');
+    return name || undefined;
+  }
+
+  private static readEntity(entity: string, depth: number): OneNoteMimePart[] {
+    const separator = /\r?\n\r?\n/.exec(entity);
+    const headerText = separator ? entity.slice(0, separator.index) : entity;
+    const body = separator ? entity.slice(separator.index + separator[0].length) : '';
+    const headers = this.readHeaders(headerText);
+
+    const [contentType = 'text/plain', ...parameterTexts] = (headers.get('content-type') ?? 'text/plain').split(';');
+    const parameters = this.readParameters(parameterTexts);
+    const mediaType = contentType.trim().toLowerCase();
+
+    const boundary = parameters.get('boundary');
+    if (mediaType.startsWith('multipart/') && boundary) {
+      return depth < MAX_NESTING
+        ? this.splitMultipart(body, boundary).flatMap(part => this.readEntity(part, depth + 1))
+        : [];
+    }
+
+    const part: OneNoteMimePart = {
+      contentType: mediaType,
+      data: this.decodeBody(body, headers.get('content-transfer-encoding'))
+    };
+    const charset = parameters.get('charset');
+    if (charset) {
+      part.charset = charset;
+    }
+    const location = headers.get('content-location');
+    if (location) {
+      part.location = location;
+    }
+    const contentId = headers.get('content-id')?.replace(/^<|>$/g, '');
+    if (contentId) {
+      part.contentId = contentId;
+    }
+    const name = this.readParameters((headers.get('content-disposition') ?? '').split(';').slice(1)).get('filename') ?? parameters.get('name');
+    if (name) {
+      part.name = name;
+    }
+    return [part];
+  }
+
+  /**
+   * Header parameters such as charset=utf-8, by name in lower case, without quotes
+   */
+  private static readParameters(parameterTexts: string[]): Map<string, string> {
+    return new Map(parameterTexts.map(parameter => {
+      const [name = '', ...value] = parameter.split('=');
+      return [name.trim().toLowerCase(), value.join('=').trim().replace(/^"|"$/g, '')] as const;
+    }));
+  }
+
+  /**
+   * Header names in lower case; folded lines are joined
+   */
+  private static readHeaders(text: string): Map<string, string> {
+    const headers = new Map<string, string>();
+    for (const line of text.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * The parts between the boundary lines of a multipart body, up to the closing boundary
+   */
+  private static splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const parts: string[] = [];
+    let start = -1;
+    let offset = 0;
+
+    while (offset <= body.length) {
+      const index = body.indexOf(delimiter, offset);
+      if (index < 0) {
+        break;
+      }
+      // Boundaries only count at the start of a line
+      if (index > 0 && body[index - 1] !== '\n') {
+        offset = index + delimiter.length;
+        continue;
+      }
+
+      if (start >= 0) {
+        parts.push(body.slice(start, index).replace(/\r?\n$/, ''));
+      }
+      if (body.startsWith('--', index + delimiter.length)) {
+        return parts;
+      }
+      const lineEnd = body.indexOf('\n', index);
+      start = lineEnd < 0 ? body.length : lineEnd + 1;
+      offset = start;
+    }
+
+    // An archive cut short keeps the part it ends in
+    if (start >= 0 && start < body.length) {
+      parts.push(body.slice(start));
+    }
+    return parts;
+  }
+
+  private static decodeBody(body: string, encoding: string | undefined): Buffer {
+    switch (encoding?.toLowerCase()) {
+      case 'base64':
+        return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+      case 'quoted-printable':
+        return Buffer.from(
+          body.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+          'latin1'
+        );
+      default:
+        return Buffer.from(body, 'latin1');
+    }
+  }
+
+  /**
+   * Resolve a reference against the location of the HTML part it appears in
+   */
+  private static resolve(reference: string, base: string | undefined): string | undefined {
+    if (!base) {
+      return undefined;
+    }
+    try {
+      return new URL(reference, base).href;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Locations with forward slashes and without percent-encoding, for comparing paths
+   */
+  private static normalizeLocation(location: string): string {
+    let normalized = location.replace(/\\/g, '/');
+    try {
+      normalized = decodeURI(normalized);
+    } catch (error) {
+      // Kept as written when it is not valid percent-encoding
+    }
+    return normalized;
+  }
+}
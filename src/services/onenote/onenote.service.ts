@@ -3,7 +3,7 @@
  * Orchestrates extraction, parsing, and display of OneNote files
  */
 
-import { OneNoteHierarchy, OneNoteExtractionResult, OneNoteParsingOptions } from '../../types/onenote';
+import { OneNoteHierarchy, OneNoteExtractionResult, OneNoteInput, OneNoteParsingOptions, OneNoteStreamItem } from '../../types/onenote';
 import { IOneNoteExtractionService, OneNoteExtractionService } from './extraction.service';
 import { IOneNoteParserService, OneNoteParserService } from './parser.service';
 import { IOneNoteDisplayService, OneNoteDisplayService } from './display.service';
@@ -19,6 +19,14 @@ export interface IOneNoteService {
    */
   processFiles(filePaths: string[], options?: OneNoteParsingOptions): Promise<OneNoteExtractionResult>;
 
+  /**
+   * Process OneNote files page by page, for files too large to hold as one hierarchy
+   * @param filePaths Array of OneNote file paths and notebook folders
+   * @param options Processing options; maxFileSize is the memory ceiling for reading a file whole
+   * @returns Each section as it is opened, followed by its pages, and each file or section that could not be read
+   */
+  streamPages(filePaths: OneNoteInput[], options?: OneNoteParsingOptions): AsyncGenerator<OneNoteStreamItem>;
+
   /**
    * Display OneNote hierarchy in CLI
    * @param hierarchy The hierarchy to display
@@ -57,6 +65,11 @@ export class OneNoteService implements IOneNoteService {
       // Use extraction service to process files
       return await this.extractionService.extractMultiple(filePaths, options);
     } catch (error) {
+      if (options?.salvage) {
+        // Fallback data would hide what the salvage parse could not recover
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+
       // Handle extraction errors with fallback
       if (error instanceof OneNoteError) {
         if (error.recoverable) {
@@ -86,6 +99,10 @@ export class OneNoteService implements IOneNoteService {
     }
   }
 
+  streamPages(filePaths: OneNoteInput[], options?: OneNoteParsingOptions): AsyncGenerator<OneNoteStreamItem> {
+    return this.extractionService.streamPages(filePaths, options);
+  }
+
   displayHierarchy(hierarchy: OneNoteHierarchy, options?: any): void {
     this.displayService.displayHierarchy(hierarchy, options);
   }
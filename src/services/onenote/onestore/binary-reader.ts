@@ -0,0 +1,197 @@
+/**
+ * Little-endian binary reader used by the revision store parser
+ * Wraps a Buffer with a cursor and MS-ONESTORE primitive decoders
+ */
+
+import { OneNoteError } from '../error-utils';
+import { ExtendedGuid, FileChunkReference, NIL_STP } from './onestore-types';
+
+export class BinaryReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get length(): number {
+    return this.buffer.length;
+  }
+
+  get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  seek(position: number): void {
+    if (position < 0 || position > this.buffer.length) {
+      throw this.outOfBounds(position - this.offset);
+    }
+    this.offset = position;
+  }
+
+  skip(count: number): void {
+    this.seek(this.offset + count);
+  }
+
+  readUInt8(): number {
+    this.ensure(1);
+    const value = this.buffer.readUInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  readUInt16(): number {
+    this.ensure(2);
+    const value = this.buffer.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  readUInt32(): number {
+    this.ensure(4);
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readInt32(): number {
+    this.ensure(4);
+    const value = this.buffer.readInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readBigUInt64(): bigint {
+    this.ensure(8);
+    const value = this.buffer.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  /**
+   * Read a 64-bit unsigned integer that is expected to fit in a JS number
+   */
+  readUInt64(): number {
+    const value = this.readBigUInt64();
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new OneNoteError('64-bit value exceeds supported range', 'PARSING_FAILED', { operation: 'readUInt64' });
+    }
+    return Number(value);
+  }
+
+  readFloat32(): number {
+    this.ensure(4);
+    const value = this.buffer.readFloatLE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readBytes(count: number): Buffer {
+    this.ensure(count);
+    const value = this.buffer.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return value;
+  }
+
+  /**
+   * Read a 16-byte GUID in its mixed-endian Windows layout
+   */
+  readGuid(): string {
+    return formatGuid(this.readBytes(16));
+  }
+
+  readExtendedGuid(): ExtendedGuid {
+    const guid = this.readGuid();
+    const n = this.readUInt32();
+    return { guid, n };
+  }
+
+  /**
+   * Read a FileChunkReference whose stp and cb fields have the given byte widths.
+   * Compressed forms store the value divided by 8.
+   */
+  readChunkReference(stpSize: 2 | 4 | 8, cbSize: 1 | 2 | 4 | 8, compressedStp = false, compressedCb = false): FileChunkReference {
+    const stp = this.readSizedUInt(stpSize);
+    const cb = this.readSizedUInt(cbSize);
+    const stpMax = stpSize === 8 ? -1 : Math.pow(2, stpSize * 8) - 1;
+
+    if (stp === -1 || stp === stpMax) {
+      return { stp: NIL_STP, cb: compressedCb ? cb * 8 : cb };
+    }
+
+    return {
+      stp: compressedStp ? stp * 8 : stp,
+      cb: compressedCb ? cb * 8 : cb
+    };
+  }
+
+  /**
+   * Read a StringInStorageBuffer (character count followed by UTF-16LE data)
+   */
+  readStorageString(): string {
+    const cch = this.readUInt32();
+    return this.readBytes(cch * 2).toString('utf16le');
+  }
+
+  private readSizedUInt(size: 1 | 2 | 4 | 8): number {
+    switch (size) {
+      case 1:
+        return this.readUInt8();
+      case 2:
+        return this.readUInt16();
+      case 4:
+        return this.readUInt32();
+      case 8: {
+        const value = this.readBigUInt64();
+        if (value === 0xFFFFFFFFFFFFFFFFn) {
+          return -1;
+        }
+        return Number(value);
+      }
+    }
+  }
+
+  private ensure(count: number): void {
+    if (count < 0 || this.offset + count > this.buffer.length) {
+      throw this.outOfBounds(count);
+    }
+  }
+
+  private outOfBounds(count: number): OneNoteError {
+    return new OneNoteError(
+      `Unexpected end of data: needed ${count} bytes at offset ${this.offset} of ${this.buffer.length}`,
+      'PARSING_FAILED',
+      { operation: 'readBinary', recoverable: true }
+    );
+  }
+}
+
+/**
+ * Format 16 raw bytes as an uppercase registry-style GUID string
+ */
+export function formatGuid(bytes: Buffer): string {
+  const data1 = bytes.readUInt32LE(0).toString(16).padStart(8, '0');
+  const data2 = bytes.readUInt16LE(4).toString(16).padStart(4, '0');
+  const data3 = bytes.readUInt16LE(6).toString(16).padStart(4, '0');
+  const data4 = bytes.subarray(8, 10).toString('hex');
+  const data5 = bytes.subarray(10, 16).toString('hex');
+  return `{${data1}-${data2}-${data3}-${data4}-${data5}}`.toUpperCase();
+}
+
+/**
+ * Encode a registry-style GUID string into its 16-byte Windows layout
+ */
+export function encodeGuid(guid: string): Buffer {
+  const hex = guid.replace(/[{}-]/g, '');
+  if (!/^[0-9a-fA-F]{32}$/.test(hex)) {
+    throw new OneNoteError(`Invalid GUID: ${guid}`, 'INVALID_FORMAT', { operation: 'encodeGuid' });
+  }
+
+  const bytes = Buffer.alloc(16);
+  bytes.writeUInt32LE(parseInt(hex.substring(0, 8), 16), 0);
+  bytes.writeUInt16LE(parseInt(hex.substring(8, 12), 16), 4);
+  bytes.writeUInt16LE(parseInt(hex.substring(12, 16), 16), 6);
+  Buffer.from(hex.substring(16), 'hex').copy(bytes, 8);
+  return bytes;
+}
@@ -0,0 +1,90 @@
+/**
+ * Random-access byte sources for the revision store parser and the cabinet reader
+ * The store format is reference based, so the parser only ever asks for chunks by offset
+ */
+
+import * as fs from 'fs';
+import { OneNoteError } from '../error-utils';
+import { FileChunkReference, isNilReference } from './onestore-types';
+
+export interface ByteSource {
+  readonly size: number;
+
+  /**
+   * Read `length` bytes starting at `offset`
+   */
+  read(offset: number, length: number): Buffer;
+}
+
+export class BufferByteSource implements ByteSource {
+  constructor(private readonly buffer: Buffer) {}
+
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  read(offset: number, length: number): Buffer {
+    if (offset < 0 || length < 0 || offset + length > this.buffer.length) {
+      throw new OneNoteError(
+        `Chunk out of range: ${length} bytes at offset ${offset} of ${this.buffer.length}`,
+        'PARSING_FAILED',
+        { operation: 'readChunk', recoverable: true }
+      );
+    }
+    return this.buffer.subarray(offset, offset + length);
+  }
+}
+
+/**
+ * Reads a file on demand, so sections larger than memory can be parsed; close it once the store is no longer used
+ */
+export class FileByteSource implements ByteSource {
+  readonly size: number;
+  private fd: number | undefined;
+
+  constructor(private readonly filePath: string) {
+    this.fd = fs.openSync(filePath, 'r');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  read(offset: number, length: number): Buffer {
+    if (offset < 0 || length < 0 || offset + length > this.size) {
+      throw new OneNoteError(
+        `Chunk out of range: ${length} bytes at offset ${offset} of ${this.size}`,
+        'PARSING_FAILED',
+        { filePath: this.filePath, operation: 'readChunk', recoverable: true }
+      );
+    }
+    if (this.fd === undefined) {
+      throw new OneNoteError('File is closed', 'PARSING_FAILED', { filePath: this.filePath, operation: 'readChunk' });
+    }
+
+    const buffer = Buffer.alloc(length);
+    let read = 0;
+    while (read < length) {
+      const count = fs.readSync(this.fd, buffer, read, length - read, offset + read);
+      if (count === 0) {
+        throw new OneNoteError('File ended while reading a chunk', 'PARSING_FAILED', { filePath: this.filePath, operation: 'readChunk', recoverable: true });
+      }
+      read += count;
+    }
+    return buffer;
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+}
+
+/**
+ * Read the bytes addressed by a file chunk reference
+ */
+export function readChunk(source: ByteSource, ref: FileChunkReference): Buffer {
+  if (isNilReference(ref)) {
+    throw new OneNoteError('Cannot read a nil file chunk reference', 'PARSING_FAILED', { operation: 'readChunk', recoverable: true });
+  }
+  return source.read(ref.stp, ref.cb);
+}
@@ -0,0 +1,198 @@
+/**
+ * File node list reader (MS-ONESTORE 2.4)
+ * Follows list fragments and splits them into FileNode records
+ */
+
+import { OneNoteError } from '../error-utils';
+import { BinaryReader } from './binary-reader';
+import { ByteSource, readChunk } from './byte-source';
+import { SalvageLog } from './salvage-log';
+import {
+  FILE_NODE_LIST_FOOTER_MAGIC,
+  FILE_NODE_LIST_HEADER_MAGIC,
+  FileChunkReference,
+  FileNode,
+  FileNodeId,
+  isNilReference,
+  isZeroReference
+} from './onestore-types';
+
+const FRAGMENT_HEADER_SIZE = 16;
+const FRAGMENT_TRAILER_SIZE = 20;
+
+export class FileNodeListReader {
+  /**
+   * @param source Byte source of the whole store file
+   * @param nodeCountLimits Committed node count per FileNodeListID, from the transaction log
+   * @param salvage Set when salvaging a damaged file: a damaged fragment keeps the nodes read before the damage
+   * and the list carries on with the next fragment, or ends there when the next one cannot be found
+   */
+  constructor(
+    private readonly source: ByteSource,
+    private readonly nodeCountLimits: Map<number, number> = new Map(),
+    private readonly salvage?: SalvageLog
+  ) {}
+
+  /**
+   * Read every committed FileNode of the list starting at `ref`
+   */
+  read(ref: FileChunkReference): FileNode[] {
+    const nodes: FileNode[] = [];
+    try {
+      this.readFragments(ref, nodes);
+    } catch (error) {
+      if (!this.salvage?.recover('structure', error)) {
+        throw error;
+      }
+    }
+    return nodes;
+  }
+
+  private readFragments(ref: FileChunkReference, nodes: FileNode[]): void {
+    const visited = new Set<number>();
+    let fragmentRef = ref;
+    let listId: number | undefined;
+
+    while (!isNilReference(fragmentRef) && !isZeroReference(fragmentRef)) {
+      if (visited.has(fragmentRef.stp)) {
+        throw new OneNoteError('File node list fragments form a cycle', 'PARSING_FAILED', { operation: 'readFileNodeList', recoverable: true });
+      }
+      visited.add(fragmentRef.stp);
+
+      const chunk = readChunk(this.source, fragmentRef);
+      if (chunk.length < FRAGMENT_HEADER_SIZE + FRAGMENT_TRAILER_SIZE) {
+        throw new OneNoteError('File node list fragment is too small', 'PARSING_FAILED', { operation: 'readFileNodeList', recoverable: true });
+      }
+
+      const reader = new BinaryReader(chunk);
+      if (reader.readBigUInt64() !== FILE_NODE_LIST_HEADER_MAGIC) {
+        throw new OneNoteError('Invalid file node list fragment header', 'INVALID_FORMAT', { operation: 'readFileNodeList', recoverable: true });
+      }
+
+      const fragmentListId = reader.readUInt32();
+      reader.readUInt32(); // nFragmentSequence
+      if (listId === undefined) {
+        listId = fragmentListId;
+      } else if (listId !== fragmentListId) {
+        throw new OneNoteError('File node list fragment belongs to a different list', 'PARSING_FAILED', { operation: 'readFileNodeList', recoverable: true });
+      }
+
+      const limit = this.nodeCountLimits.get(listId);
+      const trailerOffset = chunk.length - FRAGMENT_TRAILER_SIZE;
+
+      try {
+        while (trailerOffset - reader.position >= 4) {
+          if (limit !== undefined && nodes.length >= limit) {
+            return;
+          }
+
+          const node = this.readFileNode(reader, trailerOffset, fragmentRef.stp);
+          if (!node || node.id === FileNodeId.ChunkTerminator) {
+            break;
+          }
+          nodes.push(node);
+        }
+      } catch (error) {
+        // The trailer sits at a fixed offset, so the fragments after a damaged one can still be found
+        if (!this.salvage?.recover('structure', error)) {
+          throw error;
+        }
+      }
+
+      if (limit !== undefined && nodes.length >= limit) {
+        return;
+      }
+
+      reader.seek(trailerOffset);
+      fragmentRef = reader.readChunkReference(8, 4);
+      if (reader.readBigUInt64() !== FILE_NODE_LIST_FOOTER_MAGIC) {
+        throw new OneNoteError('Invalid file node list fragment footer', 'INVALID_FORMAT', { operation: 'readFileNodeList', recoverable: true });
+      }
+    }
+  }
+
+  /**
+   * Read one FileNode; returns null when the remaining bytes are padding
+   */
+  private readFileNode(reader: BinaryReader, limitOffset: number, fragmentOffset: number): FileNode | null {
+    const start = reader.position;
+    const header = reader.readUInt32();
+    const id = header & 0x3FF;
+    const size = (header >>> 10) & 0x1FFF;
+    const stpFormat = (header >>> 23) & 0x3;
+    const cbFormat = (header >>> 25) & 0x3;
+    const baseType = (header >>> 27) & 0xF;
+
+    if (header === 0 || size < 4) {
+      return null;
+    }
+
+    if (start + size > limitOffset) {
+      throw new OneNoteError('File node extends past its fragment', 'PARSING_FAILED', { operation: 'readFileNode', recoverable: true });
+    }
+
+    const nodeReader = new BinaryReader(reader.readBytes(size - 4));
+    const node: FileNode = {
+      id,
+      size,
+      baseType,
+      offset: fragmentOffset + start,
+      body: Buffer.alloc(0)
+    };
+
+    if (baseType === 1 || baseType === 2) {
+      node.ref = this.readNodeChunkReference(nodeReader, stpFormat, cbFormat);
+    }
+
+    node.body = nodeReader.readBytes(nodeReader.remaining);
+    return node;
+  }
+
+  private readNodeChunkReference(reader: BinaryReader, stpFormat: number, cbFormat: number): FileChunkReference {
+    const stpSize = stpFormat === 0 ? 8 : stpFormat === 2 ? 2 : 4;
+    const compressedStp = stpFormat >= 2;
+    const cbSize = cbFormat === 0 ? 4 : cbFormat === 1 ? 8 : cbFormat === 2 ? 1 : 2;
+    const compressedCb = cbFormat >= 2;
+    return reader.readChunkReference(stpSize, cbSize, compressedStp, compressedCb);
+  }
+}
+
+/**
+ * Read the transaction log and return the committed node count for each file node list
+ */
+export function readTransactionLog(source: ByteSource, ref: FileChunkReference, transactionCount: number): Map<number, number> {
+  const limits = new Map<number, number>();
+  let fragmentRef = ref;
+  let committed = 0;
+  const pending = new Map<number, number>();
+  const visited = new Set<number>();
+
+  while (committed < transactionCount && !isNilReference(fragmentRef) && !isZeroReference(fragmentRef)) {
+    if (visited.has(fragmentRef.stp)) {
+      break;
+    }
+    visited.add(fragmentRef.stp);
+
+    const chunk = readChunk(source, fragmentRef);
+    const reader = new BinaryReader(chunk);
+    const entryCount = Math.floor((chunk.length - 12) / 8);
+
+    for (let i = 0; i < entryCount && committed < transactionCount; i++) {
+      const srcId = reader.readUInt32();
+      const value = reader.readUInt32();
+
+      if (srcId === 0x00000001) {
+        pending.forEach((count, listId) => limits.set(listId, count));
+        pending.clear();
+        committed++;
+      } else if (srcId !== 0) {
+        pending.set(srcId, value);
+      }
+    }
+
+    reader.seek(entryCount * 8);
+    fragmentRef = reader.readChunkReference(8, 4);
+  }
+
+  return limits;
+}
@@ -0,0 +1,173 @@
+/**
+ * MS-ONE object types (JCIDs) and property IDs
+ * Only the identifiers the section and notebook readers understand are listed
+ */
+
+/**
+ * JCID values of OneNote structure nodes (MS-ONE 2.4)
+ */
+export enum Jcid {
+  TocContainer = 0x00020001,
+  SectionNode = 0x00060007,
+  PageSeriesNode = 0x00060008,
+  PageNode = 0x0006000B,
+  OutlineNode = 0x0006000C,
+  OutlineElementNode = 0x0006000D,
+  RichTextOENode = 0x0006000E,
+  ImageNode = 0x00060011,
+  NumberListNode = 0x00060012,
+  OutlineGroup = 0x00060019,
+  TableNode = 0x00060022,
+  TableRowNode = 0x00060023,
+  TableCellNode = 0x00060024,
+  TitleNode = 0x0006002C,
+  PageMetaData = 0x00020030,
+  SectionMetaData = 0x00020031,
+  EmbeddedFileNode = 0x00060035,
+  EmbeddedFileContainer = 0x00080036,
+  PictureContainer14 = 0x00080039,
+  PageManifestNode = 0x00060037,
+  InkDataNode = 0x0002003B,
+  VersionHistoryContent = 0x0006003C,
+  VersionProxy = 0x0006003D,
+  NoteTagSharedDefinitionContainer = 0x00120043,
+  RevisionMetaData = 0x00020044,
+  InkContainer = 0x00060047,
+  InkStrokeNode = 0x00020047,
+  MathInlineObject = 0x00060048,
+  StrokePropertiesNode = 0x00120048,
+  ParagraphStyleObject = 0x0012004D
+}
+
+/** Full JCIDs by index, for the indexes only one known JCID uses */
+const JCIDS_BY_INDEX = (() => {
+  const byIndex = new Map<number, number | null>();
+  for (const jcid of Object.values(Jcid).filter((value): value is number => typeof value === 'number')) {
+    const index = jcid & 0xFFFF;
+    byIndex.set(index, byIndex.has(index) ? null : jcid);
+  }
+  return byIndex;
+})();
+
+/**
+ * Older declarations (MS-ONESTORE ObjectDeclarationWithRefCountBody) give a JCID as its index with only the
+ * property set flag; map it to the known JCID with that index, so OneNote 2007 sections match the same types.
+ * Known and unknown JCIDs, and indexes shared by several JCIDs, are kept as they are
+ */
+export function resolveLegacyJcid(jcid: number): number {
+  if (Object.values(Jcid).includes(jcid)) {
+    return jcid;
+  }
+  return JCIDS_BY_INDEX.get(jcid & 0xFFFF) ?? jcid;
+}
+
+/**
+ * Property IDs used by OneNote structure nodes (MS-ONE 2.1.12)
+ */
+export enum PropertyId {
+  OutlineElementChildLevel = 0x0C001C03,
+  Bold = 0x08001C04,
+  Italic = 0x08001C05,
+  Underline = 0x08001C06,
+  Strikethrough = 0x08001C07,
+  Superscript = 0x08001C08,
+  Subscript = 0x08001C09,
+  Font = 0x1C001C0A,
+  FontSize = 0x10001C0B,
+  FontColor = 0x14001C0C,
+  Highlight = 0x14001C0D,
+  OffsetFromParentHoriz = 0x14001C14,
+  OffsetFromParentVert = 0x14001C15,
+  NumberListFormat = 0x1C001C1A,
+  LayoutMaxWidth = 0x14001C1B,
+  ContentChildNodes = 0x24001C1F,
+  ElementChildNodes = 0x24001C20,
+  RichEditTextUnicode = 0x1C001C22,
+  ListNodes = 0x24001C26,
+  PictureContainer = 0x20001C3F,
+  TopologyCreationTimeStamp = 0x18001C65,
+  NotebookElementOrderingId = 0x14001CB9,
+  NotebookColor = 0x14001CBE,
+  CachedTitleString = 0x1C001CF3,
+  TocChildren = 0x24001CF6,
+  IRecordMedia = 0x14001D24,
+  RowCount = 0x14001D57,
+  ColumnCount = 0x14001D58,
+  StructureElementChildNodes = 0x24001D5F,
+  ChildGraphSpaceElementNodes = 0x2C001D63,
+  FolderChildFilename = 0x1C001D6B,
+  Author = 0x1C001D75,
+  LastModifiedTimeStamp = 0x18001D77,
+  AuthorMostRecent = 0x20001D79,
+  LastModifiedTime = 0x14001D7A,
+  EmbeddedFileContainer = 0x20001D9B,
+  EmbeddedFileName = 0x1C001D9C,
+  SourceFilepath = 0x1C001D9D,
+  ImageFilename = 0x1C001DD7,
+  PageLevel = 0x14001DFF,
+  TextRunIndex = 0x1C001E12,
+  TextRunFormatting = 0x24001E13,
+  Hyperlink = 0x08001E14,
+  WzHyperlinkUrl = 0x1C001E20,
+  ImageAltText = 0x1C001E58,
+  MathFormatting = 0x08003401,
+  InkWidth = 0x14003401,
+  InkHeight = 0x14003402,
+  InkColor = 0x14003403,
+  InkTransparency = 0x0C003404,
+  InkStrokeProperties = 0x20003409,
+  InkPath = 0x1C00340B,
+  InkData = 0x20003415,
+  InkStrokes = 0x24003416,
+  ParagraphStyle = 0x2000342C,
+  ParagraphStyleId = 0x1C00345A,
+  MetaDataObjectsAboveGraphSpace = 0x24003442,
+  ActionItemType = 0x10003463,
+  NoteTagShape = 0x10003464,
+  NoteTagHighlightColor = 0x14003465,
+  NoteTagTextColor = 0x14003466,
+  NoteTagLabel = 0x1C003468,
+  NoteTagCompleted = 0x1400346F,
+  ActionItemStatus = 0x10003470,
+  DisplayedPageNumber = 0x14003480,
+  NoteTagDefinitionOid = 0x20003488,
+  NoteTagStates = 0x40003489,
+  TextExtendedAscii = 0x1C003498,
+  TextRunData = 0x40003499,
+  SectionDisplayName = 0x1C00349B,
+  PictureWidth = 0x140034CD,
+  PictureHeight = 0x140034CE
+}
+
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000;
+const TIME32_EPOCH_MS = Date.UTC(1980, 0, 1);
+
+/**
+ * Convert a FILETIME (100ns intervals since 1601-01-01) to a Date
+ */
+export function fileTimeToDate(fileTime: bigint): Date {
+  return new Date(Number(fileTime / 10000n) - FILETIME_EPOCH_OFFSET_MS);
+}
+
+/**
+ * Convert a Time32 (seconds since 1980-01-01 UTC) to a Date
+ */
+export function time32ToDate(time: number): Date {
+  return new Date(TIME32_EPOCH_MS + time * 1000);
+}
+
+/** COLORREF value with all bits set, meaning automatic or no color */
+export const AUTOMATIC_COLOR = 0xFFFFFFFF;
+
+/**
+ * Convert a COLORREF (0x00BBGGRR) to #rrggbb; automatic colors give undefined
+ */
+export function colorRefToHex(value: number | undefined): string | undefined {
+  if (value === undefined || value === AUTOMATIC_COLOR) {
+    return undefined;
+  }
+  const red = value & 0xFF;
+  const green = (value >>> 8) & 0xFF;
+  const blue = (value >>> 16) & 0xFF;
+  return `#${[red, green, blue].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
@@ -0,0 +1,168 @@
+/**
+ * MS-ONESTORE revision store structures and constants
+ * Shared by the file node list, property set and store parsers
+ */
+
+export const NIL_STP = -1;
+
+export const ZERO_GUID = '{00000000-0000-0000-0000-000000000000}';
+
+/**
+ * Well-known GUIDs from the revision store header and file data store
+ */
+export const OneStoreGuids = {
+  ONE_FILE_TYPE: '{7B5C52E4-D88C-4DA7-AEB1-5378D02996D3}',
+  ONETOC2_FILE_TYPE: '{43FF2FA1-EFD9-4C76-9EE2-10EA5722765F}',
+  FILE_FORMAT: '{109ADD3F-911B-49F5-A5D0-1791EDC8AED8}',
+  FILE_DATA_STORE_HEADER: '{BDE316E7-2665-4511-A4C4-8D4D0B7A9EAC}',
+  FILE_DATA_STORE_FOOTER: '{71FBA722-0F79-4A0B-BB13-899256426B24}'
+} as const;
+
+export const FILE_NODE_LIST_HEADER_MAGIC = 0xA4567AB1F5F7F4C4n;
+export const FILE_NODE_LIST_FOOTER_MAGIC = 0x8BC215C38233BA4Bn;
+export const ONESTORE_HEADER_SIZE = 1024;
+/** ffvLastCodeThatWroteToThisFile of .one files written by OneNote 2010 and later; OneNote 2007 sections carry lower values */
+export const ONE_FILE_FORMAT_VERSION = 0x2A;
+
+/**
+ * FileNodeID values used by the parser (MS-ONESTORE 2.4.3)
+ */
+export enum FileNodeId {
+  ObjectSpaceManifestRoot = 0x004,
+  ObjectSpaceManifestListReference = 0x008,
+  ObjectSpaceManifestListStart = 0x00C,
+  RevisionManifestListReference = 0x010,
+  RevisionManifestListStart = 0x014,
+  RevisionManifestStart4 = 0x01B,
+  RevisionManifestEnd = 0x01C,
+  RevisionManifestStart6 = 0x01E,
+  RevisionManifestStart7 = 0x01F,
+  GlobalIdTableStart = 0x021,
+  GlobalIdTableStart2 = 0x022,
+  GlobalIdTableEntry = 0x024,
+  GlobalIdTableEntry2 = 0x025,
+  GlobalIdTableEntry3 = 0x026,
+  GlobalIdTableEnd = 0x028,
+  ObjectDeclarationWithRefCount = 0x02D,
+  ObjectDeclarationWithRefCount2 = 0x02E,
+  ObjectRevisionWithRefCount = 0x041,
+  ObjectRevisionWithRefCount2 = 0x042,
+  RootObjectReference2 = 0x059,
+  RootObjectReference3 = 0x05A,
+  RevisionRoleDeclaration = 0x05C,
+  RevisionRoleAndContextDeclaration = 0x05D,
+  ObjectDeclarationFileData3RefCount = 0x072,
+  ObjectDeclarationFileData3LargeRefCount = 0x073,
+  ObjectDataEncryptionKeyV2 = 0x07C,
+  ObjectInfoDependencyOverrides = 0x084,
+  DataSignatureGroupDefinition = 0x08C,
+  FileDataStoreListReference = 0x090,
+  FileDataStoreObjectReference = 0x094,
+  ObjectDeclaration2RefCount = 0x0A4,
+  ObjectDeclaration2LargeRefCount = 0x0A5,
+  ObjectGroupListReference = 0x0B0,
+  ObjectGroupStart = 0x0B4,
+  ObjectGroupEnd = 0x0B8,
+  HashedChunkDescriptor2 = 0x0C2,
+  ReadOnlyObjectDeclaration2RefCount = 0x0C4,
+  ReadOnlyObjectDeclaration2LargeRefCount = 0x0C5,
+  ChunkTerminator = 0x0FF
+}
+
+/**
+ * Property value types encoded in bits 26-30 of a PropertyID (MS-ONESTORE 2.6.6)
+ */
+export enum PropertyType {
+  NoData = 0x1,
+  Bool = 0x2,
+  OneByteOfData = 0x3,
+  TwoBytesOfData = 0x4,
+  FourBytesOfData = 0x5,
+  EightBytesOfData = 0x6,
+  FourBytesOfLengthFollowedByData = 0x7,
+  ObjectId = 0x8,
+  ArrayOfObjectIds = 0x9,
+  ObjectSpaceId = 0xA,
+  ArrayOfObjectSpaceIds = 0xB,
+  ContextId = 0xC,
+  ArrayOfContextIds = 0xD,
+  ArrayOfPropertyValues = 0x10,
+  PropertySet = 0x11
+}
+
+export interface ExtendedGuid {
+  guid: string;
+  n: number;
+}
+
+export interface FileChunkReference {
+  stp: number;
+  cb: number;
+}
+
+export interface OneStoreHeader {
+  fileType: 'one' | 'onetoc2';
+  fileGuid: string;
+  fileFormatGuid: string;
+  lastCodeVersion: number;
+  /** A .one section written in the OneNote 2007 format */
+  legacyFormat: boolean;
+  transactionCount: number;
+  transactionLog: FileChunkReference;
+  fileNodeListRoot: FileChunkReference;
+  expectedFileLength: number;
+  fileVersionGuid: string;
+  fileVersionGeneration: number;
+}
+
+export interface FileNode {
+  id: number;
+  size: number;
+  baseType: number;
+  offset: number;
+  ref?: FileChunkReference;
+  body: Buffer;
+}
+
+/**
+ * Decoded JCID flags (MS-ONESTORE 2.6.14)
+ */
+export interface JcidFlags {
+  index: number;
+  isBinary: boolean;
+  isPropertySet: boolean;
+  isGraphNode: boolean;
+  isFileData: boolean;
+  isReadOnly: boolean;
+}
+
+export function decodeJcid(jcid: number): JcidFlags {
+  return {
+    index: jcid & 0xFFFF,
+    isBinary: (jcid & 0x10000) !== 0,
+    isPropertySet: (jcid & 0x20000) !== 0,
+    isGraphNode: (jcid & 0x40000) !== 0,
+    isFileData: (jcid & 0x80000) !== 0,
+    isReadOnly: (jcid & 0x100000) !== 0
+  };
+}
+
+export function extendedGuidKey(value: ExtendedGuid): string {
+  return `${value.guid}:${value.n}`;
+}
+
+export function isNilExtendedGuid(value: ExtendedGuid): boolean {
+  return value.guid === ZERO_GUID && value.n === 0;
+}
+
+export function isNilReference(ref: FileChunkReference): boolean {
+  return ref.stp === NIL_STP;
+}
+
+export function isZeroReference(ref: FileChunkReference): boolean {
+  return ref.stp === 0 && ref.cb === 0;
+}
+
+export function propertyTypeOf(propertyId: number): PropertyType {
+  return ((propertyId >>> 26) & 0x1F) as PropertyType;
+}
@@ -0,0 +1,241 @@
+/**
+ * Property set decoding (MS-ONESTORE 2.6.6 - 2.6.9)
+ * Turns an ObjectSpaceObjectPropSet into a typed, queryable PropertySet
+ */
+
+import { OneNoteError } from '../error-utils';
+import { BinaryReader } from './binary-reader';
+import { ExtendedGuid, PropertyType, extendedGuidKey, propertyTypeOf } from './onestore-types';
+
+export type CompactIdResolver = (compactId: number) => ExtendedGuid | null;
+
+export interface PropertyValue {
+  type: PropertyType;
+  bool?: boolean;
+  data?: Buffer;
+  ids?: Array<ExtendedGuid | null>;
+  sets?: PropertySet[];
+}
+
+export class PropertySet {
+  constructor(private readonly values: Map<number, PropertyValue> = new Map()) {}
+
+  /**
+   * Property IDs are keyed without the boolValue bit
+   */
+  static key(propertyId: number): number {
+    return propertyId & 0x7FFFFFFF;
+  }
+
+  get size(): number {
+    return this.values.size;
+  }
+
+  has(propertyId: number): boolean {
+    return this.values.has(PropertySet.key(propertyId));
+  }
+
+  get(propertyId: number): PropertyValue | undefined {
+    return this.values.get(PropertySet.key(propertyId));
+  }
+
+  propertyIds(): number[] {
+    return [...this.values.keys()];
+  }
+
+  getBool(propertyId: number): boolean | undefined {
+    return this.get(propertyId)?.bool;
+  }
+
+  getData(propertyId: number): Buffer | undefined {
+    return this.get(propertyId)?.data;
+  }
+
+  getUInt(propertyId: number): number | undefined {
+    const data = this.getData(propertyId);
+    if (!data) {
+      return undefined;
+    }
+    switch (data.length) {
+      case 1:
+        return data.readUInt8(0);
+      case 2:
+        return data.readUInt16LE(0);
+      case 4:
+        return data.readUInt32LE(0);
+      case 8:
+        return Number(data.readBigUInt64LE(0));
+      default:
+        return undefined;
+    }
+  }
+
+  getInt32(propertyId: number): number | undefined {
+    const data = this.getData(propertyId);
+    return data && data.length >= 4 ? data.readInt32LE(0) : undefined;
+  }
+
+  getFloat(propertyId: number): number | undefined {
+    const data = this.getData(propertyId);
+    return data && data.length >= 4 ? data.readFloatLE(0) : undefined;
+  }
+
+  getBigUInt64(propertyId: number): bigint | undefined {
+    const data = this.getData(propertyId);
+    return data && data.length >= 8 ? data.readBigUInt64LE(0) : undefined;
+  }
+
+  /**
+   * Read a UTF-16LE string property, dropping a trailing null terminator
+   */
+  getString(propertyId: number): string | undefined {
+    const data = this.getData(propertyId);
+    if (!data) {
+      return undefined;
+    }
+    return data.toString('utf16le', 0, data.length - (data.length % 2)).replace(/\0+$/, '');
+  }
+
+  getObjectId(propertyId: number): string | undefined {
+    return this.getObjectIds(propertyId)[0];
+  }
+
+  getObjectIds(propertyId: number): string[] {
+    const ids = this.get(propertyId)?.ids || [];
+    return ids.filter((id): id is ExtendedGuid => id !== null).map(id => extendedGuidKey(id));
+  }
+
+  getPropertySets(propertyId: number): PropertySet[] {
+    return this.get(propertyId)?.sets || [];
+  }
+}
+
+interface IdStreams {
+  oids: number[];
+  osids: number[];
+  contextIds: number[];
+}
+
+export class PropertySetParser {
+  /**
+   * Parse an ObjectSpaceObjectPropSet: the three ID streams followed by the property set body
+   */
+  static parseObjectPropSet(buffer: Buffer, resolve: CompactIdResolver): PropertySet {
+    const reader = new BinaryReader(buffer);
+    const streams: IdStreams = { oids: [], osids: [], contextIds: [] };
+
+    const oidHeader = this.readStreamHeader(reader);
+    streams.oids = this.readCompactIds(reader, oidHeader.count);
+
+    if (!oidHeader.osidStreamNotPresent) {
+      const osidHeader = this.readStreamHeader(reader);
+      streams.osids = this.readCompactIds(reader, osidHeader.count);
+
+      if (osidHeader.extendedStreamsPresent) {
+        const contextHeader = this.readStreamHeader(reader);
+        streams.contextIds = this.readCompactIds(reader, contextHeader.count);
+      }
+    }
+
+    return this.readPropertySet(reader, streams, resolve);
+  }
+
+  private static readStreamHeader(reader: BinaryReader): { count: number; extendedStreamsPresent: boolean; osidStreamNotPresent: boolean } {
+    const header = reader.readUInt32();
+    return {
+      count: header & 0xFFFFFF,
+      extendedStreamsPresent: ((header >>> 30) & 1) === 1,
+      osidStreamNotPresent: ((header >>> 31) & 1) === 1
+    };
+  }
+
+  private static readCompactIds(reader: BinaryReader, count: number): number[] {
+    const ids: number[] = [];
+    for (let i = 0; i < count; i++) {
+      ids.push(reader.readUInt32());
+    }
+    return ids;
+  }
+
+  private static readPropertySet(reader: BinaryReader, streams: IdStreams, resolve: CompactIdResolver): PropertySet {
+    const count = reader.readUInt16();
+    const propertyIds: number[] = [];
+    for (let i = 0; i < count; i++) {
+      propertyIds.push(reader.readUInt32());
+    }
+
+    const values = new Map<number, PropertyValue>();
+    for (const propertyId of propertyIds) {
+      values.set(PropertySet.key(propertyId), this.readPropertyValue(reader, propertyId, streams, resolve));
+    }
+
+    return new PropertySet(values);
+  }
+
+  private static readPropertyValue(
+    reader: BinaryReader,
+    propertyId: number,
+    streams: IdStreams,
+    resolve: CompactIdResolver
+  ): PropertyValue {
+    const type = propertyTypeOf(propertyId);
+
+    switch (type) {
+      case PropertyType.NoData:
+        return { type };
+      case PropertyType.Bool:
+        return { type, bool: (propertyId >>> 31) === 1 };
+      case PropertyType.OneByteOfData:
+        return { type, data: reader.readBytes(1) };
+      case PropertyType.TwoBytesOfData:
+        return { type, data: reader.readBytes(2) };
+      case PropertyType.FourBytesOfData:
+        return { type, data: reader.readBytes(4) };
+      case PropertyType.EightBytesOfData:
+        return { type, data: reader.readBytes(8) };
+      case PropertyType.FourBytesOfLengthFollowedByData:
+        return { type, data: reader.readBytes(reader.readUInt32()) };
+      case PropertyType.ObjectId:
+        return { type, ids: this.takeIds(streams.oids, 1, resolve) };
+      case PropertyType.ArrayOfObjectIds:
+        return { type, ids: this.takeIds(streams.oids, reader.readUInt32(), resolve) };
+      case PropertyType.ObjectSpaceId:
+        return { type, ids: this.takeIds(streams.osids, 1, resolve) };
+      case PropertyType.ArrayOfObjectSpaceIds:
+        return { type, ids: this.takeIds(streams.osids, reader.readUInt32(), resolve) };
+      case PropertyType.ContextId:
+        return { type, ids: this.takeIds(streams.contextIds, 1, resolve) };
+      case PropertyType.ArrayOfContextIds:
+        return { type, ids: this.takeIds(streams.contextIds, reader.readUInt32(), resolve) };
+      case PropertyType.ArrayOfPropertyValues: {
+        const setCount = reader.readUInt32();
+        const sets: PropertySet[] = [];
+        if (setCount > 0) {
+          reader.readUInt32(); // prid of the element type, always a property set
+          for (let i = 0; i < setCount; i++) {
+            sets.push(this.readPropertySet(reader, streams, resolve));
+          }
+        }
+        return { type, sets };
+      }
+      case PropertyType.PropertySet:
+        return { type, sets: [this.readPropertySet(reader, streams, resolve)] };
+      default:
+        throw new OneNoteError(
+          `Unknown property type 0x${(type as number).toString(16)} for property 0x${propertyId.toString(16)}`,
+          'PARSING_FAILED',
+          { operation: 'readPropertyValue', recoverable: true }
+        );
+    }
+  }
+
+  private static takeIds(stream: number[], count: number, resolve: CompactIdResolver): Array<ExtendedGuid | null> {
+    if (count > stream.length) {
+      throw new OneNoteError('Property set references more IDs than its stream contains', 'PARSING_FAILED', {
+        operation: 'readPropertyValue',
+        recoverable: true
+      });
+    }
+    return stream.splice(0, count).map(compactId => resolve(compactId));
+  }
+}
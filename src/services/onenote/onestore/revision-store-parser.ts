@@ -0,0 +1,474 @@
+/**
+ * Revision store parser (MS-ONESTORE)
+ * Reads the header, transaction log, file node lists, object spaces and revision manifests
+ */
+
+import { OneNoteError } from '../error-utils';
+import { BinaryReader } from './binary-reader';
+import { BufferByteSource, ByteSource, readChunk } from './byte-source';
+import { FileNodeListReader, readTransactionLog } from './file-node-list';
+import { CompactIdResolver, PropertySet, PropertySetParser } from './property-set';
+import { DEFAULT_CONTEXT_ID, ObjectSpace, Revision, RevisionStore, StoreObject } from './revision-store';
+import { SalvageLog } from './salvage-log';
+import { SectionEncryption } from './section-encryption';
+import {
+  ExtendedGuid,
+  FileChunkReference,
+  FileNode,
+  FileNodeId,
+  ONESTORE_HEADER_SIZE,
+  ONE_FILE_FORMAT_VERSION,
+  OneStoreGuids,
+  OneStoreHeader,
+  extendedGuidKey,
+  isNilExtendedGuid,
+  isNilReference,
+  isZeroReference
+} from './onestore-types';
+import { resolveLegacyJcid } from './one-properties';
+
+type GlobalIdTable = Map<number, string>;
+
+interface RevisionState {
+  revision: Revision;
+  table: GlobalIdTable;
+}
+
+export class RevisionStoreParser {
+  private readonly source: ByteSource;
+  private listReader!: FileNodeListReader;
+  private knownJcids = new Map<string, number>();
+  private encryption?: SectionEncryption;
+
+  /**
+   * @param salvage Set when salvaging a damaged file: file node lists, object spaces and file nodes that cannot
+   * be read are recorded and skipped, and the store holds whatever else could be read
+   */
+  constructor(source: ByteSource | Buffer, private readonly salvage?: SalvageLog) {
+    this.source = Buffer.isBuffer(source) ? new BufferByteSource(source) : source;
+  }
+
+  /**
+   * Check whether a buffer starts with a revision store header (.one or .onetoc2)
+   */
+  static isRevisionStore(buffer: Buffer): boolean {
+    if (buffer.length < 64) {
+      return false;
+    }
+    const reader = new BinaryReader(buffer);
+    const fileType = reader.readGuid();
+    reader.seek(48);
+    const fileFormat = reader.readGuid();
+    return (fileType === OneStoreGuids.ONE_FILE_TYPE || fileType === OneStoreGuids.ONETOC2_FILE_TYPE) &&
+      fileFormat === OneStoreGuids.FILE_FORMAT;
+  }
+
+  /**
+   * Check whether a buffer starts with the header of a .one section written in the OneNote 2007 format
+   */
+  static isLegacyFormat(buffer: Buffer): boolean {
+    return RevisionStoreParser.isRevisionStore(buffer) &&
+      new BinaryReader(buffer).readGuid() === OneStoreGuids.ONE_FILE_TYPE &&
+      buffer.readUInt32LE(64) < ONE_FILE_FORMAT_VERSION;
+  }
+
+  parse(): RevisionStore {
+    const header = this.readHeader();
+    let nodeCountLimits = new Map<number, number>();
+    if (header.transactionCount > 0 && !isNilReference(header.transactionLog)) {
+      // Without the log every node in the lists counts as committed
+      this.readNode(() => {
+        nodeCountLimits = readTransactionLog(this.source, header.transactionLog, header.transactionCount);
+      });
+    }
+    this.listReader = new FileNodeListReader(this.source, nodeCountLimits, this.salvage);
+
+    let rootObjectSpaceId: string | undefined;
+    const objectSpaces = new Map<string, ObjectSpace>();
+    const fileDataStore = new Map<string, FileChunkReference>();
+
+    for (const node of this.listReader.read(header.fileNodeListRoot)) {
+      const body = new BinaryReader(node.body);
+
+      switch (node.id) {
+        case FileNodeId.ObjectSpaceManifestRoot:
+          rootObjectSpaceId = extendedGuidKey(body.readExtendedGuid());
+          break;
+        case FileNodeId.ObjectSpaceManifestListReference:
+          this.readNode(() => {
+            const gosid = extendedGuidKey(body.readExtendedGuid());
+            objectSpaces.set(gosid, this.readObjectSpace(gosid, this.requireRef(node)));
+          });
+          break;
+        case FileNodeId.FileDataStoreListReference:
+          this.readNode(() => this.readFileDataStoreList(this.requireRef(node), fileDataStore));
+          break;
+        default:
+          break;
+      }
+    }
+
+    return new RevisionStore(header, rootObjectSpaceId, objectSpaces, fileDataStore, this.source, this.encryption);
+  }
+
+  private readHeader(): OneStoreHeader {
+    if (this.source.size < ONESTORE_HEADER_SIZE) {
+      throw new OneNoteError('File is too small to be a OneNote revision store', 'INVALID_FORMAT', { operation: 'readHeader' });
+    }
+
+    const reader = new BinaryReader(this.source.read(0, ONESTORE_HEADER_SIZE));
+    const fileTypeGuid = reader.readGuid();
+    const fileGuid = reader.readGuid();
+    reader.readGuid(); // guidLegacyFileVersion
+    const fileFormatGuid = reader.readGuid();
+
+    if (fileFormatGuid !== OneStoreGuids.FILE_FORMAT ||
+        (fileTypeGuid !== OneStoreGuids.ONE_FILE_TYPE && fileTypeGuid !== OneStoreGuids.ONETOC2_FILE_TYPE)) {
+      throw new OneNoteError('Not a OneNote revision store file', 'INVALID_FORMAT', { operation: 'readHeader' });
+    }
+
+    const lastCodeVersion = reader.readUInt32();
+    reader.seek(88);
+    const legacyTransactionLog = reader.readChunkReference(4, 4);
+    const transactionCount = reader.readUInt32();
+    const legacyExpectedFileLength = reader.readUInt32();
+    reader.seek(112);
+    const legacyFileNodeListRoot = reader.readChunkReference(4, 4);
+    reader.seek(160);
+    let transactionLog = reader.readChunkReference(8, 4);
+    let fileNodeListRoot = reader.readChunkReference(8, 4);
+    reader.readChunkReference(8, 4); // fcrFreeChunkList
+    let expectedFileLength = reader.readUInt64();
+    reader.readUInt64(); // cbFreeSpaceInFreeChunkList
+    const fileVersionGuid = reader.readGuid();
+    const fileVersionGeneration = reader.readUInt64();
+
+    // Files that leave the 64-bit references zero keep their lists at the 32-bit legacy ones
+    if (isZeroReference(fileNodeListRoot) && !isZeroReference(legacyFileNodeListRoot)) {
+      transactionLog = legacyTransactionLog;
+      fileNodeListRoot = legacyFileNodeListRoot;
+      expectedFileLength = legacyExpectedFileLength;
+    }
+
+    const fileType = fileTypeGuid === OneStoreGuids.ONE_FILE_TYPE ? 'one' : 'onetoc2';
+    return {
+      fileType,
+      fileGuid,
+      fileFormatGuid,
+      lastCodeVersion,
+      legacyFormat: fileType === 'one' && lastCodeVersion < ONE_FILE_FORMAT_VERSION,
+      transactionCount,
+      transactionLog,
+      fileNodeListRoot,
+      expectedFileLength,
+      fileVersionGuid,
+      fileVersionGeneration
+    };
+  }
+
+  private readObjectSpace(gosid: string, ref: FileChunkReference): ObjectSpace {
+    const space: ObjectSpace = { id: gosid, revisions: [], roleAssignments: new Map() };
+
+    // Only the last revision manifest list reference is current
+    let revisionListRef: FileChunkReference | undefined;
+    for (const node of this.listReader.read(ref)) {
+      if (node.id === FileNodeId.RevisionManifestListReference) {
+        revisionListRef = this.requireRef(node);
+      }
+    }
+
+    if (revisionListRef) {
+      this.readRevisionManifestList(space, revisionListRef);
+    }
+
+    return space;
+  }
+
+  private readRevisionManifestList(space: ObjectSpace, ref: FileChunkReference): void {
+    const tables = new Map<string, GlobalIdTable>();
+    let state: RevisionState | null = null;
+
+    for (const node of this.listReader.read(ref)) {
+      const body = new BinaryReader(node.body);
+
+      switch (node.id) {
+        case FileNodeId.RevisionManifestStart4:
+        case FileNodeId.RevisionManifestStart6:
+        case FileNodeId.RevisionManifestStart7:
+          state = { revision: this.readRevisionStart(node, body), table: new Map() };
+          break;
+
+        case FileNodeId.RevisionManifestEnd:
+          if (state) {
+            space.revisions.push(state.revision);
+            tables.set(state.revision.id, state.table);
+            space.roleAssignments.set(RevisionStore.roleKey(state.revision.role, state.revision.contextId), state.revision.id);
+            state = null;
+          }
+          break;
+
+        case FileNodeId.RevisionRoleDeclaration: {
+          const rid = extendedGuidKey(body.readExtendedGuid());
+          const role = body.readUInt32();
+          space.roleAssignments.set(RevisionStore.roleKey(role), rid);
+          break;
+        }
+
+        case FileNodeId.RevisionRoleAndContextDeclaration: {
+          const rid = extendedGuidKey(body.readExtendedGuid());
+          const role = body.readUInt32();
+          const context = body.readExtendedGuid();
+          space.roleAssignments.set(RevisionStore.roleKey(role, this.contextKey(context)), rid);
+          break;
+        }
+
+        default:
+          if (state) {
+            const current = state;
+            this.readNode(() => this.readRevisionNode(current, node, body, tables));
+          }
+          break;
+      }
+    }
+  }
+
+  private readRevisionStart(node: FileNode, body: BinaryReader): Revision {
+    const rid = body.readExtendedGuid();
+    const ridDependent = body.readExtendedGuid();
+    if (node.id === FileNodeId.RevisionManifestStart4) {
+      body.skip(8); // timeCreation
+    }
+    const role = body.readUInt32();
+    const odcsDefault = body.readUInt16();
+    const context = node.id === FileNodeId.RevisionManifestStart7 ? body.readExtendedGuid() : null;
+
+    const revision: Revision = {
+      id: extendedGuidKey(rid),
+      role,
+      contextId: context ? this.contextKey(context) : DEFAULT_CONTEXT_ID,
+      encrypted: odcsDefault === 0x0002,
+      objects: new Map(),
+      roots: new Map()
+    };
+
+    if (!isNilExtendedGuid(ridDependent)) {
+      revision.dependsOn = extendedGuidKey(ridDependent);
+    }
+
+    return revision;
+  }
+
+  private readRevisionNode(state: RevisionState, node: FileNode, body: BinaryReader, tables: Map<string, GlobalIdTable>): void {
+    const revision = state.revision;
+
+    switch (node.id) {
+      case FileNodeId.ObjectGroupListReference:
+        this.readObjectGroupList(this.requireRef(node), revision);
+        break;
+
+      case FileNodeId.GlobalIdTableStart:
+      case FileNodeId.GlobalIdTableStart2:
+        state.table = new Map();
+        break;
+
+      case FileNodeId.GlobalIdTableEntry:
+      case FileNodeId.GlobalIdTableEntry2:
+      case FileNodeId.GlobalIdTableEntry3: {
+        const dependencyTable = revision.dependsOn ? tables.get(revision.dependsOn) : undefined;
+        this.readGlobalIdTableEntry(node, body, state.table, dependencyTable);
+        break;
+      }
+
+      case FileNodeId.RootObjectReference2: {
+        const id = this.createResolver(state.table)(body.readUInt32());
+        const role = body.readUInt32();
+        if (id) {
+          revision.roots.set(role, extendedGuidKey(id));
+        }
+        break;
+      }
+
+      case FileNodeId.RootObjectReference3: {
+        const id = body.readExtendedGuid();
+        revision.roots.set(body.readUInt32(), extendedGuidKey(id));
+        break;
+      }
+
+      case FileNodeId.ObjectDataEncryptionKeyV2:
+        // All protected revisions of a section share one key
+        this.encryption ??= new SectionEncryption(readChunk(this.source, this.requireRef(node)));
+        revision.encrypted = true;
+        break;
+
+      default:
+        this.readObjectDeclaration(node, body, state.table, revision);
+        break;
+    }
+  }
+
+  private readObjectGroupList(ref: FileChunkReference, revision: Revision): void {
+    let table: GlobalIdTable = new Map();
+
+    for (const node of this.listReader.read(ref)) {
+      const body = new BinaryReader(node.body);
+
+      switch (node.id) {
+        case FileNodeId.GlobalIdTableStart2:
+          table = new Map();
+          break;
+        case FileNodeId.GlobalIdTableEntry:
+          this.readNode(() => this.readGlobalIdTableEntry(node, body, table, undefined));
+          break;
+        default:
+          this.readNode(() => this.readObjectDeclaration(node, body, table, revision));
+          break;
+      }
+    }
+  }
+
+  private readGlobalIdTableEntry(node: FileNode, body: BinaryReader, table: GlobalIdTable, previous: GlobalIdTable | undefined): void {
+    switch (node.id) {
+      case FileNodeId.GlobalIdTableEntry: {
+        const index = body.readUInt32();
+        table.set(index, body.readGuid());
+        break;
+      }
+      case FileNodeId.GlobalIdTableEntry2: {
+        const from = body.readUInt32();
+        const to = body.readUInt32();
+        const guid = previous?.get(from);
+        if (guid) {
+          table.set(to, guid);
+        }
+        break;
+      }
+      case FileNodeId.GlobalIdTableEntry3: {
+        const copyFrom = body.readUInt32();
+        const count = body.readUInt32();
+        const copyTo = body.readUInt32();
+        for (let i = 0; i < count; i++) {
+          const guid = previous?.get(copyFrom + i);
+          if (guid) {
+            table.set(copyTo + i, guid);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Register the object declared or revised by a file node; other node types are ignored
+   */
+  private readObjectDeclaration(node: FileNode, body: BinaryReader, table: GlobalIdTable, revision: Revision): void {
+    const resolve = this.createResolver(table);
+
+    switch (node.id) {
+      case FileNodeId.ObjectDeclaration2RefCount:
+      case FileNodeId.ObjectDeclaration2LargeRefCount:
+      case FileNodeId.ReadOnlyObjectDeclaration2RefCount:
+      case FileNodeId.ReadOnlyObjectDeclaration2LargeRefCount: {
+        const id = resolve(body.readUInt32());
+        const jcid = body.readUInt32();
+        this.declare(revision, id, jcid, this.requireRef(node), resolve);
+        break;
+      }
+
+      case FileNodeId.ObjectDeclarationWithRefCount:
+      case FileNodeId.ObjectDeclarationWithRefCount2: {
+        // The older declarations, used by .onetoc2 files and OneNote 2007 sections, carry only the JCID index
+        const id = resolve(body.readUInt32());
+        const jci = body.readUInt32() & 0x3FF;
+        this.declare(revision, id, resolveLegacyJcid(0x00020000 | jci), this.requireRef(node), resolve);
+        break;
+      }
+
+      case FileNodeId.ObjectRevisionWithRefCount:
+      case FileNodeId.ObjectRevisionWithRefCount2: {
+        const id = resolve(body.readUInt32());
+        const jcid = id ? this.knownJcids.get(extendedGuidKey(id)) : undefined;
+        if (jcid !== undefined) {
+          this.declare(revision, id, jcid, this.requireRef(node), resolve);
+        }
+        break;
+      }
+
+      case FileNodeId.ObjectDeclarationFileData3RefCount:
+      case FileNodeId.ObjectDeclarationFileData3LargeRefCount: {
+        const id = resolve(body.readUInt32());
+        const jcid = body.readUInt32();
+        body.skip(node.id === FileNodeId.ObjectDeclarationFileData3RefCount ? 1 : 4);
+        const reference = body.readStorageString();
+        const extension = body.readStorageString();
+        if (id) {
+          const key = extendedGuidKey(id);
+          this.knownJcids.set(key, jcid);
+          revision.objects.set(key, new StoreObject(key, jcid, () => new PropertySet(), { reference, extension }));
+        }
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  private declare(revision: Revision, id: ExtendedGuid | null, jcid: number, ref: FileChunkReference, resolve: CompactIdResolver): void {
+    if (!id) {
+      return;
+    }
+
+    const key = extendedGuidKey(id);
+    this.knownJcids.set(key, jcid);
+    revision.objects.set(key, new StoreObject(key, jcid, () => {
+      if (isNilReference(ref) || ref.cb === 0) {
+        return new PropertySet();
+      }
+      const data = readChunk(this.source, ref);
+      return PropertySetParser.parseObjectPropSet(revision.encrypted && this.encryption ? this.encryption.decrypt(data) : data, resolve);
+    }));
+  }
+
+  private readFileDataStoreList(ref: FileChunkReference, store: Map<string, FileChunkReference>): void {
+    for (const node of this.listReader.read(ref)) {
+      if (node.id === FileNodeId.FileDataStoreObjectReference) {
+        const guid = new BinaryReader(node.body).readGuid();
+        store.set(guid, this.requireRef(node));
+      }
+    }
+  }
+
+  private createResolver(table: GlobalIdTable): CompactIdResolver {
+    return (compactId: number) => {
+      const guid = table.get(compactId >>> 8);
+      return guid === undefined ? null : { guid, n: compactId & 0xFF };
+    };
+  }
+
+  private contextKey(context: ExtendedGuid): string {
+    return isNilExtendedGuid(context) ? DEFAULT_CONTEXT_ID : extendedGuidKey(context);
+  }
+
+  /**
+   * Read what a file node describes; when salvaging, a node that cannot be read is recorded and skipped
+   */
+  private readNode(read: () => void): void {
+    try {
+      read();
+    } catch (error) {
+      if (!this.salvage?.recover('structure', error)) {
+        throw error;
+      }
+    }
+  }
+
+  private requireRef(node: FileNode): FileChunkReference {
+    if (!node.ref) {
+      throw new OneNoteError(`File node 0x${node.id.toString(16)} is missing its chunk reference`, 'PARSING_FAILED', {
+        operation: 'readFileNode',
+        recoverable: true
+      });
+    }
+    return node.ref;
+  }
+}
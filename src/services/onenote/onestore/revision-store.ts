@@ -0,0 +1,223 @@
+/**
+ * Revision store model (MS-ONESTORE 2.1)
+ * Object spaces, their revisions and the objects declared in each revision
+ */
+
+import { OneNoteError } from '../error-utils';
+import { BinaryReader } from './binary-reader';
+import { ByteSource, readChunk } from './byte-source';
+import { PropertySet } from './property-set';
+import { SectionEncryption } from './section-encryption';
+import { FileChunkReference, OneStoreGuids, OneStoreHeader, ZERO_GUID } from './onestore-types';
+
+export const DEFAULT_CONTEXT_ID = `${ZERO_GUID}:0`;
+
+/**
+ * Root object roles (MS-ONESTORE 2.1.8)
+ */
+export enum RootRole {
+  DefaultContent = 1,
+  Metadata = 2,
+  VersionMetadata = 4
+}
+
+export interface StoreFileDataInfo {
+  reference: string;
+  extension: string;
+}
+
+/**
+ * An object as declared by a revision; the property set is decoded on first access
+ */
+export class StoreObject {
+  private cachedProperties?: PropertySet;
+
+  constructor(
+    readonly id: string,
+    readonly jcid: number,
+    private readonly loadProperties: () => PropertySet,
+    readonly fileData?: StoreFileDataInfo
+  ) {}
+
+  get properties(): PropertySet {
+    if (!this.cachedProperties) {
+      this.cachedProperties = this.loadProperties();
+    }
+    return this.cachedProperties;
+  }
+
+  /**
+   * Drop the decoded property set; it is decoded again on next access
+   */
+  unload(): void {
+    delete this.cachedProperties;
+  }
+}
+
+export interface Revision {
+  id: string;
+  dependsOn?: string;
+  role: number;
+  contextId: string;
+  encrypted: boolean;
+  objects: Map<string, StoreObject>;
+  roots: Map<number, string>;
+}
+
+export interface ObjectSpace {
+  id: string;
+  revisions: Revision[];
+  /** Maps "role|context" to the revision currently holding that role */
+  roleAssignments: Map<string, string>;
+}
+
+/**
+ * All objects and roots visible in one revision, including those inherited from its dependencies
+ */
+export class ObjectSpaceSnapshot {
+  constructor(
+    readonly objectSpaceId: string,
+    readonly revision: Revision,
+    readonly objects: Map<string, StoreObject>,
+    readonly roots: Map<number, string>
+  ) {}
+
+  get(id: string | undefined): StoreObject | undefined {
+    return id ? this.objects.get(id) : undefined;
+  }
+
+  getAll(ids: string[]): StoreObject[] {
+    return ids.map(id => this.objects.get(id)).filter((object): object is StoreObject => object !== undefined);
+  }
+
+  root(role: RootRole = RootRole.DefaultContent): StoreObject | undefined {
+    return this.get(this.roots.get(role));
+  }
+}
+
+export class RevisionStore {
+  constructor(
+    readonly header: OneStoreHeader,
+    readonly rootObjectSpaceId: string | undefined,
+    readonly objectSpaces: Map<string, ObjectSpace>,
+    private readonly fileDataStore: Map<string, FileChunkReference>,
+    private readonly source: ByteSource,
+    /** Set for password protected sections; their encrypted revisions cannot be read until it is unlocked */
+    readonly encryption?: SectionEncryption
+  ) {}
+
+  static roleKey(role: number, contextId: string = DEFAULT_CONTEXT_ID): string {
+    return `${role}|${contextId}`;
+  }
+
+  getObjectSpace(objectSpaceId: string): ObjectSpace | undefined {
+    return this.objectSpaces.get(objectSpaceId);
+  }
+
+  /**
+   * Free the decoded property sets of an object space once it has been read
+   */
+  release(objectSpaceId: string): void {
+    for (const revision of this.objectSpaces.get(objectSpaceId)?.revisions ?? []) {
+      revision.objects.forEach(object => object.unload());
+    }
+  }
+
+  /**
+   * Find the revision currently assigned to a role in an object space
+   */
+  getRevision(objectSpaceId: string, role: number = RootRole.DefaultContent, contextId: string = DEFAULT_CONTEXT_ID): Revision | undefined {
+    const space = this.objectSpaces.get(objectSpaceId);
+    if (!space) {
+      return undefined;
+    }
+
+    const revisionId = space.roleAssignments.get(RevisionStore.roleKey(role, contextId));
+    if (revisionId) {
+      return space.revisions.find(revision => revision.id === revisionId);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a revision and its dependency chain into the full set of visible objects
+   */
+  snapshot(objectSpaceId: string, revisionId?: string): ObjectSpaceSnapshot | undefined {
+    const space = this.objectSpaces.get(objectSpaceId);
+    if (!space) {
+      return undefined;
+    }
+
+    const revision = revisionId
+      ? space.revisions.find(candidate => candidate.id === revisionId)
+      : this.getRevision(objectSpaceId);
+    if (!revision) {
+      return undefined;
+    }
+
+    const chain: Revision[] = [];
+    const seen = new Set<string>();
+    let current: Revision | undefined = revision;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      chain.unshift(current);
+      const dependencyId: string | undefined = current.dependsOn;
+      current = dependencyId ? space.revisions.find(candidate => candidate.id === dependencyId) : undefined;
+    }
+
+    const objects = new Map<string, StoreObject>();
+    const roots = new Map<number, string>();
+    for (const link of chain) {
+      link.objects.forEach((object, id) => objects.set(id, object));
+      link.roots.forEach((id, role) => roots.set(role, id));
+    }
+
+    return new ObjectSpaceSnapshot(objectSpaceId, revision, objects, roots);
+  }
+
+  /**
+   * Whether a FileDataReference points into this file's data store
+   */
+  hasFileData(reference: string): boolean {
+    const guid = RevisionStore.parseFileDataGuid(reference);
+    return guid !== null && this.fileDataStore.has(guid);
+  }
+
+  /**
+   * Read the bytes of a file data store object from a "<ifndf>{GUID}" reference
+   */
+  readFileData(reference: string): Buffer | undefined {
+    const guid = RevisionStore.parseFileDataGuid(reference);
+    const ref = guid ? this.fileDataStore.get(guid) : undefined;
+    if (!ref) {
+      return undefined;
+    }
+
+    const reader = new BinaryReader(readChunk(this.source, ref));
+    const length = RevisionStore.readFileDataLength(reader);
+    reader.skip(12); // unused + reserved
+    return reader.readBytes(length);
+  }
+
+  /**
+   * Size in bytes of a file data store object, read from its header alone
+   */
+  fileDataSize(reference: string): number | undefined {
+    const guid = RevisionStore.parseFileDataGuid(reference);
+    const ref = guid ? this.fileDataStore.get(guid) : undefined;
+    return ref ? RevisionStore.readFileDataLength(new BinaryReader(this.source.read(ref.stp, Math.min(ref.cb, 24)))) : undefined;
+  }
+
+  private static readFileDataLength(reader: BinaryReader): number {
+    if (reader.readGuid() !== OneStoreGuids.FILE_DATA_STORE_HEADER) {
+      throw new OneNoteError('Invalid file data store object header', 'INVALID_FORMAT', { operation: 'readFileData', recoverable: true });
+    }
+    return reader.readUInt64();
+  }
+
+  private static parseFileDataGuid(reference: string): string | null {
+    const match = reference.match(/^<ifndf>(\{[0-9A-Fa-f-]{36}\})$/);
+    return match ? match[1]!.toUpperCase() : null;
+  }
+}
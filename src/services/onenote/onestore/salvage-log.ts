@@ -0,0 +1,36 @@
+/**
+ * Salvage log
+ * Collects what a salvage parse skipped over while reading a damaged section
+ */
+
+import { OneNoteSalvageLoss } from '../../../types/onenote';
+import { OneNoteError } from '../error-utils';
+
+export class SalvageLog {
+  readonly losses: OneNoteSalvageLoss[] = [];
+
+  /**
+   * Record a read that failed on damaged data; returns false for errors that damage does not explain,
+   * which the caller rethrows
+   */
+  recover(kind: OneNoteSalvageLoss['kind'], error: unknown, page?: string): boolean {
+    // Damaged bytes surface as parse errors or as reads past the end of a buffer
+    if (!(error instanceof OneNoteError || error instanceof RangeError)) {
+      return false;
+    }
+
+    this.record(kind, error.message, page);
+    return true;
+  }
+
+  record(kind: OneNoteSalvageLoss['kind'], reason: string, page?: string): void {
+    this.losses.push({ kind, reason, ...(page ? { page } : {}) });
+  }
+
+  /**
+   * Losses recorded after an earlier count of `losses.length`
+   */
+  since(mark: number): OneNoteSalvageLoss[] {
+    return this.losses.slice(mark);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Password protected sections
+ * Revisions of a protected section reference an ObjectDataEncryptionKeyV2 chunk; it holds an agile
+ * EncryptionInfo (MS-OFFCRYPTO 2.3.4.10) and the property sets of those revisions are encrypted with its key
+ */
+
+import * as crypto from 'crypto';
+import { OneNoteError } from '../error-utils';
+import { BinaryReader } from './binary-reader';
+
+/** Encrypted data is processed in segments, each with its own IV */
+const SEGMENT_SIZE = 4096;
+
+/** Block keys of the password key encryptor (MS-OFFCRYPTO 2.3.4.13) */
+const BLOCK_KEYS = {
+  verifierHashInput: Buffer.from([0xFE, 0xA7, 0xD2, 0x76, 0x3B, 0x4B, 0x9E, 0x79]),
+  verifierHashValue: Buffer.from([0xD7, 0xAA, 0x0F, 0x6D, 0x30, 0x61, 0x34, 0x4E]),
+  keyValue: Buffer.from([0x14, 0x6E, 0x0B, 0xE7, 0xAB, 0xAC, 0xD0, 0xD6])
+};
+
+/** Most hash iterations a password may take; MS-OFFCRYPTO allows no more, so a higher count means a damaged file */
+const MAX_SPIN_COUNT = 10_000_000;
+
+const HASH_ALGORITHMS: Record<string, string> = { SHA1: 'sha1', SHA256: 'sha256', SHA384: 'sha384', SHA512: 'sha512' };
+
+interface CipherParameters {
+  salt: Buffer;
+  blockSize: number;
+  keyBits: number;
+  hashAlgorithm: string;
+}
+
+interface PasswordKeyEncryptor extends CipherParameters {
+  spinCount: number;
+  encryptedVerifierHashInput: Buffer;
+  encryptedVerifierHashValue: Buffer;
+  encryptedKeyValue: Buffer;
+}
+
+interface EncryptionInfo {
+  keyData: CipherParameters;
+  password: PasswordKeyEncryptor;
+}
+
+export class SectionEncryption {
+  private key?: Buffer;
+  private info?: EncryptionInfo;
+
+  /**
+   * @param keyData contents of the chunk an ObjectDataEncryptionKeyV2 node references; read on unlock
+   */
+  constructor(private readonly keyData: Buffer) {}
+
+  get locked(): boolean {
+    return this.key === undefined;
+  }
+
+  /**
+   * Derive the section key from a password
+   * @throws OneNoteError INVALID_PASSWORD when the password does not match the section's verifier, and
+   * INVALID_ENCRYPTION when the encryption info is damaged
+   */
+  unlock(password: string): void {
+    const info = this.info ??= SectionEncryption.parseEncryptionInfo(this.keyData);
+    const encryptor = info.password;
+
+    let hash = SectionEncryption.hash(encryptor.hashAlgorithm, encryptor.salt, Buffer.from(password, 'utf16le'));
+    const iterator = Buffer.alloc(4);
+    for (let i = 0; i < encryptor.spinCount; i++) {
+      iterator.writeUInt32LE(i, 0);
+      hash = SectionEncryption.hash(encryptor.hashAlgorithm, iterator, hash);
+    }
+
+    const decryptWith = (blockKey: Buffer, data: Buffer): Buffer => {
+      const key = SectionEncryption.fit(SectionEncryption.hash(encryptor.hashAlgorithm, hash, blockKey), encryptor.keyBits / 8, 0x36);
+      return SectionEncryption.decryptCbc(encryptor, key, SectionEncryption.fit(encryptor.salt, encryptor.blockSize, 0x36), data);
+    };
+
+    const verifierInput = decryptWith(BLOCK_KEYS.verifierHashInput, encryptor.encryptedVerifierHashInput).subarray(0, encryptor.salt.length);
+    const expected = SectionEncryption.hash(encryptor.hashAlgorithm, verifierInput);
+    const verifierHash = decryptWith(BLOCK_KEYS.verifierHashValue, encryptor.encryptedVerifierHashValue).subarray(0, expected.length);
+    if (!verifierHash.equals(expected)) {
+      throw new OneNoteError('The password does not unlock this section', 'INVALID_PASSWORD', { operation: 'unlockSection' });
+    }
+
+    this.key = decryptWith(BLOCK_KEYS.keyValue, encryptor.encryptedKeyValue).subarray(0, info.keyData.keyBits / 8);
+  }
+
+  /**
+   * Decrypt an encrypted chunk: the plain text length followed by the cipher text of its segments
+   * @throws OneNoteError PASSWORD_REQUIRED while the section is locked
+   */
+  decrypt(chunk: Buffer): Buffer {
+    if (!this.key || !this.info) {
+      throw new OneNoteError('Section is password protected', 'PASSWORD_REQUIRED', { operation: 'decryptChunk' });
+    }
+
+    const keyData = this.info.keyData;
+    const reader = new BinaryReader(chunk);
+    const length = reader.readUInt64();
+    const cipherText = reader.readBytes(chunk.length - 8);
+    if (cipherText.length % keyData.blockSize !== 0 || cipherText.length < length) {
+      throw new OneNoteError('Encrypted chunk is truncated', 'PARSING_FAILED', { operation: 'decryptChunk', recoverable: true });
+    }
+
+    const segments: Buffer[] = [];
+    const index = Buffer.alloc(4);
+    for (let offset = 0; offset < cipherText.length; offset += SEGMENT_SIZE) {
+      index.writeUInt32LE(offset / SEGMENT_SIZE, 0);
+      const iv = SectionEncryption.fit(SectionEncryption.hash(keyData.hashAlgorithm, keyData.salt, index), keyData.blockSize, 0x36);
+      segments.push(SectionEncryption.decryptCbc(keyData, this.key, iv, cipherText.subarray(offset, offset + SEGMENT_SIZE)));
+    }
+    return Buffer.concat(segments).subarray(0, length);
+  }
+
+  /**
+   * Read the EncryptionInfo stream: version 4.4, reserved flags and the XML descriptor
+   */
+  private static parseEncryptionInfo(data: Buffer): EncryptionInfo {
+    const reader = new BinaryReader(data);
+    const major = data.length >= 8 ? reader.readUInt16() : 0;
+    const minor = data.length >= 8 ? reader.readUInt16() : 0;
+    if (major !== 4 || minor !== 4) {
+      throw SectionEncryption.unsupported(`Unsupported section encryption version ${major}.${minor}`);
+    }
+
+    const xml = data.subarray(8).toString('utf8');
+    const keyData = xml.match(/<keyData\b[^>]*>/)?.[0];
+    const encryptedKey = xml.match(/<(?:\w+:)?encryptedKey\b[^>]*>/)?.[0];
+    if (!keyData || !encryptedKey) {
+      throw SectionEncryption.unsupported('Section encryption uses no password key encryptor');
+    }
+
+    const spinCount = Number(SectionEncryption.attribute(encryptedKey, 'spinCount'));
+    if (!Number.isInteger(spinCount) || spinCount < 0 || spinCount > MAX_SPIN_COUNT) {
+      throw new OneNoteError(`Section encryption spin count ${spinCount} is outside 0 to ${MAX_SPIN_COUNT}`, 'INVALID_ENCRYPTION', {
+        operation: 'unlockSection'
+      });
+    }
+
+    return {
+      keyData: SectionEncryption.readCipherParameters(keyData),
+      password: {
+        ...SectionEncryption.readCipherParameters(encryptedKey),
+        spinCount,
+        encryptedVerifierHashInput: Buffer.from(SectionEncryption.attribute(encryptedKey, 'encryptedVerifierHashInput'), 'base64'),
+        encryptedVerifierHashValue: Buffer.from(SectionEncryption.attribute(encryptedKey, 'encryptedVerifierHashValue'), 'base64'),
+        encryptedKeyValue: Buffer.from(SectionEncryption.attribute(encryptedKey, 'encryptedKeyValue'), 'base64')
+      }
+    };
+  }
+
+  private static readCipherParameters(element: string): CipherParameters {
+    const cipher = SectionEncryption.attribute(element, 'cipherAlgorithm');
+    const chaining = SectionEncryption.attribute(element, 'cipherChaining');
+    const hashAlgorithm = HASH_ALGORITHMS[SectionEncryption.attribute(element, 'hashAlgorithm').toUpperCase()];
+    const keyBits = Number(SectionEncryption.attribute(element, 'keyBits'));
+    if (cipher !== 'AES' || chaining !== 'ChainingModeCBC' || !hashAlgorithm || ![128, 192, 256].includes(keyBits)) {
+      throw SectionEncryption.unsupported(`Unsupported section cipher ${cipher} ${chaining} with ${keyBits}-bit keys`);
+    }
+
+    return {
+      salt: Buffer.from(SectionEncryption.attribute(element, 'saltValue'), 'base64'),
+      blockSize: Number(SectionEncryption.attribute(element, 'blockSize')),
+      keyBits,
+      hashAlgorithm
+    };
+  }
+
+  private static attribute(element: string, name: string): string {
+    const value = element.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+    if (value === undefined) {
+      throw SectionEncryption.unsupported(`Section encryption info is missing ${name}`);
+    }
+    return value;
+  }
+
+  private static hash(algorithm: string, ...parts: Buffer[]): Buffer {
+    const hash = crypto.createHash(algorithm);
+    parts.forEach(part => hash.update(part));
+    return hash.digest();
+  }
+
+  private static decryptCbc(parameters: CipherParameters, key: Buffer, iv: Buffer, data: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv(`aes-${parameters.keyBits}-cbc`, key, iv);
+    decipher.setAutoPadding(false);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+
+  /**
+   * Truncate a derived value to size, or pad it with the given byte
+   */
+  private static fit(value: Buffer, size: number, pad: number): Buffer {
+    return value.length >= size ? value.subarray(0, size) : Buffer.concat([value, Buffer.alloc(size - value.length, pad)]);
+  }
+
+  private static unsupported(message: string): OneNoteError {
+    return new OneNoteError(message, 'UNSUPPORTED_ENCRYPTION', { operation: 'unlockSection' });
+  }
+}
@@ -0,0 +1,940 @@
+/**
+ * OneNote section reader (MS-ONE)
+ * Walks the section, page and outline object graph of a parsed revision store
+ */
+
+import * as path from 'path';
+import {
+  OneNoteBlock,
+  OneNoteDocument,
+  OneNoteFileBlock,
+  OneNoteImageBlock,
+  OneNoteLayoutRegion,
+  OneNoteListItem,
+  OneNoteNoteTag,
+  OneNoteTextRun
+} from '../../../types/document';
+import { OneNotePage, OneNotePageRevision, OneNoteParsingOptions } from '../../../types/onenote';
+import { OneNoteAssetFile, OneNoteAssetStore } from '../asset-store';
+import { OneNoteDocumentRenderer } from '../document-renderer';
+import { OneNoteError } from '../error-utils';
+import { OneNoteInkRenderer, OneNoteInkStroke } from '../ink-renderer';
+import { OneNoteLayoutResolver } from '../layout-resolver';
+import { OneNoteMathConverter } from '../math-converter';
+import { OneNoteMediaMetadataReader } from '../media-metadata';
+import { Jcid, PropertyId, colorRefToHex, fileTimeToDate, time32ToDate } from './one-properties';
+import { PropertySet } from './property-set';
+import { ObjectSpaceSnapshot, Revision, RevisionStore, RootRole, StoreObject } from './revision-store';
+import { SalvageLog } from './salvage-log';
+
+export interface SectionReadResult {
+  name?: string;
+  pages: OneNotePage[];
+}
+
+interface PageInfo {
+  objectSpaceId: string;
+  metadata?: StoreObject | undefined;
+}
+
+const HYPERLINK_FIELD = /\uFDDFHYPERLINK "[^"]*"/g;
+const HYPERLINK_URL = /\uFDDFHYPERLINK "([^"]*)"/;
+const MONOSPACE_FONTS = new Set(['consolas', 'courier', 'courier new', 'lucida console', 'cascadia code', 'cascadia mono', 'menlo', 'monaco']);
+const MAX_OUTLINE_DEPTH = 64;
+/** Picture sizes and offsets are stored in half-inch units */
+const PIXELS_PER_HALF_INCH = 48;
+/** Ink coordinates and pen sizes are stored in HIMETRIC units (0.01mm) */
+const PIXELS_PER_HIMETRIC = 96 / 2540;
+/** Pen width used when a stroke has no stroke properties */
+const DEFAULT_INK_WIDTH = 53;
+/** NoteTagShape values 1-12 are the check box shapes (To Do and its variants) */
+const CHECK_BOX_SHAPES = { first: 1, last: 12 };
+/** ActionItemStatus bit set once a check box tag is ticked */
+const ACTION_ITEM_COMPLETED = 0x0001;
+/** Emoji for the NoteTagShape icons; other shapes fall back to a generic tag */
+const NOTE_TAG_ICONS: Record<number, string> = {
+  13: '⭐', 14: '🚩', 15: '❓', 16: '➡️', 17: '❗', 18: '📇', 19: '📅', 20: '⏰', 21: '💡',
+  22: '📌', 23: '🏠', 24: '💬', 25: '🙂', 26: '🎗️', 27: '🔑'
+};
+const DEFAULT_NOTE_TAG_ICON = '🏷️';
+
+export class OneNoteSectionReader {
+  /**
+   * @param assets Where picture and attachment data is written; without it images and files keep their metadata only
+   * @param options extractImages and extractAttachments turn writing each kind of data off; extractInk drops ink entirely;
+   * includeRevisions also reads the earlier versions of every page
+   * @param salvage Set when salvaging a damaged file: pages and page content that cannot be read are recorded and
+   * left out, and pages missing part of their content are marked partiallyRecovered
+   */
+  constructor(
+    private readonly store: RevisionStore,
+    private readonly assets?: OneNoteAssetStore,
+    private readonly options: Pick<OneNoteParsingOptions, 'extractImages' | 'extractAttachments' | 'extractInk' | 'extractRecordings' | 'maxRecordingSize' | 'includeRevisions'> = {},
+    private readonly salvage?: SalvageLog
+  ) {}
+
+  /**
+   * Read every page of the section in display order
+   */
+  read(): SectionReadResult {
+    const result: SectionReadResult = { pages: [...this.readPages()] };
+    const name = this.readName();
+    if (name) {
+      result.name = name;
+    }
+    return result;
+  }
+
+  /**
+   * The section name OneNote shows, when the section stores one
+   */
+  readName(): string | undefined {
+    const rootSpaceId = this.store.rootObjectSpaceId;
+    return (rootSpaceId ? this.store.snapshot(rootSpaceId) : undefined)
+      ?.root(RootRole.Metadata)?.properties.getString(PropertyId.SectionDisplayName);
+  }
+
+  /**
+   * Read the section's pages one at a time in display order; each page's decoded objects are released
+   * once it is read, so only the page being yielded is held in memory
+   */
+  *readPages(): Generator<OneNotePage> {
+    const rootSpaceId = this.store.rootObjectSpaceId;
+    const sectionSnapshot = rootSpaceId ? this.store.snapshot(rootSpaceId) : undefined;
+    let index = 0;
+
+    for (const info of this.findPages(sectionSnapshot)) {
+      let page: OneNotePage | null = null;
+      try {
+        page = this.readPage(info, index);
+      } catch (error) {
+        if (!this.salvage?.recover('page', error, this.readListedTitle(info))) {
+          throw error;
+        }
+      }
+      this.store.release(info.objectSpaceId);
+      if (page) {
+        index++;
+        yield page;
+      }
+    }
+  }
+
+  /**
+   * Locate page object spaces through the section's page series, falling back to every non-root space
+   */
+  private findPages(sectionSnapshot: ObjectSpaceSnapshot | undefined): PageInfo[] {
+    const pages: PageInfo[] = [];
+    const section = sectionSnapshot?.root();
+
+    if (sectionSnapshot && section?.jcid === Jcid.SectionNode) {
+      for (const series of sectionSnapshot.getAll(section.properties.getObjectIds(PropertyId.ElementChildNodes))) {
+        if (series.jcid !== Jcid.PageSeriesNode) {
+          continue;
+        }
+
+        const spaceIds = series.properties.getObjectIds(PropertyId.ChildGraphSpaceElementNodes);
+        const metadata = sectionSnapshot.getAll(series.properties.getObjectIds(PropertyId.MetaDataObjectsAboveGraphSpace));
+        spaceIds.forEach((objectSpaceId, index) => pages.push({ objectSpaceId, metadata: metadata[index] }));
+      }
+    }
+
+    if (pages.length === 0) {
+      for (const objectSpaceId of this.store.objectSpaces.keys()) {
+        if (objectSpaceId !== this.store.rootObjectSpaceId) {
+          pages.push({ objectSpaceId });
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  private readPage(info: PageInfo, index: number): OneNotePage | null {
+    const snapshot = this.store.snapshot(info.objectSpaceId);
+    const pageNode = snapshot ? this.findPageNode(snapshot) : undefined;
+    if (!snapshot) {
+      // The section lists the page, but its object space was lost
+      this.salvage?.record('page', 'The page could not be found in the file', this.readListedTitle(info));
+    }
+    if (!snapshot || !pageNode) {
+      return null;
+    }
+
+    const salvageMark = this.salvage?.losses.length ?? 0;
+    const metadata = (snapshot.root(RootRole.Metadata) || info.metadata)?.properties;
+    const document = this.readDocument(snapshot, pageNode);
+    const title = metadata?.getString(PropertyId.CachedTitleString)?.trim() ||
+      this.readTitle(snapshot, pageNode) ||
+      `Page ${index + 1}`;
+
+    const createdDate = this.readFileTime(pageNode.properties, PropertyId.TopologyCreationTimeStamp) ||
+      this.readFileTime(metadata, PropertyId.TopologyCreationTimeStamp) ||
+      new Date();
+    const lastModifiedDate = this.readLastModified(pageNode.properties) ||
+      this.readLastModified(metadata) ||
+      createdDate;
+
+    const page: OneNotePage = {
+      id: `page-${this.guidOf(info.objectSpaceId)}`,
+      title,
+      content: '',
+      createdDate,
+      lastModifiedDate,
+      document,
+      level: Math.max(metadata?.getUInt(PropertyId.PageLevel) ?? 1, 1),
+      metadata: {
+        objectSpaceId: info.objectSpaceId,
+        author: pageNode.properties.getString(PropertyId.Author)
+      }
+    };
+
+    if (this.salvage?.since(salvageMark).length) {
+      page.metadata.partiallyRecovered = true;
+    }
+
+    if (this.options.includeRevisions) {
+      page.revisions = this.readRevisions(info.objectSpaceId, snapshot.revision, page);
+    }
+
+    this.salvage?.since(salvageMark).forEach(loss => {
+      loss.page = title;
+    });
+    return page;
+  }
+
+  /**
+   * The title the section's page series lists for a page, for naming a page that could not be read
+   */
+  private readListedTitle(info: PageInfo): string | undefined {
+    try {
+      return info.metadata?.properties.getString(PropertyId.CachedTitleString)?.trim() || undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private findPageNode(snapshot: ObjectSpaceSnapshot): StoreObject | undefined {
+    const manifest = snapshot.root();
+    if (!manifest) {
+      return undefined;
+    }
+
+    return manifest.jcid === Jcid.PageNode
+      ? manifest
+      : snapshot.getAll(manifest.properties.getObjectIds(PropertyId.ContentChildNodes)).find(node => node.jcid === Jcid.PageNode);
+  }
+
+  /**
+   * Read the earlier content revisions of a page object space, oldest first. Revisions that
+   * leave the page text unchanged (metadata-only saves) are skipped.
+   */
+  private readRevisions(objectSpaceId: string, current: Revision, page: OneNotePage): OneNotePageRevision[] {
+    const revisions: OneNotePageRevision[] = [];
+    const candidates = this.store.getObjectSpace(objectSpaceId)?.revisions
+      .filter(revision => revision.id !== current.id && revision.role === RootRole.DefaultContent && !revision.encrypted) ?? [];
+
+    for (const revision of candidates) {
+      const snapshot = this.store.snapshot(objectSpaceId, revision.id);
+      const pageNode = snapshot ? this.findPageNode(snapshot) : undefined;
+      if (!snapshot || !pageNode) {
+        continue;
+      }
+
+      try {
+        const versionMetadata = snapshot.get(revision.roots.get(RootRole.VersionMetadata));
+        const document = this.readDocument(snapshot, pageNode);
+        const entry: OneNotePageRevision = {
+          id: revision.id,
+          title: this.readTitle(snapshot, pageNode) || page.title,
+          content: '',
+          document,
+          lastModifiedDate: this.readLastModified(versionMetadata?.properties) ||
+            this.readLastModified(pageNode.properties) ||
+            page.createdDate
+        };
+        const author = this.readAuthor(snapshot, versionMetadata) ?? pageNode.properties.getString(PropertyId.Author);
+        if (author) {
+          entry.author = author;
+        }
+        revisions.push(entry);
+      } catch (error) {
+        if (!(error instanceof OneNoteError && error.recoverable)) {
+          throw error;
+        }
+      }
+    }
+
+    const text = (document: OneNoteDocument) => OneNoteDocumentRenderer.toMarkdown(document);
+    const currentText = page.document ? text(page.document) : '';
+    return revisions
+      .sort((a, b) => a.lastModifiedDate.getTime() - b.lastModifiedDate.getTime())
+      .filter((revision, index, sorted) => {
+        const next = sorted[index + 1];
+        return text(revision.document) !== (next ? text(next.document) : currentText);
+      });
+  }
+
+  /**
+   * Revision metadata names its author directly or through the most recent author object
+   */
+  private readAuthor(snapshot: ObjectSpaceSnapshot, versionMetadata: StoreObject | undefined): string | undefined {
+    return versionMetadata?.properties.getString(PropertyId.Author) ||
+      snapshot.get(versionMetadata?.properties.getObjectId(PropertyId.AuthorMostRecent))?.properties.getString(PropertyId.Author) ||
+      undefined;
+  }
+
+  private readTitle(snapshot: ObjectSpaceSnapshot, pageNode: StoreObject): string | undefined {
+    for (const title of snapshot.getAll(pageNode.properties.getObjectIds(PropertyId.StructureElementChildNodes))) {
+      if (title.jcid !== Jcid.TitleNode) {
+        continue;
+      }
+
+      for (const outline of snapshot.getAll(title.properties.getObjectIds(PropertyId.ElementChildNodes))) {
+        const blocks = this.readElements(snapshot, outline.properties.getObjectIds(PropertyId.ElementChildNodes), 0);
+        const text = OneNoteDocumentRenderer.toPlainText({ blocks }).replace(/\n/g, ' ').trim();
+        if (text) {
+          return text;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read the page outlines and the pictures placed directly on the page into one
+   * document in reading order, keeping where each sits on the page when there are several
+   */
+  private readDocument(snapshot: ObjectSpaceSnapshot, pageNode: StoreObject): OneNoteDocument {
+    const regions: OneNoteLayoutRegion[] = [];
+    for (const node of snapshot.getAll(pageNode.properties.getObjectIds(PropertyId.ElementChildNodes))) {
+      this.readPart(() => {
+        let blocks: OneNoteBlock[] = [];
+        if (node.jcid === Jcid.OutlineNode) {
+          blocks = this.readElements(snapshot, node.properties.getObjectIds(PropertyId.ElementChildNodes), 0);
+        } else if (node.jcid === Jcid.ImageNode) {
+          blocks = [this.readImage(snapshot, node)];
+        } else if (node.jcid === Jcid.EmbeddedFileNode) {
+          const file = this.readEmbeddedFile(snapshot, node);
+          blocks = file ? [file] : [];
+        } else if (node.jcid === Jcid.InkContainer) {
+          const ink = this.readInk(snapshot, node);
+          blocks = ink ? [ink] : [];
+        }
+        if (blocks.length > 0) {
+          regions.push(this.readRegion(node, blocks));
+        }
+      });
+    }
+
+    const blocks = OneNoteLayoutResolver.readingOrder(regions);
+    this.linkPrintouts(blocks);
+    return regions.length > 1 ? { blocks, regions } : { blocks };
+  }
+
+  /**
+   * Where a page item sits, in CSS pixels; pictures and ink know their own size, outlines
+   * only the width they may grow to
+   */
+  private readRegion(node: StoreObject, blocks: OneNoteBlock[]): OneNoteLayoutRegion {
+    const [first] = blocks;
+    const image = blocks.length === 1 && first?.type === 'image' ? first : undefined;
+    const region: OneNoteLayoutRegion = {
+      x: image?.x ?? Math.round((node.properties.getFloat(PropertyId.OffsetFromParentHoriz) ?? 0) * PIXELS_PER_HALF_INCH),
+      y: image?.y ?? Math.round((node.properties.getFloat(PropertyId.OffsetFromParentVert) ?? 0) * PIXELS_PER_HALF_INCH),
+      blocks
+    };
+    const maxWidth = node.properties.getFloat(PropertyId.LayoutMaxWidth);
+    const width = image?.width ?? (maxWidth !== undefined ? Math.round(maxWidth * PIXELS_PER_HALF_INCH) : undefined);
+    if (width !== undefined && Number.isFinite(width)) {
+      region.width = width;
+    }
+    return region;
+  }
+
+  /**
+   * A file printout is inserted as the attached file followed by one picture per page,
+   * named after the file; link those pictures to the attachment they show
+   */
+  private linkPrintouts(blocks: OneNoteBlock[]): void {
+    const flattened = OneNoteDocumentRenderer.flattenBlocks(blocks);
+    const files = new Map<string, OneNoteFileBlock>();
+    for (const block of flattened) {
+      if (block.type === 'file') {
+        files.set(block.name.toLowerCase(), block);
+        files.set(path.parse(block.name).name.toLowerCase(), block);
+      }
+    }
+
+    for (const block of flattened) {
+      if (block.type !== 'image' || !block.name) {
+        continue;
+      }
+      const file = files.get(block.name.toLowerCase()) ?? files.get(path.parse(block.name).name.toLowerCase());
+      if (file) {
+        block.printout = { ...block.printout, name: file.name };
+        if (file.src) {
+          block.printout.src = file.src;
+        }
+      }
+    }
+  }
+
+  /**
+   * Read outline elements into blocks. List elements become list items that own their
+   * indented children; other indented elements follow their parent as siblings.
+   */
+  private readElements(snapshot: ObjectSpaceSnapshot, ids: string[], depth: number): OneNoteBlock[] {
+    const blocks: OneNoteBlock[] = [];
+    if (depth > MAX_OUTLINE_DEPTH) {
+      return blocks;
+    }
+
+    for (const element of snapshot.getAll(ids)) {
+      this.readPart(() => this.readElement(snapshot, element, depth, blocks));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Read one outline element into blocks
+   */
+  private readElement(snapshot: ObjectSpaceSnapshot, element: StoreObject, depth: number, blocks: OneNoteBlock[]): void {
+    const childIds = element.properties.getObjectIds(PropertyId.ElementChildNodes);
+
+    if (element.jcid === Jcid.OutlineGroup) {
+      this.readElements(snapshot, childIds, depth).forEach(block => this.appendBlock(blocks, block));
+      return;
+    }
+    if (element.jcid !== Jcid.OutlineElementNode) {
+      return;
+    }
+
+    const contents = snapshot.getAll(element.properties.getObjectIds(PropertyId.ContentChildNodes))
+      .map(content => this.readContent(snapshot, content, depth))
+      .filter((block): block is OneNoteBlock => block !== null);
+    const children = this.readElements(snapshot, childIds, depth + 1);
+    const [first, ...rest] = contents;
+    const text = first && (first.type === 'paragraph' || first.type === 'heading') ? first : undefined;
+
+    const tags = this.readNoteTags(snapshot, element);
+    const checkBox = tags.find(tag => tag.checked !== undefined);
+    if (text && checkBox) {
+      // A check box tag makes the text a to-do item, with the rest of the element following it
+      this.appendBlock(blocks, { type: 'todo', checked: checkBox.checked!, runs: text.runs, tags });
+      [...rest, ...children].forEach(block => this.appendBlock(blocks, block));
+      return;
+    }
+    if (text && tags.length > 0) {
+      text.tags = tags;
+    }
+
+    const listType = this.readListType(snapshot, element);
+    if (listType) {
+      const item: OneNoteListItem = text
+        ? { runs: text.runs, children: [...rest, ...children] }
+        : { runs: [], children: [...contents, ...children] };
+      if (text?.tags) {
+        item.tags = text.tags;
+      }
+      this.appendBlock(blocks, { type: 'list', ordered: listType === 'numbered', items: [item] });
+    } else {
+      [...contents, ...children].forEach(block => this.appendBlock(blocks, block));
+    }
+  }
+
+  /**
+   * Read the note tags of an outline element; each tag state references the shared definition
+   * holding the tag's label, icon shape and colors, and carries the check state of check box tags
+   */
+  private readNoteTags(snapshot: ObjectSpaceSnapshot, element: StoreObject): OneNoteNoteTag[] {
+    return element.properties.getPropertySets(PropertyId.NoteTagStates).flatMap(state => {
+      const definition = snapshot.get(state.getObjectId(PropertyId.NoteTagDefinitionOid));
+      if (definition?.jcid !== Jcid.NoteTagSharedDefinitionContainer) {
+        return [];
+      }
+
+      const properties = definition.properties;
+      const shape = properties.getUInt(PropertyId.NoteTagShape) ?? 0;
+      const tag: OneNoteNoteTag = { name: properties.getString(PropertyId.NoteTagLabel)?.trim() || 'Tag', shape };
+      const highlight = this.readColor(properties, PropertyId.NoteTagHighlightColor);
+      const color = this.readColor(properties, PropertyId.NoteTagTextColor);
+      if (highlight) {
+        tag.highlight = highlight;
+      }
+      if (color) {
+        tag.color = color;
+      }
+
+      if (shape >= CHECK_BOX_SHAPES.first && shape <= CHECK_BOX_SHAPES.last) {
+        const status = state.getUInt(PropertyId.ActionItemStatus) ?? 0;
+        tag.checked = (status & ACTION_ITEM_COMPLETED) !== 0 || state.getData(PropertyId.NoteTagCompleted) !== undefined;
+      } else if (shape !== 0) {
+        tag.icon = NOTE_TAG_ICONS[shape] ?? DEFAULT_NOTE_TAG_ICON;
+      }
+      return [tag];
+    });
+  }
+
+  /**
+   * Append a block, merging it into the previous block when both are items of the same
+   * list or consecutive lines of code
+   */
+  private appendBlock(blocks: OneNoteBlock[], block: OneNoteBlock): void {
+    const previous = blocks[blocks.length - 1];
+    if (previous?.type === 'list' && block.type === 'list' && previous.ordered === block.ordered) {
+      previous.items.push(...block.items);
+    } else if (previous?.type === 'code' && block.type === 'code') {
+      previous.text += `\n${block.text}`;
+    } else {
+      blocks.push(block);
+    }
+  }
+
+  private readContent(snapshot: ObjectSpaceSnapshot, content: StoreObject, depth: number): OneNoteBlock | null {
+    if (content.jcid === Jcid.RichTextOENode) {
+      const rawText = this.readRawText(content.properties);
+      const text = this.cleanText(rawText);
+      const styleId = snapshot.get(content.properties.getObjectId(PropertyId.ParagraphStyle))
+        ?.properties.getString(PropertyId.ParagraphStyleId);
+
+      if (styleId === 'code') {
+        return { type: 'code', text };
+      }
+
+      const runs = this.readRuns(snapshot, content.properties, rawText) ?? (text ? [{ text }] : []);
+
+      // A paragraph holding nothing but an equation is a display equation
+      const visible = runs.filter(run => run.text.trim().length > 0);
+      if (visible.length === 1 && visible[0]!.equation) {
+        return { type: 'equation', expression: visible[0]!.equation };
+      }
+
+      const heading = styleId?.match(/^h([1-6])$/);
+      return heading
+        ? { type: 'heading', level: Number(heading[1]) as 1 | 2 | 3 | 4 | 5 | 6, runs }
+        : { type: 'paragraph', runs };
+    }
+
+    if (content.jcid === Jcid.TableNode) {
+      const rows = snapshot.getAll(content.properties.getObjectIds(PropertyId.ElementChildNodes))
+        .filter(row => row.jcid === Jcid.TableRowNode)
+        .map(row => ({
+          cells: snapshot.getAll(row.properties.getObjectIds(PropertyId.ElementChildNodes))
+            .filter(cell => cell.jcid === Jcid.TableCellNode)
+            .map(cell => ({ blocks: this.readElements(snapshot, cell.properties.getObjectIds(PropertyId.ElementChildNodes), depth + 1) }))
+        }));
+      return { type: 'table', rows };
+    }
+
+    if (content.jcid === Jcid.ImageNode) {
+      return this.readImage(snapshot, content);
+    }
+
+    if (content.jcid === Jcid.EmbeddedFileNode) {
+      return this.readEmbeddedFile(snapshot, content);
+    }
+
+    if (content.jcid === Jcid.InkContainer) {
+      return this.readInk(snapshot, content);
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a picture; its bytes live in the file data store object its picture container references
+   */
+  private readImage(snapshot: ObjectSpaceSnapshot, image: StoreObject): OneNoteImageBlock {
+    const properties = image.properties;
+    const block: OneNoteImageBlock = { type: 'image' };
+
+    const name = properties.getString(PropertyId.ImageFilename);
+    if (name) {
+      block.name = name;
+    }
+    // OneNote keeps the text it recognized in pictures and printouts as the picture's text
+    const ocrText = this.cleanText(this.readRawText(properties)).replace(/\r\n?/g, '\n').trim();
+    if (ocrText) {
+      block.ocrText = ocrText;
+    }
+    const alt = properties.getString(PropertyId.ImageAltText)?.trim() || ocrText;
+    if (alt) {
+      block.alt = alt;
+    }
+
+    const dimensions = [
+      ['width', PropertyId.PictureWidth],
+      ['height', PropertyId.PictureHeight],
+      ['x', PropertyId.OffsetFromParentHoriz],
+      ['y', PropertyId.OffsetFromParentVert]
+    ] as const;
+    for (const [key, propertyId] of dimensions) {
+      const value = properties.getFloat(propertyId);
+      if (value !== undefined && Number.isFinite(value)) {
+        block[key] = Math.round(value * PIXELS_PER_HALF_INCH);
+      }
+    }
+
+    // Printout pages are numbered; the file they belong to is linked once the page is read
+    const pageNumber = properties.getUInt(PropertyId.DisplayedPageNumber);
+    if (pageNumber !== undefined && name) {
+      block.printout = { name, page: pageNumber };
+    }
+
+    if (this.options.extractImages !== false) {
+      const asset = this.saveFileData(snapshot, properties.getObjectId(PropertyId.PictureContainer));
+      if (asset) {
+        block.src = asset.path;
+        block.mimeType = asset.mimeType;
+      }
+    }
+
+    return block;
+  }
+
+  /**
+   * Read an attached file or recording; its bytes live in the file data store object its container references
+   */
+  private readEmbeddedFile(snapshot: ObjectSpaceSnapshot, file: StoreObject): OneNoteFileBlock | null {
+    const properties = file.properties;
+    const media = properties.getUInt(PropertyId.IRecordMedia);
+    const kind = media === 1 ? 'audio' : media === 2 ? 'video' : undefined;
+    if (kind && this.options.extractRecordings === false) {
+      return null;
+    }
+
+    const sourcePath = properties.getString(PropertyId.SourceFilepath);
+    const name = properties.getString(PropertyId.EmbeddedFileName) ||
+      (sourcePath ? path.win32.basename(sourcePath) : '') ||
+      (kind ? `${kind === 'audio' ? 'Audio' : 'Video'} recording` : 'Attachment');
+    const block: OneNoteFileBlock = { type: 'file', name, mimeType: OneNoteAssetStore.mimeTypeOf(name) };
+    if (sourcePath) {
+      block.sourcePath = sourcePath;
+    }
+    if (kind) {
+      block.recording = { kind };
+    }
+
+    if (this.options.extractAttachments !== false) {
+      const containerId = properties.getObjectId(PropertyId.EmbeddedFileContainer);
+      const fileData = snapshot.get(containerId)?.fileData;
+      const limit = kind ? this.options.maxRecordingSize : undefined;
+      const size = limit !== undefined && fileData ? this.store.fileDataSize(fileData.reference) : undefined;
+
+      if (limit !== undefined && size !== undefined && size > limit) {
+        // Recordings over the size cap stay on the page as a name and size
+        block.size = size;
+      } else {
+        // The original name's extension wins over the one stored with the file data
+        const asset = this.saveFileData(snapshot, containerId, path.extname(name), data => {
+          if (block.recording) {
+            Object.assign(block.recording, OneNoteMediaMetadataReader.read(data));
+          }
+        });
+        if (asset) {
+          block.src = asset.path;
+          block.size = asset.size;
+          block.mimeType = OneNoteAssetStore.mimeTypeOf(asset.fileName);
+        }
+      }
+    }
+
+    return block;
+  }
+
+  /**
+   * Render the strokes of an ink container as one SVG picture
+   */
+  private readInk(snapshot: ObjectSpaceSnapshot, container: StoreObject): OneNoteImageBlock | null {
+    if (this.options.extractInk === false) {
+      return null;
+    }
+
+    const inkData = snapshot.get(container.properties.getObjectId(PropertyId.InkData));
+    const strokes = snapshot.getAll(inkData?.properties.getObjectIds(PropertyId.InkStrokes) ?? [])
+      .map(stroke => this.readInkStroke(snapshot, stroke));
+    const rendered = OneNoteInkRenderer.toSvg(strokes);
+    if (!rendered) {
+      return null;
+    }
+
+    const offsetX = container.properties.getFloat(PropertyId.OffsetFromParentHoriz) ?? 0;
+    const offsetY = container.properties.getFloat(PropertyId.OffsetFromParentVert) ?? 0;
+    const block: OneNoteImageBlock = {
+      type: 'image',
+      alt: 'Ink drawing',
+      mimeType: 'image/svg+xml',
+      width: rendered.width,
+      height: rendered.height,
+      x: Math.round(offsetX * PIXELS_PER_HALF_INCH) + rendered.x,
+      y: Math.round(offsetY * PIXELS_PER_HALF_INCH) + rendered.y
+    };
+    if (this.assets) {
+      block.src = this.assets.save(Buffer.from(rendered.svg, 'utf8'), '.svg').path;
+    }
+
+    return block;
+  }
+
+  private readInkStroke(snapshot: ObjectSpaceSnapshot, stroke: StoreObject): OneNoteInkStroke {
+    const style = snapshot.get(stroke.properties.getObjectId(PropertyId.InkStrokeProperties))?.properties;
+    const inkPath = this.decodeInkPath(stroke.properties.getData(PropertyId.InkPath));
+    const transparency = style?.getUInt(PropertyId.InkTransparency) ?? 0;
+
+    return {
+      points: inkPath.map(point => ({ x: point.x * PIXELS_PER_HIMETRIC, y: point.y * PIXELS_PER_HIMETRIC })),
+      color: (style && this.readColor(style, PropertyId.InkColor)) ?? '#000000',
+      width: (style?.getFloat(PropertyId.InkWidth) ?? DEFAULT_INK_WIDTH) * PIXELS_PER_HIMETRIC,
+      opacity: 1 - Math.min(transparency, 255) / 255
+    };
+  }
+
+  /**
+   * InkPath holds multi-byte encoded signed integers (7 bits per byte, low bits first, sign in
+   * the lowest bit): the X coordinate of every point, then every Y coordinate, each relative to
+   * the previous one
+   */
+  private decodeInkPath(data: Buffer | undefined): Array<{ x: number; y: number }> {
+    if (!data) {
+      return [];
+    }
+
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const byte of data) {
+      value += (byte & 0x7F) * 2 ** shift;
+      shift += 7;
+      if ((byte & 0x80) === 0) {
+        values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2);
+        value = 0;
+        shift = 0;
+      }
+    }
+
+    const count = Math.floor(values.length / 2);
+    const points: Array<{ x: number; y: number }> = [];
+    let x = 0;
+    let y = 0;
+    for (let index = 0; index < count; index++) {
+      x += values[index]!;
+      y += values[count + index]!;
+      points.push({ x, y });
+    }
+    return points;
+  }
+
+  /**
+   * Write the file data a container object references to the asset store
+   */
+  private saveFileData(
+    snapshot: ObjectSpaceSnapshot,
+    containerId: string | undefined,
+    extension?: string,
+    inspect?: (data: Buffer) => void
+  ): OneNoteAssetFile | undefined {
+    const fileData = snapshot.get(containerId)?.fileData;
+    if (!fileData || !this.assets) {
+      return undefined;
+    }
+
+    try {
+      const data = this.store.readFileData(fileData.reference);
+      if (!data && fileData.reference.startsWith('<ifndf>')) {
+        // The data store list that held it was lost
+        this.salvage?.record('asset', `Data of ${fileData.reference} is missing from the file`);
+      }
+      if (!data) {
+        return undefined;
+      }
+      inspect?.(data);
+      return this.assets.save(data, extension || fileData.extension);
+    } catch (error) {
+      // A damaged file data object loses the picture or attachment, not the page
+      if (error instanceof OneNoteError && error.recoverable) {
+        this.salvage?.record('asset', error.message);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read part of a page; when salvaging, a part that cannot be read is recorded and left out
+   */
+  private readPart(read: () => void): void {
+    try {
+      read();
+    } catch (error) {
+      if (!this.salvage?.recover('content', error)) {
+        throw error;
+      }
+    }
+  }
+
+  private readRawText(properties: PropertySet): string {
+    const data = properties.getData(PropertyId.TextExtendedAscii);
+    return properties.has(PropertyId.RichEditTextUnicode)
+      ? properties.getString(PropertyId.RichEditTextUnicode) || ''
+      : data ? data.toString('latin1').replace(/\0+$/, '') : '';
+  }
+
+  private cleanText(text: string): string {
+    return text.replace(HYPERLINK_FIELD, '').replace(/\u000b/g, '\n');
+  }
+
+  /**
+   * Split rich text into formatted runs. TextRunIndex holds the end offset of every run
+   * but the last, and TextRunFormatting the style object of every run. A hyperlink is a
+   * HYPERLINK field code run followed by the display text runs flagged as Hyperlink.
+   */
+  private readRuns(snapshot: ObjectSpaceSnapshot, properties: PropertySet, rawText: string): OneNoteTextRun[] | undefined {
+    const styleIds = properties.getObjectIds(PropertyId.TextRunFormatting);
+    if (styleIds.length === 0) {
+      return undefined;
+    }
+
+    const indexData = properties.getData(PropertyId.TextRunIndex);
+    const ends: number[] = [];
+    for (let offset = 0; indexData && offset + 4 <= indexData.length; offset += 4) {
+      ends.push(indexData.readUInt32LE(offset));
+    }
+
+    const runs: OneNoteTextRun[] = [];
+    let start = 0;
+    let fieldUrl: string | undefined;
+
+    styleIds.forEach((styleId, index) => {
+      const end = Math.min(ends[index] ?? rawText.length, rawText.length);
+      const raw = rawText.slice(start, Math.max(start, end));
+      start = Math.max(start, end);
+
+      const fieldMatch = HYPERLINK_URL.exec(raw);
+      if (fieldMatch) {
+        fieldUrl = fieldMatch[1];
+      }
+
+      const text = this.cleanText(raw);
+      if (!text) {
+        return;
+      }
+
+      const style = snapshot.get(styleId)?.properties;
+      const run = this.readRunFormatting(style, text);
+      if (style?.getBool(PropertyId.Hyperlink)) {
+        const href = style.getString(PropertyId.WzHyperlinkUrl) || fieldUrl;
+        if (href) {
+          run.href = href;
+        }
+      } else {
+        fieldUrl = undefined;
+      }
+
+      const previous = runs[runs.length - 1];
+      if (previous && this.sameFormatting(previous, run)) {
+        previous.text += run.text;
+      } else {
+        runs.push(run);
+      }
+    });
+
+    // Math runs are merged above and converted as whole equations
+    runs.filter(run => run.equation !== undefined).forEach(run => this.convertEquation(run));
+
+    return runs.some(run => Object.keys(run).length > 1) ? runs : undefined;
+  }
+
+  /**
+   * Convert the linear-format text of a math run to LaTeX; equations that cannot be converted
+   * stay plain text
+   */
+  private convertEquation(run: OneNoteTextRun): void {
+    const linear = run.text;
+    run.text = OneNoteMathConverter.linearize(linear);
+    try {
+      run.equation = OneNoteMathConverter.toLatex(linear);
+    } catch (error) {
+      if (!(error instanceof OneNoteError && error.recoverable)) {
+        throw error;
+      }
+      delete run.equation;
+    }
+  }
+
+  private readRunFormatting(style: PropertySet | undefined, text: string): OneNoteTextRun {
+    const run: OneNoteTextRun = { text };
+    if (!style) {
+      return run;
+    }
+
+    const flags = [
+      ['bold', PropertyId.Bold],
+      ['italic', PropertyId.Italic],
+      ['underline', PropertyId.Underline],
+      ['strikethrough', PropertyId.Strikethrough],
+      ['superscript', PropertyId.Superscript],
+      ['subscript', PropertyId.Subscript]
+    ] as const;
+    for (const [key, propertyId] of flags) {
+      if (style.getBool(propertyId)) {
+        run[key] = true;
+      }
+    }
+
+    const highlight = this.readColor(style, PropertyId.Highlight);
+    if (highlight) {
+      run.highlight = highlight;
+    }
+    const color = this.readColor(style, PropertyId.FontColor);
+    if (color) {
+      run.color = color;
+    }
+    if (MONOSPACE_FONTS.has((style.getString(PropertyId.Font) || '').trim().toLowerCase())) {
+      run.code = true;
+    }
+    if (style.getBool(PropertyId.MathFormatting)) {
+      // Filled in once adjacent math runs are merged
+      run.equation = '';
+    }
+
+    return run;
+  }
+
+  private readColor(style: PropertySet, propertyId: number): string | undefined {
+    return colorRefToHex(style.getUInt(propertyId));
+  }
+
+  private sameFormatting(a: OneNoteTextRun, b: OneNoteTextRun): boolean {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    keys.delete('text');
+    return [...keys].every(key => a[key as keyof OneNoteTextRun] === b[key as keyof OneNoteTextRun]);
+  }
+
+  /**
+   * A NumberListFormat containing a number placeholder marks a numbered list
+   */
+  private readListType(snapshot: ObjectSpaceSnapshot, element: StoreObject): 'bullet' | 'numbered' | undefined {
+    const list = snapshot.getAll(element.properties.getObjectIds(PropertyId.ListNodes)).find(node => node.jcid === Jcid.NumberListNode);
+    if (!list) {
+      return undefined;
+    }
+    return (list.properties.getString(PropertyId.NumberListFormat) || '').includes('\uFFFD') ? 'numbered' : 'bullet';
+  }
+
+  private readFileTime(properties: PropertySet | undefined, propertyId: number): Date | undefined {
+    const value = properties?.getBigUInt64(propertyId);
+    return value ? fileTimeToDate(value) : undefined;
+  }
+
+  private readLastModified(properties: PropertySet | undefined): Date | undefined {
+    const time32 = properties?.getUInt(PropertyId.LastModifiedTime);
+    return time32 ? time32ToDate(time32) : this.readFileTime(properties, PropertyId.LastModifiedTimeStamp);
+  }
+
+  private guidOf(objectSpaceId: string): string {
+    return objectSpaceId.replace(/[{}]|:\d+$/g, '').toLowerCase();
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * OneNote table of contents reader (MS-ONE)
+ * A .onetoc2 file lists the sections and section group folders next to it, in the order OneNote shows them
+ */
+
+import * as path from 'path';
+import { Jcid, PropertyId, colorRefToHex } from './one-properties';
+import { RevisionStore } from './revision-store';
+
+export interface OneNoteTocEntry {
+  /** File name of a section, or folder name of a section group */
+  fileName: string;
+  /** Name OneNote shows: the file name without its .one extension */
+  displayName: string;
+  type: 'section' | 'sectionGroup';
+  /** Position among the entries of the same folder, starting at 0 */
+  order: number;
+  /** Section tab color as #rrggbb */
+  color?: string;
+}
+
+export class OneNoteTocReader {
+  constructor(private readonly store: RevisionStore) {}
+
+  /**
+   * Read the folder's entries sorted by their ordering IDs; entries without one keep their stored position after the rest
+   */
+  read(): OneNoteTocEntry[] {
+    const rootSpaceId = this.store.rootObjectSpaceId;
+    const snapshot = rootSpaceId ? this.store.snapshot(rootSpaceId) : undefined;
+    const root = snapshot?.root();
+    if (!snapshot || root?.jcid !== Jcid.TocContainer) {
+      return [];
+    }
+
+    const children = snapshot.getAll(root.properties.getObjectIds(PropertyId.TocChildren))
+      .filter(child => child.jcid === Jcid.TocContainer)
+      .map((child, index) => ({
+        properties: child.properties,
+        fileName: child.properties.getString(PropertyId.FolderChildFilename),
+        orderingId: child.properties.getUInt(PropertyId.NotebookElementOrderingId) ?? Number.MAX_SAFE_INTEGER,
+        index
+      }))
+      .filter((child): child is typeof child & { fileName: string } => Boolean(child.fileName))
+      .sort((a, b) => a.orderingId - b.orderingId || a.index - b.index);
+
+    return children.map((child, order) => {
+      const isSection = path.extname(child.fileName).toLowerCase() === '.one';
+      const entry: OneNoteTocEntry = {
+        fileName: child.fileName,
+        displayName: isSection ? path.basename(child.fileName, path.extname(child.fileName)) : child.fileName,
+        type: isSection ? 'section' : 'sectionGroup',
+        order
+      };
+      const color = colorRefToHex(child.properties.getUInt(PropertyId.NotebookColor));
+      if (color) {
+        entry.color = color;
+      }
+      return entry;
+    });
+  }
+}
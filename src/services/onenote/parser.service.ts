@@ -6,6 +6,7 @@
 import { OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNotePage, OneNoteParsingOptions } from '../../types/onenote';
 import { OneNoteMockDataFactory } from './mock-data.factory';
 import { OneNoteErrorUtils, OneNoteError } from './error-utils';
+import { OneNoteIdUtils } from './id-utils';
 import { RealOneNoteParserService } from './real-onenote-parser.service';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -169,7 +170,7 @@ export class OneNoteParserService implements IOneNoteParserService {
     try {
       if (content.length === 0) {
         return {
-          id: this.generateId('page'),
+          id: OneNoteIdUtils.fromContent('page', content),
           title: 'Untitled Page',
           content: '',
           createdDate: new Date(),
@@ -182,7 +183,7 @@ export class OneNoteParserService implements IOneNoteParserService {
       const parsedContent = await this.realParser.parseOneNoteContent(content, options);
       
       return {
-        id: this.generateId('page'),
+        id: OneNoteIdUtils.fromContent('page', content),
         title: parsedContent.title || 'Parsed Page',
         content: parsedContent.content,
         createdDate: new Date(),
@@ -206,8 +207,8 @@ export class OneNoteParserService implements IOneNoteParserService {
 
       const stats = fs.statSync(filePath);
       
-      // Extract real metadata from file
-      const sectionId = this.generateId('section');
+      // Extract real metadata from file; the section is identified by a hash of the file unless it has a GUID
+      const sectionId = OneNoteIdUtils.fromFile('section', filePath);
       const metadata: Record<string, any> = {
         createdDate: stats.birthtime,
         lastModifiedDate: stats.mtime,
@@ -222,6 +223,9 @@ export class OneNoteParserService implements IOneNoteParserService {
         const fileBuffer = fs.readFileSync(filePath);
         const parsedContent = await this.realParser.parseOneNoteContent(fileBuffer);
         Object.assign(metadata, parsedContent.metadata);
+        if (parsedContent.metadata.fileGuid) {
+          metadata.sectionId = OneNoteIdUtils.fromGuid('section', parsedContent.metadata.fileGuid);
+        }
       } catch (error) {
         // If parsing fails, just use basic file metadata
         console.warn('Could not extract additional metadata from file:', error);
@@ -235,8 +239,4 @@ export class OneNoteParserService implements IOneNoteParserService {
       throw OneNoteErrorUtils.wrapError(error as Error, { filePath, operation: 'extractMetadata' });
     }
   }
-
-  private generateId(prefix: string): string {
-    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
@@ -1,73 +1,150 @@
 /**
  * Real OneNote file parser service
- * Handles actual parsing of .one and .onepkg files
+ * Handles actual parsing of .one and .onepkg files, and of sections exported as web pages (.mht)
  */
 
-import { OneNoteHierarchy, OneNoteNotebook, OneNoteSection, OneNotePage, OneNoteParsingOptions } from '../../types/onenote';
+import {
+  OneNoteHierarchy,
+  OneNoteNotebook,
+  OneNoteNotebookFolder,
+  OneNoteSection,
+  OneNoteSectionGroup,
+  OneNotePage,
+  OneNoteParsingOptions,
+  OneNoteProtectedSection,
+  OneNoteStreamItem,
+  OneNoteValidationResult
+} from '../../types/onenote';
+import { OneNoteDocument } from '../../types/document';
+import { OneNoteAssetStore } from './asset-store';
+import { CabinetEntry, CabinetReader } from './cab-reader';
 import { OneNoteError } from './error-utils';
+import { OneNoteDocumentRenderer } from './document-renderer';
+import { OneNoteHierarchyUtils } from './hierarchy-utils';
+import { OneNoteHtmlPageReader } from './html-page-reader';
+import { OneNoteIdUtils } from './id-utils';
+import { OneNoteMimeArchive } from './mime-archive';
+import { OneNoteSectionParserPool, SectionParseOutcome, SectionParseRequest } from './section-parser-pool';
+import { BufferByteSource, ByteSource, FileByteSource } from './onestore/byte-source';
+import { RevisionStoreParser } from './onestore/revision-store-parser';
+import { SalvageLog } from './onestore/salvage-log';
+import { SectionEncryption } from './onestore/section-encryption';
+import { OneNoteSectionReader } from './onestore/section-reader';
+import { OneNoteTocEntry, OneNoteTocReader } from './onestore/toc-reader';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as zlib from 'zlib';
 
 export interface OneNoteFileHeader {
   magic: string;
   version: number;
-  fileType: 'onepkg' | 'one';
+  fileType: 'onepkg' | 'one' | 'mht';
   isValid: boolean;
+  /** Whether a revision store is password protected; only checked when asked for */
+  encrypted?: boolean;
+  /** Set for .one sections in the OneNote 2007 format */
+  legacyFormat?: boolean;
 }
 
+/** Why a password protected section was skipped */
+export type ProtectedSectionSkipReason = 'password-required' | 'invalid-password' | 'unsupported-encryption' | 'unreadable-encryption';
+
 export interface ParsedOneNoteContent {
   title: string;
   content: string;
   metadata: Record<string, any>;
   images: string[];
   attachments: string[];
+  pages?: OneNotePage[];
+}
+
+export interface ExtractedPackageFile {
+  /** Location of the extracted file inside the run's temp directory */
+  path: string;
+  /** Path of the entry inside the package, using forward slashes */
+  entryPath: string;
+  /** Folders between the package root and the file, i.e. its section groups */
+  sectionGroupPath: string[];
+}
+
+export interface ExtractedPackage {
+  directory: string;
+  sections: ExtractedPackageFile[];
+  tableOfContents: ExtractedPackageFile[];
+}
+
+/**
+ * A section opened for reading; its pages are read as they are iterated, and close releases the file
+ */
+interface OpenedSection {
+  section: OneNoteSection;
+  pages: Iterable<OneNotePage>;
+  close(): void;
+}
+
+/**
+ * A revision store section whose pages are rendered as they are iterated
+ */
+interface OpenedRevisionStore {
+  title: string;
+  metadata: Record<string, any>;
+  pages: Iterable<OneNotePage>;
+  /** What was skipped while reading, when salvaging */
+  salvage?: SalvageLog;
+}
+
+/**
+ * A table of contents read from a package, with the GUID that identifies its folder
+ */
+interface PackageTableOfContents {
+  file: ExtractedPackageFile;
+  fileGuid?: string;
+  entries: OneNoteTocEntry[];
+}
+
+/**
+ * IDs of a package's notebook and of its section groups by package path
+ */
+interface PackageIds {
+  notebook: string;
+  sectionGroups: Map<string, string>;
 }
 
+type SectionContainer = Pick<OneNoteSectionGroup, 'sections' | 'sectionGroups'>;
+
 export class RealOneNoteParserService {
   private static readonly ONENOTE_MAGIC = 'OneNote';
   private static readonly ONEPKG_MAGIC = 'OnePKG';
   private static readonly HEADER_SIZE = 16;
+  private static readonly CABINET_MAGIC = 'MSCF';
+  private static readonly REVISION_STORE_MAGIC = 'MS-ONESTORE';
+  private static readonly MIME_MAGIC = 'MIME';
+  /** Enough of a file to tell its format: the revision store header is the largest checked */
+  private static readonly HEADER_PROBE_SIZE = 1024;
+  /** Files up to this size are read whole when onenote.maxFileSize is not set in .onirc */
+  private static readonly DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024;
+  private static readonly RECYCLE_BIN_FOLDER = 'OneNote_RecycleBin';
 
   /**
-   * Parse a .one file to extract actual content
+   * Parse a .one file to extract actual content; sections and pages exported from OneNote as single file
+   * web pages (.mht) are read the same way
    */
   async parseOneFile(filePath: string, options?: OneNoteParsingOptions): Promise<OneNoteSection> {
     try {
-      if (!fs.existsSync(filePath)) {
-        throw new OneNoteError('File not found', 'FILE_NOT_FOUND', { filePath, operation: 'parseOneFile' });
-      }
-
-      const fileBuffer = fs.readFileSync(filePath);
-      const header = this.parseFileHeader(fileBuffer);
-
-      if (!header.isValid) {
-        throw new OneNoteError('Invalid OneNote file format', 'INVALID_FORMAT', { 
-          filePath, 
-          operation: 'parseOneFile' 
-        });
-      }
-
-      // Parse the actual content
-      const parsedContent = await this.parseOneNoteContent(fileBuffer, options);
-      
-      // Create section with real data
-      const sectionId = this.generateId('section');
-      const section: OneNoteSection = {
-        id: sectionId,
-        name: this.extractSectionName(filePath, parsedContent.title),
-        createdDate: new Date(),
-        lastModifiedDate: new Date(),
-        pages: this.createPagesFromContent(parsedContent, sectionId, filePath),
-        metadata: {
-          filePath,
-          fileType: 'one',
-          parsedAt: new Date().toISOString(),
-          sectionId
+      const opened = await this.openSection(filePath, options);
+      try {
+        let pages: OneNotePage[];
+        try {
+          pages = [...opened.pages];
+        } catch (error) {
+          // A store that fails part way through fails like one that cannot be opened; salvage reads never throw here
+          throw this.sectionParsingError(error, filePath);
         }
-      };
-
-      return section;
+        return { ...opened.section, pages };
+      } finally {
+        opened.close();
+      }
     } catch (error) {
       if (error instanceof OneNoteError) {
         throw error;
@@ -88,8 +165,7 @@ export class RealOneNoteParserService {
         throw new OneNoteError('File not found', 'FILE_NOT_FOUND', { filePath, operation: 'parseOnepkgFile' });
       }
 
-      const fileBuffer = fs.readFileSync(filePath);
-      const header = this.parseFileHeader(fileBuffer);
+      const header = this.readFileHeader(filePath);
 
       if (!header.isValid || header.fileType !== 'onepkg') {
         throw new OneNoteError('Invalid OneNote package format', 'INVALID_FORMAT', { 
@@ -98,37 +174,65 @@ export class RealOneNoteParserService {
         });
       }
 
-      // Extract .one files from the package
-      const extractedFiles = await this.extractOnepkgContents(fileBuffer, filePath);
-      
-      // Parse each extracted file
-      const sections: OneNoteSection[] = [];
-      for (const extractedFile of extractedFiles) {
-        try {
-          const section = await this.parseOneFile(extractedFile, options);
-          sections.push(section);
-        } catch (error) {
-          console.warn(`Failed to parse extracted file ${extractedFile}:`, error);
+      // Extract .one and .onetoc2 files from the package into a per-run temp directory
+      const extracted = await this.extractOnepkgContents(filePath, header);
+      const root: SectionContainer = { sections: [], sectionGroups: [] };
+      let totalSections = 0;
+      let totalPages = 0;
+      let ids: PackageIds;
+
+      try {
+        const tocs = extracted.tableOfContents.map(file => this.readTableOfContents(file));
+        ids = this.createPackageIds(filePath, tocs, extracted);
+
+        // Every folder holding a table of contents is a section group, even when it has no sections
+        for (const toc of tocs) {
+          this.getSectionGroup(root, toc.file.sectionGroupPath, filePath, ids);
+        }
+
+        const outcomes = await this.parseSections(extracted.sections.map(file => this.packagedSectionRequest(file, options)), options);
+        extracted.sections.forEach((file, index) => {
+          const outcome = outcomes[index]!;
+          if ('error' in outcome) {
+            console.warn(`Failed to parse extracted file ${file.entryPath}:`, outcome.error);
+            return;
+          }
+
+          const section = outcome.section;
+          this.markPackaged(section, filePath, file);
+          section.pages.forEach(page => this.markPackaged(page, filePath, file));
+          this.getSectionGroup(root, file.sectionGroupPath, filePath, ids).sections.push(section);
+          totalSections++;
+          totalPages += section.pages.length;
+        });
+
+        // Each folder's table of contents holds the order, colors and names OneNote shows for its entries
+        for (const toc of tocs) {
+          this.applyTableOfContents(this.getSectionGroup(root, toc.file.sectionGroupPath, filePath, ids), toc.entries);
         }
+      } finally {
+        this.cleanupExtraction(extracted);
       }
 
       // Create hierarchy
       const hierarchy: OneNoteHierarchy = {
         notebooks: [{
-          id: this.generateId('notebook'),
+          id: ids.notebook,
           name: this.extractNotebookName(filePath),
           createdDate: new Date(),
           lastModifiedDate: new Date(),
-          sections,
+          sections: root.sections,
+          sectionGroups: root.sectionGroups,
           metadata: {
             filePath,
             fileType: 'onepkg',
-            parsedAt: new Date().toISOString()
+            parsedAt: new Date().toISOString(),
+            tableOfContents: extracted.tableOfContents.map(file => file.entryPath)
           }
         }],
         totalNotebooks: 1,
-        totalSections: sections.length,
-        totalPages: sections.reduce((sum, section) => sum + section.pages.length, 0)
+        totalSections,
+        totalPages
       };
 
       return hierarchy;
@@ -143,15 +247,323 @@ export class RealOneNoteParserService {
     }
   }
 
+  /**
+   * Parse sections in the order given; with options.concurrency set they are parsed side by side in
+   * worker threads, each limited to options.timeout, otherwise one by one on this thread
+   * @returns each section, or the error it failed with
+   */
+  async parseSections(requests: SectionParseRequest[], options?: OneNoteParsingOptions): Promise<SectionParseOutcome[]> {
+    if (options?.concurrency) {
+      const pool = new OneNoteSectionParserPool(options, requests.length);
+      try {
+        return await Promise.all(requests.map(request => pool.parse(request)));
+      } finally {
+        await pool.close();
+      }
+    }
+
+    const outcomes: SectionParseOutcome[] = [];
+    for (const request of requests) {
+      try {
+        outcomes.push({ section: await this.parseOneFile(request.filePath, request.options ?? options) });
+      } catch (error) {
+        // parseOneFile only throws OneNoteErrors
+        outcomes.push({ error: error as OneNoteError });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Read a .one file one page at a time
+   */
+  async *streamOneFile(filePath: string, options?: OneNoteParsingOptions): AsyncGenerator<OneNoteStreamItem> {
+    const opened = await this.openSection(filePath, options);
+    const fileType = opened.section.metadata.fileType === 'mht' ? 'mht' : 'one';
+    const notebook = this.createNotebookShell(filePath, fileType, OneNoteIdUtils.fromContent('notebook', opened.section.id));
+    try {
+      yield { type: 'section', notebook, sectionGroups: [], section: opened.section };
+      try {
+        for (const page of opened.pages) {
+          yield { type: 'page', notebook, sectionGroups: [], section: opened.section, page };
+        }
+      } catch (error) {
+        throw this.sectionParsingError(error, filePath);
+      }
+    } finally {
+      opened.close();
+    }
+  }
+
+  /**
+   * Read a .onepkg file one page at a time, section by section in notebook order; package entries are
+   * extracted to disk block by block, so neither the package nor a whole section is held in memory.
+   * With options.concurrency set, that many sections ahead are parsed whole in worker threads instead
+   */
+  async *streamOnepkgFile(filePath: string, options?: OneNoteParsingOptions): AsyncGenerator<OneNoteStreamItem> {
+    if (!fs.existsSync(filePath)) {
+      throw new OneNoteError('File not found', 'FILE_NOT_FOUND', { filePath, operation: 'streamOnepkgFile' });
+    }
+
+    const header = this.readFileHeader(filePath);
+    if (!header.isValid || header.fileType !== 'onepkg') {
+      throw new OneNoteError('Invalid OneNote package format', 'INVALID_FORMAT', { filePath, operation: 'streamOnepkgFile' });
+    }
+
+    const extracted = await this.extractOnepkgContents(filePath, header);
+    try {
+      yield* this.streamPackage(filePath, 'onepkg', extracted, options);
+    } finally {
+      this.cleanupExtraction(extracted);
+    }
+  }
+
+  /**
+   * Read a notebook folder one page at a time, section by section in notebook order; the folder is laid out
+   * like an extracted package, so its files are read where they are
+   */
+  async *streamNotebookFolder(folder: OneNoteNotebookFolder, options?: OneNoteParsingOptions): AsyncGenerator<OneNoteStreamItem> {
+    if (!fs.existsSync(folder.directory) || !fs.statSync(folder.directory).isDirectory()) {
+      throw new OneNoteError('Folder not found', 'FILE_NOT_FOUND', { filePath: folder.directory, operation: 'streamNotebookFolder' });
+    }
+
+    yield* this.streamPackage(folder.directory, 'folder', this.readNotebookFolder(folder), options);
+  }
+
+  /**
+   * Read the sections of a package or notebook folder in the order of its tables of contents.
+   * With options.concurrency set, that many sections ahead are parsed whole in worker threads, except those
+   * over options.maxFileSize, which are read page by page here
+   */
+  private async *streamPackage(
+    filePath: string,
+    fileType: 'onepkg' | 'folder',
+    extracted: ExtractedPackage,
+    options: OneNoteParsingOptions | undefined
+  ): AsyncGenerator<OneNoteStreamItem> {
+    // Sections and pages of a folder keep pointing at their own files
+    const sourcePath = (file: ExtractedPackageFile) => fileType === 'folder' ? file.path : filePath;
+    let pool: OneNoteSectionParserPool | undefined;
+    try {
+      // Placeholder sections are laid out and ordered by the tables of contents before any section is read
+      const root: SectionContainer = { sections: [], sectionGroups: [] };
+      const files = new Map<OneNoteSection, ExtractedPackageFile>();
+      const tocs = extracted.tableOfContents.map(file => this.readTableOfContents(file));
+      const ids = this.createPackageIds(filePath, tocs, extracted);
+      for (const toc of tocs) {
+        this.getSectionGroup(root, toc.file.sectionGroupPath, filePath, ids);
+      }
+      for (const file of extracted.sections) {
+        const placeholder: OneNoteSection = {
+          id: file.entryPath,
+          name: this.extractSectionName(file.path),
+          pages: [],
+          createdDate: new Date(),
+          lastModifiedDate: new Date(),
+          metadata: { packageEntry: file.entryPath }
+        };
+        files.set(placeholder, file);
+        this.getSectionGroup(root, file.sectionGroupPath, filePath, ids).sections.push(placeholder);
+      }
+      for (const toc of tocs) {
+        this.applyTableOfContents(this.getSectionGroup(root, toc.file.sectionGroupPath, filePath, ids), toc.entries);
+      }
+
+      const notebook = this.createNotebookShell(filePath, fileType, ids.notebook);
+      notebook.metadata.tableOfContents = extracted.tableOfContents.map(file => file.entryPath);
+      const locations = OneNoteHierarchyUtils.getSectionLocations({ ...notebook, ...root });
+      const ahead = new Map<number, Promise<SectionParseOutcome>>();
+      // Sections over the memory ceiling are read page by page on this thread instead of whole in a worker
+      const maxFileSize = options?.maxFileSize ?? RealOneNoteParserService.DEFAULT_MAX_FILE_SIZE;
+      const pooled = locations.map(location => fs.statSync(files.get(location.section)!.path).size <= maxFileSize);
+      if (options?.concurrency && pooled.some(Boolean)) {
+        pool = new OneNoteSectionParserPool(options, pooled.filter(Boolean).length);
+      }
+
+      for (const [index, { section: placeholder, groupPath }] of locations.entries()) {
+        const file = files.get(placeholder)!;
+        const sectionGroups: OneNoteSectionGroup[] = [];
+        let container = root;
+        for (const name of groupPath) {
+          const group = container.sectionGroups.find(candidate => candidate.name === name)!;
+          sectionGroups.push({ ...group, sections: [], sectionGroups: [] });
+          container = group;
+        }
+
+        let opened: OpenedSection;
+        if (pool && pooled[index]) {
+          // Keep the pool busy with the sections after this one while it is being read
+          for (let next = index; next < Math.min(locations.length, index + pool.concurrency); next++) {
+            if (pooled[next] && !ahead.has(next)) {
+              ahead.set(next, pool.parse(this.packagedSectionRequest(files.get(locations[next]!.section)!, options)));
+            }
+          }
+          const outcome = await ahead.get(index)!;
+          ahead.delete(index);
+          if ('error' in outcome) {
+            yield { type: 'failed', source: file.entryPath, error: outcome.error.message };
+            continue;
+          }
+          opened = { section: { ...outcome.section, pages: [] }, pages: outcome.section.pages, close: () => undefined };
+        } else {
+          try {
+            opened = await this.openSection(file.path, this.withPackageEntry(options, file.entryPath));
+          } catch (error) {
+            yield { type: 'failed', source: file.entryPath, error: this.sectionParsingError(error, file.path).message };
+            continue;
+          }
+        }
+
+        try {
+          const section = opened.section;
+          this.markPackaged(section, sourcePath(file), file);
+          if (placeholder.metadata.order !== undefined) {
+            section.metadata.order = placeholder.metadata.order;
+          }
+          if (placeholder.color) {
+            section.color = placeholder.color;
+          }
+
+          yield { type: 'section', notebook, sectionGroups, section };
+          for (const page of opened.pages) {
+            this.markPackaged(page, sourcePath(file), file);
+            yield { type: 'page', notebook, sectionGroups, section, page };
+          }
+        } catch (error) {
+          yield { type: 'failed', source: file.entryPath, error: this.sectionParsingError(error, file.path).message };
+        } finally {
+          opened.close();
+        }
+      }
+    } finally {
+      // Workers may still be reading extracted files
+      await pool?.close();
+    }
+  }
+
+  /**
+   * Check a .one or .onepkg file, reporting password protected sections and sections in the OneNote 2007 format
+   * separately from errors
+   */
+  async validateFile(filePath: string): Promise<OneNoteValidationResult> {
+    if (!fs.existsSync(filePath)) {
+      throw new OneNoteError('File not found', 'FILE_NOT_FOUND', { filePath, operation: 'validateFile' });
+    }
+
+    const stats = fs.statSync(filePath);
+    const header = this.readFileHeader(filePath, true);
+    const errors: string[] = [];
+    const protectedSections: string[] = [];
+    const legacySections: string[] = [];
+
+    if (!header.isValid) {
+      errors.push('Invalid OneNote file format');
+    } else if (header.fileType === 'onepkg' && header.magic === RealOneNoteParserService.CABINET_MAGIC) {
+      const extracted = await this.extractOnepkgContents(filePath, header);
+      try {
+        for (const file of extracted.sections) {
+          const sectionHeader = this.readFileHeader(file.path, true);
+          if (sectionHeader.encrypted) {
+            protectedSections.push(file.entryPath);
+          }
+          if (sectionHeader.legacyFormat) {
+            legacySections.push(file.entryPath);
+          }
+        }
+      } finally {
+        this.cleanupExtraction(extracted);
+      }
+    } else {
+      if (header.encrypted) {
+        protectedSections.push(filePath);
+      }
+      if (header.legacyFormat) {
+        legacySections.push(filePath);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: [
+        ...protectedSections.map(section => `Section ${section} is password protected and is skipped unless a password is supplied`),
+        ...legacySections.map(section =>
+          `Section ${section} is in the OneNote 2007 format and is read on a best-effort basis; convert it in OneNote 2010 or later if content is missing`)
+      ],
+      fileInfo: {
+        path: filePath,
+        type: header.fileType,
+        size: stats.size,
+        isValid: header.isValid,
+        lastModified: stats.mtime,
+        encrypted: protectedSections.length > 0
+      },
+      protectedSections
+    };
+  }
+
+  /**
+   * Read the start of a file and parse its header
+   * @param detectEncryption also read a revision store's file node lists, from disk, to tell whether it is password protected
+   */
+  private readFileHeader(filePath: string, detectEncryption = false): OneNoteFileHeader {
+    const fd = fs.openSync(filePath, 'r');
+    let start: Buffer;
+    try {
+      start = Buffer.alloc(RealOneNoteParserService.HEADER_PROBE_SIZE);
+      start = start.subarray(0, fs.readSync(fd, start, 0, start.length, 0));
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (!detectEncryption || !RevisionStoreParser.isRevisionStore(start)) {
+      return this.parseFileHeader(start);
+    }
+
+    const source = new FileByteSource(filePath);
+    try {
+      return this.parseFileHeader(start, source);
+    } finally {
+      source.close();
+    }
+  }
+
   /**
    * Parse file header to determine type and validity
+   * @param store when given, a revision store's file node lists are read from it to tell whether it is password protected
    */
-  private parseFileHeader(buffer: Buffer): OneNoteFileHeader {
+  private parseFileHeader(buffer: Buffer, store?: ByteSource): OneNoteFileHeader {
     if (buffer.length < RealOneNoteParserService.HEADER_SIZE) {
       // For test files, we'll be more lenient
       return { magic: '', version: 0, fileType: 'one', isValid: true };
     }
 
+    if (CabinetReader.isCabinet(buffer)) {
+      return { magic: RealOneNoteParserService.CABINET_MAGIC, version: buffer.readUInt16LE(24), fileType: 'onepkg', isValid: true };
+    }
+
+    if (OneNoteMimeArchive.isMimeArchive(buffer)) {
+      return { magic: RealOneNoteParserService.MIME_MAGIC, version: 0, fileType: 'mht', isValid: true };
+    }
+
+    if (RevisionStoreParser.isRevisionStore(buffer)) {
+      const header: OneNoteFileHeader = {
+        magic: RealOneNoteParserService.REVISION_STORE_MAGIC,
+        version: buffer.readUInt32LE(64),
+        fileType: 'one',
+        isValid: true,
+        ...(RevisionStoreParser.isLegacyFormat(buffer) ? { legacyFormat: true } : {})
+      };
+      if (store) {
+        try {
+          header.encrypted = new RevisionStoreParser(store).parse().encryption !== undefined;
+        } catch (error) {
+          header.isValid = false;
+        }
+      }
+      return header;
+    }
+
     const magic = buffer.toString('ascii', 0, 6);
     const version = buffer.readUInt32LE(8);
 
@@ -184,10 +596,11 @@ export class RealOneNoteParserService {
 
   /**
    * Parse OneNote content from file buffer
+   * @param filePath where the buffer was read from, used to name a protected section when asking for its password
    */
-  async parseOneNoteContent(buffer: Buffer, options?: OneNoteParsingOptions): Promise<ParsedOneNoteContent> {
-    // This is a simplified parser - in reality, OneNote files have a complex binary format
-    // For now, we'll extract what we can and provide fallback content
+  async parseOneNoteContent(buffer: Buffer, options?: OneNoteParsingOptions, filePath = ''): Promise<ParsedOneNoteContent> {
+    // MS-ONESTORE sections are parsed structurally; any other buffer falls back to
+    // scraping readable text so plain fixtures and damaged files still yield content
     
     let content = '';
     let title = 'Untitled Page';
@@ -196,6 +609,10 @@ export class RealOneNoteParserService {
     const metadata: Record<string, any> = {};
 
     try {
+      if (RevisionStoreParser.isRevisionStore(buffer)) {
+        return await this.parseRevisionStoreContent(buffer, options, filePath);
+      }
+
       // Try to find text content in the buffer
       const textContent = this.extractTextContent(buffer);
       if (textContent) {
@@ -217,9 +634,7 @@ export class RealOneNoteParserService {
 
     } catch (error) {
       // Fallback content if parsing fails
-      content = 'Content could not be fully parsed from OneNote file. Raw binary data present.';
-      title = 'Parsed OneNote Content';
-      metadata.parseError = error instanceof Error ? error.message : 'Unknown parsing error';
+      return { ...this.unparsedContent(error), images, attachments };
     }
 
     return {
@@ -231,6 +646,285 @@ export class RealOneNoteParserService {
     };
   }
 
+  /**
+   * The error a damaged section fails with when it is not salvaged
+   */
+  private sectionParsingError(error: unknown, filePath: string): OneNoteError {
+    const reason = error instanceof Error ? error.message : 'Unknown parsing error';
+    return new OneNoteError(`Failed to parse OneNote section: ${reason}`, 'PARSING_FAILED', {
+      filePath,
+      operation: 'parseOneFile'
+    });
+  }
+
+  /**
+   * Content standing in for a file that could not be parsed
+   */
+  private unparsedContent(error: unknown): ParsedOneNoteContent {
+    return {
+      title: 'Parsed OneNote Content',
+      content: 'Content could not be fully parsed from OneNote file. Raw binary data present.',
+      metadata: { parseError: error instanceof Error ? error.message : 'Unknown parsing error' },
+      images: [],
+      attachments: []
+    };
+  }
+
+  /**
+   * Parse a MS-ONESTORE section into pages whose documents are built from its outline graph
+   */
+  private async parseRevisionStoreContent(buffer: Buffer, options: OneNoteParsingOptions = {}, filePath = ''): Promise<ParsedOneNoteContent> {
+    const store = await this.openRevisionStore(new BufferByteSource(buffer), options, filePath);
+    const pages = [...store.pages];
+
+    return {
+      title: store.title,
+      content: pages.map(page => page.content).join('\n\n'),
+      metadata: store.metadata,
+      images: [...new Set(pages.flatMap(page => page.document ? this.getAssetPaths(page.document, 'image') : []))],
+      attachments: [...new Set(pages.flatMap(page => page.document ? this.getAssetPaths(page.document, 'file') : []))],
+      pages
+    };
+  }
+
+  /**
+   * Open a MS-ONESTORE section whose pages are read and rendered to markdown as they are iterated;
+   * picture, attachment and ink data is written to the assets directory unless its extraction is turned off,
+   * and earlier page versions are read when includeRevisions is set. With salvage set, damaged parts are skipped
+   * and recorded instead of failing the section.
+   * A password protected section without a working password is opened without pages
+   */
+  private async openRevisionStore(source: ByteSource, options: OneNoteParsingOptions = {}, filePath = ''): Promise<OpenedRevisionStore> {
+    const salvage = options.salvage ? new SalvageLog() : undefined;
+    const store = new RevisionStoreParser(source, salvage).parse();
+    const metadata = {
+      fileSize: source.size,
+      parsedAt: new Date().toISOString(),
+      format: 'revision-store',
+      fileGuid: store.header.fileGuid,
+      lastCodeVersion: store.header.lastCodeVersion,
+      ...(store.header.legacyFormat ? { legacyFormat: true } : {}),
+      ...(store.encryption ? { encrypted: true } : {})
+    };
+
+    if (store.encryption) {
+      const skipped = await this.unlockSection(store.encryption, { name: path.basename(filePath, path.extname(filePath)), filePath }, options);
+      if (skipped) {
+        return { title: '', metadata: { ...metadata, skipped }, pages: [], ...(salvage ? { salvage } : {}) };
+      }
+    }
+
+    const assets = options.extractImages === false && options.extractAttachments === false && options.extractInk === false
+      ? undefined
+      : new OneNoteAssetStore(options.assetsDirectory);
+    const reader = new OneNoteSectionReader(store, assets, options, salvage);
+
+    return { title: reader.readName() || '', metadata, pages: this.renderPages(reader.readPages()), ...(salvage ? { salvage } : {}) };
+  }
+
+  /**
+   * Render pages and their earlier versions to markdown as they are read
+   */
+  private *renderPages(pages: Iterable<OneNotePage>): Generator<OneNotePage> {
+    for (const page of pages) {
+      const rendered: OneNotePage = { ...page, content: page.document ? OneNoteDocumentRenderer.toMarkdown(page.document) : '' };
+      if (page.revisions) {
+        rendered.revisions = page.revisions.map(revision => ({ ...revision, content: OneNoteDocumentRenderer.toMarkdown(revision.document) }));
+      }
+      yield rendered;
+    }
+  }
+
+  /**
+   * Open a .one file for reading its pages one at a time. Revision stores up to the memory ceiling
+   * (maxFileSize) are read whole and larger ones from disk as their chunks are needed; other files are
+   * scraped for text, which needs them whole, so they are refused above the ceiling
+   */
+  private async openSection(filePath: string, options?: OneNoteParsingOptions): Promise<OpenedSection> {
+    if (!fs.existsSync(filePath)) {
+      throw new OneNoteError('File not found', 'FILE_NOT_FOUND', { filePath, operation: 'parseOneFile' });
+    }
+
+    const header = this.readFileHeader(filePath);
+    if (!header.isValid) {
+      throw new OneNoteError('Invalid OneNote file format', 'INVALID_FORMAT', { filePath, operation: 'parseOneFile' });
+    }
+
+    const size = fs.statSync(filePath).size;
+    const maxFileSize = options?.maxFileSize ?? RealOneNoteParserService.DEFAULT_MAX_FILE_SIZE;
+    if (header.fileType === 'mht') {
+      if (size > maxFileSize) {
+        throw new OneNoteError(
+          `File is ${size} bytes, over the ${maxFileSize} byte limit set by onenote.maxFileSize; web page exports are read whole`,
+          'FILE_TOO_LARGE',
+          { filePath, operation: 'parseOneFile' }
+        );
+      }
+      return this.openMhtSection(filePath, options);
+    }
+
+    // Sections are identified by their file GUID, or by a hash of the file when it cannot be read as a store
+    const createSection = (sectionId: string, content: Pick<ParsedOneNoteContent, 'title' | 'metadata'>): OneNoteSection => ({
+      id: sectionId,
+      name: this.extractSectionName(filePath, content.title),
+      createdDate: new Date(),
+      lastModifiedDate: new Date(),
+      pages: [],
+      metadata: {
+        filePath,
+        fileType: 'one',
+        parsedAt: new Date().toISOString(),
+        sectionId,
+        ...(content.metadata.legacyFormat ? { legacyFormat: true } : {}),
+        ...(content.metadata.encrypted ? { encrypted: true } : {}),
+        ...(content.metadata.skipped ? { skipped: content.metadata.skipped } : {})
+      }
+    });
+
+    if (header.magic === RealOneNoteParserService.REVISION_STORE_MAGIC) {
+      const source = size > maxFileSize ? new FileByteSource(filePath) : new BufferByteSource(fs.readFileSync(filePath));
+      const close = () => {
+        if (source instanceof FileByteSource) {
+          source.close();
+        }
+      };
+
+      try {
+        const store = await this.openRevisionStore(source, options, filePath);
+        const sectionId = OneNoteIdUtils.fromGuid('section', store.metadata.fileGuid);
+        const section = createSection(sectionId, store);
+        const pages = this.addPageMetadata(store.pages, store.metadata, sectionId, filePath);
+        if (store.salvage) {
+          // Filled in as the pages are read
+          section.metadata.salvage = store.salvage.losses;
+          return { section, pages: this.salvagePages(pages, store.salvage), close };
+        }
+        return { section, pages, close };
+      } catch (error) {
+        close();
+        if (!options?.salvage) {
+          throw this.sectionParsingError(error, filePath);
+        }
+        // Nothing could be read, which is reported as an empty section
+        const content = this.unparsedContent(error);
+        const section = createSection(OneNoteIdUtils.fromFile('section', filePath), content);
+        section.metadata.salvage = [{ kind: 'structure', reason: content.metadata.parseError }];
+        return { section, pages: [], close: () => undefined };
+      }
+    }
+
+    if (size > maxFileSize) {
+      throw new OneNoteError(
+        `File is ${size} bytes, over the ${maxFileSize} byte limit set by onenote.maxFileSize, and is not a OneNote section that can be read in parts`,
+        'FILE_TOO_LARGE',
+        { filePath, operation: 'parseOneFile' }
+      );
+    }
+
+    const content = await this.parseOneNoteContent(fs.readFileSync(filePath), options, filePath);
+    const sectionId = OneNoteIdUtils.fromFile('section', filePath);
+    return { section: createSection(sectionId, content), pages: this.createPagesFromContent(content, sectionId, filePath), close: () => undefined };
+  }
+
+  /**
+   * Read a section or page exported from OneNote as a single file web page; each HTML page in the archive
+   * becomes a page, with the pictures and files it refers to saved as assets
+   */
+  private openMhtSection(filePath: string, options: OneNoteParsingOptions = {}): OpenedSection {
+    const parts = OneNoteMimeArchive.read(fs.readFileSync(filePath));
+    const assets = options.extractImages === false && options.extractAttachments === false
+      ? undefined
+      : new OneNoteAssetStore(options.assetsDirectory);
+    const reader = new OneNoteHtmlPageReader(parts, assets, options);
+    // Web pages keep no GUIDs, so the section is identified by the file and its pages by their position
+    const sectionId = OneNoteIdUtils.fromFile('section', filePath);
+    const modified = fs.statSync(filePath).mtime;
+
+    const pages: OneNotePage[] = [];
+    for (const part of parts.filter(part => part.contentType === 'text/html')) {
+      const page = reader.read(part);
+      if (page) {
+        pages.push({
+          id: OneNoteIdUtils.fromContent('page', sectionId, String(pages.length)),
+          title: page.title,
+          content: OneNoteDocumentRenderer.toMarkdown(page.document),
+          document: page.document,
+          createdDate: modified,
+          lastModifiedDate: modified,
+          metadata: {}
+        });
+      }
+    }
+
+    const section: OneNoteSection = {
+      id: sectionId,
+      name: this.extractSectionName(filePath),
+      createdDate: modified,
+      lastModifiedDate: modified,
+      pages: [],
+      metadata: { filePath, fileType: 'mht', parsedAt: new Date().toISOString(), sectionId }
+    };
+    return { section, pages: this.addPageMetadata(pages, { format: 'mht' }, sectionId, filePath), close: () => undefined };
+  }
+
+  /**
+   * Keep the pages read before a salvaged section fails part way through, recording that the rest were lost
+   */
+  private *salvagePages(pages: Iterable<OneNotePage>, salvage: SalvageLog): Generator<OneNotePage> {
+    try {
+      yield* pages;
+    } catch (error) {
+      salvage.record('page', `The pages after this point could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Unlock a protected section with the password supplied for it
+   * @returns why the section is skipped, or undefined once it is unlocked
+   */
+  private async unlockSection(
+    encryption: SectionEncryption,
+    section: OneNoteProtectedSection,
+    options: OneNoteParsingOptions
+  ): Promise<ProtectedSectionSkipReason | undefined> {
+    const password = await options.sectionPassword?.(section);
+    if (!password) {
+      return 'password-required';
+    }
+
+    try {
+      encryption.unlock(password);
+      return undefined;
+    } catch (error) {
+      if (error instanceof OneNoteError && error.code === 'INVALID_PASSWORD') {
+        return 'invalid-password';
+      }
+      if (error instanceof OneNoteError && error.code === 'UNSUPPORTED_ENCRYPTION') {
+        return 'unsupported-encryption';
+      }
+      if (error instanceof OneNoteError && error.code === 'INVALID_ENCRYPTION') {
+        return 'unreadable-encryption';
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Options for a section extracted from a package, whose password lookup also sees its entry path
+   */
+  private withPackageEntry(options: OneNoteParsingOptions | undefined, packageEntry: string): OneNoteParsingOptions | undefined {
+    const sectionPassword = options?.sectionPassword;
+    if (!sectionPassword) {
+      return options;
+    }
+    return { ...options, sectionPassword: section => sectionPassword({ ...section, packageEntry }) };
+  }
+
+  private getAssetPaths(document: OneNoteDocument, type: 'image' | 'file'): string[] {
+    return OneNoteDocumentRenderer.flattenBlocks(document.blocks)
+      .flatMap(block => block.type === type && block.src ? [block.src] : []);
+  }
+
   /**
    * Extract text content from OneNote buffer
    */
@@ -341,33 +1035,264 @@ export class RealOneNoteParserService {
   }
 
   /**
-   * Extract .one files from .onepkg package
+   * Extract .one and .onetoc2 files from a .onepkg package into a per-run temp directory; the package is
+   * read from disk and each entry written out block by block as it is decompressed
    */
-  private async extractOnepkgContents(buffer: Buffer, filePath: string): Promise<string[]> {
-    // This is a simplified implementation
-    // Real .onepkg files are ZIP archives containing .one files
-    
-    const extractedFiles: string[] = [];
-    const tempDir = path.join(path.dirname(filePath), 'temp_extract');
-    
+  private async extractOnepkgContents(filePath: string, header: OneNoteFileHeader): Promise<ExtractedPackage> {
+    const extracted: ExtractedPackage = {
+      directory: fs.mkdtempSync(path.join(os.tmpdir(), 'oni-onepkg-')),
+      sections: [],
+      tableOfContents: []
+    };
+
+    let source: FileByteSource | undefined;
+    const outputs = new Map<CabinetEntry, { fd: number; written: number }>();
     try {
-      // Create temp directory
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
+      if (header.magic !== RealOneNoteParserService.CABINET_MAGIC) {
+        // Not a cabinet (e.g. plain test fixtures): treat the whole package as one section
+        const sectionPath = path.join(extracted.directory, `${this.extractNotebookName(filePath)}.one`);
+        fs.copyFileSync(filePath, sectionPath);
+        extracted.sections.push({ path: sectionPath, entryPath: path.basename(sectionPath), sectionGroupPath: [] });
+        return extracted;
       }
 
-      // For now, we'll create a mock .one file since .onepkg parsing is complex
-      // In a real implementation, you'd extract the ZIP and find .one files
-      const mockOneFile = path.join(tempDir, 'extracted.one');
-      fs.writeFileSync(mockOneFile, buffer); // Simplified - just copy the buffer
-      
-      extractedFiles.push(mockOneFile);
-      
+      source = new FileByteSource(filePath);
+      const cabinet = new CabinetReader(source, filePath);
+      for (const entry of cabinet.entries) {
+        const segments = entry.name.split('/').filter(segment => segment.length > 0);
+        const extension = path.extname(entry.name).toLowerCase();
+
+        if ((extension !== '.one' && extension !== '.onetoc2') || !this.isSafeEntryPath(segments)) {
+          continue;
+        }
+        // Deleted pages live in the recycle bin section group and are not part of the notebook
+        if (segments.includes(RealOneNoteParserService.RECYCLE_BIN_FOLDER)) {
+          continue;
+        }
+
+        const targetPath = path.join(extracted.directory, ...segments);
+        fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+        outputs.set(entry, { fd: fs.openSync(targetPath, 'w'), written: 0 });
+
+        const file: ExtractedPackageFile = {
+          path: targetPath,
+          entryPath: segments.join('/'),
+          sectionGroupPath: segments.slice(0, -1)
+        };
+        (extension === '.one' ? extracted.sections : extracted.tableOfContents).push(file);
+      }
+
+      // Each output is closed as soon as its entry is complete, so only the entries of the current block stay open
+      cabinet.extractTo([...outputs.keys()], (entry, data) => {
+        const output = outputs.get(entry)!;
+        fs.writeSync(output.fd, data);
+        output.written += data.length;
+        if (output.written === entry.size) {
+          fs.closeSync(output.fd);
+          outputs.delete(entry);
+        }
+      });
+
+      return extracted;
+    } catch (error) {
+      this.cleanupExtraction(extracted);
+      throw error;
+    } finally {
+      outputs.forEach(output => fs.closeSync(output.fd));
+      source?.close();
+    }
+  }
+
+  /**
+   * Lay out a notebook folder's files like an extracted package: their paths inside the folder become entry
+   * paths and their subfolders section groups. Files outside the folder or in its recycle bin are left out
+   */
+  private readNotebookFolder(folder: OneNoteNotebookFolder): ExtractedPackage {
+    const extracted: ExtractedPackage = { directory: folder.directory, sections: [], tableOfContents: [] };
+    for (const filePath of folder.files) {
+      const segments = path.relative(folder.directory, filePath).split(path.sep).filter(segment => segment.length > 0);
+      const extension = path.extname(filePath).toLowerCase();
+
+      if ((extension !== '.one' && extension !== '.onetoc2') || !this.isSafeEntryPath(segments)) {
+        continue;
+      }
+      if (segments.includes(RealOneNoteParserService.RECYCLE_BIN_FOLDER)) {
+        continue;
+      }
+
+      const file: ExtractedPackageFile = { path: filePath, entryPath: segments.join('/'), sectionGroupPath: segments.slice(0, -1) };
+      (extension === '.one' ? extracted.sections : extracted.tableOfContents).push(file);
+    }
+    return extracted;
+  }
+
+  /**
+   * Find the section group at a folder path, creating any missing groups along the way
+   */
+  private getSectionGroup(root: SectionContainer, groupPath: string[], filePath: string, ids: PackageIds): SectionContainer {
+    let container = root;
+    for (let depth = 0; depth < groupPath.length; depth++) {
+      const name = groupPath[depth]!;
+      let group = container.sectionGroups.find(candidate => candidate.name === name);
+      if (!group) {
+        const packagePath = groupPath.slice(0, depth + 1).join('/');
+        group = {
+          id: ids.sectionGroups.get(packagePath) ?? OneNoteIdUtils.fromContent('section-group', ids.notebook, packagePath),
+          name,
+          sections: [],
+          sectionGroups: [],
+          createdDate: new Date(),
+          lastModifiedDate: new Date(),
+          metadata: {
+            filePath,
+            packagePath
+          }
+        };
+        container.sectionGroups.push(group);
+      }
+      container = group;
+    }
+    return container;
+  }
+
+  /**
+   * Read the entries of an extracted .onetoc2 file; unreadable tables of contents give no entries
+   */
+  private readTableOfContents(file: ExtractedPackageFile): PackageTableOfContents {
+    let source: FileByteSource | undefined;
+    try {
+      if (this.readFileHeader(file.path).magic !== RealOneNoteParserService.REVISION_STORE_MAGIC) {
+        return { file, entries: [] };
+      }
+      source = new FileByteSource(file.path);
+      const store = new RevisionStoreParser(source).parse();
+      return { file, fileGuid: store.header.fileGuid, entries: new OneNoteTocReader(store).read() };
     } catch (error) {
-      console.warn('Failed to extract .onepkg contents:', error);
+      console.warn(`Failed to read table of contents ${file.entryPath}:`, error);
+      return { file, entries: [] };
+    } finally {
+      source?.close();
     }
+  }
 
-    return extractedFiles;
+  /**
+   * Identify a package's notebook and section groups by the GUIDs of their tables of contents; without one
+   * the notebook falls back to a hash of the package, or of a notebook folder's name and the paths of its
+   * sections within it so the ID does not depend on where the folder is, and a section group to a hash of
+   * its path in the notebook
+   */
+  private createPackageIds(filePath: string, tocs: PackageTableOfContents[], extracted: ExtractedPackage): PackageIds {
+    const rootGuid = tocs.find(toc => toc.file.sectionGroupPath.length === 0 && toc.fileGuid)?.fileGuid;
+    const sectionGroups = new Map<string, string>();
+    for (const toc of tocs) {
+      const packagePath = toc.file.sectionGroupPath.join('/');
+      if (toc.fileGuid && packagePath && !sectionGroups.has(packagePath)) {
+        sectionGroups.set(packagePath, OneNoteIdUtils.fromGuid('section-group', toc.fileGuid));
+      }
+    }
+    return {
+      notebook: rootGuid
+        ? OneNoteIdUtils.fromGuid('notebook', rootGuid)
+        : fs.statSync(filePath).isDirectory()
+          ? OneNoteIdUtils.fromContent('notebook', path.basename(path.resolve(filePath)), ...extracted.sections.map(file => file.entryPath).sort())
+          : OneNoteIdUtils.fromFile('notebook', filePath),
+      sectionGroups
+    };
+  }
+
+  /**
+   * Order a folder's sections and section groups as its table of contents lists them and apply their colors;
+   * entries missing from the table of contents keep their relative order after the listed ones
+   */
+  private applyTableOfContents(container: SectionContainer, entries: OneNoteTocEntry[]): void {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const find = (type: OneNoteTocEntry['type'], fileName: string) =>
+      entries.find(entry => entry.type === type && entry.fileName.toLowerCase() === fileName.toLowerCase());
+    const orders = new Map<OneNoteSection | OneNoteSectionGroup, number>();
+
+    for (const section of container.sections) {
+      const entry = find('section', path.posix.basename(section.metadata.packageEntry ?? ''));
+      if (entry) {
+        orders.set(section, entry.order);
+        section.metadata = { ...section.metadata, order: entry.order };
+        if (entry.color) {
+          section.color = entry.color;
+        }
+      }
+    }
+
+    for (const group of container.sectionGroups) {
+      const entry = find('sectionGroup', group.name);
+      if (entry) {
+        orders.set(group, entry.order);
+        group.metadata = { ...group.metadata, order: entry.order };
+        if (entry.color) {
+          group.color = entry.color;
+        }
+      }
+    }
+
+    const byOrder = (a: OneNoteSection | OneNoteSectionGroup, b: OneNoteSection | OneNoteSectionGroup) =>
+      (orders.get(a) ?? Number.MAX_SAFE_INTEGER) - (orders.get(b) ?? Number.MAX_SAFE_INTEGER);
+    container.sections.sort(byOrder);
+    container.sectionGroups.sort(byOrder);
+  }
+
+  /**
+   * Reject absolute paths and parent-directory segments in archive entries
+   */
+  private isSafeEntryPath(segments: string[]): boolean {
+    return segments.length > 0 && segments.every(segment => segment !== '..' && segment !== '.' && !segment.includes(':'));
+  }
+
+  /**
+   * A package section to parse, reported under its entry path and with its password lookup seeing that path
+   */
+  private packagedSectionRequest(file: ExtractedPackageFile, options: OneNoteParsingOptions | undefined): SectionParseRequest {
+    const sectionOptions = this.withPackageEntry(options, file.entryPath);
+    return { filePath: file.path, label: file.entryPath, ...(sectionOptions ? { options: sectionOptions } : {}) };
+  }
+
+  /**
+   * Remove a package's temp directory
+   */
+  private cleanupExtraction(extracted: ExtractedPackage): void {
+    try {
+      fs.rmSync(extracted.directory, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to clean up ${extracted.directory}:`, error);
+    }
+  }
+
+  /**
+   * Point a section or page read from an extracted package file back at the package
+   */
+  private markPackaged(item: OneNoteSection | OneNotePage, filePath: string, file: ExtractedPackageFile): void {
+    item.metadata = {
+      ...item.metadata,
+      filePath,
+      packageEntry: file.entryPath,
+      ...('pages' in item ? { sectionGroupPath: file.sectionGroupPath } : {})
+    };
+  }
+
+  /**
+   * A notebook for a streamed file; its sections are yielded rather than collected on it
+   */
+  private createNotebookShell(filePath: string, fileType: 'one' | 'onepkg' | 'mht' | 'folder', id: string): OneNoteNotebook {
+    return {
+      id,
+      // A folder's name is kept whole, dots included
+      name: fileType === 'folder' ? path.basename(path.resolve(filePath)) : this.extractNotebookName(filePath),
+      createdDate: new Date(),
+      lastModifiedDate: new Date(),
+      sections: [],
+      sectionGroups: [],
+      metadata: { filePath, fileType, parsedAt: new Date().toISOString() }
+    };
   }
 
   /**
@@ -390,6 +1315,10 @@ export class RealOneNoteParserService {
    * Create pages from parsed content, handling multiple pages
    */
   private createPagesFromContent(parsedContent: ParsedOneNoteContent, sectionId: string, filePath: string): OneNotePage[] {
+    if (parsedContent.pages) {
+      return [...this.addPageMetadata(parsedContent.pages, parsedContent.metadata, sectionId, filePath)];
+    }
+
     const pages: OneNotePage[] = [];
     
     // Check if content contains multiple pages (look for page separators)
@@ -418,7 +1347,7 @@ export class RealOneNoteParserService {
       
       if (pageContent.length > 0) {
         pages.push({
-          id: this.generateId('page'),
+          id: OneNoteIdUtils.fromContent('page', sectionId, String(index)),
           title: pageTitle,
           content: pageContent,
           createdDate: new Date(),
@@ -437,7 +1366,7 @@ export class RealOneNoteParserService {
     // If no pages were created, create a default page
     if (pages.length === 0) {
       pages.push({
-        id: this.generateId('page'),
+        id: OneNoteIdUtils.fromContent('page', sectionId),
         title: parsedContent.title || 'Untitled Page',
         content: parsedContent.content || 'No content available',
         createdDate: new Date(),
@@ -454,6 +1383,26 @@ export class RealOneNoteParserService {
     return pages;
   }
 
+  /**
+   * Attach the section's parse metadata and the page's position to pages as they are read
+   */
+  private *addPageMetadata(pages: Iterable<OneNotePage>, metadata: Record<string, any>, sectionId: string, filePath: string): Generator<OneNotePage> {
+    let index = 0;
+    for (const page of pages) {
+      yield {
+        ...page,
+        metadata: {
+          ...metadata,
+          ...page.metadata,
+          filePath,
+          parsedAt: new Date().toISOString(),
+          sectionId,
+          pageIndex: index++
+        }
+      };
+    }
+  }
+
   /**
    * Extract page title from content
    */
@@ -487,11 +1436,4 @@ export class RealOneNoteParserService {
     // Default title
     return `Page ${index + 1}`;
   }
-
-  /**
-   * Generate unique ID
-   */
-  private generateId(prefix: string): string {
-    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
@@ -0,0 +1,152 @@
+/**
+ * Revision diff utilities
+ * Compares page versions line by line and renders the changes as a unified diff
+ */
+
+import { OneNoteBlock, OneNoteDocument } from '../../types/document';
+import { OneNotePage, OneNotePageRevision } from '../../types/onenote';
+
+export interface OneNoteDiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+/** Past this many line pairs the changed middle is reported as replaced rather than aligned */
+const MAX_ALIGNED_CELLS = 4_000_000;
+
+export class OneNoteRevisionDiff {
+  static readonly CONTEXT_LINES = 3;
+
+  /**
+   * List the lines of both texts in order, marking those only in before as removed and those only in after as added
+   */
+  static diffLines(before: string, after: string): OneNoteDiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+      suffix++;
+    }
+
+    const context = (text: string): OneNoteDiffLine => ({ type: 'context', text });
+    return [
+      ...a.slice(0, prefix).map(context),
+      ...this.alignMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+      ...a.slice(a.length - suffix).map(context)
+    ];
+  }
+
+  /**
+   * Render the changes from before to after as a unified diff; equal texts give an empty string
+   */
+  static unified(before: string, after: string, fromLabel: string, toLabel: string): string {
+    const lines = this.diffLines(before, after);
+    const oldNumbers: number[] = [];
+    const newNumbers: number[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    for (const line of lines) {
+      oldNumbers.push(oldLine);
+      newNumbers.push(newLine);
+      if (line.type !== 'added') oldLine++;
+      if (line.type !== 'removed') newLine++;
+    }
+
+    const hunks: string[] = [];
+    let index = 0;
+    while (index < lines.length) {
+      const start = lines.findIndex((line, position) => position >= index && line.type !== 'context');
+      if (start === -1) {
+        break;
+      }
+
+      // Changes closer together than twice the context share one hunk
+      let last = start;
+      for (let position = start + 1; position < lines.length && position - last <= this.CONTEXT_LINES * 2; position++) {
+        if (lines[position]!.type !== 'context') {
+          last = position;
+        }
+      }
+
+      const from = Math.max(start - this.CONTEXT_LINES, index);
+      const to = Math.min(last + this.CONTEXT_LINES + 1, lines.length);
+      const hunk = lines.slice(from, to);
+      const oldCount = hunk.filter(line => line.type !== 'added').length;
+      const newCount = hunk.filter(line => line.type !== 'removed').length;
+      const range = (first: number, count: number) => `${count === 0 ? first : first + 1},${count}`;
+
+      hunks.push([
+        `@@ -${range(oldNumbers[from]!, oldCount)} +${range(newNumbers[from]!, newCount)} @@`,
+        ...hunk.map(line => `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`)
+      ].join('\n'));
+      index = to;
+    }
+
+    return hunks.length > 0 ? [`--- ${fromLabel}`, `+++ ${toLabel}`, ...hunks].join('\n') : '';
+  }
+
+  /**
+   * Describe when and by whom a version was saved, e.g. "2024-03-01 09:30 UTC by Alice"
+   */
+  static label(revision: OneNotePageRevision): string {
+    const saved = `${revision.lastModifiedDate.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+    return revision.author ? `${saved} by ${revision.author}` : saved;
+  }
+
+  /**
+   * A document listing a page's earlier versions, newest first, each with its diff against the current version
+   */
+  static historyDocument(page: OneNotePage): OneNoteDocument {
+    const blocks = [...(page.revisions ?? [])].reverse().flatMap((revision): OneNoteBlock[] => {
+      const diff = this.unified(revision.content, page.content, this.label(revision), 'current');
+      return [
+        { type: 'heading', level: 2, runs: [{ text: this.label(revision) }] },
+        diff ? { type: 'code', language: 'diff', text: diff } : { type: 'paragraph', runs: [{ text: 'No text changes' }] }
+      ];
+    });
+    return { blocks };
+  }
+
+  /**
+   * Align the differing middle of two texts on their longest common subsequence of lines
+   */
+  private static alignMiddle(a: string[], b: string[]): OneNoteDiffLine[] {
+    const removed = (text: string): OneNoteDiffLine => ({ type: 'removed', text });
+    const added = (text: string): OneNoteDiffLine => ({ type: 'added', text });
+    if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_ALIGNED_CELLS) {
+      return [...a.map(removed), ...b.map(added)];
+    }
+
+    // lengths[i * width + j] is the common subsequence length of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1]! + 1
+          : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+      }
+    }
+
+    const lines: OneNoteDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ type: 'context', text: a[i]! });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+        lines.push(removed(a[i++]!));
+      } else {
+        lines.push(added(b[j++]!));
+      }
+    }
+    return [...lines, ...a.slice(i).map(removed), ...b.slice(j).map(added)];
+  }
+}
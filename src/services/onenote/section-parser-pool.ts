@@ -0,0 +1,214 @@
+/**
+ * Section parser pool
+ * Parses sections in worker threads, several at once; a section that hangs or crashes its thread
+ * fails on its own while the rest of the run carries on
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { OneNoteParseProgress, OneNoteParsingOptions, OneNoteProtectedSection, OneNoteSection } from '../../types/onenote';
+import { OneNoteError } from './error-utils';
+
+/** Parsing options a worker thread receives; functions cannot cross to it and stay with the pool */
+export type SectionParserWorkerOptions = Omit<OneNoteParsingOptions, 'sectionPassword' | 'onProgress' | 'concurrency' | 'timeout'>;
+
+/** Messages from the pool to a worker thread */
+export type SectionParserRequest =
+  | { type: 'parse'; filePath: string; options: SectionParserWorkerOptions; hasPasswordLookup: boolean }
+  | { type: 'password'; password: string | undefined };
+
+/** Messages from a worker thread to the pool */
+export type SectionParserResponse =
+  | { type: 'password'; section: OneNoteProtectedSection }
+  | { type: 'parsed'; section: OneNoteSection }
+  | { type: 'failed'; message: string; code: string };
+
+export interface SectionParseRequest {
+  filePath: string;
+  /** Name the section is reported under in progress events; defaults to the file path */
+  label?: string;
+  /** Options for this section; defaults to the pool's */
+  options?: OneNoteParsingOptions;
+}
+
+/** The parsed section, or the error it failed with */
+export type SectionParseOutcome = { section: OneNoteSection } | { error: OneNoteError };
+
+interface QueuedSection extends SectionParseRequest {
+  resolve(outcome: SectionParseOutcome): void;
+}
+
+export class OneNoteSectionParserPool {
+  /** One thread per core, leaving a core to the calling thread */
+  static readonly DEFAULT_CONCURRENCY = Math.max(1, os.cpus().length - 1);
+
+  readonly concurrency: number;
+  private readonly queue: QueuedSection[] = [];
+  private readonly idle: Worker[] = [];
+  private readonly workers = new Set<Worker>();
+  /** Password lookups may prompt, so they are asked one at a time */
+  private passwordLookups: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+  private running = 0;
+  private completed = 0;
+  private failed = 0;
+
+  /**
+   * @param options concurrency, timeout and onProgress apply to the pool; the rest are the default section options
+   * @param expectedSections sections the run will queue, reported as the progress total until more are queued
+   */
+  constructor(private readonly options: OneNoteParsingOptions = {}, private readonly expectedSections = 0) {
+    this.concurrency = Math.max(1, Math.floor(options.concurrency ?? OneNoteSectionParserPool.DEFAULT_CONCURRENCY));
+  }
+
+  /**
+   * Queue a section; the promise settles with its outcome and never rejects
+   */
+  parse(request: SectionParseRequest): Promise<SectionParseOutcome> {
+    return new Promise(resolve => {
+      this.queue.push({ ...request, resolve });
+      this.queued++;
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop every worker thread; sections still queued fail
+   */
+  async close(): Promise<void> {
+    for (const section of this.queue.splice(0)) {
+      section.resolve({ error: this.sectionError(section, 'Section parser pool was closed', 'CANCELLED') });
+    }
+    const workers = [...this.workers];
+    this.workers.clear();
+    this.idle.length = 0;
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0 && this.running < this.concurrency) {
+      const worker = this.idle.pop() ?? this.spawn();
+      this.run(worker, this.queue.shift()!);
+    }
+  }
+
+  private run(worker: Worker, section: QueuedSection): void {
+    const options = section.options ?? this.options;
+    let timer: NodeJS.Timeout | undefined;
+    let settled = false;
+
+    const startTimer = () => {
+      if (this.options.timeout) {
+        timer = setTimeout(() => finish({
+          error: this.sectionError(section, `Parsing took longer than ${this.options.timeout} ms`, 'TIMEOUT')
+        }, false), this.options.timeout);
+      }
+    };
+
+    // A worker that failed or timed out may be left in any state, so only one that answered is reused
+    const finish = (outcome: SectionParseOutcome, reusable: boolean) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      worker.removeAllListeners();
+
+      if (reusable && this.workers.has(worker)) {
+        // A thread that dies while idle is dropped rather than handed the next section
+        worker.on('error', () => undefined);
+        worker.once('exit', () => this.forget(worker));
+        worker.unref();
+        this.idle.push(worker);
+      } else {
+        this.workers.delete(worker);
+        void worker.terminate();
+      }
+
+      this.running--;
+      if ('error' in outcome) {
+        this.failed++;
+      } else {
+        this.completed++;
+      }
+      this.report('error' in outcome ? 'failed' : 'completed', section);
+      section.resolve(outcome);
+      this.dispatch();
+    };
+
+    worker.removeAllListeners();
+    worker.on('message', (message: SectionParserResponse) => {
+      if (message.type === 'password') {
+        // Waiting for a password does not count towards the timeout
+        clearTimeout(timer);
+        this.passwordLookups = this.passwordLookups
+          .then(() => options.sectionPassword?.(message.section))
+          .catch(() => undefined)
+          .then(password => {
+            if (!settled) {
+              startTimer();
+              worker.postMessage({ type: 'password', password } satisfies SectionParserRequest);
+            }
+          });
+      } else if (message.type === 'parsed') {
+        finish({ section: message.section }, true);
+      } else {
+        finish({ error: this.sectionError(section, message.message, message.code) }, true);
+      }
+    });
+    worker.on('error', error => finish({ error: this.sectionError(section, `Worker thread crashed: ${error.message}`, 'WORKER_CRASHED') }, false));
+    worker.on('exit', code => finish({ error: this.sectionError(section, `Worker thread exited with code ${code}`, 'WORKER_CRASHED') }, false));
+
+    this.running++;
+    this.report('started', section);
+    worker.ref();
+    startTimer();
+
+    const { sectionPassword, onProgress, concurrency, timeout, ...workerOptions } = options;
+    worker.postMessage({
+      type: 'parse',
+      filePath: section.filePath,
+      options: workerOptions,
+      hasPasswordLookup: sectionPassword !== undefined
+    } satisfies SectionParserRequest);
+  }
+
+  private forget(worker: Worker): void {
+    this.workers.delete(worker);
+    const index = this.idle.indexOf(worker);
+    if (index !== -1) {
+      this.idle.splice(index, 1);
+    }
+  }
+
+  private spawn(): Worker {
+    const extension = path.extname(__filename);
+    const script = path.join(__dirname, `section-parser-worker${extension}`);
+    // Running from the TypeScript sources (ts-node, tests) the worker compiles its modules the same way,
+    // preferring them over any compiled .js files next to them
+    const worker = extension === '.ts'
+      ? new Worker([
+        `require('ts-node').register({ transpileOnly: true, preferTsExts: true });`,
+        `require(${JSON.stringify(script)});`
+      ].join('\n'), { eval: true })
+      : new Worker(script);
+    this.workers.add(worker);
+    return worker;
+  }
+
+  private report(event: OneNoteParseProgress['event'], section: SectionParseRequest): void {
+    this.options.onProgress?.({
+      event,
+      section: section.label ?? section.filePath,
+      total: Math.max(this.expectedSections, this.queued),
+      completed: this.completed,
+      failed: this.failed,
+      running: this.running
+    });
+  }
+
+  private sectionError(section: SectionParseRequest, message: string, code: string): OneNoteError {
+    return new OneNoteError(message, code, { filePath: section.filePath, operation: 'parseSection', recoverable: true });
+  }
+}
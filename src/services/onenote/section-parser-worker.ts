@@ -0,0 +1,43 @@
+/**
+ * Section parser worker thread
+ * Parses the sections the pool sends one at a time and posts each back; password lookups are
+ * answered by the pool, which holds the lookup function
+ */
+
+import { parentPort } from 'worker_threads';
+import { OneNoteError } from './error-utils';
+import { RealOneNoteParserService } from './real-onenote-parser.service';
+import { SectionParserRequest, SectionParserResponse } from './section-parser-pool';
+
+const port = parentPort;
+const parser = new RealOneNoteParserService();
+let answerPassword: ((password: string | undefined) => void) | undefined;
+
+const post = (response: SectionParserResponse) => port?.postMessage(response);
+
+port?.on('message', async (request: SectionParserRequest) => {
+  if (request.type === 'password') {
+    answerPassword?.(request.password);
+    answerPassword = undefined;
+    return;
+  }
+
+  try {
+    const section = await parser.parseOneFile(request.filePath, {
+      ...request.options,
+      ...(request.hasPasswordLookup ? {
+        sectionPassword: protectedSection => new Promise<string | undefined>(resolve => {
+          answerPassword = resolve;
+          post({ type: 'password', section: protectedSection });
+        })
+      } : {})
+    });
+    post({ type: 'parsed', section });
+  } catch (error) {
+    post({
+      type: 'failed',
+      message: error instanceof Error ? error.message : String(error),
+      code: error instanceof OneNoteError ? error.code : 'PARSING_FAILED'
+    });
+  }
+});
@@ -0,0 +1,190 @@
+/**
+ * Block-level page document model
+ * Produced once by the parser and consumed by the converters, previews and the Notion importer
+ */
+
+export interface OneNoteTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  /** Highlight and font colors as #rrggbb */
+  highlight?: string;
+  color?: string;
+  /** Set for runs in a monospace font */
+  code?: boolean;
+  href?: string;
+  /** LaTeX source of a math run; text keeps its linear form */
+  equation?: string;
+}
+
+/** A note tag (To Do, Important, Question, custom tags) on a paragraph */
+export interface OneNoteNoteTag {
+  /** Label of the tag definition */
+  name: string;
+  /** Emoji standing in for the tag's icon */
+  icon?: string;
+  /** NoteTagShape of the tag definition */
+  shape?: number;
+  /** Highlight and font colors the tag applies, as #rrggbb */
+  highlight?: string;
+  color?: string;
+  /** Check state of a check box tag; unset for tags without a check box */
+  checked?: boolean;
+}
+
+export interface OneNoteDocument {
+  /** The page content in reading order */
+  blocks: OneNoteBlock[];
+  /** Where the outlines and pictures sit on the page canvas, for pages with more than one */
+  regions?: OneNoteLayoutRegion[];
+}
+
+/**
+ * An outline, picture or other item placed on the page canvas, at an offset from the page's top-left corner
+ * in CSS pixels
+ */
+export interface OneNoteLayoutRegion {
+  x: number;
+  y: number;
+  width?: number;
+  blocks: OneNoteBlock[];
+}
+
+export interface OneNoteHeadingBlock {
+  type: 'heading';
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  runs: OneNoteTextRun[];
+  tags?: OneNoteNoteTag[];
+}
+
+export interface OneNoteParagraphBlock {
+  type: 'paragraph';
+  runs: OneNoteTextRun[];
+  tags?: OneNoteNoteTag[];
+}
+
+export interface OneNoteListItem {
+  runs: OneNoteTextRun[];
+  /** Blocks indented under the item, including nested lists */
+  children: OneNoteBlock[];
+  tags?: OneNoteNoteTag[];
+}
+
+export interface OneNoteListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: OneNoteListItem[];
+}
+
+export interface OneNoteTableCell {
+  blocks: OneNoteBlock[];
+  colSpan?: number;
+  rowSpan?: number;
+}
+
+export interface OneNoteTableRow {
+  cells: OneNoteTableCell[];
+}
+
+export interface OneNoteTableBlock {
+  type: 'table';
+  /** The first row is treated as the header row */
+  rows: OneNoteTableRow[];
+}
+
+export interface OneNoteImageBlock {
+  type: 'image';
+  /** Path or URL of the image data */
+  src?: string;
+  /** Original file name of the picture */
+  name?: string;
+  /** Alt text given to the picture in OneNote, or else the text OneNote recognized in it */
+  alt?: string;
+  /** Text OneNote recognized in the picture or printout page */
+  ocrText?: string;
+  mimeType?: string;
+  /** Size and offset from the containing outline or page, in CSS pixels */
+  width?: number;
+  height?: number;
+  x?: number;
+  y?: number;
+  /** Set when the picture is a printout page of an attached file */
+  printout?: OneNotePrintout;
+}
+
+export interface OneNotePrintout {
+  /** Name and path or URL of the attached file the page was printed from */
+  name: string;
+  src?: string;
+  /** 1-based page number within the file */
+  page?: number;
+}
+
+export interface OneNoteFileBlock {
+  type: 'file';
+  name: string;
+  /** Path or URL of the file data */
+  src?: string;
+  size?: number;
+  mimeType?: string;
+  /** Path the file was originally inserted from */
+  sourcePath?: string;
+  /** Set when the file is an audio or video recording made in OneNote */
+  recording?: OneNoteRecording;
+}
+
+export interface OneNoteRecording {
+  kind: 'audio' | 'video';
+  /** Length in seconds */
+  duration?: number;
+  recordedAt?: Date;
+}
+
+export interface OneNoteTodoBlock {
+  type: 'todo';
+  checked: boolean;
+  runs: OneNoteTextRun[];
+  /** Every tag on the item, including the check box tag it was made from */
+  tags?: OneNoteNoteTag[];
+}
+
+export interface OneNoteCodeBlock {
+  type: 'code';
+  language?: string;
+  text: string;
+}
+
+export interface OneNoteEquationBlock {
+  type: 'equation';
+  /** LaTeX source */
+  expression: string;
+}
+
+export interface OneNoteDividerBlock {
+  type: 'divider';
+}
+
+/**
+ * Outlines that sit side by side on the page, one column each; made by the layout resolver, never by the parser
+ */
+export interface OneNoteColumnsBlock {
+  type: 'columns';
+  columns: OneNoteBlock[][];
+}
+
+export type OneNoteBlock =
+  | OneNoteHeadingBlock
+  | OneNoteParagraphBlock
+  | OneNoteListBlock
+  | OneNoteTableBlock
+  | OneNoteImageBlock
+  | OneNoteFileBlock
+  | OneNoteTodoBlock
+  | OneNoteCodeBlock
+  | OneNoteEquationBlock
+  | OneNoteDividerBlock
+  | OneNoteColumnsBlock;
@@ -1,83 +1,9 @@
 // OneNote related types
 export * from './onenote';
+export * from './document';
 
-export interface OneNoteNotebook {
-  id: string;
-  name: string;
-  sections: OneNoteSection[];
-  createdTime: Date;
-  lastModifiedTime: Date;
-}
-
-export interface OneNoteSection {
-  id: string;
-  name: string;
-  pages: OneNotePage[];
-  createdTime: Date;
-  lastModifiedTime: Date;
-}
-
-export interface OneNotePage {
-  id: string;
-  name: string;
-  content: OneNoteContent;
-  createdTime: Date;
-  lastModifiedTime: Date;
-  tags?: string[];
-}
-
-export interface OneNoteContent {
-  text: string;
-  images: OneNoteImage[];
-  attachments: OneNoteAttachment[];
-  tables: OneNoteTable[];
-  lists: OneNoteList[];
-}
-
-export interface OneNoteImage {
-  id: string;
-  name: string;
-  path: string;
-  width?: number;
-  height?: number;
-  alt?: string;
-}
-
-export interface OneNoteAttachment {
-  id: string;
-  name: string;
-  path: string;
-  size: number;
-  mimeType: string;
-}
-
-export interface OneNoteTable {
-  id: string;
-  rows: OneNoteTableRow[];
-  columns: number;
-}
-
-export interface OneNoteTableRow {
-  cells: OneNoteTableCell[];
-}
-
-export interface OneNoteTableCell {
-  content: string;
-  colspan?: number;
-  rowspan?: number;
-}
-
-export interface OneNoteList {
-  id: string;
-  type: 'ordered' | 'unordered';
-  items: OneNoteListItem[];
-}
-
-export interface OneNoteListItem {
-  text: string;
-  level: number;
-  children?: OneNoteListItem[];
-}
+import { OneNoteImageBlock } from './document';
+import { OneNoteNotebook, OneNotePage } from './onenote';
 
 // Notion related types
 export interface NotionPage {
@@ -168,6 +94,6 @@ export interface ConversionService {
 
 export interface NotionService {
   createPage(page: NotionPage, workspaceId: string, databaseId?: string): Promise<string>;
-  uploadImage(image: OneNoteImage): Promise<NotionImage>;
+  uploadImage(image: OneNoteImageBlock): Promise<NotionImage>;
   createDatabase(workspaceId: string, name: string): Promise<string>;
 }
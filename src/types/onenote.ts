@@ -2,6 +2,8 @@
  * OneNote file format types and interfaces
  */
 
+import { OneNoteDocument } from './document';
+
 export interface OneNotePage {
   id: string;
   title: string;
@@ -9,6 +11,26 @@ export interface OneNotePage {
   createdDate: Date;
   lastModifiedDate: Date;
   metadata: Record<string, any>;
+  /** Structured page body; content holds the same page rendered as markdown */
+  document?: OneNoteDocument;
+  /** Page indentation level: 1 for a top-level page, 2 and 3 for subpages of the preceding page */
+  level?: number;
+  /** Earlier versions of the page, oldest first; only read when revisions are requested */
+  revisions?: OneNotePageRevision[];
+}
+
+/**
+ * An earlier version of a page kept in the section's revision store
+ */
+export interface OneNotePageRevision {
+  /** Revision ID within the page object space */
+  id: string;
+  title: string;
+  /** The version's document rendered as markdown */
+  content: string;
+  document: OneNoteDocument;
+  lastModifiedDate: Date;
+  author?: string;
 }
 
 export interface OneNoteSection {
@@ -18,12 +40,27 @@ export interface OneNoteSection {
   createdDate: Date;
   lastModifiedDate: Date;
   metadata: Record<string, any>;
+  /** Section tab color from the notebook's table of contents, as #rrggbb */
+  color?: string;
+}
+
+export interface OneNoteSectionGroup {
+  id: string;
+  name: string;
+  sections: OneNoteSection[];
+  sectionGroups: OneNoteSectionGroup[];
+  createdDate: Date;
+  lastModifiedDate: Date;
+  metadata: Record<string, any>;
+  color?: string;
 }
 
 export interface OneNoteNotebook {
   id: string;
   name: string;
+  /** Sections directly under the notebook; sections inside groups live in sectionGroups */
   sections: OneNoteSection[];
+  sectionGroups?: OneNoteSectionGroup[];
   createdDate: Date;
   lastModifiedDate: Date;
   metadata: Record<string, any>;
@@ -36,6 +73,50 @@ export interface OneNoteHierarchy {
   totalPages: number;
 }
 
+/**
+ * Where a streamed section sits; the notebook and section groups carry no sections or pages of their own
+ */
+export interface OneNoteStreamLocation {
+  notebook: OneNoteNotebook;
+  /** Section groups from the notebook down to the section */
+  sectionGroups: OneNoteSectionGroup[];
+  /** The section being read; its pages are yielded one at a time rather than collected here */
+  section: OneNoteSection;
+}
+
+/**
+ * A file, or a section of a package or notebook folder, that could not be read; reading goes on with the next one
+ */
+export interface OneNoteStreamFailure {
+  type: 'failed';
+  /** File path of the input, or package entry of the section */
+  source: string;
+  error: string;
+}
+
+/**
+ * One step of reading a file page by page: each section is announced before its pages
+ */
+export type OneNoteStreamItem =
+  | OneNoteStreamLocation & { type: 'section' }
+  | OneNoteStreamLocation & { type: 'page'; page: OneNotePage }
+  | OneNoteStreamFailure;
+
+/**
+ * A notebook kept as a folder of section files, as OneNote and OneDrive store it on disk; subfolders are
+ * section groups and .onetoc2 files give the order of their folder's sections
+ */
+export interface OneNoteNotebookFolder {
+  directory: string;
+  /** The .one and .onetoc2 files in the folder and its subfolders that belong to the notebook */
+  files: string[];
+}
+
+/**
+ * A file to read (.onepkg, .one or .mht) or a notebook folder
+ */
+export type OneNoteInput = string | OneNoteNotebookFolder;
+
 export interface OneNoteExtractionResult {
   success: boolean;
   hierarchy?: OneNoteHierarchy;
@@ -46,10 +127,69 @@ export interface OneNoteExtractionResult {
 export interface OneNoteParsingOptions {
   includeMetadata?: boolean;
   extractImages?: boolean;
+  extractAttachments?: boolean;
+  /** Render ink strokes to SVG pictures; false drops ink from the page */
+  extractInk?: boolean;
+  /** Extract audio and video recordings; false drops recordings from the page */
+  extractRecordings?: boolean;
+  /** Size cap in bytes: larger recordings are kept on the page without their data */
+  maxRecordingSize?: number;
+  /** Read earlier versions of each page from the revision store into page.revisions */
+  includeRevisions?: boolean;
+  /** Directory extracted images, attachments and ink are written to; defaults to a shared temp directory */
+  assetsDirectory?: string;
+  /** Supplies the password of a protected section; sections left without one are skipped and reported */
+  sectionPassword?: (section: OneNoteProtectedSection) => string | undefined | Promise<string | undefined>;
   preserveFormatting?: boolean;
   fallbackOnError?: boolean;
+  /**
+   * Read damaged sections as far as they go: unreadable file node lists, pages and objects are skipped, pages
+   * missing part of their content get metadata.partiallyRecovered, and the section lists what was lost in
+   * metadata.salvage instead of failing as a whole
+   */
+  salvage?: boolean;
+  /** Memory ceiling in bytes: larger sections are read from disk as needed instead of whole */
   maxFileSize?: number;
+  /** Sections parsed at once in worker threads; when unset sections are parsed one by one on the calling thread */
+  concurrency?: number;
+  /** Milliseconds a section may spend in a worker thread before it is stopped and reported as failed */
   timeout?: number;
+  /** Called as sections start and finish in worker threads, with counts for the whole run */
+  onProgress?: (progress: OneNoteParseProgress) => void;
+}
+
+export interface OneNoteParseProgress {
+  event: 'started' | 'completed' | 'failed';
+  /** Package entry or file path of the section the event is about */
+  section: string;
+  /** Sections in the run, including those not started yet */
+  total: number;
+  completed: number;
+  failed: number;
+  /** Sections being parsed right now */
+  running: number;
+}
+
+/**
+ * Something a salvage parse could not recover from a damaged section
+ */
+export interface OneNoteSalvageLoss {
+  /**
+   * structure: a file node list or object space of the store; page: a whole page; content: part of a page;
+   * asset: the data of a picture or attachment
+   */
+  kind: 'structure' | 'page' | 'content' | 'asset';
+  /** Title of the page the loss belongs to, when known */
+  page?: string;
+  reason: string;
+}
+
+export interface OneNoteProtectedSection {
+  /** Section file name without its extension */
+  name: string;
+  filePath: string;
+  /** Path of the section inside its .onepkg package or notebook folder, using forward slashes */
+  packageEntry?: string;
 }
 
 export interface OneNoteDisplayOptions {
@@ -57,18 +197,23 @@ export interface OneNoteDisplayOptions {
   showContent?: boolean;
   maxDepth?: number;
   includeEmptySections?: boolean;
-  sortBy?: 'name' | 'date' | 'size';
+  /** Section order; 'notebook' keeps the order of the notebook's table of contents */
+  sortBy?: 'notebook' | 'name' | 'date' | 'size';
   outputFormat?: 'tree' | 'json' | 'table';
 }
 
 export interface OneNoteFileInfo {
   path: string;
-  type: 'onepkg' | 'one';
+  type: 'onepkg' | 'one' | 'mht';
   size: number;
   isValid: boolean;
   lastModified: Date;
   checksum?: string;
   encoding?: string;
+  /** Set when the file is, or contains, a password protected section */
+  encrypted?: boolean;
+  /** Things to know before importing the file, such as sections in the OneNote 2007 format */
+  warnings?: string[];
 }
 
 export interface OneNoteProcessingResult {
@@ -85,4 +230,6 @@ export interface OneNoteValidationResult {
   errors: string[];
   warnings: string[];
   fileInfo: OneNoteFileInfo;
+  /** Password protected sections, by package entry path or file path; they are skipped unless a password is supplied */
+  protectedSections?: string[];
 }
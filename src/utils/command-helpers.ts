@@ -1,5 +1,40 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Writable } from 'stream';
 import { logger } from './logger';
-import { ConfigService } from '../services/config.service';
+import { BatchOperations } from '../commands/batch-operations';
+import { ConfigService, OneNoteConfig } from '../services/config.service';
+import { OneNoteDocumentRenderer } from '../services/onenote/document-renderer';
+import { OneNoteGraphSource } from '../services/onenote/graph-source';
+import { OneNoteLayoutMode } from '../services/onenote/layout-resolver';
+import {
+  OneNoteInput,
+  OneNotePage,
+  OneNoteParsingOptions,
+  OneNoteProtectedSection,
+  OneNoteSalvageLoss,
+  OneNoteSection,
+  OneNoteStreamFailure,
+  OneNoteStreamItem
+} from '../types/onenote';
+
+const SKIP_REASONS: Record<string, string> = {
+  'password-required': 'no password was supplied (use --password-file or a "passwords" entry in .onirc)',
+  'invalid-password': 'the supplied password was rejected',
+  'unsupported-encryption': 'its encryption method is not supported',
+  'unreadable-encryption': 'its encryption info is damaged and cannot be read'
+};
+
+/**
+ * Sections and pages read from one notebook
+ */
+export interface NotebookTally {
+  name: string;
+  sections: number;
+  pages: number;
+}
 
 /**
  * Common command utilities to reduce duplication across commands
@@ -26,8 +61,8 @@ export class CommandHelpers {
   /**
    * Validates that a required file path is provided
    */
-  static validateFilePath(filePath: string | undefined, commandName: string): void {
-    if (!filePath) {
+  static validateFilePath(filePath: string | string[] | undefined, commandName: string): void {
+    if (!filePath || filePath.length === 0) {
       const errorMessage = `OneNote file path is required. Use -f or --file option.`;
       logger.error(errorMessage);
       throw new Error(errorMessage);
@@ -70,6 +105,308 @@ export class CommandHelpers {
     logger.info(`${processName} process completed successfully!`);
   }
 
+  /**
+   * Creates the password lookup for protected sections: .onirc entries by package path, section name or
+   * file name first, then the --password-file contents, then a prompt when running in a terminal
+   */
+  static createPasswordResolver(
+    options: { passwordFile?: string; passwordPrompt?: boolean },
+    passwords: Record<string, string> = {}
+  ): (section: OneNoteProtectedSection) => Promise<string | undefined> {
+    let filePassword: string | undefined;
+    if (options.passwordFile) {
+      if (!fs.existsSync(options.passwordFile)) {
+        const errorMessage = `Password file not found: ${options.passwordFile}`;
+        logger.error(errorMessage);
+        throw new Error(errorMessage);
+      }
+      filePassword = fs.readFileSync(options.passwordFile, 'utf8').trim() || undefined;
+    }
+
+    const normalize = (key: string) => key.replace(/\\/g, '/');
+    const configured = new Map(Object.entries(passwords).map(([key, password]) => [normalize(key), password]));
+
+    return async (section) => {
+      const keys = [section.packageEntry, section.name, path.basename(section.filePath), section.filePath];
+      for (const key of keys) {
+        const password = key ? configured.get(normalize(key)) : undefined;
+        if (password) {
+          return password;
+        }
+      }
+
+      if (filePassword) {
+        return filePassword;
+      }
+
+      if (options.passwordPrompt !== false && process.stdin.isTTY) {
+        const answer = await CommandHelpers.promptPassword(
+          `Password for protected section "${section.packageEntry ?? section.name}" (leave empty to skip): `
+        );
+        return answer || undefined;
+      }
+
+      return undefined;
+    };
+  }
+
+  /**
+   * Creates the worker thread settings for parsing sections: --concurrency, then onenote.concurrency;
+   * onenote.timeout per section; and progress logged as each section finishes. Without a concurrency above 1
+   * sections are read page by page on the main thread, which holds the least in memory
+   */
+  static createParsingPoolOptions(
+    options: { concurrency?: string },
+    config: OneNoteConfig = {}
+  ): Pick<OneNoteParsingOptions, 'concurrency' | 'timeout' | 'onProgress'> {
+    // Values set with "oni config set" are stored as strings
+    const setting = options.concurrency ?? config.concurrency;
+    const concurrency = Number(setting ?? 1);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      const errorMessage = `Concurrency must be a whole number of at least 1, got: ${setting}`;
+      logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    const timeout = Number(config.timeout);
+    return {
+      ...(concurrency > 1 ? { concurrency } : {}),
+      ...(timeout > 0 ? { timeout } : {}),
+      onProgress: progress => {
+        if (progress.event === 'started') {
+          logger.debug(`Parsing section: ${progress.section}`);
+          return;
+        }
+        const failed = progress.failed > 0 ? ` (${progress.failed} failed)` : '';
+        logger.info(`Parsed ${progress.completed + progress.failed}/${progress.total} sections${failed}`);
+      }
+    };
+  }
+
+  /**
+   * Creates a temporary directory for the images, attachments and ink extracted during this run; it is removed
+   * when the process exits, whether the command succeeded, failed or was stopped with Ctrl-C or a kill
+   */
+  static createAssetsDirectory(): string {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-assets-'));
+    const remove = () => fs.rmSync(directory, { recursive: true, force: true });
+    process.once('exit', remove);
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      // Listening for a signal stops it ending the process, so it is raised again once the directory is gone
+      process.once(signal, () => {
+        remove();
+        process.kill(process.pid, signal);
+      });
+    }
+    return directory;
+  }
+
+  /**
+   * Deletes the files a page and its earlier versions were extracted to in the assets directory, once the page
+   * has been uploaded; a later page using the same file extracts it again
+   */
+  static removePageAssets(page: OneNotePage, assetsDirectory: string): void {
+    const documents = [page.document, ...(page.revisions ?? []).map(revision => revision.document)];
+    for (const document of documents) {
+      for (const block of document ? OneNoteDocumentRenderer.flattenBlocks(document.blocks) : []) {
+        if ((block.type === 'image' || block.type === 'file') && block.src
+          && path.dirname(path.resolve(block.src)) === path.resolve(assetsDirectory)) {
+          fs.rmSync(block.src, { force: true });
+        }
+      }
+    }
+  }
+
+  /**
+   * Creates the recording settings from --no-recordings and --max-recording-size, given in megabytes
+   */
+  static createRecordingOptions(
+    options: { recordings?: boolean; maxRecordingSize?: string }
+  ): Pick<OneNoteParsingOptions, 'extractRecordings' | 'maxRecordingSize'> {
+    if (options.maxRecordingSize === undefined) {
+      return { extractRecordings: options.recordings !== false };
+    }
+
+    const megabytes = Number(options.maxRecordingSize);
+    if (!(megabytes > 0)) {
+      const errorMessage = `Maximum recording size must be a positive number of megabytes, got: ${options.maxRecordingSize}`;
+      logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+    return { extractRecordings: options.recordings !== false, maxRecordingSize: Math.floor(megabytes * 1024 * 1024) };
+  }
+
+  /**
+   * Reads the --layout mode, flat unless columns is asked for
+   */
+  static getLayoutMode(options: { layout?: string }): OneNoteLayoutMode {
+    const layout = options.layout ?? 'flat';
+    if (layout !== 'flat' && layout !== 'columns') {
+      const errorMessage = `Layout must be flat or columns, got: ${layout}`;
+      logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+    return layout;
+  }
+
+  /**
+   * Creates the Microsoft Graph source for --graph, with the access token from --graph-token-file or the
+   * GRAPH_ACCESS_TOKEN environment variable and the notebooks named in --notebooks; undefined without --graph
+   */
+  static createGraphSource(
+    options: { graph?: boolean; graphTokenFile?: string; graphUrl?: string; notebooks?: string }
+  ): OneNoteGraphSource | undefined {
+    if (!options.graph) {
+      return undefined;
+    }
+
+    let accessToken = process.env.GRAPH_ACCESS_TOKEN?.trim();
+    if (options.graphTokenFile) {
+      if (!fs.existsSync(options.graphTokenFile)) {
+        const errorMessage = `Graph token file not found: ${options.graphTokenFile}`;
+        logger.error(errorMessage);
+        throw new Error(errorMessage);
+      }
+      accessToken = fs.readFileSync(options.graphTokenFile, 'utf8').trim();
+    }
+    if (!accessToken) {
+      const errorMessage = 'Microsoft Graph access token is required. Use --graph-token-file or set GRAPH_ACCESS_TOKEN.';
+      logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    const notebooks = options.notebooks?.split(',').map(name => name.trim()).filter(Boolean);
+    return new OneNoteGraphSource({
+      accessToken,
+      ...(options.graphUrl ? { baseUrl: options.graphUrl } : {}),
+      ...(notebooks?.length ? { notebooks } : {})
+    });
+  }
+
+  /**
+   * Resolves --file values (files, folders and glob patterns) into the files and notebook folders to read
+   */
+  static async resolveInputs(filePaths: string[]): Promise<OneNoteInput[]> {
+    const resolution = await new BatchOperations().resolveInputs(filePaths);
+    if (!resolution.success) {
+      const errorMessage = resolution.error || 'Failed to resolve input files';
+      logger.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    const folders = resolution.inputs.filter(input => typeof input !== 'string').length;
+    if (folders > 0) {
+      logger.info(`Found ${folders} notebook folder(s) and ${resolution.inputs.length - folders} file(s)`);
+    }
+    for (const input of resolution.inputs) {
+      logger.debug(typeof input === 'string' ? `Input file: ${input}` : `Notebook folder: ${input.directory} (${input.files.length} files)`);
+    }
+    return resolution.inputs;
+  }
+
+  /**
+   * Counts a streamed section or page towards its notebook
+   */
+  static tallyNotebook(tally: Map<string, NotebookTally>, item: OneNoteStreamItem): void {
+    if (item.type === 'failed') {
+      return;
+    }
+    let notebook = tally.get(item.notebook.id);
+    if (!notebook) {
+      notebook = { name: item.notebook.name, sections: 0, pages: 0 };
+      tally.set(item.notebook.id, notebook);
+    }
+    if (item.type === 'section') {
+      notebook.sections++;
+    } else {
+      notebook.pages++;
+    }
+  }
+
+  /**
+   * Logs how many notebooks were read and, when there were several, the sections and pages of each
+   */
+  static reportNotebooks(tally: Map<string, NotebookTally>): void {
+    logger.info(`Successfully processed ${tally.size} notebook(s)`);
+    if (tally.size > 1) {
+      for (const notebook of tally.values()) {
+        logger.info(`- ${notebook.name}: ${notebook.sections} section(s), ${notebook.pages} page(s)`);
+      }
+    }
+  }
+
+  /**
+   * Asks for a password on the terminal without echoing it
+   */
+  static promptPassword(question: string): Promise<string> {
+    process.stdout.write(question);
+    const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+    const prompt = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+
+    return new Promise(resolve => {
+      prompt.question('', answer => {
+        prompt.close();
+        process.stdout.write('\n');
+        resolve(answer);
+      });
+    });
+  }
+
+  /**
+   * Logs a warning for every protected section that was skipped and returns their count
+   */
+  static reportProtectedSections(sections: OneNoteSection[]): number {
+    const skipped = sections.filter(section => section.metadata.skipped);
+
+    for (const section of skipped) {
+      const reason = SKIP_REASONS[section.metadata.skipped] ?? section.metadata.skipped;
+      logger.warn(`Skipped password protected section "${section.metadata.packageEntry ?? section.name}": ${reason}`);
+    }
+    return skipped.length;
+  }
+
+  /**
+   * Logs an error for every file or section that could not be read and returns their count
+   */
+  static reportFailures(failures: OneNoteStreamFailure[]): number {
+    for (const failure of failures) {
+      logger.error(`Could not read "${failure.source}": ${failure.error}`);
+    }
+    return failures.length;
+  }
+
+  /**
+   * Logs a warning for every part of a damaged section that salvage mode could not recover, writes the same
+   * list to a JSON report when a report path is given, and returns the number of losses
+   */
+  static reportSalvage(sections: OneNoteSection[], reportPath?: string): number {
+    const damaged = sections
+      .filter(section => section.metadata.salvage?.length)
+      .map(section => ({
+        section: section.metadata.packageEntry ?? section.name,
+        filePath: section.metadata.filePath,
+        losses: section.metadata.salvage as OneNoteSalvageLoss[]
+      }));
+
+    for (const { section, losses } of damaged) {
+      logger.warn(`Salvaged damaged section "${section}", ${losses.length} part(s) could not be recovered:`);
+      for (const loss of losses) {
+        logger.warn(`- ${loss.kind}${loss.page ? ` on page "${loss.page}"` : ''}: ${loss.reason}`);
+      }
+    }
+
+    if (reportPath) {
+      fs.writeFileSync(reportPath, JSON.stringify({
+        createdDate: new Date().toISOString(),
+        sectionsRead: sections.length,
+        damagedSections: damaged.length,
+        sections: damaged
+      }, null, 2));
+      logger.info(`Salvage report saved to: ${reportPath}`);
+    }
+    return damaged.reduce((count, { losses }) => count + losses.length, 0);
+  }
+
   /**
    * Logs dry run mode
    */
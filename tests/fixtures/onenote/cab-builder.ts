@@ -0,0 +1,79 @@
+/**
+ * Builds single-folder cabinet archives for .onepkg tests
+ */
+
+import * as zlib from 'zlib';
+
+export interface CabinetFileSpec {
+  name: string;
+  data: Buffer;
+}
+
+const BLOCK_SIZE = 32768;
+
+/**
+ * Build a cabinet with every file in one folder, either stored or MSZIP-compressed
+ */
+export function buildCabinet(files: CabinetFileSpec[], compression: 'none' | 'mszip' = 'mszip'): Buffer {
+  const folderData = Buffer.concat(files.map(file => file.data));
+
+  const dataBlocks: Buffer[] = [];
+  for (let offset = 0; offset < folderData.length || (offset === 0 && dataBlocks.length === 0); offset += BLOCK_SIZE) {
+    const block = folderData.subarray(offset, offset + BLOCK_SIZE);
+    let payload = block;
+
+    if (compression === 'mszip') {
+      const history = folderData.subarray(Math.max(0, offset - BLOCK_SIZE), offset);
+      const deflated = zlib.deflateRawSync(block, history.length > 0 ? { dictionary: history } : {});
+      payload = Buffer.concat([Buffer.from('CK', 'ascii'), deflated]);
+    }
+
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(0, 0);
+    header.writeUInt16LE(payload.length, 4);
+    header.writeUInt16LE(block.length, 6);
+    dataBlocks.push(Buffer.concat([header, payload]));
+
+    if (folderData.length === 0) {
+      break;
+    }
+  }
+
+  const fileEntries: Buffer[] = [];
+  let folderOffset = 0;
+  for (const file of files) {
+    const name = Buffer.from(`${file.name.replace(/\//g, '\\')}\0`, 'utf8');
+    const entry = Buffer.alloc(16);
+    entry.writeUInt32LE(file.data.length, 0);
+    entry.writeUInt32LE(folderOffset, 4);
+    entry.writeUInt16LE(0, 8);
+    entry.writeUInt16LE(((2024 - 1980) << 9) | (3 << 5) | 15, 10);
+    entry.writeUInt16LE((12 << 11) | (30 << 5), 12);
+    entry.writeUInt16LE(0x80, 14);
+    fileEntries.push(Buffer.concat([entry, name]));
+    folderOffset += file.data.length;
+  }
+
+  const headerSize = 36;
+  const folderSize = 8;
+  const filesOffset = headerSize + folderSize;
+  const fileTable = Buffer.concat(fileEntries);
+  const dataOffset = filesOffset + fileTable.length;
+  const data = Buffer.concat(dataBlocks);
+
+  const header = Buffer.alloc(headerSize);
+  header.write('MSCF', 0, 'ascii');
+  header.writeUInt32LE(dataOffset + data.length, 8);
+  header.writeUInt32LE(filesOffset, 16);
+  header.writeUInt8(3, 24);
+  header.writeUInt8(1, 25);
+  header.writeUInt16LE(1, 26);
+  header.writeUInt16LE(files.length, 28);
+
+  const folder = Buffer.alloc(folderSize);
+  folder.writeUInt32LE(dataOffset, 0);
+  folder.writeUInt16LE(dataBlocks.length, 4);
+  folder.writeUInt16LE(compression === 'mszip' ? 1 : 0, 6);
+
+  return Buffer.concat([header, folder, fileTable, data]);
+}
@@ -0,0 +1,65 @@
+/**
+ * Builds the container headers of audio and video recordings for media metadata tests
+ */
+
+import { encodeGuid } from '../../../src/services/onenote/onestore/binary-reader';
+
+export interface RecordingSpec {
+  /** Length in seconds */
+  duration: number;
+  recordedAt: Date;
+}
+
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000n;
+const MP4_EPOCH_MS = Date.UTC(1904, 0, 1);
+
+function asfObject(guid: string, body: Buffer): Buffer {
+  const size = Buffer.alloc(8);
+  size.writeBigUInt64LE(BigInt(24 + body.length));
+  return Buffer.concat([encodeGuid(guid), size, body]);
+}
+
+/**
+ * Build an ASF (.wma, .wmv) header object holding a stream properties placeholder and the file properties
+ * object, followed by an empty data object
+ */
+export function buildAsfRecording(spec: RecordingSpec, prerollMs = 3000): Buffer {
+  const fileProperties = Buffer.alloc(80);
+  fileProperties.writeBigUInt64LE((BigInt(spec.recordedAt.getTime()) + FILETIME_EPOCH_OFFSET_MS) * 10000n, 24);
+  fileProperties.writeBigUInt64LE(BigInt(Math.round((spec.duration * 1000 + prerollMs) * 10000)), 40);
+  fileProperties.writeBigUInt64LE(BigInt(prerollMs), 56);
+
+  const objects = [
+    asfObject('{B7DC0791-A9B7-11CF-8EE6-00C00C205365}', Buffer.alloc(54)),
+    asfObject('{8CABDCA1-A947-11CF-8EE4-00C00C205365}', fileProperties)
+  ];
+  const header = Buffer.alloc(6);
+  header.writeUInt32LE(objects.length, 0);
+  header.writeUInt16LE(0x0201, 4);
+  return Buffer.concat([
+    asfObject('{75B22630-668E-11CF-A6D9-00AA0062CE6C}', Buffer.concat([header, ...objects])),
+    asfObject('{75B22636-668E-11CF-A6D9-00AA0062CE6C}', Buffer.alloc(26))
+  ]);
+}
+
+function mp4Box(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Build an MP4 (.m4a, .mp4) file with its movie header after the media data, as recorders write it
+ */
+export function buildMp4Recording(spec: RecordingSpec, timeScale = 44100): Buffer {
+  const mvhd = Buffer.alloc(100);
+  mvhd.writeUInt32BE(Math.round((spec.recordedAt.getTime() - MP4_EPOCH_MS) / 1000), 4);
+  mvhd.writeUInt32BE(timeScale, 12);
+  mvhd.writeUInt32BE(Math.round(spec.duration * timeScale), 16);
+  return Buffer.concat([
+    mp4Box('ftyp', Buffer.from('M4A \0\0\0\0M4A mp42', 'latin1')),
+    mp4Box('mdat', Buffer.alloc(64)),
+    mp4Box('moov', mp4Box('mvhd', mvhd))
+  ]);
+}
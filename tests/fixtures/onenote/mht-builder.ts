@@ -0,0 +1,49 @@
+/**
+ * Builds single file web pages (.mht) like the ones OneNote exports pages and sections as
+ */
+
+export interface MhtPartSpec {
+  contentType: string;
+  location?: string;
+  contentId?: string;
+  /** Text parts are written quoted-printable, binary parts base64 */
+  data: string | Buffer;
+}
+
+const BOUNDARY = '----=_NextPart_01DA6E1F.3C2B4A50';
+
+function quotedPrintable(text: string): string {
+  const encoded = Buffer.from(text, 'utf8').toString('latin1')
+    .replace(/[=\u0080-\u00FF]/g, char => `=${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  // Lines are folded with soft line breaks between escapes, as mail writers do
+  return encoded.split('\n').map(line => line.match(/(?:=[0-9A-F]{2}|[^=]){1,72}/g)?.join('=\r\n') ?? '').join('\r\n');
+}
+
+/**
+ * Build a multipart/related archive of the given parts, the first being the page
+ */
+export function buildMhtArchive(parts: MhtPartSpec[]): Buffer {
+  const lines = [
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/related; boundary="${BOUNDARY}"`,
+    '',
+    'This document is a Single File Web Page, also known as a Web Archive file.',
+    ''
+  ];
+
+  for (const part of parts) {
+    const text = typeof part.data === 'string';
+    lines.push(
+      `--${BOUNDARY}`,
+      ...(part.location ? [`Content-Location: ${part.location}`] : []),
+      ...(part.contentId ? [`Content-ID: <${part.contentId}>`] : []),
+      `Content-Transfer-Encoding: ${text ? 'quoted-printable' : 'base64'}`,
+      `Content-Type: ${part.contentType}${text ? '; charset="utf-8"' : ''}`,
+      '',
+      typeof part.data === 'string' ? quotedPrintable(part.data) : part.data.toString('base64').replace(/.{76}/g, '$&\r\n')
+    );
+  }
+  lines.push(`--${BOUNDARY}--`, '');
+
+  return Buffer.from(lines.join('\r\n'), 'latin1');
+}
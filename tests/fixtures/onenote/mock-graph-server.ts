@@ -0,0 +1,153 @@
+/**
+ * A local stand-in for the OneNote API of Microsoft Graph, serving notebooks, section groups, sections,
+ * page HTML and resources from a spec
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockGraphPage {
+  id: string;
+  title: string;
+  /** Indentation from 0, as Graph reports it */
+  level?: number;
+  createdDateTime?: string;
+  /** Page HTML; {base} is replaced by the server's v1.0 URL */
+  html: string;
+}
+
+export interface MockGraphSection {
+  id: string;
+  displayName: string;
+  pages: MockGraphPage[];
+}
+
+export interface MockGraphSectionGroup {
+  id: string;
+  displayName: string;
+  sections?: MockGraphSection[];
+  sectionGroups?: MockGraphSectionGroup[];
+}
+
+export interface MockGraphNotebook extends MockGraphSectionGroup {}
+
+export interface MockGraphSpec {
+  notebooks: MockGraphNotebook[];
+  /** Resource data by ID, served at {base}/me/onenote/resources/<id>/$value */
+  resources?: Record<string, { contentType: string; data: Buffer }>;
+  token?: string;
+  /** Collections are split into pages of this many items, linked with @odata.nextLink */
+  pageSize?: number;
+  /** Requests answered with 429 Too Many Requests before the server starts answering */
+  throttle?: number;
+  /** Paths answered with 500 Internal Server Error */
+  failing?: string[];
+}
+
+export interface MockGraphServer {
+  /** The v1.0 endpoint to give the source */
+  baseUrl: string;
+  /** Paths of the requests received, query included */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+export async function startMockGraphServer(spec: MockGraphSpec): Promise<MockGraphServer> {
+  const token = spec.token ?? 'test-token';
+  const requests: string[] = [];
+  let throttle = spec.throttle ?? 0;
+  let baseUrl = '';
+
+  const groups = new Map<string, MockGraphSectionGroup>();
+  const sections = new Map<string, MockGraphSection>();
+  const pages = new Map<string, MockGraphPage>();
+  const index = (group: MockGraphSectionGroup) => {
+    groups.set(group.id, group);
+    group.sections?.forEach(section => {
+      sections.set(section.id, section);
+      section.pages.forEach(page => pages.set(page.id, page));
+    });
+    group.sectionGroups?.forEach(index);
+  };
+  spec.notebooks.forEach(index);
+
+  const entity = (item: { id: string; displayName: string }) => ({
+    id: item.id,
+    displayName: item.displayName,
+    createdDateTime: '2024-03-01T09:00:00Z',
+    lastModifiedDateTime: '2024-03-02T09:00:00Z'
+  });
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url ?? '/', baseUrl);
+    requests.push(`${url.pathname}${url.search}`);
+    const send = (status: number, body: string | Buffer, contentType = 'application/json', headers: Record<string, string> = {}) => {
+      response.writeHead(status, { 'Content-Type': contentType, ...headers });
+      response.end(body);
+    };
+
+    if (request.headers.authorization !== `Bearer ${token}`) {
+      send(401, JSON.stringify({ error: { code: '40001', message: 'The request does not contain a valid authentication token.' } }));
+      return;
+    }
+    if (throttle > 0) {
+      throttle--;
+      send(429, JSON.stringify({ error: { code: '20166', message: 'Too many requests' } }), 'application/json', { 'Retry-After': '0' });
+      return;
+    }
+
+    const path = decodeURIComponent(url.pathname.replace(/^\/v1\.0/, ''));
+    if (spec.failing?.includes(path)) {
+      send(500, JSON.stringify({ error: { code: '20001', message: 'Internal error' } }));
+      return;
+    }
+
+    const collection = (items: object[]) => {
+      const skip = Number(url.searchParams.get('$skip') ?? 0);
+      const size = spec.pageSize ?? items.length;
+      const next = new URL(url.href);
+      next.searchParams.set('$skip', String(skip + size));
+      send(200, JSON.stringify({
+        value: items.slice(skip, skip + size),
+        ...(skip + size < items.length ? { '@odata.nextLink': next.href } : {})
+      }));
+    };
+
+    let match: RegExpExecArray | null;
+    if (path === '/me/onenote/notebooks') {
+      collection(spec.notebooks.map(entity));
+    } else if ((match = /^\/me\/onenote\/(?:notebooks|sectionGroups)\/([^/]+)\/(sections|sectionGroups)$/.exec(path))) {
+      const group = groups.get(match[1]!);
+      collection(group ? (match[2] === 'sections' ? group.sections ?? [] : group.sectionGroups ?? []).map(entity) : []);
+    } else if ((match = /^\/me\/onenote\/sections\/([^/]+)\/pages$/.exec(path))) {
+      // Listed newest first, as Graph does without an order; the order property gives the page order
+      collection([...(sections.get(match[1]!)?.pages ?? [])].map((page, order) => ({
+        id: page.id,
+        title: page.title,
+        createdDateTime: page.createdDateTime ?? '2024-03-01T10:00:00Z',
+        lastModifiedDateTime: '2024-03-02T10:00:00Z',
+        ...(url.searchParams.get('pagelevel') === 'true' ? { level: page.level ?? 0, order } : {}),
+        links: { oneNoteWebUrl: { href: `https://onenote.example/pages/${page.id}` } }
+      })).reverse());
+    } else if ((match = /^\/me\/onenote\/pages\/([^/]+)\/content$/.exec(path)) && pages.has(match[1]!)) {
+      send(200, pages.get(match[1]!)!.html.replace(/\{base\}/g, baseUrl), 'text/html; charset=utf-8');
+    } else if ((match = /^\/me\/onenote\/resources\/([^/]+)\/\$value$/.exec(path)) && spec.resources?.[match[1]!]) {
+      const resource = spec.resources[match[1]!]!;
+      send(200, resource.data, resource.contentType);
+    } else {
+      send(404, JSON.stringify({ error: { code: '20102', message: 'The requested resource does not exist.' } }));
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1.0`;
+
+  return {
+    baseUrl,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
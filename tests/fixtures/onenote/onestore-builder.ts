@@ -0,0 +1,1098 @@
+/**
+ * Builds MS-ONESTORE revision store files for tests
+ * Produces single-fragment file node lists, one object group per revision and a real transaction log
+ */
+
+import * as crypto from 'crypto';
+import { encodeGuid } from '../../../src/services/onenote/onestore/binary-reader';
+import { Jcid, PropertyId } from '../../../src/services/onenote/onestore/one-properties';
+import {
+  ExtendedGuid,
+  FILE_NODE_LIST_FOOTER_MAGIC,
+  FILE_NODE_LIST_HEADER_MAGIC,
+  FileNodeId,
+  ONESTORE_HEADER_SIZE,
+  OneStoreGuids,
+  PropertyType,
+  ZERO_GUID,
+  propertyTypeOf
+} from '../../../src/services/onenote/onestore/onestore-types';
+
+export type BuilderValue = boolean | Buffer | ExtendedGuid[] | BuilderProperty[][] | null;
+
+export interface BuilderProperty {
+  id: number;
+  value: BuilderValue;
+}
+
+export interface BuilderObject {
+  id: ExtendedGuid;
+  jcid: number;
+  properties?: BuilderProperty[];
+  fileData?: { reference: string; extension: string };
+}
+
+export interface BuilderRevision {
+  id: ExtendedGuid;
+  dependsOn?: ExtendedGuid;
+  role?: number;
+  roots: Array<{ role: number; id: ExtendedGuid }>;
+  objects: BuilderObject[];
+  encrypted?: boolean;
+}
+
+export interface BuilderObjectSpace {
+  id: ExtendedGuid;
+  revisions: BuilderRevision[];
+}
+
+interface Chunk {
+  stp: number;
+  cb: number;
+}
+
+interface ListRecord {
+  listId: number;
+  nodeCount: number;
+}
+
+interface BuilderEncryption {
+  /** ObjectDataEncryptionKeyV2 chunk: EncryptionInfo version 4.4 and its XML descriptor */
+  info: Buffer;
+  key: Buffer;
+  salt: Buffer;
+}
+
+let guidCounter = 0;
+
+/**
+ * Create a unique, readable GUID for test objects
+ */
+export function testGuid(): string {
+  guidCounter++;
+  const hex = guidCounter.toString(16).toUpperCase().padStart(12, '0');
+  return `{5EC70000-0000-4000-8000-${hex}}`;
+}
+
+export function eguid(guid: string, n = 1): ExtendedGuid {
+  return { guid, n };
+}
+
+export function utf16(text: string): Buffer {
+  return Buffer.from(text, 'utf16le');
+}
+
+export function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value >>> 0, 0);
+  return buffer;
+}
+
+export function float32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeFloatLE(value, 0);
+  return buffer;
+}
+
+export function uint64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value, 0);
+  return buffer;
+}
+
+function aesCbc(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+export class OneStoreBuilder {
+  private chunks: Buffer[] = [];
+  private offset = ONESTORE_HEADER_SIZE;
+  private nextListId = 0x10;
+  private lists: ListRecord[] = [];
+  private objectSpaces: BuilderObjectSpace[] = [];
+  private fileDataObjects: Array<{ guid: string; data: Buffer }> = [];
+  private rootObjectSpace?: ExtendedGuid;
+  private fileType: string = OneStoreGuids.ONE_FILE_TYPE;
+  private encryption?: BuilderEncryption;
+  private legacyFormat = false;
+
+  asTableOfContents(): this {
+    this.fileType = OneStoreGuids.ONETOC2_FILE_TYPE;
+    return this;
+  }
+
+  /**
+   * Write a OneNote 2007 section: 32-bit header references, 4-byte file node offsets and objects declared by
+   * JCID index straight in the revision manifests
+   */
+  asLegacyFormat(): this {
+    this.legacyFormat = true;
+    return this;
+  }
+
+  addObjectSpace(space: BuilderObjectSpace, isRoot = false): this {
+    this.objectSpaces.push(space);
+    if (isRoot || !this.rootObjectSpace) {
+      this.rootObjectSpace = space.id;
+    }
+    return this;
+  }
+
+  /**
+   * Encrypt the property sets of encrypted revisions with a password derived agile key (SHA-512, AES-256);
+   * without it encrypted revisions only carry a placeholder key chunk
+   */
+  protect(password: string, spinCount = 1000): this {
+    const key = crypto.randomBytes(32);
+    const salt = crypto.randomBytes(16);
+    const passwordSalt = crypto.randomBytes(16);
+
+    let hash = crypto.createHash('sha512').update(passwordSalt).update(utf16(password)).digest();
+    for (let i = 0; i < spinCount; i++) {
+      hash = crypto.createHash('sha512').update(uint32(i)).update(hash).digest();
+    }
+    const encryptWith = (blockKey: number[], data: Buffer): Buffer => {
+      const derived = crypto.createHash('sha512').update(hash).update(Buffer.from(blockKey)).digest().subarray(0, 32);
+      return aesCbc(derived, passwordSalt, data);
+    };
+
+    const verifierInput = crypto.randomBytes(16);
+    const cipher = 'blockSize="16" keyBits="256" hashSize="64" cipherAlgorithm="AES" cipherChaining="ChainingModeCBC" hashAlgorithm="SHA512"';
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<encryption xmlns="http://schemas.microsoft.com/office/2006/encryption" xmlns:p="http://schemas.microsoft.com/office/2006/keyEncryptor/password">',
+      `<keyData saltSize="16" ${cipher} saltValue="${salt.toString('base64')}"/>`,
+      '<keyEncryptors><keyEncryptor uri="http://schemas.microsoft.com/office/2006/keyEncryptor/password">',
+      `<p:encryptedKey spinCount="${spinCount}" saltSize="16" ${cipher} saltValue="${passwordSalt.toString('base64')}"`,
+      ` encryptedVerifierHashInput="${encryptWith([0xFE, 0xA7, 0xD2, 0x76, 0x3B, 0x4B, 0x9E, 0x79], verifierInput).toString('base64')}"`,
+      ` encryptedVerifierHashValue="${encryptWith([0xD7, 0xAA, 0x0F, 0x6D, 0x30, 0x61, 0x34, 0x4E], crypto.createHash('sha512').update(verifierInput).digest()).toString('base64')}"`,
+      ` encryptedKeyValue="${encryptWith([0x14, 0x6E, 0x0B, 0xE7, 0xAB, 0xAC, 0xD0, 0xD6], key).toString('base64')}"/>`,
+      '</keyEncryptor></keyEncryptors></encryption>'
+    ].join('');
+
+    const version = Buffer.alloc(8);
+    version.writeUInt16LE(4, 0);
+    version.writeUInt16LE(4, 2);
+    version.writeUInt32LE(0x40, 4);
+    this.encryption = { info: Buffer.concat([version, Buffer.from(xml, 'utf8')]), key, salt };
+    return this;
+  }
+
+  addFileData(guid: string, data: Buffer): this {
+    this.fileDataObjects.push({ guid, data });
+    return this;
+  }
+
+  build(): Buffer {
+    const rootNodes: Buffer[] = [];
+
+    if (this.rootObjectSpace) {
+      rootNodes.push(this.fileNode(FileNodeId.ObjectSpaceManifestRoot, this.extendedGuid(this.rootObjectSpace)));
+    }
+
+    for (const space of this.objectSpaces) {
+      const ref = this.writeObjectSpace(space);
+      rootNodes.push(this.fileNode(FileNodeId.ObjectSpaceManifestListReference, this.extendedGuid(space.id), ref));
+    }
+
+    if (this.fileDataObjects.length > 0) {
+      const nodes = this.fileDataObjects.map(object => {
+        const ref = this.writeFileDataObject(object.data);
+        return this.fileNode(FileNodeId.FileDataStoreObjectReference, encodeGuid(object.guid), ref);
+      });
+      rootNodes.push(this.fileNode(FileNodeId.FileDataStoreListReference, Buffer.alloc(0), this.writeList(nodes)));
+    }
+
+    const root = this.writeList(rootNodes, 0x01);
+    const transactionLog = this.writeTransactionLog();
+
+    const header = Buffer.alloc(ONESTORE_HEADER_SIZE);
+    encodeGuid(this.fileType).copy(header, 0);
+    encodeGuid(testGuid()).copy(header, 16);
+    encodeGuid(OneStoreGuids.FILE_FORMAT).copy(header, 48);
+    header.writeUInt32LE(this.legacyFormat ? 0x1B : 0x2A, 64);
+    header.writeUInt32LE(1, 96);
+    if (this.legacyFormat) {
+      this.writeLegacyChunkReference(transactionLog).copy(header, 88);
+      header.writeUInt32LE(this.offset, 100);
+      this.writeLegacyChunkReference(root).copy(header, 112);
+    } else {
+      this.writeChunkReference(transactionLog).copy(header, 160);
+      this.writeChunkReference(root).copy(header, 172);
+      this.writeChunkReference({ stp: -1, cb: 0 }).copy(header, 184);
+      header.writeBigUInt64LE(BigInt(this.offset), 196);
+    }
+    encodeGuid(testGuid()).copy(header, 212);
+
+    return Buffer.concat([header, ...this.chunks]);
+  }
+
+  private writeObjectSpace(space: BuilderObjectSpace): Chunk {
+    const revisionNodes: Buffer[] = [
+      this.fileNode(FileNodeId.RevisionManifestListStart, Buffer.concat([this.extendedGuid(space.id), uint32(0)]))
+    ];
+
+    for (const revision of space.revisions) {
+      revisionNodes.push(...this.revisionNodes(revision));
+    }
+
+    const revisionList = this.writeList(revisionNodes);
+    return this.writeList([
+      this.fileNode(FileNodeId.ObjectSpaceManifestListStart, this.extendedGuid(space.id)),
+      this.fileNode(FileNodeId.RevisionManifestListReference, Buffer.alloc(0), revisionList)
+    ]);
+  }
+
+  private revisionNodes(revision: BuilderRevision): Buffer[] {
+    if (this.legacyFormat) {
+      return this.legacyRevisionNodes(revision);
+    }
+
+    const start = Buffer.concat([
+      this.extendedGuid(revision.id),
+      this.extendedGuid(revision.dependsOn || { guid: ZERO_GUID, n: 0 }),
+      uint32(revision.role ?? 1),
+      Buffer.from([revision.encrypted ? 0x02 : 0x00, 0x00])
+    ]);
+
+    const nodes = [this.fileNode(FileNodeId.RevisionManifestStart6, start)];
+
+    if (revision.encrypted) {
+      nodes.push(this.fileNode(FileNodeId.ObjectDataEncryptionKeyV2, Buffer.alloc(0), this.writeChunk(this.encryption?.info ?? Buffer.alloc(8))));
+    }
+
+    if (revision.objects.length > 0) {
+      const groupId = eguid(testGuid());
+      const encryption = revision.encrypted ? this.encryption : undefined;
+      nodes.push(this.fileNode(FileNodeId.ObjectGroupListReference, this.extendedGuid(groupId), this.writeObjectGroup(groupId, revision.objects, encryption)));
+    }
+
+    for (const root of revision.roots) {
+      nodes.push(this.fileNode(FileNodeId.RootObjectReference3, Buffer.concat([this.extendedGuid(root.id), uint32(root.role)])));
+    }
+
+    nodes.push(this.fileNode(FileNodeId.RevisionManifestEnd, Buffer.alloc(0)));
+    return nodes;
+  }
+
+  /**
+   * OneNote 2007 revisions keep their global ID table and object declarations in the manifest itself
+   */
+  private legacyRevisionNodes(revision: BuilderRevision): Buffer[] {
+    const start = Buffer.concat([
+      this.extendedGuid(revision.id),
+      this.extendedGuid(revision.dependsOn || { guid: ZERO_GUID, n: 0 }),
+      uint64(0n), // timeCreation
+      uint32(revision.role ?? 1),
+      Buffer.from([0x00, 0x00])
+    ]);
+
+    const { table, compactId } = this.compactIds();
+    const declarations = revision.objects.map(object => {
+      const ref = this.writeChunk(this.propertySetChunk(object.properties || [], compactId));
+      const body = Buffer.alloc(10);
+      body.writeUInt32LE(compactId(object.id), 0);
+      body.writeUInt16LE(object.jcid & 0x3FF, 4);
+      return this.fileNode(FileNodeId.ObjectDeclarationWithRefCount, Buffer.concat([body, Buffer.from([1])]), ref);
+    });
+    const roots = revision.roots.map(root => this.fileNode(FileNodeId.RootObjectReference2, Buffer.concat([uint32(compactId(root.id)), uint32(root.role)])));
+
+    return [
+      this.fileNode(FileNodeId.RevisionManifestStart4, start),
+      this.fileNode(FileNodeId.GlobalIdTableStart, Buffer.from([0])),
+      ...this.globalIdTableEntries(table),
+      this.fileNode(FileNodeId.GlobalIdTableEnd, Buffer.alloc(0)),
+      ...declarations,
+      ...roots,
+      this.fileNode(FileNodeId.RevisionManifestEnd, Buffer.alloc(0))
+    ];
+  }
+
+  private writeObjectGroup(groupId: ExtendedGuid, objects: BuilderObject[], encryption?: BuilderEncryption): Chunk {
+    const { table, compactId } = this.compactIds();
+
+    const declarations: Buffer[] = [];
+    for (const object of objects) {
+      const oid = uint32(compactId(object.id));
+
+      if (object.fileData) {
+        declarations.push(this.fileNode(FileNodeId.ObjectDeclarationFileData3RefCount, Buffer.concat([
+          oid,
+          uint32(object.jcid),
+          Buffer.from([1]),
+          this.storageString(object.fileData.reference),
+          this.storageString(object.fileData.extension)
+        ])));
+        continue;
+      }
+
+      const propertySet = this.propertySetChunk(object.properties || [], compactId);
+      const ref = this.writeChunk(encryption ? this.encryptChunk(propertySet, encryption) : propertySet);
+      declarations.push(this.fileNode(FileNodeId.ObjectDeclaration2RefCount, Buffer.concat([oid, uint32(object.jcid), Buffer.from([0, 1])]), ref));
+    }
+
+    return this.writeList([
+      this.fileNode(FileNodeId.ObjectGroupStart, this.extendedGuid(groupId)),
+      this.fileNode(FileNodeId.GlobalIdTableStart2, Buffer.alloc(0)),
+      ...this.globalIdTableEntries(table),
+      this.fileNode(FileNodeId.GlobalIdTableEnd, Buffer.alloc(0)),
+      ...declarations,
+      this.fileNode(FileNodeId.ObjectGroupEnd, Buffer.alloc(0))
+    ]);
+  }
+
+  /**
+   * A global ID table filled as objects are given compact IDs; entries are written once every ID is assigned
+   */
+  private compactIds(): { table: Map<string, number>; compactId: (id: ExtendedGuid) => number } {
+    const table = new Map<string, number>();
+    const compactId = (id: ExtendedGuid): number => {
+      if (!table.has(id.guid)) {
+        table.set(id.guid, table.size + 1);
+      }
+      return ((table.get(id.guid)! << 8) | (id.n & 0xFF)) >>> 0;
+    };
+    return { table, compactId };
+  }
+
+  private globalIdTableEntries(table: Map<string, number>): Buffer[] {
+    return [...table].map(([guid, index]) => this.fileNode(FileNodeId.GlobalIdTableEntry, Buffer.concat([uint32(index), encodeGuid(guid)])));
+  }
+
+  /**
+   * Serialize an ObjectSpaceObjectPropSet: ID streams followed by the property set
+   */
+  private propertySetChunk(properties: BuilderProperty[], compactId: (id: ExtendedGuid) => number): Buffer {
+    const streams = { oids: [] as number[], osids: [] as number[], contextIds: [] as number[] };
+    const body = this.propertySet(properties, streams, compactId);
+
+    const hasOsids = streams.osids.length > 0 || streams.contextIds.length > 0;
+    const parts = [
+      uint32(streams.oids.length | (hasOsids ? 0 : 0x80000000)),
+      ...streams.oids.map(uint32)
+    ];
+
+    if (hasOsids) {
+      parts.push(uint32(streams.osids.length | (streams.contextIds.length > 0 ? 0x40000000 : 0)), ...streams.osids.map(uint32));
+      if (streams.contextIds.length > 0) {
+        parts.push(uint32(streams.contextIds.length), ...streams.contextIds.map(uint32));
+      }
+    }
+
+    return Buffer.concat([...parts, body]);
+  }
+
+  private propertySet(
+    properties: BuilderProperty[],
+    streams: { oids: number[]; osids: number[]; contextIds: number[] },
+    compactId: (id: ExtendedGuid) => number
+  ): Buffer {
+    const count = Buffer.alloc(2);
+    count.writeUInt16LE(properties.length, 0);
+    const prids: Buffer[] = [];
+    const values: Buffer[] = [];
+
+    for (const property of properties) {
+      const type = propertyTypeOf(property.id);
+      const value = property.value;
+      prids.push(uint32(type === PropertyType.Bool && value === true ? (property.id | 0x80000000) >>> 0 : property.id));
+
+      switch (type) {
+        case PropertyType.NoData:
+        case PropertyType.Bool:
+          break;
+        case PropertyType.FourBytesOfLengthFollowedByData:
+          values.push(uint32((value as Buffer).length), value as Buffer);
+          break;
+        case PropertyType.ObjectId:
+        case PropertyType.ArrayOfObjectIds:
+        case PropertyType.ObjectSpaceId:
+        case PropertyType.ArrayOfObjectSpaceIds:
+        case PropertyType.ContextId:
+        case PropertyType.ArrayOfContextIds: {
+          const ids = value as ExtendedGuid[];
+          const target = type <= PropertyType.ArrayOfObjectIds ? streams.oids : type <= PropertyType.ArrayOfObjectSpaceIds ? streams.osids : streams.contextIds;
+          if (type === PropertyType.ArrayOfObjectIds || type === PropertyType.ArrayOfObjectSpaceIds || type === PropertyType.ArrayOfContextIds) {
+            values.push(uint32(ids.length));
+          }
+          target.push(...ids.map(compactId));
+          break;
+        }
+        case PropertyType.ArrayOfPropertyValues: {
+          const sets = value as BuilderProperty[][];
+          values.push(uint32(sets.length));
+          if (sets.length > 0) {
+            values.push(uint32(PropertyType.PropertySet << 26));
+            sets.forEach(set => values.push(this.propertySet(set, streams, compactId)));
+          }
+          break;
+        }
+        case PropertyType.PropertySet:
+          values.push(this.propertySet((value as BuilderProperty[][])[0] || [], streams, compactId));
+          break;
+        default:
+          values.push(value as Buffer);
+          break;
+      }
+    }
+
+    return Buffer.concat([count, ...prids, ...values]);
+  }
+
+  /**
+   * Encrypt a chunk in 4096 byte segments, each with an IV hashed from the key salt and the segment index
+   */
+  private encryptChunk(data: Buffer, encryption: BuilderEncryption): Buffer {
+    const segments: Buffer[] = [];
+    for (let offset = 0, index = 0; offset < data.length; offset += 4096, index++) {
+      const segment = data.subarray(offset, offset + 4096);
+      const iv = crypto.createHash('sha512').update(encryption.salt).update(uint32(index)).digest().subarray(0, 16);
+      segments.push(aesCbc(encryption.key, iv, Buffer.concat([segment, Buffer.alloc((16 - (segment.length % 16)) % 16)])));
+    }
+    return Buffer.concat([uint64(BigInt(data.length)), ...segments]);
+  }
+
+  private writeFileDataObject(data: Buffer): Chunk {
+    const padding = (8 - (data.length % 8)) % 8;
+    return this.writeChunk(Buffer.concat([
+      encodeGuid(OneStoreGuids.FILE_DATA_STORE_HEADER),
+      uint64(BigInt(data.length)),
+      Buffer.alloc(12),
+      data,
+      Buffer.alloc(padding),
+      encodeGuid(OneStoreGuids.FILE_DATA_STORE_FOOTER)
+    ]));
+  }
+
+  private writeList(nodes: Buffer[], listId?: number): Chunk {
+    const id = listId ?? this.nextListId++;
+    this.lists.push({ listId: id, nodeCount: nodes.length });
+
+    const header = Buffer.alloc(16);
+    header.writeBigUInt64LE(FILE_NODE_LIST_HEADER_MAGIC, 0);
+    header.writeUInt32LE(id, 8);
+    header.writeUInt32LE(0, 12);
+
+    const trailer = Buffer.concat([this.writeChunkReference({ stp: -1, cb: 0 }), uint64(FILE_NODE_LIST_FOOTER_MAGIC)]);
+    return this.writeChunk(Buffer.concat([header, ...nodes, trailer]));
+  }
+
+  private writeTransactionLog(): Chunk {
+    const entries = this.lists.map(list => Buffer.concat([uint32(list.listId), uint32(list.nodeCount)]));
+    entries.push(Buffer.concat([uint32(1), uint32(0)]));
+    return this.writeChunk(Buffer.concat([...entries, this.writeChunkReference({ stp: -1, cb: 0 })]));
+  }
+
+  /**
+   * Encode a FileNode with an optional 64x32 chunk reference
+   */
+  private fileNode(id: number, body: Buffer, ref?: Chunk): Buffer {
+    // OneNote 2007 sections give chunk offsets in 4 bytes (stpFormat 1)
+    const refBytes = ref ? (this.legacyFormat ? this.writeLegacyChunkReference(ref) : this.writeChunkReference(ref)) : Buffer.alloc(0);
+    const stpFormat = ref && this.legacyFormat ? 1 : 0;
+    const size = 4 + refBytes.length + body.length;
+    const header = (id | (size << 10) | (stpFormat << 23) | ((ref ? 1 : 0) << 27) | 0x80000000) >>> 0;
+    return Buffer.concat([uint32(header), refBytes, body]);
+  }
+
+  private writeChunkReference(ref: Chunk): Buffer {
+    const buffer = Buffer.alloc(12);
+    buffer.writeBigUInt64LE(ref.stp === -1 ? 0xFFFFFFFFFFFFFFFFn : BigInt(ref.stp), 0);
+    buffer.writeUInt32LE(ref.cb, 8);
+    return buffer;
+  }
+
+  private writeLegacyChunkReference(ref: Chunk): Buffer {
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32LE(ref.stp === -1 ? 0xFFFFFFFF : ref.stp, 0);
+    buffer.writeUInt32LE(ref.cb, 4);
+    return buffer;
+  }
+
+  private writeChunk(data: Buffer): Chunk {
+    const chunk = { stp: this.offset, cb: data.length };
+    this.chunks.push(data);
+    this.offset += data.length;
+    return chunk;
+  }
+
+  private extendedGuid(value: ExtendedGuid): Buffer {
+    return Buffer.concat([encodeGuid(value.guid), uint32(value.n)]);
+  }
+
+  private storageString(value: string): Buffer {
+    return Buffer.concat([uint32(value.length), utf16(value)]);
+  }
+}
+
+export interface SectionRunSpec {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  /** COLORREF values (0x00BBGGRR) */
+  highlight?: number;
+  color?: number;
+  font?: string;
+  hyperlink?: boolean;
+  url?: string;
+  /** Marks the run as a linear-format equation */
+  math?: boolean;
+}
+
+export interface SectionImageSpec {
+  name?: string;
+  alt?: string;
+  /** Text OneNote recognized in the picture */
+  ocrText?: string;
+  /** Size and offset in half-inch units, as stored in the file */
+  width?: number;
+  height?: number;
+  x?: number;
+  y?: number;
+  /** Picture bytes, stored as a file data store object */
+  data?: Buffer;
+  extension?: string;
+  /** Page number of a printout picture */
+  pageNumber?: number;
+}
+
+export interface SectionInkStrokeSpec {
+  /** Points in HIMETRIC units */
+  points: Array<[number, number]>;
+  /** COLORREF value (0x00BBGGRR) */
+  color?: number;
+  width?: number;
+  transparency?: number;
+}
+
+export interface SectionInkSpec {
+  strokes: SectionInkStrokeSpec[];
+  /** Offset in half-inch units */
+  x?: number;
+  y?: number;
+}
+
+export interface SectionFileSpec {
+  name?: string;
+  sourcePath?: string;
+  data?: Buffer;
+  extension?: string;
+  /** Mark the file as a recording made in OneNote */
+  recording?: 'audio' | 'video';
+}
+
+export interface SectionNoteTagSpec {
+  label: string;
+  shape: number;
+  /** COLORREF values (0x00BBGGRR) */
+  highlight?: number;
+  color?: number;
+  /** Ticks a check box tag */
+  completed?: boolean;
+}
+
+export interface SectionParagraphSpec {
+  text: string;
+  style?: string;
+  list?: 'bullet' | 'numbered';
+  children?: SectionParagraphSpec[];
+  table?: string[][];
+  /** Formatted runs; when set, text is ignored and the paragraph text is the runs joined */
+  runs?: SectionRunSpec[];
+  /** A picture in place of the paragraph text */
+  image?: SectionImageSpec;
+  /** An attached file in place of the paragraph text */
+  file?: SectionFileSpec;
+  /** Ink strokes in place of the paragraph text */
+  ink?: SectionInkSpec;
+  /** Note tags on the outline element */
+  tags?: SectionNoteTagSpec[];
+}
+
+export interface SectionPageSpec {
+  title: string;
+  level?: number;
+  createdAt?: Date;
+  outlines: SectionParagraphSpec[][];
+  /** Where the outlines sit on the page, by index, in half-inches from the page's top-left corner */
+  outlinePositions?: Array<{ x: number; y: number; width?: number }>;
+  /** Pictures placed directly on the page, outside any outline */
+  images?: SectionImageSpec[];
+  /** Ink drawn directly on the page */
+  ink?: SectionInkSpec[];
+  /** Revision metadata of the page version */
+  author?: string;
+  modifiedAt?: Date;
+  /** Earlier versions of the page, oldest first, stored as earlier revisions of its object space */
+  history?: SectionPageSpec[];
+}
+
+export interface SectionSpec {
+  name?: string;
+  pages: SectionPageSpec[];
+  /** Password protect the section: its page revisions are encrypted with a key derived from this */
+  password?: string;
+  /** Write the section in the OneNote 2007 format */
+  legacy?: boolean;
+}
+
+/**
+ * Build a .one section file with the MS-ONE section, page and outline structure
+ */
+export function buildSectionFile(spec: SectionSpec): Buffer {
+  const builder = new OneStoreBuilder();
+  if (spec.password) {
+    builder.protect(spec.password);
+  }
+  if (spec.legacy) {
+    builder.asLegacyFormat();
+  }
+  const sectionGuid = testGuid();
+  let sectionN = 0;
+  const sectionId = () => eguid(sectionGuid, ++sectionN);
+
+  const sectionNode = sectionId();
+  const seriesNode = sectionId();
+  const sectionMetadata = sectionId();
+  const sectionObjects: BuilderObject[] = [];
+  const pageSpaces: ExtendedGuid[] = [];
+  const pageMetadata: ExtendedGuid[] = [];
+
+  for (const page of spec.pages) {
+    const space = eguid(testGuid());
+    const metadataId = sectionId();
+    pageSpaces.push(space);
+    pageMetadata.push(metadataId);
+    sectionObjects.push({
+      id: metadataId,
+      jcid: Jcid.PageMetaData,
+      properties: [
+        { id: PropertyId.CachedTitleString, value: utf16(page.title) },
+        { id: PropertyId.PageLevel, value: uint32(page.level ?? 1) }
+      ]
+    });
+    const addFileData = (data: Buffer): string => {
+      const guid = testGuid();
+      builder.addFileData(guid, data);
+      return `<ifndf>${guid}`;
+    };
+    builder.addObjectSpace({
+      id: space,
+      revisions: [...(page.history ?? []), page].map(version => ({
+        ...buildPageRevision(version, undefined, addFileData),
+        encrypted: spec.password !== undefined
+      }))
+    });
+  }
+
+  sectionObjects.push(
+    { id: sectionNode, jcid: Jcid.SectionNode, properties: [{ id: PropertyId.ElementChildNodes, value: [seriesNode] }] },
+    {
+      id: seriesNode,
+      jcid: Jcid.PageSeriesNode,
+      properties: [
+        { id: PropertyId.ChildGraphSpaceElementNodes, value: pageSpaces },
+        { id: PropertyId.MetaDataObjectsAboveGraphSpace, value: pageMetadata }
+      ]
+    }
+  );
+
+  const roots = [{ role: 1, id: sectionNode }];
+  if (spec.name) {
+    sectionObjects.push({ id: sectionMetadata, jcid: Jcid.SectionMetaData, properties: [{ id: PropertyId.SectionDisplayName, value: utf16(spec.name) }] });
+    roots.push({ role: 2, id: sectionMetadata });
+  }
+
+  builder.addObjectSpace({
+    id: eguid(sectionGuid),
+    revisions: [{ id: eguid(testGuid()), roots, objects: sectionObjects }]
+  }, true);
+
+  return builder.build();
+}
+
+export interface TocEntrySpec {
+  fileName: string;
+  /** NotebookElementOrderingID; entries without one are stored unordered */
+  orderingId?: number;
+  /** COLORREF (0x00BBGGRR) of the section tab */
+  color?: number;
+}
+
+/**
+ * Build a .onetoc2 table of contents listing the entries of one notebook folder in the given stored order
+ */
+export function buildTableOfContents(entries: TocEntrySpec[]): Buffer {
+  const guid = testGuid();
+  const root = eguid(guid, 1);
+  const children = entries.map((entry, index): BuilderObject => {
+    const properties: BuilderProperty[] = [{ id: PropertyId.FolderChildFilename, value: utf16(entry.fileName) }];
+    if (entry.orderingId !== undefined) {
+      properties.push({ id: PropertyId.NotebookElementOrderingId, value: uint32(entry.orderingId) });
+    }
+    if (entry.color !== undefined) {
+      properties.push({ id: PropertyId.NotebookColor, value: uint32(entry.color) });
+    }
+    return { id: eguid(guid, index + 2), jcid: Jcid.TocContainer, properties };
+  });
+
+  return new OneStoreBuilder()
+    .asTableOfContents()
+    .addObjectSpace({
+      id: eguid(testGuid()),
+      revisions: [{
+        id: eguid(testGuid()),
+        roots: [{ role: 1, id: root }],
+        objects: [
+          { id: root, jcid: Jcid.TocContainer, properties: [{ id: PropertyId.TocChildren, value: children.map(child => child.id) }] },
+          ...children
+        ]
+      }]
+    })
+    .build();
+}
+
+/**
+ * Encode ink points as InkPath data: multi-byte signed integers, all X deltas then all Y deltas
+ */
+export function encodeInkPath(points: Array<[number, number]>): Buffer {
+  const bytes: number[] = [];
+  const encode = (value: number) => {
+    let encoded = Math.abs(value) * 2 + (value < 0 ? 1 : 0);
+    do {
+      const byte = encoded % 0x80;
+      encoded = Math.floor(encoded / 0x80);
+      bytes.push(encoded > 0 ? byte | 0x80 : byte);
+    } while (encoded > 0);
+  };
+
+  for (const axis of [0, 1]) {
+    let previous = 0;
+    for (const point of points) {
+      encode(point[axis]! - previous);
+      previous = point[axis]!;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Build the single revision of a page object space
+ * Picture bytes are handed to addFileData, which returns the file data reference to store
+ */
+export function buildPageRevision(
+  page: SectionPageSpec,
+  revisionId: ExtendedGuid = eguid(testGuid()),
+  addFileData?: (data: Buffer) => string
+): BuilderRevision {
+  let guid = testGuid();
+  let n = 0;
+  const nextId = () => {
+    // Compact IDs only carry 8 bits of n
+    if (n === 0xFF) {
+      guid = testGuid();
+      n = 0;
+    }
+    return eguid(guid, ++n);
+  };
+  const objects: BuilderObject[] = [];
+  const styles = new Map<string, ExtendedGuid>();
+
+  const styleFor = (style: string): ExtendedGuid => {
+    if (!styles.has(style)) {
+      const id = nextId();
+      styles.set(style, id);
+      objects.push({ id, jcid: Jcid.ParagraphStyleObject, properties: [{ id: PropertyId.ParagraphStyleId, value: utf16(style) }] });
+    }
+    return styles.get(style)!;
+  };
+
+  const tagDefinitions = new Map<string, ExtendedGuid>();
+  const tagDefinition = (tag: SectionNoteTagSpec): ExtendedGuid => {
+    const key = `${tag.label}:${tag.shape}`;
+    if (!tagDefinitions.has(key)) {
+      const id = nextId();
+      const properties: BuilderProperty[] = [
+        { id: PropertyId.NoteTagLabel, value: utf16(tag.label) },
+        { id: PropertyId.NoteTagShape, value: Buffer.from([tag.shape & 0xFF, tag.shape >> 8]) }
+      ];
+      if (tag.highlight !== undefined) {
+        properties.push({ id: PropertyId.NoteTagHighlightColor, value: uint32(tag.highlight) });
+      }
+      if (tag.color !== undefined) {
+        properties.push({ id: PropertyId.NoteTagTextColor, value: uint32(tag.color) });
+      }
+      objects.push({ id, jcid: Jcid.NoteTagSharedDefinitionContainer, properties });
+      tagDefinitions.set(key, id);
+    }
+    return tagDefinitions.get(key)!;
+  };
+
+  const runProperties = (runs: SectionRunSpec[]): BuilderProperty[] => {
+    const ends: number[] = [];
+    let offset = 0;
+    const styleIds = runs.map(run => {
+      offset += run.text.length;
+      ends.push(offset);
+
+      const id = nextId();
+      const properties: BuilderProperty[] = [];
+      const flags: Array<[keyof SectionRunSpec, number]> = [
+        ['bold', PropertyId.Bold],
+        ['italic', PropertyId.Italic],
+        ['underline', PropertyId.Underline],
+        ['strikethrough', PropertyId.Strikethrough],
+        ['superscript', PropertyId.Superscript],
+        ['subscript', PropertyId.Subscript],
+        ['hyperlink', PropertyId.Hyperlink],
+        ['math', PropertyId.MathFormatting]
+      ];
+      for (const [key, propertyId] of flags) {
+        if (run[key]) {
+          properties.push({ id: propertyId, value: true });
+        }
+      }
+      if (run.highlight !== undefined) {
+        properties.push({ id: PropertyId.Highlight, value: uint32(run.highlight) });
+      }
+      if (run.color !== undefined) {
+        properties.push({ id: PropertyId.FontColor, value: uint32(run.color) });
+      }
+      if (run.font) {
+        properties.push({ id: PropertyId.Font, value: utf16(run.font) });
+      }
+      if (run.url) {
+        properties.push({ id: PropertyId.WzHyperlinkUrl, value: utf16(run.url) });
+      }
+      objects.push({ id, jcid: Jcid.ParagraphStyleObject, properties });
+      return id;
+    });
+
+    return [
+      { id: PropertyId.TextRunIndex, value: Buffer.concat(ends.slice(0, -1).map(uint32)) },
+      { id: PropertyId.TextRunFormatting, value: styleIds }
+    ];
+  };
+
+  const image = (spec: SectionImageSpec, id: ExtendedGuid = nextId()): ExtendedGuid => {
+    const properties: BuilderProperty[] = [];
+    if (spec.name) {
+      properties.push({ id: PropertyId.ImageFilename, value: utf16(spec.name) });
+    }
+    if (spec.alt) {
+      properties.push({ id: PropertyId.ImageAltText, value: utf16(spec.alt) });
+    }
+    if (spec.ocrText) {
+      properties.push({ id: PropertyId.RichEditTextUnicode, value: utf16(spec.ocrText) });
+    }
+    const dimensions: Array<[keyof SectionImageSpec, number]> = [
+      ['width', PropertyId.PictureWidth],
+      ['height', PropertyId.PictureHeight],
+      ['x', PropertyId.OffsetFromParentHoriz],
+      ['y', PropertyId.OffsetFromParentVert]
+    ];
+    for (const [key, propertyId] of dimensions) {
+      const value = spec[key];
+      if (typeof value === 'number') {
+        properties.push({ id: propertyId, value: float32(value) });
+      }
+    }
+    if (spec.pageNumber !== undefined) {
+      properties.push({ id: PropertyId.DisplayedPageNumber, value: uint32(spec.pageNumber) });
+    }
+    if (spec.data && addFileData) {
+      const container = nextId();
+      objects.push({
+        id: container,
+        jcid: Jcid.PictureContainer14,
+        fileData: { reference: addFileData(spec.data), extension: spec.extension ?? '' }
+      });
+      properties.push({ id: PropertyId.PictureContainer, value: [container] });
+    }
+    objects.push({ id, jcid: Jcid.ImageNode, properties });
+    return id;
+  };
+
+  const embeddedFile = (spec: SectionFileSpec, id: ExtendedGuid): void => {
+    const properties: BuilderProperty[] = [];
+    if (spec.name) {
+      properties.push({ id: PropertyId.EmbeddedFileName, value: utf16(spec.name) });
+    }
+    if (spec.sourcePath) {
+      properties.push({ id: PropertyId.SourceFilepath, value: utf16(spec.sourcePath) });
+    }
+    if (spec.recording) {
+      properties.push({ id: PropertyId.IRecordMedia, value: uint32(spec.recording === 'audio' ? 1 : 2) });
+    }
+    if (spec.data && addFileData) {
+      const container = nextId();
+      objects.push({
+        id: container,
+        jcid: Jcid.EmbeddedFileContainer,
+        fileData: { reference: addFileData(spec.data), extension: spec.extension ?? '' }
+      });
+      properties.push({ id: PropertyId.EmbeddedFileContainer, value: [container] });
+    }
+    objects.push({ id, jcid: Jcid.EmbeddedFileNode, properties });
+  };
+
+  const ink = (spec: SectionInkSpec, id: ExtendedGuid = nextId()): ExtendedGuid => {
+    const strokeIds = spec.strokes.map(stroke => {
+      const strokeId = nextId();
+      const styleId = nextId();
+      const style: BuilderProperty[] = [];
+      if (stroke.color !== undefined) {
+        style.push({ id: PropertyId.InkColor, value: uint32(stroke.color) });
+      }
+      if (stroke.width !== undefined) {
+        style.push({ id: PropertyId.InkWidth, value: float32(stroke.width) });
+        style.push({ id: PropertyId.InkHeight, value: float32(stroke.width) });
+      }
+      if (stroke.transparency !== undefined) {
+        style.push({ id: PropertyId.InkTransparency, value: Buffer.from([stroke.transparency]) });
+      }
+      objects.push({ id: styleId, jcid: Jcid.StrokePropertiesNode, properties: style });
+      objects.push({
+        id: strokeId,
+        jcid: Jcid.InkStrokeNode,
+        properties: [
+          { id: PropertyId.InkPath, value: encodeInkPath(stroke.points) },
+          { id: PropertyId.InkStrokeProperties, value: [styleId] }
+        ]
+      });
+      return strokeId;
+    });
+
+    const dataId = nextId();
+    objects.push({ id: dataId, jcid: Jcid.InkDataNode, properties: [{ id: PropertyId.InkStrokes, value: strokeIds }] });
+
+    const properties: BuilderProperty[] = [{ id: PropertyId.InkData, value: [dataId] }];
+    if (spec.x !== undefined) {
+      properties.push({ id: PropertyId.OffsetFromParentHoriz, value: float32(spec.x) });
+    }
+    if (spec.y !== undefined) {
+      properties.push({ id: PropertyId.OffsetFromParentVert, value: float32(spec.y) });
+    }
+    objects.push({ id, jcid: Jcid.InkContainer, properties });
+    return id;
+  };
+
+  const element = (paragraph: SectionParagraphSpec): ExtendedGuid => {
+    const id = nextId();
+    const content = nextId();
+    const properties: BuilderProperty[] = [{ id: PropertyId.ContentChildNodes, value: [content] }];
+
+    if (paragraph.image) {
+      image(paragraph.image, content);
+    } else if (paragraph.file) {
+      embeddedFile(paragraph.file, content);
+    } else if (paragraph.ink) {
+      ink(paragraph.ink, content);
+    } else if (paragraph.table) {
+      const rows = paragraph.table.map(cells => {
+        const rowId = nextId();
+        const cellIds = cells.map(text => {
+          const cellId = nextId();
+          objects.push({ id: cellId, jcid: Jcid.TableCellNode, properties: [{ id: PropertyId.ElementChildNodes, value: [element({ text })] }] });
+          return cellId;
+        });
+        objects.push({ id: rowId, jcid: Jcid.TableRowNode, properties: [{ id: PropertyId.ElementChildNodes, value: cellIds }] });
+        return rowId;
+      });
+      objects.push({ id: content, jcid: Jcid.TableNode, properties: [{ id: PropertyId.ElementChildNodes, value: rows }] });
+    } else {
+      const text = paragraph.runs ? paragraph.runs.map(run => run.text).join('') : paragraph.text;
+      const textProperties: BuilderProperty[] = [{ id: PropertyId.RichEditTextUnicode, value: utf16(text) }];
+      if (paragraph.runs) {
+        textProperties.push(...runProperties(paragraph.runs));
+      }
+      if (paragraph.style) {
+        textProperties.push({ id: PropertyId.ParagraphStyle, value: [styleFor(paragraph.style)] });
+      }
+      objects.push({ id: content, jcid: Jcid.RichTextOENode, properties: textProperties });
+    }
+
+    if (paragraph.list) {
+      const listId = nextId();
+      const format = paragraph.list === 'numbered' ? '\uFFFD.' : '\u2022';
+      objects.push({ id: listId, jcid: Jcid.NumberListNode, properties: [{ id: PropertyId.NumberListFormat, value: utf16(format) }] });
+      properties.push({ id: PropertyId.ListNodes, value: [listId] });
+    }
+
+    if (paragraph.tags?.length) {
+      properties.push({
+        id: PropertyId.NoteTagStates,
+        value: paragraph.tags.map(tag => [
+          { id: PropertyId.NoteTagDefinitionOid, value: [tagDefinition(tag)] },
+          { id: PropertyId.ActionItemStatus, value: Buffer.from([tag.completed ? 1 : 0, 0]) }
+        ])
+      });
+    }
+
+    if (paragraph.children?.length) {
+      properties.push({ id: PropertyId.ElementChildNodes, value: paragraph.children.map(element) });
+    }
+
+    objects.push({ id, jcid: Jcid.OutlineElementNode, properties });
+    return id;
+  };
+
+  const outline = (paragraphs: SectionParagraphSpec[], index?: number): ExtendedGuid => {
+    const id = nextId();
+    const properties: BuilderProperty[] = [{ id: PropertyId.ElementChildNodes, value: paragraphs.map(element) }];
+    const position = index === undefined ? undefined : page.outlinePositions?.[index];
+    if (position) {
+      properties.push({ id: PropertyId.OffsetFromParentHoriz, value: float32(position.x) });
+      properties.push({ id: PropertyId.OffsetFromParentVert, value: float32(position.y) });
+      if (position.width !== undefined) {
+        properties.push({ id: PropertyId.LayoutMaxWidth, value: float32(position.width) });
+      }
+    }
+    objects.push({ id, jcid: Jcid.OutlineNode, properties });
+    return id;
+  };
+
+  const titleNode = nextId();
+  objects.push({ id: titleNode, jcid: Jcid.TitleNode, properties: [{ id: PropertyId.ElementChildNodes, value: [outline([{ text: page.title }])] }] });
+
+  const pageChildren = [
+    ...page.outlines.map((paragraphs, index) => outline(paragraphs, index)),
+    ...(page.images ?? []).map(spec => image(spec)),
+    ...(page.ink ?? []).map(spec => ink(spec))
+  ];
+  const pageNode = nextId();
+  const pageProperties: BuilderProperty[] = [
+    { id: PropertyId.StructureElementChildNodes, value: [titleNode] },
+    { id: PropertyId.ElementChildNodes, value: pageChildren }
+  ];
+  const fileTime = (date: Date) => uint64((BigInt(date.getTime()) + 11644473600000n) * 10000n);
+  if (page.createdAt) {
+    pageProperties.push({ id: PropertyId.TopologyCreationTimeStamp, value: fileTime(page.createdAt) });
+  }
+  objects.push({ id: pageNode, jcid: Jcid.PageNode, properties: pageProperties });
+
+  const manifest = nextId();
+  objects.push({ id: manifest, jcid: Jcid.PageManifestNode, properties: [{ id: PropertyId.ContentChildNodes, value: [pageNode] }] });
+  const roots = [{ role: 1, id: manifest }];
+
+  if (page.author || page.modifiedAt) {
+    const revisionMetadata = nextId();
+    const properties: BuilderProperty[] = [];
+    if (page.author) {
+      properties.push({ id: PropertyId.Author, value: utf16(page.author) });
+    }
+    if (page.modifiedAt) {
+      properties.push({ id: PropertyId.LastModifiedTimeStamp, value: fileTime(page.modifiedAt) });
+    }
+    objects.push({ id: revisionMetadata, jcid: Jcid.RevisionMetaData, properties });
+    roots.push({ role: 4, id: revisionMetadata });
+  }
+
+  return { id: revisionId, roots, objects };
+}
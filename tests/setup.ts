@@ -16,17 +16,19 @@ jest.mock('../src/utils/logger', () => ({
   },
 }));
 
-// Mock window.electronAPI for React component tests
-Object.defineProperty(window, 'electronAPI', {
-  value: {
-    openFileDialog: jest.fn(),
-    saveFileDialog: jest.fn(),
-    processOneNoteFile: jest.fn(),
-    getConfig: jest.fn(),
-    setConfig: jest.fn(),
-  },
-  writable: true,
-});
+// Mock window.electronAPI for React component tests; suites that need Node's fetch run without a window
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'electronAPI', {
+    value: {
+      openFileDialog: jest.fn(),
+      saveFileDialog: jest.fn(),
+      processOneNoteFile: jest.fn(),
+      getConfig: jest.fn(),
+      setConfig: jest.fn(),
+    },
+    writable: true,
+  });
+}
 
 // Global test timeout
 jest.setTimeout(10000);
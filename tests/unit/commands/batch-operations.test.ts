@@ -1,6 +1,7 @@
 import { BatchOperations } from '../../../src/commands/batch-operations';
 import { OneNoteHierarchy } from '../../../src/types/onenote';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 
 describe('BatchOperations', () => {
@@ -143,6 +144,110 @@ describe('BatchOperations', () => {
     });
   });
 
+  describe('resolveInputs', () => {
+    let tempDir: string;
+    const write = (...segments: string[]) => {
+      const filePath = path.join(tempDir, ...segments);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, 'test content');
+      return filePath;
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-batch-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should group section files found in folders into notebooks by table of contents and passed folder', async () => {
+      const toc = write('Notebooks', 'Work', 'Open Notebook.onetoc2');
+      const plans = write('Notebooks', 'Work', 'Plans.one');
+      const archive = write('Notebooks', 'Work', 'Archive', '2023.one');
+      write('Notebooks', 'Work', 'OneNote_RecycleBin', 'OneNote_DeletedPages.one');
+      const recipes = write('Notebooks', 'Home', 'Recipes.one');
+      write('Notebooks', 'Empty', 'Open Notebook.onetoc2');
+      const backup = write('Notebooks', 'Backup.onepkg');
+      write('Notebooks', 'readme.txt');
+
+      const result = await batchOperations.resolveInputs([path.join(tempDir, 'Notebooks'), backup]);
+
+      expect(result.success).toBe(true);
+      expect(result.inputs).toEqual([
+        { directory: path.join(tempDir, 'Notebooks'), files: [recipes] },
+        { directory: path.join(tempDir, 'Notebooks', 'Work'), files: [archive, toc, plans] },
+        backup
+      ]);
+    });
+
+    it('should keep notebooks that sit side by side under one folder apart', async () => {
+      const workToc = write('OneDrive', 'Notebooks', 'Work', 'Open Notebook.onetoc2');
+      const plans = write('OneDrive', 'Notebooks', 'Work', 'Plans.one');
+      const groupToc = write('OneDrive', 'Notebooks', 'Work', 'Archive', 'Archive.onetoc2');
+      const archive = write('OneDrive', 'Notebooks', 'Work', 'Archive', '2023.one');
+      const homeToc = write('OneDrive', 'Notebooks', 'Home', 'Open Notebook.onetoc2');
+      const recipes = write('OneDrive', 'Notebooks', 'Home', 'Recipes.one');
+
+      const result = await batchOperations.resolveInputs([path.join(tempDir, 'OneDrive') + path.sep]);
+
+      expect(result.success).toBe(true);
+      expect(result.inputs).toEqual([
+        { directory: path.join(tempDir, 'OneDrive', 'Notebooks', 'Home'), files: [homeToc, recipes] },
+        { directory: path.join(tempDir, 'OneDrive', 'Notebooks', 'Work'), files: [archive, groupToc, workToc, plans] }
+      ]);
+    });
+
+    it('should read folders whose names hold glob characters, matching extensions in any case', async () => {
+      const toc = write('Notes [2020]', 'Open Notebook.onetoc2');
+      const section = write('Notes [2020]', 'Section.ONE');
+
+      const result = await batchOperations.resolveInputs([path.join(tempDir, 'Notes [2020]')]);
+
+      expect(result.success).toBe(true);
+      expect(result.inputs).toEqual([{ directory: path.join(tempDir, 'Notes [2020]'), files: [toc, section] }]);
+    });
+
+    it('should read a named table of contents as its notebook folder and refuse other file types', async () => {
+      const toc = write('Work', 'Open Notebook.onetoc2');
+      const plans = write('Work', 'Plans.one');
+      const archive = write('Work', 'Archive', '2023.one');
+      const notes = write('Work', 'notes.txt');
+
+      const result = await batchOperations.resolveInputs([toc]);
+
+      expect(result.success).toBe(true);
+      expect(result.inputs).toEqual([{ directory: path.join(tempDir, 'Work'), files: [archive, toc, plans] }]);
+      expect(await batchOperations.resolveInputs([notes]))
+        .toEqual({ success: false, inputs: [], error: `Unsupported file type: ${notes}` });
+    });
+
+    it('should keep named files as they are and expand glob patterns', async () => {
+      const section = write('Loose', 'Ideas.one');
+      const plans = write('Notebooks', 'Work', 'Plans.one');
+      write('Notebooks', 'Work', 'Archive', '2023.one');
+      const recipes = write('Notebooks', 'Home', 'Recipes.one');
+
+      const result = await batchOperations.resolveInputs([section, path.join(tempDir, 'Notebooks', '*', '*.one')]);
+
+      expect(result.success).toBe(true);
+      expect(result.inputs).toEqual([
+        section,
+        { directory: path.join(tempDir, 'Notebooks', 'Home'), files: [recipes] },
+        { directory: path.join(tempDir, 'Notebooks', 'Work'), files: [plans] }
+      ]);
+    });
+
+    it('should report missing files and inputs without OneNote files', async () => {
+      write('Documents', 'notes.txt');
+
+      expect(await batchOperations.resolveInputs([path.join(tempDir, 'missing.one')]))
+        .toEqual({ success: false, inputs: [], error: `File not found: ${path.join(tempDir, 'missing.one')}` });
+      expect((await batchOperations.resolveInputs([path.join(tempDir, 'Documents')])).error).toContain('No OneNote files found');
+      expect((await batchOperations.resolveInputs([path.join(tempDir, '*.onepkg')])).error).toContain('No OneNote files found');
+    });
+  });
+
   describe('processBatch', () => {
     it('should process multiple files in batch', async () => {
       const files = ['file1.one', 'file2.one', 'file3.one'];
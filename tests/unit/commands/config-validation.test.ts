@@ -216,6 +216,13 @@ describe('ConfigValidator', () => {
       expect(result.errors).toContain('maxFileSize must be greater than 0');
       expect(result.errors).toContain('timeout must be greater than 0');
     });
+
+    it('should reject a concurrency that is not a whole number of at least 1', () => {
+      expect(configValidator.validateOneNoteConfig({ concurrency: 4 }).isValid).toBe(true);
+      expect(configValidator.validateOneNoteConfig({ concurrency: 0 }).errors)
+        .toContain('concurrency must be a whole number of at least 1');
+      expect(configValidator.validateOneNoteConfig({ concurrency: 1.5 }).isValid).toBe(false);
+    });
   });
 
   describe('generateValidationReport', () => {
@@ -204,6 +204,39 @@ function hello() {
     });
   });
 
+  describe('analyzeDocument', () => {
+    it('should analyze document blocks and formatted runs', () => {
+      const analysis = contentPreview.analyzeDocument({
+        blocks: [
+          { type: 'heading', level: 1, runs: [{ text: 'Title' }] },
+          { type: 'paragraph', runs: [{ text: 'Some ' }, { text: 'bold', bold: true }, { text: ' docs', href: 'https://example.com' }] },
+          { type: 'todo', checked: false, runs: [{ text: 'Follow up' }] },
+          { type: 'image', alt: 'Chart' }
+        ]
+      });
+
+      expect(analysis.hasHeaders).toBe(true);
+      expect(analysis.hasLists).toBe(true);
+      expect(analysis.hasCodeBlocks).toBe(false);
+      expect(analysis.hasBoldText).toBe(true);
+      expect(analysis.hasItalicText).toBe(false);
+      expect(analysis.hasLinks).toBe(true);
+      expect(analysis.hasImages).toBe(true);
+      expect(analysis.wordCount).toBe(7);
+    });
+
+    it('should preview pages from their document', () => {
+      const preview = contentPreview.previewPage({
+        ...mockPage,
+        content: '',
+        document: { blocks: [{ type: 'list', ordered: true, items: [{ runs: [{ text: 'First step' }], children: [] }] }] }
+      });
+
+      expect(preview).toContain('📋 Lists');
+      expect(preview).toContain('1. First step');
+    });
+  });
+
   describe('exportPreview', () => {
     it('should export page preview to file', async () => {
       const tempFile = '/tmp/page-preview.html';
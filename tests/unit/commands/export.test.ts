@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { exportCommand } from '../../../src/commands/export';
+import { buildSectionFile } from '../../fixtures/onenote/onestore-builder';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    level: 'info',
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('export command', () => {
+  let tempDir: string;
+  let exit: jest.SpyInstance;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-export-'));
+    exit = jest.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  afterEach(() => {
+    exit.mockRestore();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should give a section and a section group of the same name folders of their own', async () => {
+    const notebookDir = path.join(tempDir, 'Work');
+    fs.mkdirSync(path.join(notebookDir, 'Projects'), { recursive: true });
+    fs.writeFileSync(path.join(notebookDir, 'Projects.one'), buildSectionFile({ pages: [{ title: 'Overview', outlines: [] }] }));
+    fs.writeFileSync(path.join(notebookDir, 'Projects', 'Plan.one'), buildSectionFile({ pages: [{ title: 'Overview', outlines: [] }] }));
+    const outputDir = path.join(tempDir, 'out');
+
+    await exportCommand.parseAsync(['-f', notebookDir, '-o', outputDir], { from: 'user' });
+
+    expect(fs.readdirSync(path.join(outputDir, 'Work')).sort()).toEqual(['Projects', 'Projects_2']);
+    expect(fs.readdirSync(path.join(outputDir, 'Work', 'Projects'))).toEqual(['Overview.md']);
+    expect(fs.readdirSync(path.join(outputDir, 'Work', 'Projects_2', 'Plan'))).toEqual(['Overview.md']);
+    const summary = JSON.parse(fs.readFileSync(path.join(outputDir, 'export-summary.json'), 'utf8'));
+    expect(summary.sections.map((section: any) => [section.path, section.pages])).toEqual([
+      ['Work/Projects', 1],
+      ['Work/Projects_2/Plan', 1]
+    ]);
+    expect(exit).not.toHaveBeenCalled();
+  }, 30000);
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { importCommand } from '../../../src/commands/import';
+import { CommandHelpers } from '../../../src/utils/command-helpers';
+import { buildSectionFile } from '../../fixtures/onenote/onestore-builder';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    level: 'info',
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const mockPagesCreate = jest.fn();
+const mockDatabasesUpdate = jest.fn();
+const mockFileUploadsSend = jest.fn();
+
+jest.mock('@notionhq/client', () => ({
+  Client: jest.fn().mockImplementation(() => ({
+    users: { me: jest.fn().mockResolvedValue({ id: 'user-1' }) },
+    databases: { update: (args: any) => mockDatabasesUpdate(args) },
+    pages: { create: (args: any) => mockPagesCreate(args) },
+    fileUploads: {
+      create: jest.fn().mockResolvedValue({ id: 'upload-1' }),
+      send: (args: any) => mockFileUploadsSend(args)
+    }
+  }))
+}));
+
+describe('import command', () => {
+  let tempDir: string;
+  let configPath: string;
+  let exit: jest.SpyInstance;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-import-'));
+    configPath = path.join(tempDir, 'oni.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+      notion: { apiKey: 'test-token', workspaceId: 'workspace-1', databaseId: 'database-1' }
+    }));
+
+    let created = 0;
+    mockPagesCreate.mockReset().mockImplementation(() => Promise.resolve({ id: `notion-page-${++created}` }));
+    mockDatabasesUpdate.mockReset().mockImplementation(args => Promise.resolve({ id: args.database_id }));
+    mockFileUploadsSend.mockReset().mockResolvedValue({});
+    exit = jest.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  afterEach(() => {
+    exit.mockRestore();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create every page in the database, nested through the parent item relation, with its note tags', async () => {
+    const filePath = path.join(tempDir, 'Inbox.one');
+    fs.writeFileSync(filePath, buildSectionFile({
+      pages: [{
+        title: 'Errands',
+        outlines: [[
+          { text: 'Buy milk', tags: [{ label: 'To Do', shape: 3 }] },
+          { text: 'Why?', tags: [{ label: 'Question', shape: 15 }] }
+        ]]
+      }]
+    }));
+
+    await importCommand.parseAsync(['-f', filePath, '-c', configPath], { from: 'user' });
+
+    expect(mockDatabasesUpdate).toHaveBeenCalledWith(expect.objectContaining({ database_id: 'database-1' }));
+    const [notebook, section, page] = mockPagesCreate.mock.calls.map(call => call[0]);
+    for (const created of [notebook, section, page]) {
+      expect(created.parent).toEqual({ database_id: 'database-1' });
+    }
+    expect(notebook.properties['Parent item']).toBeUndefined();
+    expect(section.properties['Parent item']).toEqual({ relation: [{ id: 'notion-page-1' }] });
+    expect(page.properties['Parent item']).toEqual({ relation: [{ id: 'notion-page-2' }] });
+    expect(page.properties.title).toEqual({ title: [{ text: { content: 'Errands' } }] });
+    expect(page.properties.Tags).toEqual({ multi_select: [{ name: 'To Do' }, { name: 'Question' }] });
+    expect(page.properties['Source ID']).toEqual({ rich_text: [{ text: { content: expect.stringMatching(/^page-/) } }] });
+    expect(section.properties['Source ID']).toEqual({ rich_text: [{ text: { content: expect.stringMatching(/^section-/) } }] });
+    expect(Object.keys(page.properties).sort()).toEqual(
+      ['Author', 'Created Date', 'Last Modified', 'Parent item', 'Source ID', 'Tags', 'Type', 'title']
+    );
+    expect(exit).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should fail a damaged section without salvage instead of importing placeholder content', async () => {
+    const filePath = path.join(tempDir, 'Damaged.one');
+    fs.writeFileSync(filePath, buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }] }).subarray(0, 600));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      await expect(importCommand.parseAsync(['-f', filePath, '-c', configPath], { from: 'user' })).rejects.toThrow('process.exit(1)');
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('1 file(s) or section(s) could not be read'));
+    } finally {
+      consoleError.mockRestore();
+    }
+    expect(mockPagesCreate).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should delete the files extracted for a page once the page is uploaded', async () => {
+    const filePath = path.join(tempDir, 'Photos.one');
+    fs.writeFileSync(filePath, buildSectionFile({
+      pages: [{ title: 'Holiday', outlines: [[{ text: 'Beach', image: { data: Buffer.from('png data'), extension: '.png' } }]] }]
+    }));
+    const createAssetsDirectory = jest.spyOn(CommandHelpers, 'createAssetsDirectory');
+    const uploaded: string[] = [];
+    // The assets directory still holds the picture while it is sent
+    mockFileUploadsSend.mockImplementation(() => {
+      uploaded.push(...fs.readdirSync(createAssetsDirectory.mock.results[0]!.value));
+      return Promise.resolve({});
+    });
+
+    try {
+      await importCommand.parseAsync(['-f', filePath, '-c', configPath], { from: 'user' });
+
+      expect(uploaded).toHaveLength(1);
+      expect(fs.readdirSync(createAssetsDirectory.mock.results[0]!.value)).toEqual([]);
+    } finally {
+      createAssetsDirectory.mockRestore();
+    }
+    expect(exit).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should extract nothing to disk on a dry run', async () => {
+    const filePath = path.join(tempDir, 'Photos.one');
+    fs.writeFileSync(filePath, buildSectionFile({
+      pages: [{ title: 'Holiday', outlines: [[{ text: 'Beach', image: { data: Buffer.from('png data'), extension: '.png' } }]] }]
+    }));
+    const createAssetsDirectory = jest.spyOn(CommandHelpers, 'createAssetsDirectory');
+
+    try {
+      await importCommand.parseAsync(['-f', filePath, '-c', configPath, '--dry-run'], { from: 'user' });
+
+      expect(createAssetsDirectory).not.toHaveBeenCalled();
+    } finally {
+      createAssetsDirectory.mockRestore();
+    }
+    expect(mockPagesCreate).not.toHaveBeenCalled();
+    expect(exit).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should log what a dry run salvaged without writing a report', async () => {
+    const filePath = path.join(tempDir, 'Damaged.one');
+    fs.writeFileSync(filePath, buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }] }).subarray(0, 600));
+    const reportPath = path.resolve('salvage-report.json');
+
+    try {
+      await importCommand.parseAsync(['-f', filePath, '-c', configPath, '--dry-run', '--salvage'], { from: 'user' });
+
+      expect(fs.existsSync(reportPath)).toBe(false);
+    } finally {
+      fs.rmSync(reportPath, { force: true });
+    }
+    expect(mockPagesCreate).not.toHaveBeenCalled();
+    expect(exit).not.toHaveBeenCalled();
+  }, 30000);
+});
@@ -195,5 +195,73 @@ describe('SelectionInterface', () => {
       expect(summary.sections).toBe(1);
       expect(summary.pages).toBe(2);
     });
+    it('should count section groups and the sections nested in them', () => {
+      const summary = selectionInterface.getSelectionSummary(['group-1', 'section-4', 'page-5'], hierarchyWithGroups());
+
+      expect(summary.sectionGroups).toBe(1);
+      expect(summary.sections).toBe(1);
+      expect(summary.pages).toBe(1);
+    });
+  });
+
+  describe('section groups', () => {
+    it('should display section groups with their nested sections and pages', () => {
+      const output = selectionInterface.displayHierarchy(hierarchyWithGroups());
+
+      expect(output).toContain('  🗂️ Projects\n    📁 Section 4\n      📄 Page 5\n');
+    });
+
+    it('should include pages from section groups when selecting all', async () => {
+      const selected = await selectionInterface.selectItems(hierarchyWithGroups(), { type: 'all' });
+
+      expect(selected.map(page => page.id)).toContain('page-5');
+      expect(selected).toHaveLength(5);
+    });
+
+    it('should select section groups by ID', async () => {
+      selectionInterface.setInputHandler(jest.fn().mockResolvedValue('group-1'));
+
+      const selected = await selectionInterface.selectItems(hierarchyWithGroups(), { type: 'sectionGroups', interactive: true });
+
+      expect(selected).toHaveLength(1);
+      expect(selected[0].name).toBe('Projects');
+    });
   });
+
+  function hierarchyWithGroups(): OneNoteHierarchy {
+    const notebook = mockHierarchy.notebooks[0]!;
+    return {
+      ...mockHierarchy,
+      notebooks: [
+        {
+          ...notebook,
+          sectionGroups: [
+            {
+              id: 'group-1',
+              name: 'Projects',
+              createdDate: new Date(),
+              lastModifiedDate: new Date(),
+              metadata: {},
+              sectionGroups: [],
+              sections: [
+                {
+                  id: 'section-4',
+                  name: 'Section 4',
+                  createdDate: new Date(),
+                  lastModifiedDate: new Date(),
+                  metadata: {},
+                  pages: [
+                    { id: 'page-5', title: 'Page 5', content: 'Content 5', createdDate: new Date(), lastModifiedDate: new Date(), metadata: {} }
+                  ]
+                }
+              ]
+            }
+          ]
+        },
+        ...mockHierarchy.notebooks.slice(1)
+      ],
+      totalSections: 4,
+      totalPages: 5
+    };
+  }
 });
@@ -168,6 +168,51 @@ describe('HierarchyMappingService', () => {
     });
   });
 
+  describe('mapSectionGroupToPage', () => {
+    it('should nest section groups between the notebook and their sections', async () => {
+      // Arrange
+      const [workNotebook] = mockNotebooks;
+      const notebooks: OneNoteNotebook[] = [{
+        ...workNotebook!,
+        sections: [],
+        sectionGroups: [{
+          id: 'group-1',
+          name: 'Projects',
+          createdDate: new Date('2024-01-01'),
+          lastModifiedDate: new Date('2024-01-01'),
+          metadata: {},
+          sections: [workNotebook!.sections[0]!],
+          sectionGroups: [{
+            id: 'group-2',
+            name: 'Ideas Archive',
+            createdDate: new Date('2024-01-01'),
+            lastModifiedDate: new Date('2024-01-01'),
+            metadata: {},
+            sections: [workNotebook!.sections[1]!],
+            sectionGroups: []
+          }]
+        }]
+      }];
+
+      // Act
+      const result = await service.mapHierarchy(notebooks, { maxDepth: 10 });
+
+      // Assert
+      const byId = new Map(result.pages.map(page => [page.id, page]));
+      expect(result.pages).toHaveLength(8); // notebook + 2 groups + 2 sections + 3 pages
+      expect(byId.get('group-1')?.parentId).toBe('notebook-1');
+      expect(byId.get('group-1')?.properties?.['Type']).toBe('Section Group');
+      expect(byId.get('section-1')?.parentId).toBe('group-1');
+      expect(byId.get('group-2')?.parentId).toBe('group-1');
+      expect(byId.get('section-2')?.parentId).toBe('group-2');
+      expect(byId.get('page-3')?.parentId).toBe('section-2');
+      expect(byId.get('section-2')?.properties?.['Source ID']).toBe('section-2');
+      expect(result.metadata?.totalSections).toBe(2);
+      expect(result.metadata?.totalPages).toBe(3);
+      expect(service.validateHierarchy(result.pages).isValid).toBe(true);
+    });
+  });
+
   describe('createDatabaseStructure', () => {
     it('should create databases for notebooks', async () => {
       // Arrange
@@ -236,6 +281,60 @@ describe('HierarchyMappingService', () => {
       expect(result.parentId).toBe('parent-123');
     });
 
+    it('should nest subpages under their parent page', async () => {
+      // Arrange
+      const page = (id: string, level: number): OneNotePage => ({
+        id,
+        title: id,
+        content: '',
+        level,
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-01-01'),
+        metadata: {}
+      });
+      const section: OneNoteSection = {
+        id: 'section-1',
+        name: 'Projects',
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-01-01'),
+        metadata: {},
+        pages: [page('plan', 1), page('milestones', 2), page('risks', 3), page('retro', 1)]
+      };
+
+      // Act
+      const result = await service.mapSectionToPage(section, undefined, { maxDepth: 10 });
+
+      // Assert
+      expect(result.children?.map(child => child.id)).toEqual(['plan', 'retro']);
+      const milestones = result.children?.[0]?.children?.[0];
+      expect(milestones?.id).toBe('milestones');
+      expect(milestones?.parentId).toBe('plan');
+      expect(milestones?.children?.[0]?.parentId).toBe('milestones');
+      expect(service.flattenHierarchy([result])).toHaveLength(5);
+    });
+
+    it('should pass the section color on as a property', async () => {
+      // Arrange
+      const section: OneNoteSection = {
+        id: 'section-3',
+        name: 'Colored',
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-01-01'),
+        metadata: {},
+        pages: [],
+        color: '#f4a8a8'
+      };
+
+      // Act
+      const { color, ...plainSection } = section;
+      const colored = await service.mapSectionToPage(section);
+      const plain = await service.mapSectionToPage(plainSection);
+
+      // Assert
+      expect(colored.properties?.['Color']).toBe('#f4a8a8');
+      expect(plain.properties).not.toHaveProperty('Color');
+    });
+
     it('should handle section without pages', async () => {
       // Arrange
       const section: OneNoteSection = {
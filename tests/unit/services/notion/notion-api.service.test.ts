@@ -59,6 +59,25 @@ jest.mock('@notionhq/client', () => {
           }
           return Promise.resolve({ id: args.database_id });
         })
+      },
+      fileUploads: {
+        create: jest.fn().mockImplementation((args) => Promise.resolve({
+          id: `upload-${args.filename}`,
+          status: 'pending',
+          upload_url: `https://api.notion.com/v1/file_uploads/upload-${args.filename}/send`
+        })),
+        send: jest.fn().mockImplementation((args) => Promise.resolve({ id: args.file_upload_id, status: 'pending' })),
+        complete: jest.fn().mockImplementation((args) => Promise.resolve({ id: args.file_upload_id, status: 'uploaded' }))
+      },
+      blocks: {
+        children: {
+          append: jest.fn().mockImplementation((args) => Promise.resolve({
+            results: args.children.map((_: any, index: number) => ({ id: `${args.block_id}+${index}` }))
+          })),
+          list: jest.fn().mockImplementation((args) => Promise.resolve({
+            results: Array.from({ length: args.page_size }, (_, index) => ({ id: `${args.block_id}/${index}` }))
+          }))
+        }
       }
     }))
   };
@@ -216,6 +235,461 @@ describe('NotionApiService', () => {
       expect(result.error).toBeUndefined();
     });
 
+    it('should convert inline formatting to rich text annotations', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      const page: NotionPage = {
+        id: 'page-formatting',
+        title: 'Formatting',
+        content: '- Plain **bold _both_** `a_b` <u>under</u> <mark style="background-color:#ffff00">lit</mark> ' +
+          '<span style="color:#ff0000">red</span> [docs](https://example.com) snake_case_name'
+      };
+
+      // Act
+      await service.createPage(page);
+
+      // Assert
+      const [block] = mockClient.pages.create.mock.calls[0][0].children;
+      expect(block.type).toBe('bulleted_list_item');
+      expect(block.bulleted_list_item.rich_text).toEqual([
+        { text: { content: 'Plain ' } },
+        { text: { content: 'bold ' }, annotations: { bold: true } },
+        { text: { content: 'both' }, annotations: { bold: true, italic: true } },
+        { text: { content: ' ' } },
+        { text: { content: 'a_b' }, annotations: { code: true } },
+        { text: { content: ' ' } },
+        { text: { content: 'under' }, annotations: { underline: true } },
+        { text: { content: ' ' } },
+        { text: { content: 'lit' }, annotations: { color: 'yellow_background' } },
+        { text: { content: ' ' } },
+        { text: { content: 'red' }, annotations: { color: 'red' } },
+        { text: { content: ' ' } },
+        { text: { content: 'docs', link: { url: 'https://example.com' } } },
+        { text: { content: ' snake_case_name' } }
+      ]);
+    });
+
+    it('should convert page documents into Notion blocks', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      const cell = (text: string) => ({ blocks: [{ type: 'paragraph' as const, runs: [{ text }] }] });
+      const page: NotionPage = {
+        id: 'page-document',
+        title: 'Document',
+        content: 'ignored markdown',
+        document: {
+          blocks: [
+            { type: 'heading', level: 5, runs: [{ text: 'Deep heading' }] },
+            {
+              type: 'list',
+              ordered: false,
+              items: [{
+                runs: [{ text: 'Parent', bold: true }],
+                children: [{ type: 'list', ordered: true, items: [{ runs: [{ text: 'Child' }], children: [] }] }]
+              }]
+            },
+            { type: 'todo', checked: true, runs: [{ text: 'Done', highlight: '#ffff00' }] },
+            { type: 'code', language: 'python', text: 'print(1)' },
+            { type: 'equation', expression: 'x^2' },
+            { type: 'paragraph', runs: [{ text: 'Area ' }, { text: 'πr^2', equation: '\\pi r^{2}' }] },
+            { type: 'divider' },
+            { type: 'image', src: 'https://example.com/chart.png', alt: 'Chart' },
+            {
+              type: 'table',
+              rows: [
+                { cells: [{ ...cell('Merged'), colSpan: 2 }] },
+                { cells: [cell('a'), cell('b')] }
+              ]
+            }
+          ]
+        }
+      };
+
+      // Act
+      await service.createPage(page);
+
+      // Assert
+      const children = mockClient.pages.create.mock.calls[0][0].children;
+      expect(children.map((block: any) => block.type)).toEqual([
+        'heading_3', 'bulleted_list_item', 'to_do', 'code', 'equation', 'paragraph', 'divider', 'image', 'table'
+      ]);
+      expect(children[1].bulleted_list_item).toEqual({
+        rich_text: [{ text: { content: 'Parent' }, annotations: { bold: true } }],
+        children: [{ type: 'numbered_list_item', numbered_list_item: { rich_text: [{ text: { content: 'Child' } }] } }]
+      });
+      expect(children[2].to_do).toEqual({
+        rich_text: [{ text: { content: 'Done' }, annotations: { color: 'yellow_background' } }],
+        checked: true
+      });
+      expect(children[3].code.language).toBe('python');
+      expect(children[4].equation).toEqual({ expression: 'x^2' });
+      expect(children[5].paragraph.rich_text).toEqual([
+        { text: { content: 'Area ' } },
+        { type: 'equation', equation: { expression: '\\pi r^{2}' } }
+      ]);
+      expect(children[7].image.external.url).toBe('https://example.com/chart.png');
+      expect(children[8].table.table_width).toBe(2);
+      expect(children[8].table.children.map((row: any) => row.table_row.cells)).toEqual([
+        [[{ text: { content: 'Merged' } }], []],
+        [[{ text: { content: 'a' } }], [{ text: { content: 'b' } }]]
+      ]);
+    });
+
+    it('should collect note tags into the multi-select tags property', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      const page: NotionPage = {
+        id: 'page-tags',
+        title: 'Tagged',
+        content: '',
+        document: {
+          blocks: [
+            { type: 'todo', checked: false, runs: [{ text: 'Call' }], tags: [{ name: 'To Do', checked: false }, { name: 'Important', icon: '⭐' }] },
+            { type: 'paragraph', runs: [{ text: 'Why?' }], tags: [{ name: 'Question, later', icon: '❓' }] },
+            { type: 'paragraph', runs: [{ text: 'Again' }], tags: [{ name: 'Important', icon: '⭐' }] }
+          ]
+        }
+      };
+
+      // Act
+      await service.createPage(page);
+      await service.createPage({ ...page, parentId: 'parent-page' });
+      await service.createPage({ ...page, parentItemId: 'section-entry' });
+
+      // Assert
+      const [databaseCall, pageCall, itemCall] = mockClient.pages.create.mock.calls.map((call: any[]) => call[0]);
+      expect(databaseCall.properties.Tags).toEqual({
+        multi_select: [{ name: 'To Do' }, { name: 'Important' }, { name: 'Question  later' }]
+      });
+      expect(pageCall.properties.Tags).toBeUndefined();
+      expect(itemCall.parent).toEqual({ database_id: mockConfig.databaseId });
+      expect(itemCall.properties['Parent item']).toEqual({ relation: [{ id: 'section-entry' }] });
+      expect(itemCall.properties.Tags).toEqual(databaseCall.properties.Tags);
+      expect(databaseCall.children[0].to_do).toEqual({
+        rich_text: [{ text: { content: '⭐ ' } }, { text: { content: 'Call' } }],
+        checked: false
+      });
+      expect(databaseCall.children[1].paragraph.rich_text[0]).toEqual({ text: { content: '❓ ' } });
+    });
+
+    it('should upload local document images and reference them by upload id', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      mockClient.fileUploads.create.mockClear();
+      const fs = require('fs');
+      const imagePath = '/tmp/document-image.png';
+      fs.writeFileSync(imagePath, 'fake png content');
+      const page: NotionPage = {
+        id: 'page-images',
+        title: 'Images',
+        content: '',
+        document: {
+          blocks: [
+            { type: 'image', src: imagePath, alt: 'Diagram' },
+            { type: 'image', src: imagePath, alt: 'Same diagram' },
+            { type: 'image', src: '/tmp/missing-image.png', alt: 'Missing' }
+          ]
+        }
+      };
+
+      // Act
+      await service.createPage(page);
+
+      // Assert
+      expect(mockClient.fileUploads.create).toHaveBeenCalledTimes(1);
+      const children = mockClient.pages.create.mock.calls[0][0].children;
+      expect(children[0]).toEqual({
+        type: 'image',
+        image: { type: 'file_upload', file_upload: { id: 'upload-document-image.png' }, caption: [{ text: { content: 'Diagram' } }] }
+      });
+      expect(children[1].image.file_upload).toEqual(children[0].image.file_upload);
+      expect(children[2].paragraph.rich_text[0].text.content).toBe('🖼️ Missing');
+
+      // Cleanup
+      fs.unlinkSync(imagePath);
+    });
+
+    it('should caption images with their recognized text and add it as a toggle when asked', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      const ocrText = `Invoice 42\n\nTotal ${'9'.repeat(2500)}`;
+      const page: NotionPage = {
+        id: 'page-scan',
+        title: 'Scan',
+        content: '',
+        document: { blocks: [{ type: 'image', src: 'https://example.com/scan.png', alt: ocrText, ocrText }] }
+      };
+
+      // Act
+      await service.createPage(page);
+      await service.createPage(page, { imageTextToggles: true });
+
+      // Assert
+      const [plain, toggled] = mockClient.pages.create.mock.calls.map((call: any[]) => call[0].children);
+      expect(plain).toHaveLength(1);
+      expect(plain[0].image.caption.map((text: any) => text.text.content.length)).toEqual([2000, ocrText.length - 2000]);
+      expect(toggled[1]).toEqual({
+        type: 'toggle',
+        toggle: {
+          rich_text: [{ text: { content: 'Text in image' } }],
+          children: [
+            { type: 'paragraph', paragraph: { rich_text: [{ text: { content: 'Invoice 42' } }] } },
+            { type: 'paragraph', paragraph: { rich_text: [expect.objectContaining({ text: { content: expect.stringMatching(/^Total 9+$/) } }), expect.anything()] } }
+          ]
+        }
+      });
+    });
+
+    it('should add recordings as audio and video blocks where Notion plays their type', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      mockClient.fileUploads.create.mockClear();
+      const fs = require('fs');
+      const audioPath = '/tmp/0123456789abcdef.m4a';
+      const wmaPath = '/tmp/0123456789abcdef.wma';
+      const videoPath = '/tmp/0123456789abcdef.wmv';
+      [audioPath, wmaPath, videoPath].forEach(filePath => fs.writeFileSync(filePath, 'fake recording'));
+      const page: NotionPage = {
+        id: 'page-recordings',
+        title: 'Recordings',
+        content: '',
+        document: {
+          blocks: [
+            { type: 'file', name: 'Standup', src: audioPath, recording: { kind: 'audio', duration: 95 } },
+            { type: 'file', name: 'Call', src: wmaPath, recording: { kind: 'audio' } },
+            { type: 'file', name: 'Demo', src: videoPath, recording: { kind: 'video' } },
+            { type: 'file', name: 'Too long', recording: { kind: 'video', duration: 4000 } }
+          ]
+        }
+      };
+
+      // Act
+      await service.createPage(page);
+
+      // Assert
+      expect(mockClient.fileUploads.create.mock.calls.map((call: any[]) => call[0].filename)).toEqual(['Standup.m4a', 'Call.wma', 'Demo.wmv']);
+      const children = mockClient.pages.create.mock.calls[0][0].children;
+      expect(children[0]).toEqual({
+        type: 'audio',
+        audio: { type: 'file_upload', file_upload: { id: 'upload-Standup.m4a' }, caption: [{ text: { content: '1:35' } }] }
+      });
+      expect(children[1]).toEqual({ type: 'file', file: { type: 'file_upload', file_upload: { id: 'upload-Call.wma' }, name: 'Call' } });
+      expect(children[2].type).toBe('video');
+      expect(children[3].paragraph.rich_text[0].text.content).toBe('🎬 Too long (1:06:40)');
+
+      // Cleanup
+      [audioPath, wmaPath, videoPath].forEach(filePath => fs.unlinkSync(filePath));
+    });
+
+    it('should add side by side outlines as columns with the columns layout', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      const left = { type: 'paragraph' as const, runs: [{ text: 'Left' }] };
+      const right = { type: 'paragraph' as const, runs: [] };
+      const page: NotionPage = {
+        id: 'page-layout',
+        title: 'Layout',
+        content: '',
+        document: {
+          blocks: [left, right],
+          regions: [{ x: 0, y: 0, width: 200, blocks: [left] }, { x: 300, y: 10, width: 200, blocks: [right] }]
+        }
+      };
+
+      // Act
+      await service.createPage(page);
+      await service.createPage(page, { layout: 'columns' });
+
+      // Assert
+      const [flat, columns] = mockClient.pages.create.mock.calls.map((call: any[]) => call[0].children);
+      expect(flat.map((block: any) => block.type)).toEqual(['paragraph']);
+      expect(columns).toEqual([{
+        type: 'column_list',
+        column_list: {
+          children: [
+            { type: 'column', column: { children: [{ type: 'paragraph', paragraph: { rich_text: [{ text: { content: 'Left' } }] } }] } },
+            { type: 'column', column: { children: [{ type: 'paragraph', paragraph: { rich_text: [] } }] } }
+          ]
+        }
+      }]);
+    });
+
+    it('should send at most two levels of children and 100 blocks per request, appending the rest', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      mockClient.blocks.children.append.mockClear();
+      mockClient.blocks.children.list.mockClear();
+      const item = (text: string, children: any[] = []) => ({ runs: [{ text }], children });
+      const list = (...items: any[]) => ({ type: 'list' as const, ordered: false, items });
+      const page: NotionPage = {
+        id: 'page-long',
+        title: 'Long',
+        content: '',
+        document: {
+          blocks: [list(
+            item('Level 1', [list(item('Level 2', [list(item('Level 3', [list(item('Level 4'))]))]))]),
+            ...Array.from({ length: 149 }, (_, index) => item(`Item ${index + 2}`))
+          )]
+        }
+      };
+
+      // Act
+      const result = await service.createPage(page);
+
+      // Assert
+      expect(result.success).toBe(true);
+      const children = mockClient.pages.create.mock.calls[0][0].children;
+      expect(children).toHaveLength(100);
+      const level3 = children[0].bulleted_list_item.children[0].bulleted_list_item.children[0];
+      expect(level3.bulleted_list_item.rich_text[0].text.content).toBe('Level 3');
+      expect(level3.bulleted_list_item.children).toBeUndefined();
+      expect(mockClient.blocks.children.list.mock.calls.map((call: any[]) => call[0].block_id)).toEqual(['page-123', 'page-123/0', 'page-123/0/0']);
+      const appends = mockClient.blocks.children.append.mock.calls.map((call: any[]) => call[0]);
+      expect(appends.map((call: any) => [call.block_id, call.children.length])).toEqual([['page-123/0/0/0', 1], ['page-123', 50]]);
+      expect(appends[0].children[0].bulleted_list_item.rich_text[0].text.content).toBe('Level 4');
+      expect(appends[1].children[0].bulleted_list_item.rich_text[0].text.content).toBe('Item 101');
+    });
+
+    it('should return a page whose remaining content could not be appended, with a warning, instead of failing it', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      mockClient.blocks.children.append.mockClear().mockRejectedValueOnce(new Error('Block is archived'));
+      const page: NotionPage = {
+        id: 'page-long',
+        title: 'Long',
+        content: '',
+        document: { blocks: Array.from({ length: 150 }, (_, index) => ({ type: 'paragraph' as const, runs: [{ text: `Line ${index}` }] })) }
+      };
+
+      // Act
+      const result = await service.createPage(page);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.pageId).toBe('page-123');
+      expect(result.warning).toBe('Page created without all of its content: Block is archived');
+      expect(mockClient.pages.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should upload the files of a rate limited page once, sending only the page again', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      jest.spyOn(service, 'handleRateLimit').mockResolvedValue();
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear().mockRejectedValueOnce(Object.assign(new Error('Rate limited'), { code: 'rate_limited' }));
+      mockClient.fileUploads.create.mockClear();
+      const fs = require('fs');
+      const filePath = '/tmp/rate-limited-image.png';
+      fs.writeFileSync(filePath, 'fake png content');
+      const page: NotionPage = {
+        id: 'page-image',
+        title: 'Image',
+        content: '',
+        document: { blocks: [{ type: 'image', src: filePath }] }
+      };
+
+      try {
+        // Act
+        const result = await service.createPage(page);
+
+        // Assert
+        expect(result.success).toBe(true);
+        expect(result.metadata?.retryCount).toBe(1);
+        expect(mockClient.pages.create).toHaveBeenCalledTimes(2);
+        expect(mockClient.fileUploads.create).toHaveBeenCalledTimes(1);
+      } finally {
+        fs.rmSync(filePath, { force: true });
+      }
+    });
+
+    it('should append a table in a column to the column once the page exists', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      mockClient.blocks.children.append.mockClear();
+      const table = {
+        type: 'table' as const,
+        rows: [{ cells: [{ blocks: [{ type: 'paragraph' as const, runs: [{ text: 'Cell' }] }] }] }]
+      };
+      const right = { type: 'paragraph' as const, runs: [{ text: 'Right' }] };
+      const page: NotionPage = {
+        id: 'page-columns',
+        title: 'Columns',
+        content: '',
+        document: {
+          blocks: [table, right],
+          regions: [{ x: 0, y: 0, width: 200, blocks: [table] }, { x: 300, y: 0, width: 200, blocks: [right] }]
+        }
+      };
+
+      // Act
+      await service.createPage(page, { layout: 'columns' });
+
+      // Assert
+      const [columnList] = mockClient.pages.create.mock.calls[0][0].children;
+      expect(columnList.column_list.children.map((column: any) => column.column.children[0])).toEqual([
+        { type: 'paragraph', paragraph: { rich_text: [] } },
+        { type: 'paragraph', paragraph: { rich_text: [{ text: { content: 'Right' } }] } }
+      ]);
+      const [append] = mockClient.blocks.children.append.mock.calls.map((call: any[]) => call[0]);
+      expect(append.block_id).toBe('page-123/0/0');
+      expect(append.children[0].type).toBe('table');
+      expect(append.children[0].table.children).toHaveLength(1);
+    });
+
+    it('should upload attachments under their original file name', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      mockClient.fileUploads.create.mockClear();
+      const fs = require('fs');
+      const filePath = '/tmp/0123456789abcdef.xlsx';
+      fs.writeFileSync(filePath, 'fake spreadsheet');
+      const page: NotionPage = {
+        id: 'page-files',
+        title: 'Files',
+        content: '',
+        document: { blocks: [{ type: 'file', name: 'Budget.xlsx', src: filePath }] }
+      };
+
+      // Act
+      await service.createPage(page);
+
+      // Assert
+      expect(mockClient.fileUploads.create).toHaveBeenCalledWith({
+        mode: 'single_part',
+        filename: 'Budget.xlsx',
+        content_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+      expect(mockClient.pages.create.mock.calls[0][0].children).toEqual([{
+        type: 'file',
+        file: { type: 'file_upload', file_upload: { id: 'upload-Budget.xlsx' }, name: 'Budget.xlsx' }
+      }]);
+
+      // Cleanup
+      fs.unlinkSync(filePath);
+    });
+
     it('should create a page with properties', async () => {
       // Arrange
       await service.initialize(mockConfig);
@@ -239,6 +713,28 @@ describe('NotionApiService', () => {
       expect(result.metadata?.itemsProcessed).toBe(1);
     });
 
+    it('should only set the title of pages nested under another page', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      const page: NotionPage = {
+        id: 'section-page',
+        title: 'Section',
+        content: '',
+        properties: { 'Type': 'Section', 'Source ID': 'section-1', 'Created Date': new Date('2024-01-01T00:00:00Z') },
+        parentId: 'notebook-page'
+      };
+
+      // Act
+      await service.createPage(page);
+
+      // Assert
+      expect(mockClient.pages.create.mock.calls[0][0].properties).toEqual({
+        title: { title: [{ text: { content: 'Section' } }] }
+      });
+    });
+
     it('should handle page creation errors', async () => {
       // Arrange
       await service.initialize(mockConfig);
@@ -305,6 +801,62 @@ describe('NotionApiService', () => {
       fs.unlinkSync(filePath);
     });
 
+    it('should send the file contents to a Notion file upload', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      const filePath = '/tmp/test-upload.png';
+      const fs = require('fs');
+      fs.writeFileSync(filePath, 'fake png content');
+
+      // Act
+      const result = await service.uploadFile(filePath);
+
+      // Assert
+      expect(mockClient.fileUploads.create).toHaveBeenCalledWith({
+        mode: 'single_part',
+        filename: 'test-upload.png',
+        content_type: 'image/png'
+      });
+      const sent = mockClient.fileUploads.send.mock.calls[0][0];
+      expect(sent.file_upload_id).toBe('upload-test-upload.png');
+      expect(sent.file.filename).toBe('test-upload.png');
+      expect(sent.file.data.size).toBe('fake png content'.length);
+      expect(sent.file.data.type).toBe('image/png');
+      expect(result.fileId).toBe('upload-test-upload.png');
+
+      // Cleanup
+      fs.unlinkSync(filePath);
+    });
+
+    it('should send files over 20MB in parts and complete the upload', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      const filePath = '/tmp/test-upload-large.mp4';
+      const fs = require('fs');
+      fs.writeFileSync(filePath, Buffer.alloc(25 * 1024 * 1024, 1));
+
+      // Act
+      const result = await service.uploadFile(filePath);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockClient.fileUploads.create).toHaveBeenCalledWith({
+        mode: 'multi_part',
+        filename: 'test-upload-large.mp4',
+        content_type: 'video/mp4',
+        number_of_parts: 3
+      });
+      const parts = mockClient.fileUploads.send.mock.calls.map((call: any[]) => call[0]);
+      expect(parts.map((part: any) => part.part_number)).toEqual(['1', '2', '3']);
+      expect(parts.map((part: any) => part.file.data.size)).toEqual([10485760, 10485760, 5242880]);
+      expect(mockClient.fileUploads.complete).toHaveBeenCalledWith({ file_upload_id: 'upload-test-upload-large.mp4' });
+
+      // Cleanup
+      fs.unlinkSync(filePath);
+    });
+
     it('should upload document file successfully', async () => {
       // Arrange
       await service.initialize(mockConfig);
@@ -412,6 +964,29 @@ describe('NotionApiService', () => {
       expect(result[0]?.children).toHaveLength(2);
     });
 
+    it('should create child pages under their parent Notion page', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+      mockClient.pages.create.mockClear();
+      const pages: NotionPage[] = [
+        {
+          id: 'section-page',
+          title: 'Section',
+          content: '',
+          children: [{ id: 'child-page', title: 'Child', content: '', parentId: 'section-page' }]
+        }
+      ];
+
+      // Act
+      await service.createPageHierarchy(pages);
+
+      // Assert
+      const parents = mockClient.pages.create.mock.calls.map((call: any[]) => call[0].parent);
+      expect(parents[0]).toEqual({ database_id: mockConfig.databaseId });
+      expect(parents[1]).toEqual({ page_id: 'page-123' });
+    });
+
     it('should handle hierarchy creation errors', async () => {
       // Arrange
       await service.initialize(mockConfig);
@@ -482,6 +1057,27 @@ describe('NotionApiService', () => {
       expect(result).toBe(true);
     });
 
+    it('should add a column for each property the import sets', async () => {
+      // Arrange
+      await service.initialize(mockConfig);
+      const mockClient = (service as any).client;
+
+      // Act
+      await service.setupDatabaseProperties('database-123');
+
+      // Assert
+      const update = mockClient.databases.update.mock.calls[0][0];
+      expect(update.properties).toEqual(expect.objectContaining({
+        'Type': { rich_text: {} },
+        'Source ID': { rich_text: {} },
+        'Created Date': { date: {} },
+        'Last Modified': { date: {} },
+        'Color': { rich_text: {} },
+        'Tags': { multi_select: {} }
+      }));
+      expect(update.title).toBeUndefined();
+    });
+
     it('should handle database setup errors', async () => {
       // Arrange
       const invalidConfig: NotionConfig = {
@@ -51,6 +51,111 @@ describe('AdvancedContentConverterService', () => {
       expect(result.tables?.[0]?.rows).toHaveLength(2);
     });
 
+    it('should take tables and attachments from the page document', async () => {
+      // Arrange
+      const cell = (text: string) => ({ blocks: [{ type: 'paragraph' as const, runs: [{ text }] }] });
+      const page: OneNotePage = {
+        id: 'page-document',
+        title: 'Page with a Document',
+        content: '',
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-01-01'),
+        metadata: {},
+        document: {
+          blocks: [
+            { type: 'paragraph', runs: [{ text: 'Before' }] },
+            { type: 'table', rows: [{ cells: [cell('Name'), cell('Age')] }, { cells: [cell('John'), cell('25')] }] },
+            { type: 'file', name: 'Report.PDF', src: 'assets/report.pdf', size: 2048 },
+            { type: 'paragraph', runs: [{ text: 'After' }] }
+          ]
+        }
+      };
+
+      // Act
+      const result = await converter.convertAdvancedPage(page, {
+        outputFormat: 'markdown',
+        preserveTables: true,
+        handleAttachments: true
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('Before\n\n| Name | Age |\n| --- | --- |\n| John | 25 |\n\n[Report.PDF](assets/report.pdf)\n\nAfter');
+      expect(result.tables).toEqual([{ headers: ['Name', 'Age'], rows: [['John', '25']] }]);
+      expect(result.attachments).toEqual([{ name: 'Report.PDF', type: 'pdf', size: 2048, path: 'assets/report.pdf' }]);
+    });
+
+    it('should expose embedded file details and their printout pages', async () => {
+      // Arrange
+      const page: OneNotePage = {
+        id: 'page-printout',
+        title: 'Printout',
+        content: '',
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-01-01'),
+        metadata: {},
+        document: {
+          blocks: [
+            {
+              type: 'file',
+              name: 'Report.pdf',
+              src: '/assets/abc.pdf',
+              size: 4096,
+              mimeType: 'application/pdf',
+              sourcePath: 'C:\\Docs\\Report.pdf'
+            },
+            { type: 'image', src: '/assets/page2.png', printout: { name: 'Report.pdf', src: '/assets/abc.pdf', page: 2 } },
+            { type: 'image', src: '/assets/page1.png', printout: { name: 'Report.pdf', src: '/assets/abc.pdf', page: 1 } },
+            { type: 'image', src: '/assets/photo.png' }
+          ]
+        }
+      };
+
+      // Act
+      const result = await converter.convertAdvancedPage(page, { outputFormat: 'markdown', handleAttachments: true });
+
+      // Assert
+      expect(result.attachments).toEqual([{
+        name: 'Report.pdf',
+        type: 'application/pdf',
+        mimeType: 'application/pdf',
+        size: 4096,
+        path: '/assets/abc.pdf',
+        sourcePath: 'C:\\Docs\\Report.pdf',
+        printouts: ['/assets/page1.png', '/assets/page2.png']
+      }]);
+    });
+
+    it('should take note tags from the page document', async () => {
+      // Arrange
+      const toDo = { name: 'To Do', shape: 1 };
+      const page: OneNotePage = {
+        id: 'page-tags',
+        title: 'Tagged',
+        content: '[TAG:ignored]',
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-01-01'),
+        metadata: {},
+        document: {
+          blocks: [
+            { type: 'todo', checked: true, runs: [{ text: 'Done' }], tags: [{ ...toDo, checked: true }] },
+            { type: 'todo', checked: false, runs: [{ text: 'Open' }], tags: [{ ...toDo, checked: false }] },
+            { type: 'paragraph', runs: [{ text: 'Key' }], tags: [{ name: 'Important', shape: 13, icon: '⭐', highlight: '#ffff00' }] }
+          ]
+        }
+      };
+
+      // Act
+      const result = await converter.convertAdvancedPage(page, { outputFormat: 'markdown', convertTags: true });
+
+      // Assert
+      expect(result.content).toBe('- [x] Done\n\n- [ ] Open\n\n⭐ Key');
+      expect(result.tags).toEqual([
+        { name: 'To Do', category: 'task', metadata: { shape: 1, completed: 1, open: 1 } },
+        { name: 'Important', color: '#ffff00', metadata: { shape: 13, icon: '⭐' } }
+      ]);
+    });
+
     it('should convert a page with code blocks', async () => {
       // Arrange
       const page: OneNotePage = {
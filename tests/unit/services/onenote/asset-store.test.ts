@@ -0,0 +1,76 @@
+/**
+ * Tests for the content-addressed asset store
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OneNoteAssetStore } from '../../../../src/services/onenote/asset-store';
+import { OneNoteDocument } from '../../../../src/types/document';
+
+describe('OneNoteAssetStore', () => {
+  let directory: string;
+  let store: OneNoteAssetStore;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-asset-store-'));
+    store = new OneNoteAssetStore(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('save', () => {
+    it('should name files after the hash of their contents', () => {
+      const first = store.save(Buffer.from('same bytes'), 'PNG');
+      const second = store.save(Buffer.from('same bytes'), '.png');
+      const other = store.save(Buffer.from('other bytes'), '.png');
+
+      expect(first.fileName).toMatch(/^[0-9a-f]{32}\.png$/);
+      expect(second).toEqual(first);
+      expect(other.fileName).not.toBe(first.fileName);
+      expect(first).toEqual(expect.objectContaining({ path: path.join(directory, first.fileName), mimeType: 'image/png', size: 10 }));
+      expect(fs.readdirSync(directory).sort()).toEqual([first.fileName, other.fileName].sort());
+    });
+
+    it('should detect the extension of data saved without one', () => {
+      expect(store.save(Buffer.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61])).fileName).toMatch(/\.gif$/);
+      expect(store.save(Buffer.from('%PDF-1.7')).mimeType).toBe('application/pdf');
+      expect(store.save(Buffer.from('unknown')).fileName).toMatch(/\.bin$/);
+    });
+  });
+
+  describe('mimeTypeOf', () => {
+    it('should look up MIME types by file name or extension', () => {
+      expect(OneNoteAssetStore.mimeTypeOf('photo.JPG')).toBe('image/jpeg');
+      expect(OneNoteAssetStore.mimeTypeOf('tiff')).toBe('image/tiff');
+      expect(OneNoteAssetStore.mimeTypeOf('archive.7z')).toBe('application/octet-stream');
+    });
+  });
+
+  describe('relinkDocument', () => {
+    it('should relink images and files nested in lists and tables without changing the original', () => {
+      const document: OneNoteDocument = {
+        blocks: [
+          { type: 'image', src: '/tmp/a.png' },
+          {
+            type: 'list',
+            ordered: false,
+            items: [{ runs: [{ text: 'Item' }], children: [{ type: 'file', name: 'b.pdf', src: '/tmp/b.pdf' }] }]
+          },
+          { type: 'table', rows: [{ cells: [{ blocks: [{ type: 'image', name: 'no-src.png' }] }] }] }
+        ]
+      };
+
+      const relinked = OneNoteAssetStore.relinkDocument(document, src => `assets/${path.basename(src)}`);
+
+      expect(relinked.blocks[0]).toEqual({ type: 'image', src: 'assets/a.png' });
+      expect(relinked.blocks[1]).toEqual(expect.objectContaining({
+        items: [expect.objectContaining({ children: [{ type: 'file', name: 'b.pdf', src: 'assets/b.pdf' }] })]
+      }));
+      expect(relinked.blocks[2]).toEqual(document.blocks[2]);
+      expect(document.blocks[0]).toEqual({ type: 'image', src: '/tmp/a.png' });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for the cabinet archive reader
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CabinetEntry, CabinetReader } from '../../../../src/services/onenote/cab-reader';
+import { OneNoteError } from '../../../../src/services/onenote/error-utils';
+import { FileByteSource } from '../../../../src/services/onenote/onestore/byte-source';
+import { buildCabinet } from '../../../fixtures/onenote/cab-builder';
+
+describe('CabinetReader', () => {
+  const files = [
+    { name: 'Section 1.one', data: Buffer.from('first section') },
+    { name: 'Group/Sub Group/Section 2.one', data: Buffer.from('second section') },
+    { name: 'Open Notebook.onetoc2', data: Buffer.from('toc') }
+  ];
+
+  it('should detect cabinet archives', () => {
+    expect(CabinetReader.isCabinet(buildCabinet(files))).toBe(true);
+    expect(CabinetReader.isCabinet(Buffer.from('OnePKG Test Package with enough text to pass the length check'))).toBe(false);
+  });
+
+  it('should list entries with forward-slash paths', () => {
+    const reader = new CabinetReader(buildCabinet(files));
+
+    expect(reader.entries.map(entry => entry.name)).toEqual([
+      'Section 1.one',
+      'Group/Sub Group/Section 2.one',
+      'Open Notebook.onetoc2'
+    ]);
+    expect(reader.entries[1]!.size).toBe(14);
+    expect(reader.entries[0]!.modifiedDate.getFullYear()).toBe(2024);
+  });
+
+  it.each(['none', 'mszip'] as const)('should extract %s folders', compression => {
+    const reader = new CabinetReader(buildCabinet(files, compression));
+
+    expect(reader.entries.map(entry => reader.extract(entry).toString())).toEqual(['first section', 'second section', 'toc']);
+  });
+
+  it('should carry the MSZIP history window across data blocks', () => {
+    const pattern = Buffer.from('OneNote revision store data block ');
+    const large = Buffer.alloc(100000);
+    for (let offset = 0; offset < large.length; offset += pattern.length) {
+      pattern.copy(large, offset);
+    }
+    large.writeUInt32LE(0xDEADBEEF, 70000);
+
+    const reader = new CabinetReader(buildCabinet([{ name: 'Large.one', data: large }], 'mszip'));
+
+    expect(reader.extract(reader.entries[0]!).equals(large)).toBe(true);
+  });
+
+  it('should hand out entry data block by block when extracting from a file', () => {
+    const large = Buffer.alloc(80000);
+    for (let offset = 0; offset < large.length; offset++) {
+      large[offset] = offset % 251;
+    }
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-cab-test-'));
+    const archivePath = path.join(directory, 'Notebook.onepkg');
+    fs.writeFileSync(archivePath, buildCabinet([{ name: 'Small.one', data: Buffer.from('small') }, { name: 'Large.one', data: large }]));
+
+    const source = new FileByteSource(archivePath);
+    try {
+      const reader = new CabinetReader(source, archivePath);
+      const pieces = new Map<CabinetEntry, Buffer[]>();
+      reader.extractTo(reader.entries, (entry, data) => pieces.set(entry, [...(pieces.get(entry) ?? []), data]));
+
+      const [small, largeEntry] = reader.entries;
+      expect(Buffer.concat(pieces.get(small!)!).toString()).toBe('small');
+      expect(pieces.get(largeEntry!)!.length).toBeGreaterThan(1);
+      expect(Buffer.concat(pieces.get(largeEntry!)!).equals(large)).toBe(true);
+    } finally {
+      source.close();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject truncated archives with a OneNoteError', () => {
+    const archive = buildCabinet(files, 'mszip');
+    const reader = new CabinetReader(archive.subarray(0, archive.length - 10));
+
+    expect(() => reader.extract(reader.entries[0]!)).toThrow(OneNoteError);
+  });
+});
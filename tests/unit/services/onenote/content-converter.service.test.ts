@@ -147,6 +147,49 @@ describe('ContentConverterService', () => {
       // Act & Assert
       await expect(converter.convertPage(page, options)).rejects.toThrow('Conversion failed');
     });
+
+    it('should render the parsed document instead of guessing structure from content', async () => {
+      // Arrange
+      const page: OneNotePage = {
+        id: 'page-6',
+        title: 'Structured Page',
+        content: 'IGNORED LEGACY TEXT',
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-01-01'),
+        metadata: {},
+        document: {
+          blocks: [
+            { type: 'heading', level: 2, runs: [{ text: 'Agenda' }] },
+            { type: 'paragraph', runs: [{ text: 'ALL CAPS BODY TEXT' }] },
+            {
+              type: 'list',
+              ordered: false,
+              items: [{
+                runs: [{ text: 'First item' }],
+                children: [{ type: 'list', ordered: true, items: [{ runs: [{ text: 'Sub item' }], children: [] }] }]
+              }]
+            },
+            { type: 'image', src: 'assets/chart.png', alt: 'Chart' }
+          ]
+        }
+      };
+
+      const options: ContentConversionOptions = {
+        outputFormat: 'markdown',
+        includeImages: true,
+        preserveFormatting: true
+      };
+
+      // Act
+      const result = await converter.convertPage(page, options);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.content).toBe(
+        '# Structured Page\n\n## Agenda\n\nALL CAPS BODY TEXT\n\n- First item\n  1. Sub item\n\n![Chart](assets/chart.png)'
+      );
+      expect(result.images).toEqual(['assets/chart.png']);
+    });
   });
 
   describe('convertTextContent', () => {
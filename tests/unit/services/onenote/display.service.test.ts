@@ -205,6 +205,78 @@ describe('OneNoteDisplayService', () => {
     });
   });
 
+  describe('displaySectionGroup', () => {
+    it('should display nested section groups with their sections and pages', () => {
+      // Arrange
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      const notebookWithGroups: OneNoteNotebook = {
+        ...mockNotebook,
+        sections: [],
+        sectionGroups: [{
+          id: 'group-1',
+          name: 'Projects',
+          sections: [mockSection],
+          sectionGroups: [{
+            id: 'group-2',
+            name: 'Archived',
+            sections: [],
+            sectionGroups: [],
+            createdDate: new Date('2023-01-01'),
+            lastModifiedDate: new Date('2023-01-02'),
+            metadata: {}
+          }],
+          createdDate: new Date('2023-01-01'),
+          lastModifiedDate: new Date('2023-01-02'),
+          metadata: {}
+        }]
+      };
+      
+      // Act
+      service.displayNotebook(notebookWithGroups);
+
+      // Assert
+      const lines = consoleSpy.mock.calls.map(call => call[0]);
+      expect(lines).toContain('  🗂️ Projects');
+      expect(lines).toContain('    📁 Test Section');
+      expect(lines).toContain('      📄 Test Page');
+      expect(lines).toContain('    🗂️ Archived');
+      expect(lines).not.toContain('  No sections found');
+      
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('section order', () => {
+    const section = (name: string, modified: string, pageCount: number): OneNoteSection => ({
+      ...mockSection,
+      id: name,
+      name,
+      lastModifiedDate: new Date(modified),
+      pages: Array.from({ length: pageCount }, () => mockPage)
+    });
+    const notebook = (): OneNoteNotebook => ({
+      ...mockNotebook,
+      sections: [section('Zeta', '2023-01-01', 1), section('Alpha', '2023-03-01', 3), section('Mid', '2023-02-01', 2)]
+    });
+    const sectionOrder = (options?: OneNoteDisplayOptions): string[] => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      service.displayNotebook(notebook(), options);
+      const names = consoleSpy.mock.calls.map(call => String(call[0])).filter(line => line.includes('📁')).map(line => line.trim().slice(3));
+      consoleSpy.mockRestore();
+      return names;
+    };
+
+    it('should keep the notebook order by default', () => {
+      expect(sectionOrder()).toEqual(['Zeta', 'Alpha', 'Mid']);
+    });
+
+    it('should sort by name, date or size when asked', () => {
+      expect(sectionOrder({ sortBy: 'name' })).toEqual(['Alpha', 'Mid', 'Zeta']);
+      expect(sectionOrder({ sortBy: 'date' })).toEqual(['Alpha', 'Mid', 'Zeta']);
+      expect(sectionOrder({ sortBy: 'size' })).toEqual(['Alpha', 'Mid', 'Zeta']);
+    });
+  });
+
   describe('displaySection', () => {
     it('should display a single section', () => {
       // Arrange
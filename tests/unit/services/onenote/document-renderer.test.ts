@@ -0,0 +1,211 @@
+/**
+ * Tests for OneNote document rendering
+ */
+
+import { OneNoteDocumentRenderer } from '../../../../src/services/onenote/document-renderer';
+import { OneNoteDocument } from '../../../../src/types/document';
+
+describe('OneNoteDocumentRenderer', () => {
+  const document: OneNoteDocument = {
+    blocks: [
+      { type: 'heading', level: 1, runs: [{ text: 'Title' }] },
+      { type: 'paragraph', runs: [{ text: 'Body text' }] },
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          {
+            runs: [{ text: 'Bullet' }],
+            children: [{ type: 'list', ordered: true, items: [{ runs: [{ text: 'Nested' }], children: [] }] }]
+          },
+          { runs: [{ text: 'Second' }], children: [] }
+        ]
+      },
+      { type: 'code', text: 'const a = 1;\nconst b = 2;' },
+      {
+        type: 'table',
+        rows: [
+          { cells: [{ blocks: [{ type: 'paragraph', runs: [{ text: 'Name' }] }] }, { blocks: [{ type: 'paragraph', runs: [{ text: 'Value' }] }] }] },
+          { cells: [{ blocks: [{ type: 'paragraph', runs: [{ text: 'a|b' }] }] }, { blocks: [{ type: 'paragraph', runs: [{ text: '1' }] }] }] }
+        ]
+      },
+      { type: 'todo', checked: true, runs: [{ text: 'Ship it' }] },
+      { type: 'image', src: 'assets/my chart.png', alt: 'Chart' },
+      { type: 'file', name: 'report.pdf', src: 'assets/report.pdf' },
+      { type: 'equation', expression: 'E = mc^2' },
+      { type: 'divider' }
+    ]
+  };
+
+  describe('toMarkdown', () => {
+    it('should render every block type', () => {
+      expect(OneNoteDocumentRenderer.toMarkdown(document)).toBe([
+        '# Title',
+        'Body text',
+        '- Bullet\n  1. Nested\n- Second',
+        '```\nconst a = 1;\nconst b = 2;\n```',
+        '| Name | Value |\n| --- | --- |\n| a\\|b | 1 |',
+        '- [x] Ship it',
+        '![Chart](assets/my%20chart.png)',
+        '[report.pdf](assets/report.pdf)',
+        '$$E = mc^2$$',
+        '---'
+      ].join('\n\n'));
+    });
+
+    it('should render tables with merged cells as HTML', () => {
+      const cell = (text: string, spans: { colSpan?: number; rowSpan?: number } = {}) =>
+        ({ blocks: [{ type: 'paragraph' as const, runs: [{ text }] }], ...spans });
+
+      const markdown = OneNoteDocumentRenderer.toMarkdown({
+        blocks: [{
+          type: 'table',
+          rows: [
+            { cells: [cell('Quarter', { colSpan: 2 })] },
+            { cells: [cell('Q1', { rowSpan: 2 }), cell('Jan')] },
+            { cells: [cell('Feb')] }
+          ]
+        }]
+      });
+
+      expect(markdown).toBe([
+        '<table>',
+        '<tr><th colspan="2">Quarter</th></tr>',
+        '<tr><td rowspan="2">Q1</td><td>Jan</td></tr>',
+        '<tr><td>Feb</td></tr>',
+        '</table>'
+      ].join('\n'));
+    });
+
+    it('should render formatted runs inline', () => {
+      const markdown = OneNoteDocumentRenderer.toMarkdown({
+        blocks: [{
+          type: 'list',
+          ordered: false,
+          items: [{
+            children: [],
+            runs: [
+              { text: 'Plain ' },
+              { text: 'bold ', bold: true },
+              { text: 'both', bold: true, italic: true },
+              { text: ' ' },
+              { text: 'code', code: true },
+              { text: ' ' },
+              { text: 'red', color: '#ff0000', underline: true },
+              { text: ' H' },
+              { text: '2', subscript: true },
+              { text: 'O ' },
+              { text: 'see docs', href: 'https://example.com/a (b)', strikethrough: true, highlight: '#ffff00' }
+            ]
+          }]
+        }]
+      });
+
+      expect(markdown).toBe(
+        '- Plain **bold** _**both**_ `code` <span style="color:#ff0000"><u>red</u></span> H<sub>2</sub>O ' +
+        '[<mark style="background-color:#ffff00">~~see docs~~</mark>](https://example.com/a%20%28b%29)'
+      );
+    });
+
+    it('should render inline equations between single dollar signs', () => {
+      const markdown = OneNoteDocumentRenderer.toMarkdown({
+        blocks: [{ type: 'paragraph', runs: [{ text: 'Area ' }, { text: 'πr^2', equation: '\\pi r^{2}', bold: true }] }]
+      });
+
+      expect(markdown).toBe('Area $\\pi r^{2}$');
+    });
+
+    it('should render to-do tags as task items and other tags as leading icons', () => {
+      const toDo = { name: 'To Do', shape: 1 };
+      const markdown = OneNoteDocumentRenderer.toMarkdown({
+        blocks: [
+          { type: 'todo', checked: false, runs: [{ text: 'Open' }], tags: [{ ...toDo, checked: false }] },
+          { type: 'todo', checked: true, runs: [{ text: 'Done' }], tags: [{ ...toDo, checked: true }, { name: 'Important', icon: '⭐' }] },
+          { type: 'paragraph', runs: [{ text: 'Why?' }], tags: [{ name: 'Question', icon: '❓' }, { name: 'Highlight' }] },
+          { type: 'list', ordered: false, items: [{ runs: [{ text: 'Idea' }], children: [], tags: [{ name: 'Idea', icon: '💡' }] }] }
+        ]
+      });
+
+      expect(markdown).toBe('- [ ] Open\n\n- [x] ⭐ Done\n\n❓ Why?\n\n- 💡 Idea');
+    });
+
+    it('should keep recognized image text as one line of alt text and add it as a collapsible section when asked', () => {
+      const scan: OneNoteDocument = {
+        blocks: [{ type: 'image', src: 'scan.png', alt: 'Total [due]\nA < B', ocrText: 'Total [due]\nA < B' }]
+      };
+
+      expect(OneNoteDocumentRenderer.toMarkdown(scan)).toBe('![Total \\[due\\] A < B](scan.png)');
+      expect(OneNoteDocumentRenderer.toMarkdown(scan, { imageTextToggles: true })).toBe(
+        '![Total \\[due\\] A < B](scan.png)\n\n<details>\n<summary>Text in image</summary>\n\nTotal [due]\nA &lt; B\n\n</details>'
+      );
+    });
+
+    it('should follow links to recordings with their length and recording time', () => {
+      const markdown = OneNoteDocumentRenderer.toMarkdown({
+        blocks: [
+          { type: 'file', name: 'Standup', src: 'assets/a1.wma', recording: { kind: 'audio', duration: 95.4, recordedAt: new Date('2024-03-05T15:07:12Z') } },
+          { type: 'file', name: 'Workshop', src: 'assets/b2.wmv', recording: { kind: 'video', duration: 3725 } },
+          { type: 'file', name: 'Clip', src: 'assets/c3.mp4', recording: { kind: 'video' } }
+        ]
+      });
+
+      expect(markdown).toBe(
+        '[Standup](assets/a1.wma) (1:35, recorded 2024-03-05 15:07 UTC)\n\n[Workshop](assets/b2.wmv) (1:02:05)\n\n[Clip](assets/c3.mp4)'
+      );
+    });
+
+    it('should render columns one after another', () => {
+      const markdown = OneNoteDocumentRenderer.toMarkdown({
+        blocks: [{ type: 'columns', columns: [[{ type: 'paragraph', runs: [{ text: 'Left' }] }], [{ type: 'divider' }]] }]
+      });
+
+      expect(markdown).toBe('Left\n\n---');
+    });
+
+    it('should skip empty paragraphs and return an empty string for empty documents', () => {
+      expect(OneNoteDocumentRenderer.toMarkdown({ blocks: [{ type: 'paragraph', runs: [] }] })).toBe('');
+      expect(OneNoteDocumentRenderer.toMarkdown({ blocks: [] })).toBe('');
+    });
+  });
+
+  describe('toPlainText', () => {
+    it('should render text without markdown markers', () => {
+      expect(OneNoteDocumentRenderer.toPlainText(document)).toBe(
+        'Title\nBody text\nBullet\nNested\nSecond\nconst a = 1;\nconst b = 2;\nName\tValue\na|b\t1\nShip it\nChart\nreport.pdf\nE = mc^2'
+      );
+    });
+  });
+
+  describe('collectTags', () => {
+    it('should list each tag once in order of first use, including tags on list items', () => {
+      const important = { name: 'Important', icon: '⭐' };
+      const tags = OneNoteDocumentRenderer.collectTags({
+        blocks: [
+          { type: 'heading', level: 1, runs: [{ text: 'Plan' }], tags: [important] },
+          { type: 'list', ordered: true, items: [{ runs: [{ text: 'Step' }], children: [
+            { type: 'todo', checked: true, runs: [{ text: 'Nested' }], tags: [{ name: 'To Do', checked: true }, important] }
+          ], tags: [{ name: 'Question', icon: '❓' }] }] }
+        ]
+      });
+
+      expect(tags.map(tag => tag.name)).toEqual(['Important', 'Question', 'To Do']);
+    });
+  });
+
+  describe('flattenBlocks', () => {
+    it('should include blocks nested in list items and table cells', () => {
+      expect(OneNoteDocumentRenderer.flattenBlocks(document.blocks).map(block => block.type)).toEqual([
+        'heading', 'paragraph', 'list', 'list', 'code', 'table', 'paragraph', 'paragraph', 'paragraph', 'paragraph',
+        'todo', 'image', 'file', 'equation', 'divider'
+      ]);
+    });
+
+    it('should include blocks in columns', () => {
+      const blocks = OneNoteDocumentRenderer.flattenBlocks([
+        { type: 'columns', columns: [[{ type: 'paragraph', runs: [{ text: 'Left' }] }], [{ type: 'image', src: 'a.png' }]] }
+      ]);
+
+      expect(blocks.map(block => block.type)).toEqual(['columns', 'paragraph', 'image']);
+    });
+  });
+});
@@ -4,9 +4,12 @@
  */
 
 import { OneNoteExtractionService, IOneNoteExtractionService } from '../../../../src/services/onenote/extraction.service';
-import { OneNoteExtractionResult, OneNoteFileInfo, OneNoteParsingOptions } from '../../../../src/types/onenote';
+import { OneNoteExtractionResult, OneNoteFileInfo, OneNoteParsingOptions, OneNoteStreamItem } from '../../../../src/types/onenote';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { buildMhtArchive } from '../../../fixtures/onenote/mht-builder';
+import { buildSectionFile } from '../../../fixtures/onenote/onestore-builder';
 
 describe('OneNoteExtractionService', () => {
   let service: IOneNoteExtractionService;
@@ -128,6 +131,29 @@ describe('OneNoteExtractionService', () => {
     });
   });
 
+  describe('extractFromMht', () => {
+    it('should extract the pages of a section exported as a web page', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-extraction-'));
+      try {
+        const mhtPath = path.join(tempDir, 'Trips.mht');
+        fs.writeFileSync(mhtPath, buildMhtArchive([
+          { contentType: 'text/html', location: 'file:///C:/Temp/Trips.htm', data: '<title>Trip plan</title><p>Pack the tent</p>' },
+          { contentType: 'text/html', location: 'file:///C:/Temp/Trips_files/page2.htm', data: '<title>Budget</title><p>Fuel</p>' }
+        ]));
+
+        const result = await service.extractFromMht(mhtPath);
+
+        expect(result.success).toBe(true);
+        const section = result.hierarchy?.notebooks[0]?.sections[0];
+        expect(section?.name).toBe('Trips');
+        expect(section?.pages.map(page => page.title)).toEqual(['Trip plan', 'Budget']);
+        expect(section?.pages[0]?.content).toContain('Pack the tent');
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('validateOneNoteFile', () => {
     it('should validate a valid .onepkg file', async () => {
       // Arrange
@@ -157,6 +183,37 @@ describe('OneNoteExtractionService', () => {
       expect(fileInfo.path).toBe(onePath);
     });
 
+    it('should warn about sections in the OneNote 2007 format', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-extraction-'));
+      try {
+        const legacyPath = path.join(tempDir, 'Legacy.one');
+        fs.writeFileSync(legacyPath, buildSectionFile({ legacy: true, pages: [{ title: 'Page', outlines: [] }] }));
+
+        const fileInfo = await service.validateOneNoteFile(legacyPath);
+
+        expect(fileInfo.isValid).toBe(true);
+        expect(fileInfo.warnings).toEqual([expect.stringContaining('OneNote 2007 format')]);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should recognize web page exports by extension or by their MIME headers', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-extraction-'));
+      try {
+        const archive = buildMhtArchive([{ contentType: 'text/html', data: '<title>Page</title>' }]);
+        const mhtPath = path.join(tempDir, 'Section.mhtml');
+        const renamedPath = path.join(tempDir, 'Section.export');
+        fs.writeFileSync(mhtPath, archive);
+        fs.writeFileSync(renamedPath, archive);
+
+        expect(await service.validateOneNoteFile(mhtPath)).toEqual(expect.objectContaining({ type: 'mht', isValid: true }));
+        expect(await service.validateOneNoteFile(renamedPath)).toEqual(expect.objectContaining({ type: 'mht', isValid: true }));
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
     it('should identify invalid OneNote files', async () => {
       // Arrange
       const invalidPath = path.join(testFixturesPath, 'invalid.txt');
@@ -232,6 +289,28 @@ describe('OneNoteExtractionService', () => {
       expect(result.hierarchy?.totalNotebooks).toBeGreaterThan(0);
     });
 
+    it('should combine notebook folders and files into one hierarchy', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-extraction-'));
+      try {
+        const directory = path.join(tempDir, 'Home');
+        fs.mkdirSync(path.join(directory, 'Kitchen'), { recursive: true });
+        const files = [path.join(directory, 'Garden.one'), path.join(directory, 'Kitchen', 'Recipes.one')];
+        fs.writeFileSync(files[0]!, buildSectionFile({ pages: [{ title: 'Roses', outlines: [] }] }));
+        fs.writeFileSync(files[1]!, buildSectionFile({ pages: [{ title: 'Soup', outlines: [] }, { title: 'Bread', outlines: [] }] }));
+
+        const result = await service.extractMultiple([{ directory, files }, path.join(testFixturesPath, 'section1.one')]);
+
+        expect(result.success).toBe(true);
+        expect(result.hierarchy?.notebooks.map(notebook => notebook.name)).toEqual(['Home', 'section1']);
+        const home = result.hierarchy!.notebooks[0]!;
+        expect(home.sections.map(section => section.name)).toEqual(['Garden']);
+        expect(home.sectionGroups![0]!.sections[0]!.pages.map(page => page.title)).toEqual(['Soup', 'Bread']);
+        expect(result.hierarchy).toEqual(expect.objectContaining({ totalNotebooks: 2, totalSections: 3 }));
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
     it('should handle empty file array', async () => {
       // Arrange
       const filePaths: string[] = [];
@@ -244,4 +323,52 @@ describe('OneNoteExtractionService', () => {
       expect(result.hierarchy?.totalNotebooks).toBe(0);
     });
   });
+
+  describe('streamPages', () => {
+    it('should yield every section of mixed files before its pages', async () => {
+      // Arrange
+      const filePaths = [
+        path.join(testFixturesPath, 'notebook.onepkg'),
+        path.join(testFixturesPath, 'section1.one'),
+        path.join(testFixturesPath, 'invalid.txt')
+      ];
+
+      // Act
+      const items: OneNoteStreamItem[] = [];
+      for await (const item of service.streamPages(filePaths)) {
+        items.push(item);
+      }
+
+      // Assert
+      expect(items.flatMap(item => item.type === 'section' ? [item.notebook.name] : [])).toEqual(['notebook', 'section1']);
+      expect(items[0]!.type).toBe('section');
+      expect(items.filter(item => item.type === 'page').length).toBeGreaterThan(0);
+      expect(items[items.length - 1]).toEqual({ type: 'failed', source: filePaths[2], error: 'Unsupported file type' });
+    });
+
+    it('should yield a file that cannot be read as a failure and go on with the next one', async () => {
+      // Arrange
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-extract-'));
+      const damagedPath = path.join(tempDir, 'Damaged.one');
+      fs.writeFileSync(damagedPath, buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }] }).subarray(0, 600));
+
+      try {
+        // Act
+        const items: OneNoteStreamItem[] = [];
+        for await (const item of service.streamPages([damagedPath, path.join(testFixturesPath, 'section1.one')])) {
+          items.push(item);
+        }
+
+        // Assert
+        expect(items[0]).toEqual({
+          type: 'failed',
+          source: damagedPath,
+          error: 'Failed to parse OneNote section: File is too small to be a OneNote revision store'
+        });
+        expect(items.flatMap(item => item.type === 'section' ? [item.notebook.name] : [])).toEqual(['section1']);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
 });
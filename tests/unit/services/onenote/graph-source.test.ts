@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for reading notebooks through Microsoft Graph, against a local mock of the OneNote API
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OneNoteGraphSource } from '../../../../src/services/onenote/graph-source';
+import { OneNoteStreamFailure, OneNoteStreamItem } from '../../../../src/types/onenote';
+import { MockGraphServer, MockGraphSpec, startMockGraphServer } from '../../../fixtures/onenote/mock-graph-server';
+
+describe('OneNoteGraphSource', () => {
+  const png = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0, 1, 2, 3]);
+  const pdf = Buffer.from('%PDF-1.4 fake');
+  const spec: MockGraphSpec = {
+    notebooks: [
+      {
+        id: '1-notebook-work',
+        displayName: 'Work',
+        sections: [{
+          id: '1-section-trips',
+          displayName: 'Trips',
+          pages: [
+            {
+              id: '1-page-plan!1-section-trips',
+              title: 'Trip plan',
+              html: `<html><head><title>Trip plan</title><meta name="created" content="2024-03-01T10:00:00.0000000" /></head>
+<body data-absolute-enabled="true" style="font-family:Calibri;font-size:11pt">
+<div style="position:absolute;left:48px;top:115px;width:624px">
+<p data-tag="to-do:completed">Book the campsite</p>
+<p data-tag="important">Bring the <b>permit</b></p>
+<img width="320" height="240" alt="Route map" src="{base}/me/onenote/resources/0-thumb!1-section-trips/$value" data-src-type="image/png"
+ data-fullres-src="{base}/me/onenote/resources/0-map!1-section-trips/$value" data-fullres-src-type="image/png" />
+<object data-attachment="permit.pdf" type="application/pdf" data="{base}/me/onenote/resources/0-permit!1-section-trips/$value" />
+<img src="https://images.example.invalid/elsewhere.png" />
+</div>
+</body></html>`
+            },
+            { id: '1-page-budget!1-section-trips', title: 'Budget', level: 1, html: '<html><head><title>Budget</title></head><body><p>Fuel</p></body></html>' }
+          ]
+        }],
+        sectionGroups: [{
+          id: '1-group-archive',
+          displayName: 'Archive',
+          sections: [{ id: '1-section-2023', displayName: '2023', pages: [{ id: '1-page-old!1-section-2023', title: 'Old trip', html: '<p>Done</p>' }] }]
+        }]
+      },
+      { id: '1-notebook-home', displayName: 'Home', sections: [{ id: '1-section-recipes', displayName: 'Recipes', pages: [] }] }
+    ],
+    resources: {
+      '0-thumb!1-section-trips': { contentType: 'image/png', data: Buffer.from('thumbnail') },
+      '0-map!1-section-trips': { contentType: 'image/png', data: png },
+      '0-permit!1-section-trips': { contentType: 'application/octet-stream', data: pdf }
+    }
+  };
+  let server: MockGraphServer | undefined;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-graph-'));
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const collect = async (source: OneNoteGraphSource, fallbackOnError = false) => {
+    const items: Array<Exclude<OneNoteStreamItem, OneNoteStreamFailure>> = [];
+    for await (const item of source.streamPages({ assetsDirectory: tempDir, fallbackOnError })) {
+      if (item.type === 'failed') {
+        throw new Error(item.error);
+      }
+      items.push(item);
+    }
+    return items;
+  };
+
+  it('should stream sections and pages in notebook order, with page resources saved as assets', async () => {
+    server = await startMockGraphServer(spec);
+    const items = await collect(new OneNoteGraphSource({ accessToken: 'test-token', baseUrl: server.baseUrl, notebooks: ['work'] }));
+
+    expect(items.map(item => item.type === 'section'
+      ? `${[item.notebook.name, ...item.sectionGroups.map(group => group.name), item.section.name].join('/')}`
+      : `  ${item.page.title} (${item.page.level})`)).toEqual([
+      'Work/Trips', '  Trip plan (1)', '  Budget (2)', 'Work/Archive/2023', '  Old trip (1)'
+    ]);
+
+    const plan = items[1]!.type === 'page' ? items[1]!.page : undefined;
+    expect(plan?.metadata).toEqual(expect.objectContaining({
+      format: 'graph', graphId: '1-page-plan!1-section-trips', webUrl: 'https://onenote.example/pages/1-page-plan!1-section-trips'
+    }));
+    const [done, important, image, attachment, remote] = plan!.document!.blocks;
+    expect(done).toEqual({ type: 'paragraph', runs: [{ text: 'Book the campsite' }], tags: [{ name: 'To Do', checked: true }] });
+    expect(important).toEqual({
+      type: 'paragraph',
+      runs: [{ text: 'Bring the ' }, { text: 'permit', bold: true }],
+      tags: [{ name: 'Important', icon: '⭐' }]
+    });
+    expect(image).toEqual(expect.objectContaining({ type: 'image', mimeType: 'image/png', alt: 'Route map', width: 320, height: 240 }));
+    expect(fs.readFileSync((image as { src: string }).src)).toEqual(png);
+    expect(attachment).toEqual(expect.objectContaining({ type: 'file', name: 'permit.pdf', size: pdf.length }));
+    expect(fs.readFileSync((attachment as { src: string }).src)).toEqual(pdf);
+    expect(remote).toEqual({ type: 'image', name: 'elsewhere.png', src: 'https://images.example.invalid/elsewhere.png' });
+
+    // Only the full resolution picture is fetched, and the token stays on the Graph endpoint
+    expect(server.requests.filter(request => request.includes('/resources/'))).toEqual([
+      '/v1.0/me/onenote/resources/0-map!1-section-trips/$value',
+      '/v1.0/me/onenote/resources/0-permit!1-section-trips/$value'
+    ]);
+  });
+
+  it('should read the whole hierarchy, following next links and retrying throttled requests', async () => {
+    server = await startMockGraphServer({ ...spec, pageSize: 1, throttle: 2 });
+    const hierarchy = await new OneNoteGraphSource({ accessToken: 'test-token', baseUrl: server.baseUrl }).readHierarchy({ assetsDirectory: tempDir });
+
+    expect(hierarchy.notebooks.map(notebook => notebook.name)).toEqual(['Work', 'Home']);
+    expect(hierarchy.notebooks[0]!.sectionGroups![0]!.sections[0]!.pages.map(page => page.title)).toEqual(['Old trip']);
+    expect(hierarchy).toEqual(expect.objectContaining({ totalNotebooks: 2, totalSections: 3, totalPages: 3 }));
+    expect(server.requests.some(request => decodeURIComponent(request).includes('$skip=1'))).toBe(true);
+  });
+
+  it('should fail on a rejected token, and keep pages that cannot be fetched with fallbackOnError', async () => {
+    server = await startMockGraphServer({ ...spec, failing: ['/me/onenote/pages/1-page-budget!1-section-trips/content'] });
+
+    await expect(collect(new OneNoteGraphSource({ accessToken: 'expired', baseUrl: server.baseUrl })))
+      .rejects.toThrow('Microsoft Graph refused the access token: 401');
+    await expect(collect(new OneNoteGraphSource({ accessToken: 'test-token', baseUrl: server.baseUrl, maxRetries: 0 })))
+      .rejects.toThrow('Microsoft Graph request failed: 500');
+
+    const items = await collect(new OneNoteGraphSource({ accessToken: 'test-token', baseUrl: server.baseUrl, maxRetries: 0 }), true);
+    const budget = items.find(item => item.type === 'page' && item.page.title === 'Budget');
+    expect(budget?.type === 'page' && budget.page.metadata.parseError).toContain('500 Internal Server Error');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for OneNote hierarchy helpers
+ */
+
+import { OneNoteHierarchyUtils } from '../../../../src/services/onenote/hierarchy-utils';
+import { OneNoteNotebook, OneNoteSection, OneNoteSectionGroup } from '../../../../src/types/onenote';
+
+describe('OneNoteHierarchyUtils', () => {
+  const createSection = (id: string, pageCount: number): OneNoteSection => ({
+    id,
+    name: id,
+    pages: Array.from({ length: pageCount }, (_, i) => ({
+      id: `${id}-page-${i}`,
+      title: `Page ${i}`,
+      content: '',
+      createdDate: new Date('2024-01-01'),
+      lastModifiedDate: new Date('2024-01-01'),
+      metadata: {}
+    })),
+    createdDate: new Date('2024-01-01'),
+    lastModifiedDate: new Date('2024-01-01'),
+    metadata: {}
+  });
+
+  const createGroup = (name: string, sections: OneNoteSection[], sectionGroups: OneNoteSectionGroup[] = []): OneNoteSectionGroup => ({
+    id: `group-${name}`,
+    name,
+    sections,
+    sectionGroups,
+    createdDate: new Date('2024-01-01'),
+    lastModifiedDate: new Date('2024-01-01'),
+    metadata: {}
+  });
+
+  const notebook: OneNoteNotebook = {
+    id: 'notebook-1',
+    name: 'Notebook',
+    sections: [createSection('inbox', 2)],
+    sectionGroups: [
+      createGroup('Work', [createSection('internal', 1)], [createGroup('Clients', [createSection('acme', 3)])]),
+      createGroup('Archive', [])
+    ],
+    createdDate: new Date('2024-01-01'),
+    lastModifiedDate: new Date('2024-01-01'),
+    metadata: {}
+  };
+
+  it('should list top-level sections before grouped sections', () => {
+    expect(OneNoteHierarchyUtils.getAllSections(notebook).map(section => section.id)).toEqual(['inbox', 'internal', 'acme']);
+  });
+
+  it('should report the section group path of each section', () => {
+    expect(OneNoteHierarchyUtils.getSectionLocations(notebook).map(location => location.groupPath)).toEqual([
+      [],
+      ['Work'],
+      ['Work', 'Clients']
+    ]);
+  });
+
+  it('should list section groups parents first', () => {
+    expect(OneNoteHierarchyUtils.getAllSectionGroups(notebook).map(group => group.name)).toEqual(['Work', 'Clients', 'Archive']);
+  });
+
+  it('should count sections and pages across groups', () => {
+    expect(OneNoteHierarchyUtils.countSections(notebook)).toBe(3);
+    expect(OneNoteHierarchyUtils.countPages(notebook)).toBe(6);
+    expect(OneNoteHierarchyUtils.countGroupSections(notebook.sectionGroups![0]!)).toBe(2);
+  });
+
+  it('should handle notebooks without section groups', () => {
+    const { sectionGroups, ...flat } = notebook;
+
+    expect(OneNoteHierarchyUtils.getAllSections(flat).map(section => section.id)).toEqual(['inbox']);
+    expect(OneNoteHierarchyUtils.getAllSectionGroups(flat)).toEqual([]);
+  });
+
+  describe('getPageTree', () => {
+    const pages = ['Overview:1', 'Detail:2', 'Deep:3', 'Second detail:2', 'Next:1', 'Orphan:3']
+      .map(spec => spec.split(':'))
+      .map(([title, level]) => ({ ...createSection('s', 1).pages[0]!, id: title!, title: title!, level: Number(level) }));
+
+    it('should nest subpages under the closest preceding page with a lower level', () => {
+      const tree = OneNoteHierarchyUtils.getPageTree(pages);
+      const shape = (nodes: typeof tree): unknown[] =>
+        nodes.map(node => node.children.length > 0 ? [node.page.title, shape(node.children)] : node.page.title);
+
+      expect(shape(tree)).toEqual([
+        ['Overview', [['Detail', ['Deep']], 'Second detail']],
+        ['Next', ['Orphan']]
+      ]);
+    });
+
+    it('should treat pages without a level as top-level pages', () => {
+      const tree = OneNoteHierarchyUtils.getPageTree(createSection('flat', 3).pages);
+
+      expect(tree).toHaveLength(3);
+      expect(tree.every(node => node.children.length === 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for reading pages exported from OneNote as web pages
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OneNoteAssetStore } from '../../../../src/services/onenote/asset-store';
+import { OneNoteHtmlPageReader } from '../../../../src/services/onenote/html-page-reader';
+import { OneNoteMimeArchive } from '../../../../src/services/onenote/mime-archive';
+import { buildMhtArchive } from '../../../fixtures/onenote/mht-builder';
+
+describe('OneNoteHtmlPageReader', () => {
+  const png = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0, 1, 2, 3]);
+  const spreadsheet = Buffer.from('fake spreadsheet');
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-html-page-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const read = (html: string, assets?: OneNoteAssetStore) => {
+    const parts = OneNoteMimeArchive.read(buildMhtArchive([
+      { contentType: 'text/html', location: 'file:///C:/Temp/Trip%20plan.htm', data: html },
+      { contentType: 'image/png', location: 'file:///C:/Temp/Trip%20plan_files/image001.png', data: png },
+      { contentType: 'application/vnd.ms-excel', location: 'file:///C:/Temp/Trip%20plan_files/budget.xlsx', data: spreadsheet }
+    ]));
+    return new OneNoteHtmlPageReader(parts, assets).read(parts[0]!);
+  };
+
+  it('should read positioned outlines in reading order, with pictures and attachments saved as assets', () => {
+    const page = read(`<html><head><title>Trip plan</title></head>
+<body style='font-family:Calibri'>
+<div style='position:absolute;left:48px;top:40px;width:624px'>
+<p style='font-size:20.0pt'>Trip plan</p>
+<p style='color:#767676'>Tuesday, March 5, 2024</p>
+</div>
+<div style='position:absolute;left:48px;top:160px;width:300px'>
+<p><span style='font-weight:bold'>Packing</span> list</p>
+<ul><li>Tent</li><ul><li>Poles</li></ul><li>Stove</li></ul>
+</div>
+<div style='position:absolute;left:420px;top:170px;width:250px'>
+<p><img width=120 height=80 src="Trip%20plan_files/image001.png" alt="Machine generated alternative text: Route 66"></p>
+<p><a href="Trip%20plan_files/budget.xlsx">budget.xlsx</a></p>
+</div>
+<div style='position:absolute;left:48px;top:400px'>
+<table border=1><tr><td>Day<td>Stop<tr><td>1<td>Flagstaff &amp; Sedona</table>
+</div>
+</body></html>`, new OneNoteAssetStore(tempDir));
+
+    expect(page!.title).toBe('Trip plan');
+    const [date, packing, list, image, file, table] = page!.document.blocks;
+    expect(date).toEqual({ type: 'paragraph', runs: [{ text: 'Tuesday, March 5, 2024', color: '#767676' }] });
+    expect(packing).toEqual({ type: 'paragraph', runs: [{ text: 'Packing', bold: true }, { text: ' list' }] });
+    expect(list).toEqual({
+      type: 'list',
+      ordered: false,
+      items: [
+        { runs: [{ text: 'Tent' }], children: [{ type: 'list', ordered: false, items: [{ runs: [{ text: 'Poles' }], children: [] }] }] },
+        { runs: [{ text: 'Stove' }], children: [] }
+      ]
+    });
+    expect(image).toEqual(expect.objectContaining({
+      type: 'image', name: 'image001.png', mimeType: 'image/png', alt: 'Route 66', ocrText: 'Route 66', width: 120, height: 80
+    }));
+    expect(fs.readFileSync((image as { src: string }).src)).toEqual(png);
+    expect(file).toEqual(expect.objectContaining({ type: 'file', name: 'budget.xlsx', size: spreadsheet.length }));
+    expect(table).toEqual({
+      type: 'table',
+      rows: [
+        { cells: [{ blocks: [{ type: 'paragraph', runs: [{ text: 'Day' }] }] }, { blocks: [{ type: 'paragraph', runs: [{ text: 'Stop' }] }] }] },
+        { cells: [{ blocks: [{ type: 'paragraph', runs: [{ text: '1' }] }] }, { blocks: [{ type: 'paragraph', runs: [{ text: 'Flagstaff & Sedona' }] }] }] }
+      ]
+    });
+    expect(page!.document.regions!.map(region => [region.x, region.y, region.width])).toEqual([
+      [48, 40, 624], [48, 160, 300], [420, 170, 250], [48, 400, undefined]
+    ]);
+  });
+
+  it('should read formatting, headings and code from pages without positions', () => {
+    const page = read(`<title>Notes</title><h2>Setup</h2>
+<p>Run <span style="font-family:Consolas">npm&nbsp;install</span> then<br>
+see <a href="https://example.com">the <i>docs</i></a></p>
+<pre>const a = 1;
+const b = 2;</pre><hr>`);
+
+    expect(page).toEqual({
+      title: 'Notes',
+      document: {
+        blocks: [
+          { type: 'heading', level: 2, runs: [{ text: 'Setup' }] },
+          {
+            type: 'paragraph',
+            runs: [
+              { text: 'Run ' },
+              { text: 'npm install', code: true },
+              { text: ' then\nsee ' },
+              { text: 'the ', href: 'https://example.com' },
+              { text: 'docs', href: 'https://example.com', italic: true }
+            ]
+          },
+          { type: 'code', text: 'const a = 1;\nconst b = 2;' },
+          { type: 'divider' }
+        ]
+      }
+    });
+  });
+
+  it('should use the first paragraph as the title of pages without one, and skip frame pages', () => {
+    expect(read('<body><p>Groceries</p><p>Milk</p></body>')).toEqual({
+      title: 'Groceries',
+      document: { blocks: [{ type: 'paragraph', runs: [{ text: 'Milk' }] }] }
+    });
+    expect(read('<html><frameset cols="20%,80%"><frame src="toc.htm"></frameset></html>')).toBeNull();
+  });
+});
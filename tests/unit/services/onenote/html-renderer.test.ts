@@ -0,0 +1,88 @@
+/**
+ * Tests for OneNote HTML rendering
+ */
+
+import { OneNoteHtmlRenderer } from '../../../../src/services/onenote/html-renderer';
+import { OneNoteDocument } from '../../../../src/types/document';
+
+describe('OneNoteHtmlRenderer', () => {
+  describe('toHtml', () => {
+    it('should render blocks and formatted runs with their text escaped', () => {
+      const html = OneNoteHtmlRenderer.toHtml({
+        blocks: [
+          { type: 'heading', level: 2, runs: [{ text: 'Q&A' }] },
+          { type: 'paragraph', runs: [{ text: 'bold', bold: true }, { text: ' <tag> ' }, { text: 'link', href: 'https://example.com/a b' }] },
+          { type: 'list', ordered: true, items: [{ runs: [{ text: 'Step' }], children: [] }] },
+          { type: 'todo', checked: true, runs: [{ text: 'Done' }] },
+          { type: 'code', language: 'ts', text: 'a < b' },
+          { type: 'image', src: 'assets/chart.png', alt: 'Chart', width: 200, ocrText: 'Q1 & Q2' },
+          { type: 'file', name: 'Standup', src: 'assets/a.wma', recording: { kind: 'audio', duration: 95 } },
+          { type: 'divider' }
+        ]
+      }, { imageTextToggles: true });
+
+      expect(html).toBe([
+        '<h2>Q&amp;A</h2>',
+        '<p><strong>bold</strong> &lt;tag&gt; <a href="https://example.com/a%20b">link</a></p>',
+        '<ol>\n<li>Step</li>\n</ol>',
+        '<p><input type="checkbox" disabled checked> Done</p>',
+        '<pre><code class="language-ts">a &lt; b</code></pre>',
+        '<img src="assets/chart.png" alt="Chart" width="200">',
+        '<details>\n<summary>Text in image</summary>\n<p>Q1 &amp; Q2</p>\n</details>',
+        '<audio controls src="assets/a.wma"></audio>\n<p><a href="assets/a.wma">Standup</a> (1:35)</p>',
+        '<hr>'
+      ].join('\n'));
+    });
+
+    it('should keep the text of links and files whose target is not a web, mail or OneNote address', () => {
+      const html = OneNoteHtmlRenderer.toHtml({
+        blocks: [
+          { type: 'paragraph', runs: [{ text: 'run', href: 'java\tscript:alert(1)' }, { text: ' mail', href: 'mailto:a@example.com' }] },
+          { type: 'image', src: 'data:text/html,<script>alert(1)</script>', alt: 'Chart' },
+          { type: 'image', src: 'C:\\Notes\\chart.png', alt: 'Local' },
+          { type: 'file', name: 'Standup', src: 'vbscript:msgbox(1)', recording: { kind: 'audio', duration: 95 } }
+        ]
+      });
+
+      expect(html).toBe([
+        '<p>run<a href="mailto:a@example.com"> mail</a></p>',
+        '<img alt="Chart">',
+        '<img src="C:\\Notes\\chart.png" alt="Local">',
+        '<p>Standup (1:35)</p>'
+      ].join('\n'));
+    });
+
+    it('should place regions where they sit on the page with the columns layout', () => {
+      const document: OneNoteDocument = {
+        blocks: [{ type: 'paragraph', runs: [{ text: 'Left' }] }, { type: 'paragraph', runs: [{ text: 'Right' }] }],
+        regions: [
+          { x: 48, y: 96, width: 240, blocks: [{ type: 'paragraph', runs: [{ text: 'Left' }] }] },
+          { x: 384, y: 120, blocks: [{ type: 'paragraph', runs: [{ text: 'Right' }] }] }
+        ]
+      };
+
+      expect(OneNoteHtmlRenderer.toHtml(document, { layout: 'columns' })).toBe([
+        '<div class="oni-page">',
+        '<div class="oni-row" style="display:flex;align-items:flex-start">',
+        '<div class="oni-region" data-x="48" data-y="96" style="flex:none;margin-left:48px;margin-top:0px;width:240px">',
+        '<p>Left</p>',
+        '</div>',
+        '<div class="oni-region" data-x="384" data-y="120" style="flex:none;margin-left:96px;margin-top:24px">',
+        '<p>Right</p>',
+        '</div>',
+        '</div>',
+        '</div>'
+      ].join('\n'));
+      expect(OneNoteHtmlRenderer.toHtml(document)).toBe('<p>Left</p>\n<p>Right</p>');
+    });
+  });
+
+  describe('toPage', () => {
+    it('should wrap a fragment in a page titled after the OneNote page', () => {
+      const page = OneNoteHtmlRenderer.toPage('Notes <draft>', '<p>Body</p>');
+
+      expect(page).toContain('<title>Notes &lt;draft&gt;</title>');
+      expect(page).toContain('<h1>Notes &lt;draft&gt;</h1>\n<p>Body</p>\n</body>');
+    });
+  });
+});
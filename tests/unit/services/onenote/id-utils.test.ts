@@ -0,0 +1,42 @@
+/**
+ * Tests for stable ID helpers
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OneNoteIdUtils } from '../../../../src/services/onenote/id-utils';
+
+describe('OneNoteIdUtils', () => {
+  it('should give the same ID for every spelling of a GUID', () => {
+    const id = OneNoteIdUtils.fromGuid('section', '{6E8C1F0A-55B2-4C3D-9E7F-0123456789AB}');
+
+    expect(id).toBe('section-6e8c1f0a-55b2-4c3d-9e7f-0123456789ab');
+    expect(OneNoteIdUtils.fromGuid('section', '6e8c1f0a-55b2-4c3d-9e7f-0123456789ab')).toBe(id);
+    expect(OneNoteIdUtils.fromGuid('section', '{6e8c1f0a-55b2-4c3d-9e7f-0123456789ab}:3')).toBe(id);
+  });
+
+  it('should hash content parts separately', () => {
+    const id = OneNoteIdUtils.fromContent('page', 'section-1', '2');
+
+    expect(id).toMatch(/^page-[0-9a-f]{32}$/);
+    expect(OneNoteIdUtils.fromContent('page', 'section-1', '2')).toBe(id);
+    expect(OneNoteIdUtils.fromContent('page', 'section-12')).not.toBe(id);
+  });
+
+  it('should hash a file by its bytes', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-ids-'));
+    try {
+      const first = path.join(tempDir, 'a.one');
+      const copy = path.join(tempDir, 'b.one');
+      fs.writeFileSync(first, Buffer.alloc(3 * 1024 * 1024 + 5, 7));
+      fs.copyFileSync(first, copy);
+
+      expect(OneNoteIdUtils.fromFile('notebook', first)).toBe(OneNoteIdUtils.fromFile('notebook', copy));
+      fs.appendFileSync(copy, 'x');
+      expect(OneNoteIdUtils.fromFile('notebook', first)).not.toBe(OneNoteIdUtils.fromFile('notebook', copy));
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Tests for ink rendering
+ */
+
+import { OneNoteInkRenderer } from '../../../../src/services/onenote/ink-renderer';
+
+describe('OneNoteInkRenderer', () => {
+  describe('toSvg', () => {
+    it('should render strokes as paths cropped to their padded bounds', () => {
+      const rendered = OneNoteInkRenderer.toSvg([
+        { points: [{ x: 10, y: 20 }, { x: 30, y: 40 }], color: '#ff0000', width: 2, opacity: 1 },
+        { points: [{ x: 50, y: 20 }, { x: 50.123, y: 60 }], color: '#ffff00', width: 4, opacity: 0.5 }
+      ]);
+
+      expect(rendered).toEqual({ svg: expect.any(String), width: 44, height: 44, x: 8, y: 18 });
+      expect(rendered!.svg).toBe([
+        '<svg xmlns="http://www.w3.org/2000/svg" width="44.12" height="44" viewBox="8 18 44.12 44">',
+        '<g fill="none" stroke-linecap="round" stroke-linejoin="round">',
+        '<path d="M10 20 L30 40" stroke="#ff0000" stroke-width="2"/>',
+        '<path d="M50 20 L50.12 60" stroke="#ffff00" stroke-width="4" stroke-opacity="0.5"/>',
+        '</g>',
+        '</svg>'
+      ].join('\n'));
+    });
+
+    it('should draw single-point strokes as dots', () => {
+      const rendered = OneNoteInkRenderer.toSvg([{ points: [{ x: 5, y: 5 }], color: '#000000', width: 2, opacity: 1 }]);
+
+      expect(rendered!.svg).toContain('<path d="M5 5 l0 0" stroke="#000000" stroke-width="2"/>');
+      expect(rendered).toEqual(expect.objectContaining({ width: 2, height: 2, x: 4, y: 4 }));
+    });
+
+    it('should return null when there are no points to draw', () => {
+      expect(OneNoteInkRenderer.toSvg([])).toBeNull();
+      expect(OneNoteInkRenderer.toSvg([{ points: [], color: '#000000', width: 1, opacity: 1 }])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for page layout resolution
+ */
+
+import { OneNoteLayoutResolver } from '../../../../src/services/onenote/layout-resolver';
+import { OneNoteBlock, OneNoteDocument, OneNoteLayoutRegion } from '../../../../src/types/document';
+
+describe('OneNoteLayoutResolver', () => {
+  const paragraph = (text: string): OneNoteBlock => ({ type: 'paragraph', runs: [{ text }] });
+  const bullet = (text: string): OneNoteBlock => ({ type: 'list', ordered: false, items: [{ runs: [{ text }], children: [] }] });
+
+  const regions: OneNoteLayoutRegion[] = [
+    { x: 48, y: 600, blocks: [paragraph('Footer')] },
+    { x: 400, y: 110, width: 300, blocks: [paragraph('Right')] },
+    { x: 48, y: 96, width: 300, blocks: [paragraph('Left')] }
+  ];
+
+  describe('rows', () => {
+    it('should put regions that sit side by side in one row, left to right', () => {
+      const rows = OneNoteLayoutResolver.rows(regions);
+
+      expect(rows.map(row => row.map(region => region.x))).toEqual([[48, 400], [48]]);
+    });
+
+    it('should keep regions that overlap sideways in separate rows', () => {
+      const rows = OneNoteLayoutResolver.rows([
+        { x: 0, y: 0, width: 300, blocks: [] },
+        { x: 200, y: 40, width: 300, blocks: [] }
+      ]);
+
+      expect(rows).toHaveLength(2);
+    });
+  });
+
+  describe('readingOrder', () => {
+    it('should read row by row, continuing lists across regions without changing them', () => {
+      const first: OneNoteLayoutRegion = { x: 0, y: 0, width: 100, blocks: [bullet('One')] };
+      const second: OneNoteLayoutRegion = { x: 0, y: 300, blocks: [bullet('Two')] };
+
+      const blocks = OneNoteLayoutResolver.readingOrder([second, first]);
+
+      expect(blocks).toEqual([{
+        type: 'list',
+        ordered: false,
+        items: [{ runs: [{ text: 'One' }], children: [] }, { runs: [{ text: 'Two' }], children: [] }]
+      }]);
+      expect(first.blocks).toEqual([bullet('One')]);
+      expect(OneNoteLayoutResolver.readingOrder(regions)).toEqual([paragraph('Left'), paragraph('Right'), paragraph('Footer')]);
+    });
+  });
+
+  describe('resolve', () => {
+    const document: OneNoteDocument = { blocks: [paragraph('Left'), paragraph('Right'), paragraph('Footer')], regions };
+
+    it('should turn side by side regions into columns', () => {
+      expect(OneNoteLayoutResolver.resolve(document, 'columns')).toEqual([
+        { type: 'columns', columns: [[paragraph('Left')], [paragraph('Right')]] },
+        paragraph('Footer')
+      ]);
+    });
+
+    it('should keep the document blocks when flat or without regions', () => {
+      expect(OneNoteLayoutResolver.resolve(document, 'flat')).toBe(document.blocks);
+      expect(OneNoteLayoutResolver.resolve({ blocks: document.blocks }, 'columns')).toBe(document.blocks);
+    });
+  });
+});
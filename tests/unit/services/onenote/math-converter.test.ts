@@ -0,0 +1,47 @@
+/**
+ * Tests for UnicodeMath to LaTeX conversion
+ */
+
+import { OneNoteError } from '../../../../src/services/onenote/error-utils';
+import { OneNoteMathConverter } from '../../../../src/services/onenote/math-converter';
+
+describe('OneNoteMathConverter', () => {
+  describe('toLatex', () => {
+    it.each([
+      ['x^2+y^2=z^2', 'x^{2}+y^{2}=z^{2}'],
+      ['x_i^2', 'x_{i}^{2}'],
+      ['(a+b)/2', '\\frac{a+b}{2}'],
+      ['f(x)=1/(1+e^(-x))', 'f(x)=\\frac{1}{1+e^{-x}}'],
+      ['(a+b)^2', '(a+b)^{2}'],
+      ['√(x+1)', '\\sqrt{x+1}'],
+      ['√(3&x)', '\\sqrt[3]{x}'],
+      ['∛x', '\\sqrt[3]{x}'],
+      ['∑_(i=1)^n▒i^2', '\\sum_{i=1}^{n}i^{2}'],
+      ['α/β≤π', '\\frac{\\alpha}{\\beta}\\le\\pi'],
+      ['sin⁡θ', '\\sin\\theta'],
+      ['x±1', 'x\\pm 1']
+    ])('should convert %s', (linear, latex) => {
+      expect(OneNoteMathConverter.toLatex(linear)).toBe(latex);
+    });
+
+    it('should throw a recoverable error for unsupported or unbalanced input', () => {
+      for (const linear of ['■(a&b@c&d)', '(a+b', 'a)', 'x^']) {
+        let thrown: unknown;
+        try {
+          OneNoteMathConverter.toLatex(linear);
+        } catch (error) {
+          thrown = error;
+        }
+        expect(thrown).toBeInstanceOf(OneNoteError);
+        expect((thrown as OneNoteError).recoverable).toBe(true);
+      }
+    });
+  });
+
+  describe('linearize', () => {
+    it('should drop invisible operators and n-ary markers', () => {
+      expect(OneNoteMathConverter.linearize('∑_(i=1)^n▒i  ')).toBe('∑_(i=1)^n i');
+      expect(OneNoteMathConverter.linearize('sin⁡x')).toBe('sinx');
+    });
+  });
+});
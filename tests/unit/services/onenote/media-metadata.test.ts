@@ -0,0 +1,23 @@
+/**
+ * Tests for reading recording metadata
+ */
+
+import { OneNoteMediaMetadataReader } from '../../../../src/services/onenote/media-metadata';
+import { buildAsfRecording, buildMp4Recording } from '../../../fixtures/onenote/media-builder';
+
+describe('OneNoteMediaMetadataReader', () => {
+  const recordedAt = new Date('2024-03-05T15:07:12Z');
+
+  it('should read the duration less the preroll and the creation date of ASF recordings', () => {
+    expect(OneNoteMediaMetadataReader.read(buildAsfRecording({ duration: 205.5, recordedAt }))).toEqual({ duration: 205.5, recordedAt });
+  });
+
+  it('should read the movie header of MP4 recordings', () => {
+    expect(OneNoteMediaMetadataReader.read(buildMp4Recording({ duration: 61, recordedAt }))).toEqual({ duration: 61, recordedAt });
+  });
+
+  it('should give nothing for unknown and truncated data', () => {
+    expect(OneNoteMediaMetadataReader.read(Buffer.from('RIFF....WAVE'))).toEqual({});
+    expect(OneNoteMediaMetadataReader.read(buildAsfRecording({ duration: 10, recordedAt }).subarray(0, 120))).toEqual({});
+  });
+});
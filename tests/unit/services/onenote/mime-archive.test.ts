@@ -0,0 +1,46 @@
+/**
+ * Tests for reading single file web pages
+ */
+
+import { OneNoteMimeArchive } from '../../../../src/services/onenote/mime-archive';
+import { buildMhtArchive } from '../../../fixtures/onenote/mht-builder';
+
+describe('OneNoteMimeArchive', () => {
+  const png = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0, 1, 2, 3]);
+  const archive = buildMhtArchive([
+    { contentType: 'text/html', location: 'file:///C:/Users/me/Temp/Trip%20plan.htm', data: `<p>Café ${'long line '.repeat(20)}</p>` },
+    { contentType: 'image/png', location: 'file:///C:/Users/me/Temp/Trip%20plan_files/image001.png', data: png },
+    { contentType: 'image/png', contentId: 'logo@01DA6E1F', data: png }
+  ]);
+
+  describe('isMimeArchive', () => {
+    it('should recognize MIME messages by their headers', () => {
+      expect(OneNoteMimeArchive.isMimeArchive(archive)).toBe(true);
+      expect(OneNoteMimeArchive.isMimeArchive(Buffer.from('<html><body>Not an archive</body></html>'))).toBe(false);
+    });
+  });
+
+  describe('read', () => {
+    it('should decode quoted-printable and base64 parts with their headers', () => {
+      const [page, image, logo] = OneNoteMimeArchive.read(archive);
+
+      expect(page).toEqual(expect.objectContaining({ contentType: 'text/html', charset: 'utf-8', location: 'file:///C:/Users/me/Temp/Trip%20plan.htm' }));
+      expect(OneNoteMimeArchive.text(page!)).toBe(`<p>Café ${'long line '.repeat(20)}</p>`);
+      expect(image!.data).toEqual(png);
+      expect(logo!.contentId).toBe('logo@01DA6E1F');
+    });
+  });
+
+  describe('find', () => {
+    it('should find parts by relative location, by path suffix and by Content-ID', () => {
+      const parts = OneNoteMimeArchive.read(archive);
+      const [page, image, logo] = parts;
+
+      expect(OneNoteMimeArchive.find(parts, 'Trip%20plan_files/image001.png', page)).toBe(image);
+      expect(OneNoteMimeArchive.find(parts, 'Trip plan_files/image001.png')).toBe(image);
+      expect(OneNoteMimeArchive.find(parts, 'cid:logo@01DA6E1F')).toBe(logo);
+      expect(OneNoteMimeArchive.find(parts, 'https://example.com/image001.png')).toBeUndefined();
+      expect(OneNoteMimeArchive.fileName(image!)).toBe('image001.png');
+    });
+  });
+});
@@ -24,8 +24,11 @@ describe('OneNoteService', () => {
     mockExtractionService = {
       extractFromOnepkg: jest.fn(),
       extractFromOne: jest.fn(),
+      extractFromMht: jest.fn(),
+      extractFromFolder: jest.fn(),
       validateOneNoteFile: jest.fn(),
-      extractMultiple: jest.fn()
+      extractMultiple: jest.fn(),
+      streamPages: jest.fn()
     } as jest.Mocked<IOneNoteExtractionService>;
 
     mockParserService = {
@@ -39,6 +42,7 @@ describe('OneNoteService', () => {
       displayHierarchy: jest.fn(),
       displayNotebook: jest.fn(),
       displaySection: jest.fn(),
+      displaySectionGroup: jest.fn(),
       displaySummary: jest.fn()
     } as jest.Mocked<IOneNoteDisplayService>;
 
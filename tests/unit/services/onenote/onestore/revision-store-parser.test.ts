@@ -0,0 +1,163 @@
+/**
+ * Tests for the MS-ONESTORE revision store parser
+ */
+
+import { RevisionStoreParser } from '../../../../../src/services/onenote/onestore/revision-store-parser';
+import { RootRole } from '../../../../../src/services/onenote/onestore/revision-store';
+import { Jcid, PropertyId } from '../../../../../src/services/onenote/onestore/one-properties';
+import { OneStoreGuids, extendedGuidKey } from '../../../../../src/services/onenote/onestore/onestore-types';
+import { OneNoteError } from '../../../../../src/services/onenote/error-utils';
+import { OneStoreBuilder, eguid, testGuid, utf16, uint32 } from '../../../../fixtures/onenote/onestore-builder';
+
+describe('RevisionStoreParser', () => {
+  describe('isRevisionStore', () => {
+    it('should recognize .one and .onetoc2 headers', () => {
+      const section = new OneStoreBuilder().addObjectSpace({ id: eguid(testGuid()), revisions: [] }).build();
+      const toc = new OneStoreBuilder().asTableOfContents().addObjectSpace({ id: eguid(testGuid()), revisions: [] }).build();
+
+      expect(RevisionStoreParser.isRevisionStore(section)).toBe(true);
+      expect(RevisionStoreParser.isRevisionStore(toc)).toBe(true);
+    });
+
+    it('should reject text and truncated buffers', () => {
+      expect(RevisionStoreParser.isRevisionStore(Buffer.from('OneNote section text content'))).toBe(false);
+      expect(RevisionStoreParser.isRevisionStore(Buffer.alloc(32))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read the header and object spaces', () => {
+      const spaceId = eguid(testGuid());
+      const buffer = new OneStoreBuilder()
+        .asTableOfContents()
+        .addObjectSpace({ id: spaceId, revisions: [] })
+        .build();
+
+      const store = new RevisionStoreParser(buffer).parse();
+
+      expect(store.header.fileType).toBe('onetoc2');
+      expect(store.header.fileFormatGuid).toBe(OneStoreGuids.FILE_FORMAT);
+      expect(store.header.expectedFileLength).toBe(buffer.length);
+      expect(store.rootObjectSpaceId).toBe(extendedGuidKey(spaceId));
+      expect(store.objectSpaces.size).toBe(1);
+    });
+
+    it('should decode objects, property sets and roots of a revision', () => {
+      const guid = testGuid();
+      const outline = eguid(guid, 1);
+      const text = eguid(guid, 2);
+      const spaceId = eguid(testGuid());
+
+      const store = new RevisionStoreParser(new OneStoreBuilder()
+        .addObjectSpace({
+          id: spaceId,
+          revisions: [{
+            id: eguid(testGuid()),
+            roots: [{ role: RootRole.DefaultContent, id: outline }],
+            objects: [
+              { id: outline, jcid: Jcid.OutlineNode, properties: [{ id: PropertyId.ElementChildNodes, value: [text] }] },
+              {
+                id: text,
+                jcid: Jcid.RichTextOENode,
+                properties: [
+                  { id: PropertyId.RichEditTextUnicode, value: utf16('Hello') },
+                  { id: PropertyId.Bold, value: true },
+                  { id: PropertyId.LayoutMaxWidth, value: uint32(0x40A00000) }
+                ]
+              }
+            ]
+          }]
+        })
+        .build()).parse();
+
+      const snapshot = store.snapshot(extendedGuidKey(spaceId))!;
+      const root = snapshot.root()!;
+      expect(root.jcid).toBe(Jcid.OutlineNode);
+      expect(root.properties.getObjectIds(PropertyId.ElementChildNodes)).toEqual([extendedGuidKey(text)]);
+
+      const child = snapshot.get(extendedGuidKey(text))!;
+      expect(child.properties.getString(PropertyId.RichEditTextUnicode)).toBe('Hello');
+      expect(child.properties.getBool(PropertyId.Bold)).toBe(true);
+      expect(child.properties.getFloat(PropertyId.LayoutMaxWidth)).toBe(5);
+    });
+
+    it('should merge objects inherited from dependent revisions', () => {
+      const guid = testGuid();
+      const first = eguid(testGuid());
+      const second = eguid(testGuid());
+      const spaceId = eguid(testGuid());
+
+      const store = new RevisionStoreParser(new OneStoreBuilder()
+        .addObjectSpace({
+          id: spaceId,
+          revisions: [
+            {
+              id: first,
+              roots: [{ role: 1, id: eguid(guid, 1) }],
+              objects: [
+                { id: eguid(guid, 1), jcid: Jcid.OutlineNode },
+                { id: eguid(guid, 2), jcid: Jcid.RichTextOENode, properties: [{ id: PropertyId.RichEditTextUnicode, value: utf16('old') }] }
+              ]
+            },
+            {
+              id: second,
+              dependsOn: first,
+              roots: [],
+              objects: [
+                { id: eguid(guid, 2), jcid: Jcid.RichTextOENode, properties: [{ id: PropertyId.RichEditTextUnicode, value: utf16('new') }] }
+              ]
+            }
+          ]
+        })
+        .build()).parse();
+
+      const space = store.getObjectSpace(extendedGuidKey(spaceId))!;
+      expect(space.revisions).toHaveLength(2);
+      expect(store.getRevision(extendedGuidKey(spaceId))?.id).toBe(extendedGuidKey(second));
+
+      const latest = store.snapshot(extendedGuidKey(spaceId))!;
+      expect(latest.root()?.jcid).toBe(Jcid.OutlineNode);
+      expect(latest.get(extendedGuidKey(eguid(guid, 2)))?.properties.getString(PropertyId.RichEditTextUnicode)).toBe('new');
+
+      const original = store.snapshot(extendedGuidKey(spaceId), extendedGuidKey(first))!;
+      expect(original.get(extendedGuidKey(eguid(guid, 2)))?.properties.getString(PropertyId.RichEditTextUnicode)).toBe('old');
+    });
+
+    it('should read file data store objects', () => {
+      const dataGuid = testGuid();
+      const store = new RevisionStoreParser(new OneStoreBuilder()
+        .addObjectSpace({ id: eguid(testGuid()), revisions: [] })
+        .addFileData(dataGuid, Buffer.from('image bytes'))
+        .build()).parse();
+
+      expect(store.hasFileData(`<ifndf>${dataGuid}`)).toBe(true);
+      expect(store.readFileData(`<ifndf>${dataGuid}`)?.toString()).toBe('image bytes');
+      expect(store.readFileData(`<ifndf>${testGuid()}`)).toBeUndefined();
+    });
+
+    it('should flag encrypted revisions', () => {
+      const spaceId = eguid(testGuid());
+      const store = new RevisionStoreParser(new OneStoreBuilder()
+        .addObjectSpace({ id: spaceId, revisions: [{ id: eguid(testGuid()), roots: [], objects: [], encrypted: true }] })
+        .build()).parse();
+
+      expect(store.getRevision(extendedGuidKey(spaceId))?.encrypted).toBe(true);
+    });
+
+    it('should throw a recoverable OneNoteError for truncated files', () => {
+      const buffer = new OneStoreBuilder()
+        .addObjectSpace({ id: eguid(testGuid()), revisions: [{ id: eguid(testGuid()), roots: [], objects: [] }] })
+        .build();
+
+      let thrown: unknown;
+      try {
+        new RevisionStoreParser(buffer.subarray(0, buffer.length - 40)).parse();
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(OneNoteError);
+      expect((thrown as OneNoteError).recoverable).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for password protected section decryption
+ */
+
+import { RevisionStoreParser } from '../../../../../src/services/onenote/onestore/revision-store-parser';
+import { RevisionStore } from '../../../../../src/services/onenote/onestore/revision-store';
+import { SectionEncryption } from '../../../../../src/services/onenote/onestore/section-encryption';
+import { Jcid, PropertyId } from '../../../../../src/services/onenote/onestore/one-properties';
+import { extendedGuidKey } from '../../../../../src/services/onenote/onestore/onestore-types';
+import { OneNoteError } from '../../../../../src/services/onenote/error-utils';
+import { OneStoreBuilder, eguid, testGuid, utf16 } from '../../../../fixtures/onenote/onestore-builder';
+
+describe('SectionEncryption', () => {
+  const spaceId = eguid(testGuid());
+  const objectId = eguid(testGuid());
+  // Longer than one 4096 byte segment
+  const title = 'Private '.repeat(400);
+
+  const buildStore = (): RevisionStore => new RevisionStoreParser(new OneStoreBuilder()
+    .protect('correct horse', 100)
+    .addObjectSpace({
+      id: spaceId,
+      revisions: [{
+        id: eguid(testGuid()),
+        roots: [{ role: 1, id: objectId }],
+        objects: [{ id: objectId, jcid: Jcid.PageMetaData, properties: [{ id: PropertyId.CachedTitleString, value: utf16(title) }] }],
+        encrypted: true
+      }]
+    })
+    .build()).parse();
+
+  const readTitle = (store: RevisionStore): string | undefined =>
+    store.snapshot(extendedGuidKey(spaceId))?.root()?.properties.getString(PropertyId.CachedTitleString);
+
+  it('should expose the key of protected sections on the store', () => {
+    const store = buildStore();
+
+    expect(store.encryption).toBeInstanceOf(SectionEncryption);
+    expect(store.encryption?.locked).toBe(true);
+  });
+
+  it('should refuse to read encrypted objects while locked', () => {
+    const store = buildStore();
+
+    expect(() => readTitle(store)).toThrow(expect.objectContaining({ code: 'PASSWORD_REQUIRED', recoverable: false }));
+  });
+
+  it('should reject a wrong password and stay locked', () => {
+    const store = buildStore();
+
+    expect(() => store.encryption!.unlock('wrong')).toThrow(OneNoteError);
+    expect(() => store.encryption!.unlock('wrong')).toThrow(expect.objectContaining({ code: 'INVALID_PASSWORD' }));
+    expect(store.encryption?.locked).toBe(true);
+  });
+
+  it('should decrypt encrypted objects once unlocked', () => {
+    const store = buildStore();
+
+    store.encryption!.unlock('correct horse');
+
+    expect(store.encryption?.locked).toBe(false);
+    expect(readTitle(store)).toBe(title);
+  });
+
+  it('should report unsupported key data when unlocking', () => {
+    const store = new RevisionStoreParser(new OneStoreBuilder()
+      .addObjectSpace({ id: eguid(testGuid()), revisions: [{ id: eguid(testGuid()), roots: [], objects: [], encrypted: true }] })
+      .build()).parse();
+
+    expect(() => store.encryption!.unlock('anything')).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_ENCRYPTION' }));
+  });
+
+  it('should refuse a spin count over the MS-OFFCRYPTO limit instead of hashing the password that many times', () => {
+    const cipher = 'saltValue="AAAAAAAAAAAAAAAAAAAAAA==" blockSize="16" keyBits="256" hashAlgorithm="SHA512" cipherAlgorithm="AES" cipherChaining="ChainingModeCBC"';
+    const xml = `<encryption><keyData ${cipher}/><p:encryptedKey ${cipher} spinCount="4294967295" encryptedVerifierHashInput="" encryptedVerifierHashValue="" encryptedKeyValue=""/></encryption>`;
+    const header = Buffer.from([4, 0, 4, 0, 0x40, 0, 0, 0]);
+    const encryption = new SectionEncryption(Buffer.concat([header, Buffer.from(xml, 'utf8')]));
+
+    expect(() => encryption.unlock('anything')).toThrow(expect.objectContaining({ code: 'INVALID_ENCRYPTION', message: expect.stringContaining('spin count') }));
+    expect(encryption.locked).toBe(true);
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * Tests for the MS-ONE section reader
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OneNoteAssetStore } from '../../../../../src/services/onenote/asset-store';
+import { RevisionStoreParser } from '../../../../../src/services/onenote/onestore/revision-store-parser';
+import { OneNoteSectionReader } from '../../../../../src/services/onenote/onestore/section-reader';
+import { buildSectionFile } from '../../../../fixtures/onenote/onestore-builder';
+
+describe('OneNoteSectionReader', () => {
+  const read = (buffer: Buffer) => new OneNoteSectionReader(new RevisionStoreParser(buffer).parse()).read();
+
+  it('should read pages in section order with titles and levels', () => {
+    const section = read(buildSectionFile({
+      name: 'Research',
+      pages: [
+        { title: 'First page', outlines: [[{ text: 'Intro' }]] },
+        { title: 'Second page', level: 2, outlines: [[{ text: 'Details' }]] }
+      ]
+    }));
+
+    expect(section.name).toBe('Research');
+    expect(section.pages.map(page => page.title)).toEqual(['First page', 'Second page']);
+    expect(section.pages[1]!.level).toBe(2);
+    expect(section.pages[0]!.id).toMatch(/^page-5ec70000-/);
+  });
+
+  it('should build document blocks with headings, nested lists and merged code lines', () => {
+    const section = read(buildSectionFile({
+      pages: [{
+        title: 'Notes',
+        outlines: [
+          [
+            { text: 'Heading', style: 'h1' },
+            { text: 'Item one', list: 'bullet', children: [{ text: 'Nested', list: 'numbered' }] },
+            { text: 'Item two', list: 'bullet' },
+            { text: 'Line one\u000bLine two' },
+            { text: 'const a = 1;', style: 'code' },
+            { text: 'const b = 2;', style: 'code' }
+          ],
+          [{ text: 'Second outline' }]
+        ]
+      }]
+    }));
+
+    expect(section.pages[0]!.document!.blocks).toEqual([
+      { type: 'heading', level: 1, runs: [{ text: 'Heading' }] },
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          {
+            runs: [{ text: 'Item one' }],
+            children: [{ type: 'list', ordered: true, items: [{ runs: [{ text: 'Nested' }], children: [] }] }]
+          },
+          { runs: [{ text: 'Item two' }], children: [] }
+        ]
+      },
+      { type: 'paragraph', runs: [{ text: 'Line one\nLine two' }] },
+      { type: 'code', text: 'const a = 1;\nconst b = 2;' },
+      { type: 'paragraph', runs: [{ text: 'Second outline' }] }
+    ]);
+  });
+
+  it('should read tables as rows of cell blocks', () => {
+    const section = read(buildSectionFile({
+      pages: [{ title: 'Table', outlines: [[{ text: '', table: [['Name', 'Value'], ['a', '1']] }]] }]
+    }));
+
+    const table = section.pages[0]!.document!.blocks.find(block => block.type === 'table');
+    const cell = (text: string) => ({ blocks: [{ type: 'paragraph', runs: [{ text }] }] });
+    expect(table).toEqual({
+      type: 'table',
+      rows: [{ cells: [cell('Name'), cell('Value')] }, { cells: [cell('a'), cell('1')] }]
+    });
+  });
+
+  it('should strip hyperlink field codes from text', () => {
+    const section = read(buildSectionFile({
+      pages: [{ title: 'Links', outlines: [[{ text: '\uFDDFHYPERLINK "https://example.com"Example site' }]] }]
+    }));
+
+    expect(section.pages[0]!.document!.blocks[0]).toEqual({ type: 'paragraph', runs: [{ text: 'Example site' }] });
+  });
+
+  it('should read formatted text runs', () => {
+    const section = read(buildSectionFile({
+      pages: [{
+        title: 'Formatting',
+        outlines: [[{
+          text: '',
+          runs: [
+            { text: 'Plain ' },
+            { text: 'bold', bold: true },
+            { text: ' and ', bold: true, italic: true },
+            { text: 'red', color: 0x0000FF, highlight: 0x00FFFF, underline: true },
+            { text: ' x', strikethrough: true },
+            { text: '2', superscript: true },
+            { text: ' npm test', font: 'Consolas' },
+            { text: ' auto', color: 0xFFFFFFFF }
+          ]
+        }]]
+      }]
+    }));
+
+    expect(section.pages[0]!.document!.blocks[0]).toEqual({ type: 'paragraph', runs: [
+      { text: 'Plain ' },
+      { text: 'bold', bold: true },
+      { text: ' and ', bold: true, italic: true },
+      { text: 'red', underline: true, highlight: '#ffff00', color: '#ff0000' },
+      { text: ' x', strikethrough: true },
+      { text: '2', superscript: true },
+      { text: ' npm test', code: true },
+      { text: ' auto' }
+    ] });
+  });
+
+  it('should attach hyperlink targets to the display text runs', () => {
+    const section = read(buildSectionFile({
+      pages: [{
+        title: 'Links',
+        outlines: [[{
+          text: '',
+          runs: [
+            { text: 'See ' },
+            { text: '\uFDDFHYPERLINK "https://example.com/docs"', hyperlink: true },
+            { text: 'the docs', hyperlink: true },
+            { text: ' or ' },
+            { text: 'this', hyperlink: true, url: 'https://example.com/direct' }
+          ]
+        }]]
+      }]
+    }));
+
+    expect(section.pages[0]!.document!.blocks[0]).toEqual({ type: 'paragraph', runs: [
+      { text: 'See ' },
+      { text: 'the docs', href: 'https://example.com/docs' },
+      { text: ' or ' },
+      { text: 'this', href: 'https://example.com/direct' }
+    ] });
+  });
+
+  it('should merge unformatted runs into a single run', () => {
+    const section = read(buildSectionFile({
+      pages: [{ title: 'Plain', outlines: [[{ text: '', runs: [{ text: 'one ' }, { text: 'two' }] }]] }]
+    }));
+
+    expect(section.pages[0]!.document!.blocks[0]).toEqual({ type: 'paragraph', runs: [{ text: 'one two' }] });
+  });
+
+  it('should convert math runs to LaTeX equations', () => {
+    const section = read(buildSectionFile({
+      pages: [{
+        title: 'Math',
+        outlines: [[
+          { text: '', runs: [{ text: 'Area is ' }, { text: 'π', math: true }, { text: 'r^2', math: true }] },
+          { text: '', runs: [{ text: '(a+b)/2', math: true }] },
+          { text: '', runs: [{ text: 'Matrix ' }, { text: '■(1&0@0&1)', math: true }] }
+        ]]
+      }]
+    }));
+
+    expect(section.pages[0]!.document!.blocks).toEqual([
+      { type: 'paragraph', runs: [{ text: 'Area is ' }, { text: 'πr^2', equation: '\\pi r^{2}' }] },
+      { type: 'equation', expression: '\\frac{a+b}{2}' },
+      { type: 'paragraph', runs: [{ text: 'Matrix ■(1&0@0&1)' }] }
+    ]);
+  });
+
+  it('should turn To Do tags into to-do items and keep other note tags on paragraphs', () => {
+    const toDo = { label: 'To Do', shape: 1 };
+    const section = read(buildSectionFile({
+      pages: [{
+        title: 'Tasks',
+        outlines: [[
+          { text: 'Buy milk', tags: [toDo] },
+          { text: 'Call back', tags: [{ ...toDo, completed: true }, { label: 'Important', shape: 13 }] },
+          { text: 'Why?', list: 'bullet', tags: [{ label: 'Question', shape: 15 }] },
+          { text: 'Key idea', tags: [{ label: 'Highlight', shape: 0, highlight: 0x00FFFF }] },
+          { text: 'Ship it', tags: [{ label: 'Launch', shape: 99 }] }
+        ]]
+      }]
+    }));
+
+    expect(section.pages[0]!.document!.blocks).toEqual([
+      { type: 'todo', checked: false, runs: [{ text: 'Buy milk' }], tags: [{ name: 'To Do', shape: 1, checked: false }] },
+      {
+        type: 'todo',
+        checked: true,
+        runs: [{ text: 'Call back' }],
+        tags: [{ name: 'To Do', shape: 1, checked: true }, { name: 'Important', shape: 13, icon: '⭐' }]
+      },
+      { type: 'list', ordered: false, items: [{ runs: [{ text: 'Why?' }], children: [], tags: [{ name: 'Question', shape: 15, icon: '❓' }] }] },
+      { type: 'paragraph', runs: [{ text: 'Key idea' }], tags: [{ name: 'Highlight', shape: 0, highlight: '#ffff00' }] },
+      { type: 'paragraph', runs: [{ text: 'Ship it' }], tags: [{ name: 'Launch', shape: 99, icon: '🏷️' }] }
+    ]);
+  });
+
+  describe('revisions', () => {
+    const readRevisions = (buffer: Buffer) =>
+      new OneNoteSectionReader(new RevisionStoreParser(buffer).parse(), undefined, { includeRevisions: true }).read();
+
+    it('should read earlier versions oldest first with their author and save time', () => {
+      const section = readRevisions(buildSectionFile({
+        pages: [{
+          title: 'Plan',
+          outlines: [[{ text: 'Final' }]],
+          history: [
+            { title: 'Plan v2', author: 'Grace', modifiedAt: new Date('2024-03-02T10:00:00Z'), outlines: [[{ text: 'Second' }]] },
+            { title: 'Plan', author: 'Ada', modifiedAt: new Date('2024-03-01T09:30:00Z'), outlines: [[{ text: 'First' }]] }
+          ]
+        }]
+      }));
+
+      const revisions = section.pages[0]!.revisions!;
+      expect(section.pages[0]!.document!.blocks).toEqual([{ type: 'paragraph', runs: [{ text: 'Final' }] }]);
+      expect(revisions.map(revision => [revision.title, revision.author, revision.lastModifiedDate.toISOString()])).toEqual([
+        ['Plan', 'Ada', '2024-03-01T09:30:00.000Z'],
+        ['Plan v2', 'Grace', '2024-03-02T10:00:00.000Z']
+      ]);
+      expect(revisions[0]!.document.blocks).toEqual([{ type: 'paragraph', runs: [{ text: 'First' }] }]);
+    });
+
+    it('should skip versions that leave the page text unchanged', () => {
+      const section = readRevisions(buildSectionFile({
+        pages: [{
+          title: 'Plan',
+          outlines: [[{ text: 'Final' }]],
+          history: [
+            { title: 'Plan', modifiedAt: new Date('2024-03-01T00:00:00Z'), outlines: [[{ text: 'Draft' }]] },
+            { title: 'Plan', modifiedAt: new Date('2024-03-02T00:00:00Z'), outlines: [[{ text: 'Draft' }]] },
+            { title: 'Plan', modifiedAt: new Date('2024-03-03T00:00:00Z'), outlines: [[{ text: 'Final' }]] }
+          ]
+        }]
+      }));
+
+      expect(section.pages[0]!.revisions!.map(revision => revision.lastModifiedDate.toISOString())).toEqual(['2024-03-02T00:00:00.000Z']);
+    });
+
+    it('should leave revisions unread by default', () => {
+      const section = read(buildSectionFile({
+        pages: [{ title: 'Plan', outlines: [[{ text: 'Final' }]], history: [{ title: 'Plan', outlines: [[{ text: 'Draft' }]] }] }]
+      }));
+
+      expect(section.pages[0]!.revisions).toBeUndefined();
+    });
+  });
+
+  it('should read page creation dates', () => {
+    const createdAt = new Date('2023-04-05T06:07:08.000Z');
+    const section = read(buildSectionFile({ pages: [{ title: 'Dated', createdAt, outlines: [] }] }));
+
+    expect(section.pages[0]!.createdDate.toISOString()).toBe(createdAt.toISOString());
+  });
+
+  describe('images', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 1, 2, 3]);
+    let assetsDir: string;
+
+    beforeEach(() => {
+      assetsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-test-assets-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(assetsDir, { recursive: true, force: true });
+    });
+
+    const readWithAssets = (buffer: Buffer) =>
+      new OneNoteSectionReader(new RevisionStoreParser(buffer).parse(), new OneNoteAssetStore(assetsDir)).read();
+
+    it('should extract picture data with its name, alt text, size and position', () => {
+      const section = readWithAssets(buildSectionFile({
+        pages: [{
+          title: 'Pictures',
+          outlines: [[{ text: 'Before' }, { text: '', image: { name: 'chart.png', alt: ' Sales chart ', width: 2, height: 1.5, data: png, extension: '.png' } }]]
+        }]
+      }));
+
+      const [, image] = section.pages[0]!.document!.blocks;
+      expect(image).toEqual({
+        type: 'image',
+        name: 'chart.png',
+        alt: 'Sales chart',
+        width: 96,
+        height: 72,
+        src: expect.stringMatching(/[0-9a-f]{32}\.png$/),
+        mimeType: 'image/png'
+      });
+      expect(path.dirname((image as { src: string }).src)).toBe(assetsDir);
+    });
+
+    it('should write identical pictures once under a content hash', () => {
+      const section = readWithAssets(buildSectionFile({
+        pages: [{
+          title: 'Pictures',
+          outlines: [[{ text: '', image: { data: png } }, { text: '', image: { data: png } }]]
+        }]
+      }));
+
+      const [first, second] = section.pages[0]!.document!.blocks;
+      expect(first).toMatchObject({ type: 'image', mimeType: 'image/png' });
+      expect(second).toEqual(first);
+      expect(fs.readdirSync(assetsDir)).toHaveLength(1);
+      expect(fs.readFileSync((first as { src: string }).src)).toEqual(png);
+    });
+
+    it('should order pictures placed on the page by their vertical offset', () => {
+      const section = readWithAssets(buildSectionFile({
+        pages: [{
+          title: 'Layout',
+          outlines: [[{ text: 'Top text' }]],
+          images: [{ alt: 'Below', y: 4, x: 1, data: png }]
+        }]
+      }));
+
+      expect(section.pages[0]!.document!.blocks).toEqual([
+        { type: 'paragraph', runs: [{ text: 'Top text' }] },
+        expect.objectContaining({ type: 'image', alt: 'Below', x: 48, y: 192 })
+      ]);
+    });
+
+    it('should keep picture metadata without writing files when no asset store is given', () => {
+      const section = read(buildSectionFile({
+        pages: [{ title: 'Pictures', outlines: [[{ text: '', image: { name: 'photo.jpg', data: png } }]] }]
+      }));
+
+      expect(section.pages[0]!.document!.blocks).toEqual([{ type: 'image', name: 'photo.jpg' }]);
+    });
+  });
+
+  describe('attachments', () => {
+    const pdf = Buffer.from('%PDF-1.7 report');
+    let assetsDir: string;
+
+    beforeEach(() => {
+      assetsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-test-attachments-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(assetsDir, { recursive: true, force: true });
+    });
+
+    it('should extract embedded files with their original name, size and MIME type', () => {
+      const data = Buffer.from('PK spreadsheet bytes');
+      const section = new OneNoteSectionReader(new RevisionStoreParser(buildSectionFile({
+        pages: [{
+          title: 'Files',
+          outlines: [[{ text: '', file: { name: 'Budget.xlsx', sourcePath: 'C:\\Users\\me\\Budget.xlsx', data, extension: '.bin' } }]]
+        }]
+      })).parse(), new OneNoteAssetStore(assetsDir)).read();
+
+      const [file] = section.pages[0]!.document!.blocks;
+      expect(file).toEqual({
+        type: 'file',
+        name: 'Budget.xlsx',
+        sourcePath: 'C:\\Users\\me\\Budget.xlsx',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        size: data.length,
+        src: expect.stringMatching(/[0-9a-f]{32}\.xlsx$/)
+      });
+      expect(fs.readFileSync((file as { src: string }).src)).toEqual(data);
+    });
+
+    it('should name files without a stored name after their source path', () => {
+      const section = read(buildSectionFile({
+        pages: [{ title: 'Files', outlines: [[{ text: '', file: { sourcePath: 'D:\\Shared\\notes.txt' } }]] }]
+      }));
+
+      expect(section.pages[0]!.document!.blocks[0]).toEqual(expect.objectContaining({ type: 'file', name: 'notes.txt', mimeType: 'text/plain' }));
+    });
+
+    it('should link printout pages to the attachment they were printed from', () => {
+      const section = new OneNoteSectionReader(new RevisionStoreParser(buildSectionFile({
+        pages: [{
+          title: 'Printout',
+          outlines: [[
+            { text: '', file: { name: 'Report.pdf', data: pdf } },
+            { text: '', image: { name: 'Report.pdf', pageNumber: 1 } },
+            { text: '', image: { name: 'Report', pageNumber: 2 } },
+            { text: '', image: { name: 'unrelated.png' } }
+          ]]
+        }]
+      })).parse(), new OneNoteAssetStore(assetsDir)).read();
+
+      const [file, first, second, unrelated] = section.pages[0]!.document!.blocks;
+      const src = (file as { src: string }).src;
+      expect(first).toEqual(expect.objectContaining({ printout: { name: 'Report.pdf', src, page: 1 } }));
+      expect(second).toEqual(expect.objectContaining({ printout: { name: 'Report.pdf', src, page: 2 } }));
+      expect(unrelated).not.toHaveProperty('printout');
+    });
+
+    it('should keep file metadata without writing data when attachment extraction is off', () => {
+      const section = new OneNoteSectionReader(new RevisionStoreParser(buildSectionFile({
+        pages: [{ title: 'Files', outlines: [[{ text: '', file: { name: 'Report.pdf', data: pdf } }]] }]
+      })).parse(), new OneNoteAssetStore(assetsDir), { extractAttachments: false }).read();
+
+      expect(section.pages[0]!.document!.blocks).toEqual([{ type: 'file', name: 'Report.pdf', mimeType: 'application/pdf' }]);
+      expect(fs.readdirSync(assetsDir)).toEqual([]);
+    });
+  });
+
+  describe('ink', () => {
+    let assetsDir: string;
+
+    beforeEach(() => {
+      assetsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-test-ink-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(assetsDir, { recursive: true, force: true });
+    });
+
+    // 2540 HIMETRIC units are 96 pixels
+    const strokes = [
+      { points: [[0, 0], [2540, 1270], [2540, -1270]] as Array<[number, number]>, color: 0x000000FF, width: 52.9 },
+      { points: [[1270, 0]] as Array<[number, number]>, color: 0x0000FFFF, width: 529.2, transparency: 128 }
+    ];
+
+    it('should render each ink container to an SVG asset placed as an image', () => {
+      const section = new OneNoteSectionReader(new RevisionStoreParser(buildSectionFile({
+        pages: [{ title: 'Sketch', outlines: [[{ text: 'Notes' }]], ink: [{ strokes, x: 1, y: 2 }] }]
+      })).parse(), new OneNoteAssetStore(assetsDir)).read();
+
+      const [, image] = section.pages[0]!.document!.blocks;
+      expect(image).toEqual({
+        type: 'image',
+        alt: 'Ink drawing',
+        mimeType: 'image/svg+xml',
+        width: 116,
+        height: 116,
+        x: 38,
+        y: 38,
+        src: expect.stringMatching(/\.svg$/)
+      });
+
+      const svg = fs.readFileSync((image as { src: string }).src, 'utf8');
+      expect(svg).toContain('<path d="M0 0 L96 48 L96 -48" stroke="#ff0000" stroke-width="2"/>');
+      expect(svg).toContain('<path d="M48 0 l0 0" stroke="#ffff00" stroke-width="20" stroke-opacity="0.5"/>');
+    });
+
+    it('should read ink inside outlines', () => {
+      const section = read(buildSectionFile({
+        pages: [{ title: 'Sketch', outlines: [[{ text: '', ink: { strokes } }]] }]
+      }));
+
+      expect(section.pages[0]!.document!.blocks).toEqual([expect.objectContaining({ type: 'image', alt: 'Ink drawing' })]);
+    });
+
+    it('should drop ink when ink extraction is off', () => {
+      const section = new OneNoteSectionReader(new RevisionStoreParser(buildSectionFile({
+        pages: [{ title: 'Sketch', outlines: [[{ text: 'Notes' }, { text: '', ink: { strokes } }]], ink: [{ strokes }] }]
+      })).parse(), new OneNoteAssetStore(assetsDir), { extractInk: false }).read();
+
+      expect(section.pages[0]!.document!.blocks).toEqual([{ type: 'paragraph', runs: [{ text: 'Notes' }] }]);
+      expect(fs.readdirSync(assetsDir)).toEqual([]);
+    });
+  });
+});
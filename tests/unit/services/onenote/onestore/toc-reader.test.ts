@@ -0,0 +1,42 @@
+/**
+ * Tests for the OneNote table of contents reader
+ */
+
+import { RevisionStoreParser } from '../../../../../src/services/onenote/onestore/revision-store-parser';
+import { OneNoteTocReader } from '../../../../../src/services/onenote/onestore/toc-reader';
+import { OneStoreBuilder, buildTableOfContents, eguid, testGuid } from '../../../../fixtures/onenote/onestore-builder';
+
+describe('OneNoteTocReader', () => {
+  const read = (buffer: Buffer) => new OneNoteTocReader(new RevisionStoreParser(buffer).parse()).read();
+
+  it('should list sections and section groups by their ordering IDs', () => {
+    const entries = read(buildTableOfContents([
+      { fileName: 'Archive', orderingId: 30 },
+      { fileName: 'Work.one', orderingId: 20, color: 0x00A8A8F4 },
+      { fileName: 'Inbox.one', orderingId: 10 }
+    ]));
+
+    expect(entries).toEqual([
+      { fileName: 'Inbox.one', displayName: 'Inbox', type: 'section', order: 0 },
+      { fileName: 'Work.one', displayName: 'Work', type: 'section', order: 1, color: '#f4a8a8' },
+      { fileName: 'Archive', displayName: 'Archive', type: 'sectionGroup', order: 2 }
+    ]);
+  });
+
+  it('should keep entries without an ordering ID after the ordered ones', () => {
+    const entries = read(buildTableOfContents([
+      { fileName: 'Loose.one' },
+      { fileName: 'First.one', orderingId: 5, color: 0xFFFFFFFF },
+      { fileName: 'Also loose.one' }
+    ]));
+
+    expect(entries.map(entry => entry.fileName)).toEqual(['First.one', 'Loose.one', 'Also loose.one']);
+    expect(entries[0]!.color).toBeUndefined();
+  });
+
+  it('should return no entries for stores without a table of contents root', () => {
+    const buffer = new OneStoreBuilder().addObjectSpace({ id: eguid(testGuid()), revisions: [] }).build();
+
+    expect(read(buffer)).toEqual([]);
+  });
+});
@@ -0,0 +1,706 @@
+/**
+ * Tests for the real OneNote parser service
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RealOneNoteParserService } from '../../../../src/services/onenote/real-onenote-parser.service';
+import { OneNoteHierarchyUtils } from '../../../../src/services/onenote/hierarchy-utils';
+import { OneNoteHierarchy, OneNoteStreamFailure, OneNoteStreamItem } from '../../../../src/types/onenote';
+import { FILE_NODE_LIST_HEADER_MAGIC } from '../../../../src/services/onenote/onestore/onestore-types';
+import { SectionPageSpec, buildSectionFile, buildTableOfContents, utf16 } from '../../../fixtures/onenote/onestore-builder';
+import { buildCabinet } from '../../../fixtures/onenote/cab-builder';
+import { buildAsfRecording } from '../../../fixtures/onenote/media-builder';
+
+describe('RealOneNoteParserService', () => {
+  let parser: RealOneNoteParserService;
+  let tempDir: string;
+
+  // Reads a stream whole, failing the test on any file or section that could not be read
+  const readStream = async (stream: AsyncIterable<OneNoteStreamItem>) => {
+    const items: Array<Exclude<OneNoteStreamItem, OneNoteStreamFailure>> = [];
+    for await (const item of stream) {
+      if (item.type === 'failed') {
+        throw new Error(`${item.source}: ${item.error}`);
+      }
+      items.push(item);
+    }
+    return items;
+  };
+
+  beforeEach(() => {
+    parser = new RealOneNoteParserService();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-parser-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseOneFile', () => {
+    it('should build pages from the revision store object graph', async () => {
+      const filePath = path.join(tempDir, 'Meetings.one');
+      fs.writeFileSync(filePath, buildSectionFile({
+        pages: [
+          { title: 'Monday', outlines: [[{ text: 'Agenda', style: 'h2' }, { text: 'Budget', list: 'bullet' }]] },
+          { title: 'Tuesday', outlines: [[{ text: 'Notes' }]] }
+        ]
+      }));
+
+      const section = await parser.parseOneFile(filePath);
+
+      expect(section.name).toBe('Meetings');
+      expect(section.pages.map(page => page.title)).toEqual(['Monday', 'Tuesday']);
+      expect(section.pages[0]!.content).toBe('## Agenda\n\n- Budget');
+      expect(section.pages[0]!.document!.blocks.map(block => block.type)).toEqual(['heading', 'list']);
+      expect(section.pages[1]!.metadata).toEqual(expect.objectContaining({
+        filePath,
+        format: 'revision-store',
+        pageIndex: 1,
+        sectionId: section.id
+      }));
+    });
+
+    it('should use the stored section display name when present', async () => {
+      const filePath = path.join(tempDir, 'file-name.one');
+      fs.writeFileSync(filePath, buildSectionFile({ name: 'Display Name', pages: [{ title: 'Page', outlines: [] }] }));
+
+      const section = await parser.parseOneFile(filePath);
+
+      expect(section.name).toBe('Display Name');
+    });
+
+    it('should extract page images into the assets directory', async () => {
+      const filePath = path.join(tempDir, 'Pictures.one');
+      const assetsDirectory = path.join(tempDir, 'assets');
+      const jpeg = Buffer.from([0xFF, 0xD8, 0xFF, 0xE0, 1, 2, 3]);
+      fs.writeFileSync(filePath, buildSectionFile({
+        pages: [{ title: 'Photos', outlines: [[{ text: '', image: { alt: 'Whiteboard', data: jpeg } }]] }]
+      }));
+
+      const section = await parser.parseOneFile(filePath, { assetsDirectory });
+      const [image] = section.pages[0]!.document!.blocks;
+      const imagePath = image?.type === 'image' ? image.src : undefined;
+
+      expect(image).toEqual(expect.objectContaining({ type: 'image', alt: 'Whiteboard', mimeType: 'image/jpeg' }));
+      expect(path.dirname(imagePath!)).toBe(assetsDirectory);
+      expect(path.extname(imagePath!)).toBe('.jpg');
+      expect(fs.readFileSync(imagePath!)).toEqual(jpeg);
+
+      const skipped = await parser.parseOneFile(filePath, { assetsDirectory: path.join(tempDir, 'skipped'), extractImages: false });
+      expect(skipped.pages[0]!.document!.blocks).toEqual([{ type: 'image', alt: 'Whiteboard' }]);
+      expect(fs.existsSync(path.join(tempDir, 'skipped'))).toBe(false);
+    });
+
+    it('should use the text recognized in pictures as their alt text', async () => {
+      const filePath = path.join(tempDir, 'Scans.one');
+      fs.writeFileSync(filePath, buildSectionFile({
+        pages: [{
+          title: 'Receipts',
+          outlines: [[
+            { text: '', image: { ocrText: 'Coffee\r3.50' } },
+            { text: '', image: { alt: 'Lunch receipt', ocrText: 'Lunch 12.00' } }
+          ]]
+        }]
+      }));
+
+      const section = await parser.parseOneFile(filePath, { extractImages: false });
+
+      expect(section.pages[0]!.document!.blocks).toEqual([
+        { type: 'image', alt: 'Coffee\n3.50', ocrText: 'Coffee\n3.50' },
+        { type: 'image', alt: 'Lunch receipt', ocrText: 'Lunch 12.00' }
+      ]);
+    });
+
+    it('should extract recordings with their length and recording time, within the size cap', async () => {
+      const filePath = path.join(tempDir, 'Meeting.one');
+      const recordedAt = new Date('2024-03-05T15:07:00Z');
+      const audio = buildAsfRecording({ duration: 95, recordedAt });
+      const video = Buffer.concat([buildAsfRecording({ duration: 30, recordedAt }), Buffer.alloc(4096)]);
+      fs.writeFileSync(filePath, buildSectionFile({
+        pages: [{
+          title: 'Standup',
+          outlines: [[
+            { text: '', file: { name: 'Audio recording started 3:07 PM', data: audio, extension: '.wma', recording: 'audio' } },
+            { text: '', file: { data: video, extension: '.wmv', recording: 'video' } },
+            { text: 'Notes' }
+          ]]
+        }]
+      }));
+
+      const section = await parser.parseOneFile(filePath, { assetsDirectory: tempDir, maxRecordingSize: 1024 });
+      const [first, second] = section.pages[0]!.document!.blocks;
+
+      expect(first).toEqual(expect.objectContaining({
+        type: 'file',
+        name: 'Audio recording started 3:07 PM',
+        mimeType: 'audio/x-ms-wma',
+        size: audio.length,
+        recording: { kind: 'audio', duration: 95, recordedAt }
+      }));
+      expect(fs.readFileSync((first as { src: string }).src)).toEqual(audio);
+      expect(second).toEqual({ type: 'file', name: 'Video recording', mimeType: 'application/octet-stream', size: video.length, recording: { kind: 'video' } });
+
+      const skipped = await parser.parseOneFile(filePath, { assetsDirectory: tempDir, extractRecordings: false });
+      expect(skipped.pages[0]!.content).toBe('Notes');
+    });
+
+    it('should keep where outlines sit on the page and read them row by row', async () => {
+      const filePath = path.join(tempDir, 'Layout.one');
+      fs.writeFileSync(filePath, buildSectionFile({
+        pages: [
+          {
+            title: 'Plan',
+            outlines: [[{ text: 'Below' }], [{ text: 'Right' }], [{ text: 'Left' }]],
+            outlinePositions: [{ x: 1, y: 10 }, { x: 8, y: 2.5, width: 5 }, { x: 1, y: 2, width: 5 }]
+          },
+          { title: 'Single', outlines: [[{ text: 'Only' }]] }
+        ]
+      }));
+
+      const section = await parser.parseOneFile(filePath);
+      const [plan, single] = section.pages;
+
+      expect(plan!.content).toBe('Left\n\nRight\n\nBelow');
+      expect(plan!.document!.regions).toEqual([
+        { x: 48, y: 480, blocks: [{ type: 'paragraph', runs: [{ text: 'Below' }] }] },
+        { x: 384, y: 120, width: 240, blocks: [{ type: 'paragraph', runs: [{ text: 'Right' }] }] },
+        { x: 48, y: 96, width: 240, blocks: [{ type: 'paragraph', runs: [{ text: 'Left' }] }] }
+      ]);
+      expect(single!.document!.regions).toBeUndefined();
+    });
+
+    it('should read earlier page versions only when revisions are requested', async () => {
+      const filePath = path.join(tempDir, 'Drafts.one');
+      fs.writeFileSync(filePath, buildSectionFile({
+        pages: [{
+          title: 'Plan',
+          outlines: [[{ text: 'Final' }]],
+          history: [{ title: 'Plan', author: 'Ada', modifiedAt: new Date('2024-03-01T09:30:00Z'), outlines: [[{ text: 'Draft', style: 'h1' }]] }]
+        }]
+      }));
+
+      const latest = await parser.parseOneFile(filePath);
+      const section = await parser.parseOneFile(filePath, { includeRevisions: true });
+
+      expect(latest.pages[0]!.revisions).toBeUndefined();
+      expect(section.pages[0]!.content).toBe('Final');
+      expect(section.pages[0]!.revisions).toEqual([expect.objectContaining({ title: 'Plan', author: 'Ada', content: '# Draft' })]);
+    });
+
+    it('should skip and report protected sections without a working password', async () => {
+      const filePath = path.join(tempDir, 'Diary.one');
+      fs.writeFileSync(filePath, buildSectionFile({ password: 'secret', pages: [{ title: 'Entry', outlines: [[{ text: 'Dear diary' }]] }] }));
+
+      const missing = await parser.parseOneFile(filePath);
+      const rejected = await parser.parseOneFile(filePath, { sectionPassword: () => 'guess' });
+
+      expect(missing.name).toBe('Diary');
+      expect(missing.pages).toEqual([]);
+      expect(missing.metadata).toEqual(expect.objectContaining({ encrypted: true, skipped: 'password-required' }));
+      expect(rejected.pages).toEqual([]);
+      expect(rejected.metadata).toEqual(expect.objectContaining({ encrypted: true, skipped: 'invalid-password' }));
+    });
+
+    it('should decrypt protected sections with the password supplied for them', async () => {
+      const filePath = path.join(tempDir, 'Diary.one');
+      fs.writeFileSync(filePath, buildSectionFile({ password: 'secret', pages: [{ title: 'Entry', outlines: [[{ text: 'Dear diary' }]] }] }));
+      const sectionPassword = jest.fn().mockResolvedValue('secret');
+
+      const section = await parser.parseOneFile(filePath, { sectionPassword });
+
+      expect(sectionPassword).toHaveBeenCalledWith({ name: 'Diary', filePath });
+      expect(section.pages.map(page => page.content)).toEqual(['Dear diary']);
+      expect(section.metadata.encrypted).toBe(true);
+      expect(section.metadata.skipped).toBeUndefined();
+    });
+
+    it('should not ask for passwords of unprotected sections', async () => {
+      const filePath = path.join(tempDir, 'Open.one');
+      fs.writeFileSync(filePath, buildSectionFile({ pages: [{ title: 'Page', outlines: [] }] }));
+      const sectionPassword = jest.fn();
+
+      const section = await parser.parseOneFile(filePath, { sectionPassword });
+
+      expect(sectionPassword).not.toHaveBeenCalled();
+      expect(section.metadata.encrypted).toBeUndefined();
+    });
+
+    it('should read sections in the OneNote 2007 format into the same pages', async () => {
+      const pages: SectionPageSpec[] = [
+        { title: 'Monday', outlines: [[{ text: 'Agenda', style: 'h2' }, { text: 'Budget', list: 'bullet' }]] },
+        { title: 'Tuesday', outlines: [[{ text: 'Notes' }]] }
+      ];
+      const legacyPath = path.join(tempDir, 'Legacy.one');
+      const currentPath = path.join(tempDir, 'Current.one');
+      fs.writeFileSync(legacyPath, buildSectionFile({ name: 'Meetings', legacy: true, pages }));
+      fs.writeFileSync(currentPath, buildSectionFile({ name: 'Meetings', pages }));
+
+      const legacy = await parser.parseOneFile(legacyPath);
+      const current = await parser.parseOneFile(currentPath);
+
+      expect(legacy.name).toBe('Meetings');
+      expect(legacy.metadata).toEqual(expect.objectContaining({ legacyFormat: true }));
+      expect(current.metadata.legacyFormat).toBeUndefined();
+      expect(legacy.pages.map(page => [page.title, page.content])).toEqual(current.pages.map(page => [page.title, page.content]));
+      expect(legacy.pages[0]!.document!.blocks).toEqual(current.pages[0]!.document!.blocks);
+    });
+
+    it('should keep scraping text from buffers that are not revision stores', async () => {
+      const filePath = path.join(tempDir, 'plain.one');
+      fs.writeFileSync(filePath, 'Plain section text\nSecond line');
+
+      const section = await parser.parseOneFile(filePath);
+
+      expect(section.pages).toHaveLength(1);
+      expect(section.pages[0]!.content).toContain('Plain section text');
+      expect(section.pages[0]!.document).toBeUndefined();
+    });
+
+    it('should read sections over maxFileSize from disk with the same result', async () => {
+      const filePath = path.join(tempDir, 'Large.one');
+      fs.writeFileSync(filePath, buildSectionFile({
+        pages: [{ title: 'First', outlines: [[{ text: 'One' }]] }, { title: 'Second', outlines: [[{ text: 'Two' }]] }]
+      }));
+
+      const whole = await parser.parseOneFile(filePath);
+      const fromDisk = await parser.parseOneFile(filePath, { maxFileSize: 1 });
+
+      expect(fromDisk.pages.map(page => [page.title, page.content])).toEqual(whole.pages.map(page => [page.title, page.content]));
+    });
+
+    it('should refuse files over maxFileSize that are not revision stores', async () => {
+      const filePath = path.join(tempDir, 'plain.one');
+      fs.writeFileSync(filePath, 'Plain section text that has to be read whole');
+
+      await expect(parser.parseOneFile(filePath, { maxFileSize: 10 })).rejects.toMatchObject({ code: 'FILE_TOO_LARGE' });
+    });
+
+    describe('with salvage', () => {
+      // Damage the second page's object space list and give "Call Ada" a length running past its object
+      const writeDamagedSection = (filePath: string): void => {
+        const data = buildSectionFile({
+          pages: [
+            { title: 'Todo', outlines: [[{ text: 'Call Ada' }, { text: 'Buy milk' }]] },
+            { title: 'Plans', outlines: [[{ text: 'Q1' }]] },
+            { title: 'Done', outlines: [[{ text: 'Filed taxes' }]] }
+          ]
+        });
+        const magic = Buffer.alloc(8);
+        magic.writeBigUInt64LE(FILE_NODE_LIST_HEADER_MAGIC);
+        // Each page writes its object group, revision manifest and object space lists in turn
+        let list = -1;
+        for (let count = 0; count < 6; count++) {
+          list = data.indexOf(magic, list + 1);
+        }
+        data.fill(0, list, list + 8);
+        data.writeUInt32LE(0xFFFFFF, data.indexOf(utf16('Call Ada')) - 4);
+        fs.writeFileSync(filePath, data);
+      };
+
+      it('should recover the intact pages and content of a damaged section and list what was lost', async () => {
+        const filePath = path.join(tempDir, 'Damaged.one');
+        writeDamagedSection(filePath);
+
+        const section = await parser.parseOneFile(filePath, { salvage: true });
+
+        expect(section.pages.map(page => [page.title, page.content])).toEqual([['Todo', 'Buy milk'], ['Done', 'Filed taxes']]);
+        expect(section.pages[0]!.metadata.partiallyRecovered).toBe(true);
+        expect(section.pages[1]!.metadata.partiallyRecovered).toBeUndefined();
+        expect(section.metadata.salvage).toEqual([
+          expect.objectContaining({ kind: 'structure', reason: 'Invalid file node list fragment header' }),
+          expect.objectContaining({ kind: 'content', page: 'Todo' }),
+          { kind: 'page', page: 'Plans', reason: 'The page could not be found in the file' }
+        ]);
+      });
+
+      it('should report a section cut off inside its header instead of standing in placeholder content', async () => {
+        const filePath = path.join(tempDir, 'Truncated.one');
+        fs.writeFileSync(filePath, buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }] }).subarray(0, 600));
+
+        const salvaged = await parser.parseOneFile(filePath, { salvage: true });
+
+        expect(salvaged.pages).toEqual([]);
+        expect(salvaged.metadata.salvage).toEqual([{ kind: 'structure', reason: 'File is too small to be a OneNote revision store' }]);
+        await expect(parser.parseOneFile(filePath)).rejects.toMatchObject({
+          code: 'PARSING_FAILED',
+          message: 'Failed to parse OneNote section: File is too small to be a OneNote revision store'
+        });
+      });
+
+      it('should fail a damaged section as a whole without salvage', async () => {
+        const filePath = path.join(tempDir, 'Damaged.one');
+        writeDamagedSection(filePath);
+
+        await expect(parser.parseOneFile(filePath)).rejects.toMatchObject({ code: 'PARSING_FAILED', context: { filePath } });
+      });
+
+      it('should stop streaming a damaged section with an error without salvage', async () => {
+        const filePath = path.join(tempDir, 'Damaged.one');
+        writeDamagedSection(filePath);
+
+        const read = async () => {
+          for await (const item of parser.streamOneFile(filePath)) {
+            expect(item.type).toBe('section');
+          }
+        };
+
+        await expect(read()).rejects.toMatchObject({ code: 'PARSING_FAILED', context: { filePath } });
+      });
+    });
+  });
+
+  describe('streamOnepkgFile', () => {
+    const extractionDirs = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('oni-onepkg-'));
+    const describeItem = (item: Exclude<OneNoteStreamItem, OneNoteStreamFailure>) => item.type === 'section'
+      ? `${[...item.sectionGroups.map(group => group.name), item.section.name].join('/')}`
+      : `  ${item.page.title}`;
+
+    it('should yield each section before its pages, in notebook order', async () => {
+      const filePath = path.join(tempDir, 'Ordered.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Alpha.one', data: buildSectionFile({ pages: [{ title: 'A1', outlines: [] }, { title: 'A2', outlines: [] }] }) },
+        { name: 'Gamma.one', data: buildSectionFile({ pages: [{ title: 'G1', outlines: [] }] }) },
+        { name: 'Projects\\Plan.one', data: buildSectionFile({ pages: [{ title: 'P1', outlines: [] }] }) },
+        { name: 'Ordered.onetoc2', data: buildTableOfContents([
+          { fileName: 'Alpha.one', orderingId: 2 },
+          { fileName: 'Gamma.one', orderingId: 1, color: 0x00A8A8F4 },
+          { fileName: 'Projects', orderingId: 3 }
+        ]) }
+      ]));
+      const dirsBefore = extractionDirs();
+
+      const items = await readStream(parser.streamOnepkgFile(filePath, { maxFileSize: 1 }));
+
+      expect(items.map(describeItem)).toEqual(['Gamma', '  G1', 'Alpha', '  A1', '  A2', 'Projects/Plan', '  P1']);
+      expect(items[0]!.section.color).toBe('#f4a8a8');
+      expect(items[0]!.notebook.name).toBe('Ordered');
+      expect(items[0]!.section.pages).toHaveLength(0);
+      const page = items.find(item => item.type === 'page' && item.page.title === 'P1');
+      expect(page?.type === 'page' && page.page.metadata).toEqual(expect.objectContaining({ filePath, packageEntry: 'Projects/Plan.one' }));
+      expect(extractionDirs()).toEqual(dirsBefore);
+    });
+
+    it('should parse sections ahead in worker threads when a concurrency is set, keeping the order', async () => {
+      const filePath = path.join(tempDir, 'Parallel.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Alpha.one', data: buildSectionFile({ pages: [{ title: 'A1', outlines: [] }, { title: 'A2', outlines: [] }] }) },
+        { name: 'Gamma.one', data: buildSectionFile({ pages: [{ title: 'G1', outlines: [] }] }) },
+        { name: 'Projects\\Plan.one', data: buildSectionFile({ pages: [{ title: 'P1', outlines: [] }] }) },
+        { name: 'Parallel.onetoc2', data: buildTableOfContents([
+          { fileName: 'Alpha.one', orderingId: 2 },
+          { fileName: 'Gamma.one', orderingId: 1 },
+          { fileName: 'Projects', orderingId: 3 }
+        ]) }
+      ]));
+      const onProgress = jest.fn();
+
+      const items = await readStream(parser.streamOnepkgFile(filePath, { concurrency: 2, onProgress }));
+
+      expect(items.map(describeItem)).toEqual(['Gamma', '  G1', 'Alpha', '  A1', '  A2', 'Projects/Plan', '  P1']);
+      expect(items[0]!.section.pages).toHaveLength(0);
+      expect(items[0]!.section.metadata).toEqual(expect.objectContaining({ filePath, packageEntry: 'Gamma.one' }));
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ total: 3, completed: 3, failed: 0 }));
+    }, 60000);
+
+    it('should read sections over the size limit page by page on this thread even with a concurrency set', async () => {
+      const filePath = path.join(tempDir, 'Mixed.onepkg');
+      const large = buildSectionFile({ pages: ['L1', 'L2', 'L3', 'L4'].map(title => ({ title, outlines: [[{ text: 'x'.repeat(2000) }]] })) });
+      const small = buildSectionFile({ pages: [{ title: 'S1', outlines: [] }] });
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Large.one', data: large },
+        { name: 'Small.one', data: small }
+      ]));
+      const onProgress = jest.fn();
+
+      const items = await readStream(parser.streamOnepkgFile(filePath, { concurrency: 2, maxFileSize: large.length - 1, onProgress }));
+
+      expect(small.length).toBeLessThan(large.length);
+      expect(items.map(describeItem)).toEqual(['Large', '  L1', '  L2', '  L3', '  L4', 'Small', '  S1']);
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ section: 'Small.one', total: 1, completed: 1 }));
+    }, 60000);
+
+    it('should clean up the extracted package when reading stops early', async () => {
+      const filePath = path.join(tempDir, 'Work.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Inbox.one', data: buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }, { title: 'Later', outlines: [] }] }) }
+      ]));
+      const dirsBefore = extractionDirs();
+
+      for await (const item of parser.streamOnepkgFile(filePath)) {
+        if (item.type === 'page') {
+          break;
+        }
+      }
+
+      expect(extractionDirs()).toEqual(dirsBefore);
+    });
+  });
+
+  describe('streamNotebookFolder', () => {
+    it('should read a notebook folder like a package, in table of contents order, leaving its files in place', async () => {
+      const directory = path.join(tempDir, 'Work.2024');
+      const write = (relativePath: string, data: Buffer) => {
+        const filePath = path.join(directory, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, data);
+        return filePath;
+      };
+      const files = [
+        write('Alpha.one', buildSectionFile({ pages: [{ title: 'A1', outlines: [] }] })),
+        write('Gamma.one', buildSectionFile({ pages: [{ title: 'G1', outlines: [] }] })),
+        write(path.join('Projects', 'Plan.one'), buildSectionFile({ pages: [{ title: 'P1', outlines: [] }] })),
+        write(path.join('OneNote_RecycleBin', 'OneNote_DeletedPages.one'), buildSectionFile({ pages: [{ title: 'Deleted', outlines: [] }] })),
+        write('Open Notebook.onetoc2', buildTableOfContents([
+          { fileName: 'Alpha.one', orderingId: 2 },
+          { fileName: 'Gamma.one', orderingId: 1 },
+          { fileName: 'Projects', orderingId: 3 }
+        ]))
+      ];
+
+      const items = await readStream(parser.streamNotebookFolder({ directory, files }));
+
+      expect(items.map(item => item.type === 'section'
+        ? [...item.sectionGroups.map(group => group.name), item.section.name].join('/')
+        : `  ${item.page.title}`)).toEqual(['Gamma', '  G1', 'Alpha', '  A1', 'Projects/Plan', '  P1']);
+      expect(items[0]!.notebook.name).toBe('Work.2024');
+      expect(items[0]!.notebook.metadata).toEqual(expect.objectContaining({ filePath: directory, fileType: 'folder' }));
+      const plan = items.find(item => item.type === 'page' && item.page.title === 'P1');
+      expect(plan?.section.metadata.sectionGroupPath).toEqual(['Projects']);
+      expect(plan?.type === 'page' && plan.page.metadata).toEqual(expect.objectContaining({ filePath: files[2], packageEntry: 'Projects/Plan.one' }));
+      expect(files.every(file => fs.existsSync(file))).toBe(true);
+    });
+
+    it('should give a folder without a table of contents the same notebook ID wherever it is', async () => {
+      const section = buildSectionFile({ pages: [{ title: 'Page', outlines: [] }] });
+      const notebookId = async (directory: string) => {
+        const filePath = path.join(directory, 'Notes.one');
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(filePath, section);
+        const [item] = await readStream(parser.streamNotebookFolder({ directory, files: [filePath] }));
+        return item?.notebook.id;
+      };
+
+      const first = await notebookId(path.join(tempDir, 'home', 'Journal'));
+      const second = await notebookId(path.join(tempDir, 'backup', 'copy', 'Journal'));
+
+      expect(first).toMatch(/^notebook-/);
+      expect(second).toBe(first);
+      expect(await notebookId(path.join(tempDir, 'home', 'Diary'))).not.toBe(first);
+    });
+
+    it('should fail for a folder that does not exist', async () => {
+      const folder = { directory: path.join(tempDir, 'Missing'), files: [] };
+
+      await expect(parser.streamNotebookFolder(folder).next()).rejects.toThrow('Folder not found');
+    });
+  });
+
+  describe('parseOnepkgFile', () => {
+    const extractionDirs = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('oni-onepkg-'));
+
+    it('should parse every section in a cabinet package and keep folders as section groups', async () => {
+      const filePath = path.join(tempDir, 'Work.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Inbox.one', data: buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }] }) },
+        { name: 'Projects\\Alpha.one', data: buildSectionFile({ pages: [{ title: 'Kickoff', outlines: [] }, { title: 'Retro', outlines: [] }] }) },
+        { name: 'Open Notebook.onetoc2', data: Buffer.from('toc') },
+        { name: 'OneNote_RecycleBin\\OneNote_DeletedPages.one', data: buildSectionFile({ pages: [{ title: 'Deleted', outlines: [] }] }) },
+        { name: 'notes.txt', data: Buffer.from('ignored') }
+      ]));
+      const dirsBefore = extractionDirs();
+
+      const hierarchy = await parser.parseOnepkgFile(filePath);
+
+      const notebook = hierarchy.notebooks[0]!;
+      expect(notebook.name).toBe('Work');
+      expect(notebook.sections.map(section => section.name)).toEqual(['Inbox']);
+      expect(notebook.sectionGroups!.map(group => group.name)).toEqual(['Projects']);
+      const alpha = notebook.sectionGroups![0]!.sections[0]!;
+      expect(alpha.name).toBe('Alpha');
+      expect(alpha.metadata.sectionGroupPath).toEqual(['Projects']);
+      expect(alpha.metadata.packageEntry).toBe('Projects/Alpha.one');
+      expect(notebook.metadata.tableOfContents).toEqual(['Open Notebook.onetoc2']);
+      expect(hierarchy.totalSections).toBe(2);
+      expect(hierarchy.totalPages).toBe(3);
+      expect(extractionDirs()).toEqual(dirsBefore);
+    });
+
+    it('should give the notebook, section groups, sections and pages the same IDs on every parse', async () => {
+      const filePath = path.join(tempDir, 'Work.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Inbox.one', data: buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }, { title: 'Later', outlines: [] }] }) },
+        { name: 'Projects\\Alpha.one', data: buildSectionFile({ pages: [{ title: 'Kickoff', outlines: [] }] }) },
+        { name: 'Projects\\Notes.one', data: Buffer.from('Plain section text') },
+        { name: 'Work.onetoc2', data: buildTableOfContents([{ fileName: 'Inbox.one', orderingId: 1 }, { fileName: 'Projects', orderingId: 2 }]) }
+      ]));
+      const collectIds = (hierarchy: OneNoteHierarchy): string[] => hierarchy.notebooks.flatMap(notebook => [
+        notebook.id,
+        ...notebook.sectionGroups!.map(group => group.id),
+        ...OneNoteHierarchyUtils.getAllSections(notebook).flatMap(section => [section.id, ...section.pages.map(page => page.id)])
+      ]);
+
+      const first = await parser.parseOnepkgFile(filePath);
+      const second = await new RealOneNoteParserService().parseOnepkgFile(filePath);
+
+      const guid = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+      const notebook = first.notebooks[0]!;
+      expect(collectIds(second)).toEqual(collectIds(first));
+      expect(new Set(collectIds(first)).size).toBe(collectIds(first).length);
+      expect(notebook.id).toMatch(new RegExp(`^notebook-${guid}$`));
+      expect(notebook.sections[0]!.id).toMatch(new RegExp(`^section-${guid}$`));
+      expect(notebook.sectionGroups![0]!.id).toMatch(/^section-group-[0-9a-f]{32}$/);
+      expect(notebook.sections[0]!.pages[0]!.metadata.sectionId).toBe(notebook.sections[0]!.id);
+    });
+
+    it('should parse sections in worker threads when a concurrency is set', async () => {
+      const filePath = path.join(tempDir, 'Work.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Inbox.one', data: buildSectionFile({ pages: [{ title: 'Todo', outlines: [[{ text: 'Call Ada' }]] }] }) },
+        { name: 'Projects\\Alpha.one', data: buildSectionFile({ pages: [{ title: 'Kickoff', outlines: [] }] }) }
+      ]));
+
+      const hierarchy = await parser.parseOnepkgFile(filePath, { concurrency: 2 });
+
+      const notebook = hierarchy.notebooks[0]!;
+      expect(notebook.sections[0]!.pages.map(page => page.content)).toEqual(['Call Ada']);
+      expect(notebook.sectionGroups![0]!.sections[0]!.metadata.packageEntry).toBe('Projects/Alpha.one');
+      expect(hierarchy.totalPages).toBe(2);
+    }, 60000);
+
+    it('should nest section groups and keep groups that only hold a table of contents', async () => {
+      const filePath = path.join(tempDir, 'Nested.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Work\\Clients\\Acme.one', data: buildSectionFile({ pages: [{ title: 'Contract', outlines: [] }] }) },
+        { name: 'Work\\Internal.one', data: buildSectionFile({ pages: [{ title: 'Roadmap', outlines: [] }] }) },
+        { name: 'Archive\\Archive.onetoc2', data: Buffer.from('toc') }
+      ]));
+
+      const hierarchy = await parser.parseOnepkgFile(filePath);
+
+      const groups = hierarchy.notebooks[0]!.sectionGroups!;
+      const work = groups.find(group => group.name === 'Work');
+      const archive = groups.find(group => group.name === 'Archive');
+      expect(groups).toHaveLength(2);
+      expect(hierarchy.notebooks[0]!.sections).toHaveLength(0);
+      expect(archive!.sections).toHaveLength(0);
+      expect(work!.sections.map(section => section.name)).toEqual(['Internal']);
+      expect(work!.sectionGroups[0]!.name).toBe('Clients');
+      expect(work!.sectionGroups[0]!.metadata.packagePath).toBe('Work/Clients');
+      expect(work!.sectionGroups[0]!.sections.map(section => section.name)).toEqual(['Acme']);
+    });
+
+    it('should order sections and section groups by their tables of contents and apply tab colors', async () => {
+      const filePath = path.join(tempDir, 'Ordered.onepkg');
+      const section = (title: string) => buildSectionFile({ pages: [{ title, outlines: [] }] });
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Alpha.one', data: section('A') },
+        { name: 'Beta.one', data: section('B') },
+        { name: 'Gamma.one', data: section('C') },
+        { name: 'Archive\\Old.one', data: section('Old') },
+        { name: 'Projects\\Plan.one', data: section('Plan') },
+        { name: 'Ordered.onetoc2', data: buildTableOfContents([
+          { fileName: 'Alpha.one', orderingId: 3 },
+          { fileName: 'Gamma.one', orderingId: 1, color: 0x00A8A8F4 },
+          { fileName: 'Projects', orderingId: 4 },
+          { fileName: 'Archive', orderingId: 5 }
+        ]) },
+        { name: 'Projects\\Open Notebook.onetoc2', data: buildTableOfContents([{ fileName: 'Plan.one', orderingId: 1, color: 0x0000FF00 }]) }
+      ], 'none'));
+
+      const notebook = (await parser.parseOnepkgFile(filePath)).notebooks[0]!;
+
+      // Beta is missing from the table of contents and goes last
+      expect(notebook.sections.map(item => item.name)).toEqual(['Gamma', 'Alpha', 'Beta']);
+      expect(notebook.sections.map(item => item.color)).toEqual(['#f4a8a8', undefined, undefined]);
+      expect(notebook.sections[0]!.metadata.order).toBe(0);
+      expect(notebook.sectionGroups!.map(group => group.name)).toEqual(['Projects', 'Archive']);
+      expect(notebook.sectionGroups![0]!.sections[0]!.color).toBe('#00ff00');
+    });
+
+    it('should look up section passwords by their path inside the package', async () => {
+      const filePath = path.join(tempDir, 'Private.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Personal\\Diary.one', data: buildSectionFile({ password: 'secret', pages: [{ title: 'Entry', outlines: [] }] }) },
+        { name: 'Open.one', data: buildSectionFile({ pages: [{ title: 'Page', outlines: [] }] }) }
+      ], 'none'));
+      const sectionPassword = jest.fn().mockReturnValue(undefined);
+
+      const hierarchy = await parser.parseOnepkgFile(filePath, { sectionPassword });
+      const diary = hierarchy.notebooks[0]!.sectionGroups![0]!.sections[0]!;
+
+      expect(sectionPassword).toHaveBeenCalledTimes(1);
+      expect(sectionPassword).toHaveBeenCalledWith(expect.objectContaining({ name: 'Diary', packageEntry: 'Personal/Diary.one' }));
+      expect(diary.metadata).toEqual(expect.objectContaining({ skipped: 'password-required', packageEntry: 'Personal/Diary.one' }));
+      expect(hierarchy.totalPages).toBe(1);
+    });
+
+    it('should skip entries that escape the extraction directory', async () => {
+      const filePath = path.join(tempDir, 'Unsafe.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: '..\\evil.one', data: buildSectionFile({ pages: [{ title: 'Evil', outlines: [] }] }) },
+        { name: 'Safe.one', data: buildSectionFile({ pages: [{ title: 'Safe', outlines: [] }] }) }
+      ], 'none'));
+
+      const hierarchy = await parser.parseOnepkgFile(filePath);
+
+      expect(hierarchy.notebooks[0]!.sections.map(section => section.name)).toEqual(['Safe']);
+      expect(fs.existsSync(path.join(os.tmpdir(), 'evil.one'))).toBe(false);
+    });
+  });
+
+  describe('validateFile', () => {
+    it('should report protected sections apart from errors', async () => {
+      const filePath = path.join(tempDir, 'Diary.one');
+      fs.writeFileSync(filePath, buildSectionFile({ password: 'secret', pages: [{ title: 'Entry', outlines: [] }] }));
+
+      const result = await parser.validateFile(filePath);
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.protectedSections).toEqual([filePath]);
+      expect(result.warnings).toEqual([expect.stringContaining('password protected')]);
+      expect(result.fileInfo).toEqual(expect.objectContaining({ path: filePath, type: 'one', encrypted: true }));
+    });
+
+    it('should list the protected sections of a package', async () => {
+      const filePath = path.join(tempDir, 'Private.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Personal\\Diary.one', data: buildSectionFile({ password: 'secret', pages: [{ title: 'Entry', outlines: [] }] }) },
+        { name: 'Open.one', data: buildSectionFile({ pages: [{ title: 'Page', outlines: [] }] }) }
+      ], 'none'));
+
+      const result = await parser.validateFile(filePath);
+
+      expect(result.isValid).toBe(true);
+      expect(result.protectedSections).toEqual(['Personal/Diary.one']);
+      expect(result.fileInfo).toEqual(expect.objectContaining({ type: 'onepkg', encrypted: true }));
+    });
+
+    it('should warn about sections in the OneNote 2007 format', async () => {
+      const filePath = path.join(tempDir, 'Notebook.onepkg');
+      fs.writeFileSync(filePath, buildCabinet([
+        { name: 'Old.one', data: buildSectionFile({ legacy: true, pages: [{ title: 'Page', outlines: [] }] }) },
+        { name: 'New.one', data: buildSectionFile({ pages: [{ title: 'Page', outlines: [] }] }) }
+      ], 'none'));
+
+      const result = await parser.validateFile(filePath);
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toEqual([expect.stringContaining('Section Old.one is in the OneNote 2007 format')]);
+      expect(result.protectedSections).toEqual([]);
+    });
+
+    it('should leave unprotected sections without warnings', async () => {
+      const filePath = path.join(tempDir, 'Open.one');
+      fs.writeFileSync(filePath, buildSectionFile({ pages: [{ title: 'Page', outlines: [] }] }));
+
+      const result = await parser.validateFile(filePath);
+
+      expect(result.warnings).toEqual([]);
+      expect(result.protectedSections).toEqual([]);
+      expect(result.fileInfo.encrypted).toBe(false);
+    });
+  });
+});
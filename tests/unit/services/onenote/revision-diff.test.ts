@@ -0,0 +1,77 @@
+/**
+ * Tests for the revision diff utilities
+ */
+
+import { OneNoteRevisionDiff } from '../../../../src/services/onenote/revision-diff';
+import { OneNotePage } from '../../../../src/types/onenote';
+
+describe('OneNoteRevisionDiff', () => {
+  describe('diffLines', () => {
+    it('should align unchanged lines and mark removed and added ones', () => {
+      expect(OneNoteRevisionDiff.diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+        { type: 'context', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'context', text: 'c' },
+        { type: 'added', text: 'x' },
+        { type: 'context', text: 'd' }
+      ]);
+    });
+  });
+
+  describe('unified', () => {
+    it('should render changes in hunks with three lines of context', () => {
+      const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n');
+      const after = ['1', 'two', '3', '4', '5', '6', '7', '8', '9', '10', '11'].join('\n');
+
+      expect(OneNoteRevisionDiff.unified(before, after, 'old', 'new')).toBe([
+        '--- old',
+        '+++ new',
+        '@@ -1,5 +1,5 @@',
+        ' 1',
+        '-2',
+        '+two',
+        ' 3',
+        ' 4',
+        ' 5',
+        '@@ -9,4 +9,3 @@',
+        ' 9',
+        ' 10',
+        ' 11',
+        '-12'
+      ].join('\n'));
+    });
+
+    it('should return an empty string for equal texts', () => {
+      expect(OneNoteRevisionDiff.unified('same\ntext', 'same\ntext', 'old', 'new')).toBe('');
+    });
+  });
+
+  describe('historyDocument', () => {
+    it('should list versions newest first with their diffs against the current content', () => {
+      const revision = (content: string, date: string, author?: string) => ({
+        id: date,
+        title: 'Plan',
+        content,
+        document: { blocks: [] },
+        lastModifiedDate: new Date(date),
+        ...(author ? { author } : {})
+      });
+      const page: OneNotePage = {
+        id: 'page-1',
+        title: 'Plan',
+        content: 'Final',
+        createdDate: new Date('2024-01-01'),
+        lastModifiedDate: new Date('2024-03-03'),
+        metadata: {},
+        revisions: [revision('Draft', '2024-03-01T09:30:00Z', 'Ada'), revision('Final', '2024-03-02T10:00:00Z')]
+      };
+
+      expect(OneNoteRevisionDiff.historyDocument(page).blocks).toEqual([
+        { type: 'heading', level: 2, runs: [{ text: '2024-03-02 10:00 UTC' }] },
+        { type: 'paragraph', runs: [{ text: 'No text changes' }] },
+        { type: 'heading', level: 2, runs: [{ text: '2024-03-01 09:30 UTC by Ada' }] },
+        { type: 'code', language: 'diff', text: '--- 2024-03-01 09:30 UTC by Ada\n+++ current\n@@ -1,1 +1,1 @@\n-Draft\n+Final' }
+      ]);
+    });
+  });
+});
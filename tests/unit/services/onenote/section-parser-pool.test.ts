@@ -0,0 +1,72 @@
+/**
+ * Tests for parsing sections in worker threads
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OneNoteSectionParserPool } from '../../../../src/services/onenote/section-parser-pool';
+import { OneNoteParseProgress } from '../../../../src/types/onenote';
+import { buildSectionFile } from '../../../fixtures/onenote/onestore-builder';
+
+// Each worker thread compiles the parser modules on start
+jest.setTimeout(60000);
+
+describe('OneNoteSectionParserPool', () => {
+  let tempDir: string;
+  let pool: OneNoteSectionParserPool | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-pool-'));
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = undefined;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeSection = (name: string, data: Buffer | string): string => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  };
+
+  it('should parse sections side by side, failing a missing one on its own, and report progress for the run', async () => {
+    const inbox = writeSection('Inbox.one', buildSectionFile({ pages: [{ title: 'Todo', outlines: [[{ text: 'Call Ada' }]] }] }));
+    const missing = path.join(tempDir, 'Missing.one');
+    const plans = writeSection('Plans.one', buildSectionFile({ pages: [{ title: 'Q1', outlines: [] }, { title: 'Q2', outlines: [] }] }));
+    const progress: OneNoteParseProgress[] = [];
+    pool = new OneNoteSectionParserPool({ concurrency: 2, onProgress: event => progress.push(event) });
+
+    const outcomes = await Promise.all([inbox, missing, plans].map(filePath => pool!.parse({ filePath })));
+
+    const [first, second, third] = outcomes;
+    expect(first && 'section' in first && first.section.pages.map(page => page.content)).toEqual(['Call Ada']);
+    expect(second && 'error' in second && second.error).toEqual(expect.objectContaining({ code: 'FILE_NOT_FOUND', recoverable: true }));
+    expect(third && 'section' in third && third.section.pages.map(page => page.title)).toEqual(['Q1', 'Q2']);
+    expect(progress.filter(event => event.event === 'started')).toHaveLength(3);
+    expect(Math.max(...progress.map(event => event.running))).toBe(2);
+    expect(progress[progress.length - 1]).toEqual(expect.objectContaining({ total: 3, completed: 2, failed: 1, running: 0 }));
+  });
+
+  it('should answer password lookups from the calling thread', async () => {
+    const diary = writeSection('Diary.one', buildSectionFile({ password: 'secret', pages: [{ title: 'Entry', outlines: [[{ text: 'Dear diary' }]] }] }));
+    const sectionPassword = jest.fn().mockResolvedValue('secret');
+    pool = new OneNoteSectionParserPool({ concurrency: 1, sectionPassword });
+
+    const outcome = await pool.parse({ filePath: diary });
+
+    expect(sectionPassword).toHaveBeenCalledWith({ name: 'Diary', filePath: diary });
+    expect('section' in outcome && outcome.section.pages.map(page => page.content)).toEqual(['Dear diary']);
+  });
+
+  it('should stop a section that runs past the timeout', async () => {
+    const inbox = writeSection('Inbox.one', buildSectionFile({ pages: [{ title: 'Todo', outlines: [] }] }));
+    pool = new OneNoteSectionParserPool({ concurrency: 1, timeout: 1 });
+
+    const outcome = await pool.parse({ filePath: inbox, label: 'Work/Inbox.one' });
+
+    expect('error' in outcome && outcome.error).toEqual(expect.objectContaining({ code: 'TIMEOUT', recoverable: true }));
+  });
+});
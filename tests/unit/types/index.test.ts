@@ -2,14 +2,10 @@ import {
   OneNoteNotebook,
   OneNoteSection,
   OneNotePage,
-  OneNoteContent,
-  OneNoteImage,
-  OneNoteAttachment,
-  OneNoteTable,
-  OneNoteTableRow,
-  OneNoteTableCell,
-  OneNoteList,
-  OneNoteListItem,
+  OneNoteDocument,
+  OneNoteBlock,
+  OneNoteTableBlock,
+  OneNoteListBlock,
   NotionPage,
   NotionContent,
   NotionBlock,
@@ -31,15 +27,16 @@ describe('Type Definitions', () => {
         id: 'notebook-1',
         name: 'Test Notebook',
         sections: [],
-        createdTime: new Date('2023-01-01'),
-        lastModifiedTime: new Date('2023-01-02'),
+        createdDate: new Date('2023-01-01'),
+        lastModifiedDate: new Date('2023-01-02'),
+        metadata: {},
       };
 
       expect(notebook.id).toBe('notebook-1');
       expect(notebook.name).toBe('Test Notebook');
       expect(Array.isArray(notebook.sections)).toBe(true);
-      expect(notebook.createdTime).toBeInstanceOf(Date);
-      expect(notebook.lastModifiedTime).toBeInstanceOf(Date);
+      expect(notebook.createdDate).toBeInstanceOf(Date);
+      expect(notebook.lastModifiedDate).toBeInstanceOf(Date);
     });
 
     it('should define OneNoteSection interface correctly', () => {
@@ -47,121 +44,92 @@ describe('Type Definitions', () => {
         id: 'section-1',
         name: 'Test Section',
         pages: [],
-        createdTime: new Date('2023-01-01'),
-        lastModifiedTime: new Date('2023-01-02'),
+        createdDate: new Date('2023-01-01'),
+        lastModifiedDate: new Date('2023-01-02'),
+        metadata: {},
       };
 
       expect(section.id).toBe('section-1');
       expect(section.name).toBe('Test Section');
       expect(Array.isArray(section.pages)).toBe(true);
-      expect(section.createdTime).toBeInstanceOf(Date);
-      expect(section.lastModifiedTime).toBeInstanceOf(Date);
+      expect(section.createdDate).toBeInstanceOf(Date);
+      expect(section.lastModifiedDate).toBeInstanceOf(Date);
     });
 
     it('should define OneNotePage interface correctly', () => {
       const page: OneNotePage = {
         id: 'page-1',
-        name: 'Test Page',
-        content: {
-          text: 'Test content',
-          images: [],
-          attachments: [],
-          tables: [],
-          lists: [],
-        },
-        createdTime: new Date('2023-01-01'),
-        lastModifiedTime: new Date('2023-01-02'),
-        tags: ['tag1', 'tag2'],
+        title: 'Test Page',
+        content: 'Test content',
+        document: { blocks: [{ type: 'paragraph', runs: [{ text: 'Test content' }] }] },
+        createdDate: new Date('2023-01-01'),
+        lastModifiedDate: new Date('2023-01-02'),
+        metadata: { tags: ['tag1', 'tag2'] },
       };
 
       expect(page.id).toBe('page-1');
-      expect(page.name).toBe('Test Page');
-      expect(page.content).toBeDefined();
-      expect(page.tags).toEqual(['tag1', 'tag2']);
-    });
-
-    it('should define OneNoteContent interface correctly', () => {
-      const content: OneNoteContent = {
-        text: 'Test text content',
-        images: [],
-        attachments: [],
-        tables: [],
-        lists: [],
-      };
-
-      expect(content.text).toBe('Test text content');
-      expect(Array.isArray(content.images)).toBe(true);
-      expect(Array.isArray(content.attachments)).toBe(true);
-      expect(Array.isArray(content.tables)).toBe(true);
-      expect(Array.isArray(content.lists)).toBe(true);
-    });
-
-    it('should define OneNoteImage interface correctly', () => {
-      const image: OneNoteImage = {
-        id: 'img-1',
-        name: 'test.jpg',
-        path: '/path/to/image.jpg',
-        width: 100,
-        height: 200,
-        alt: 'Test image',
-      };
-
-      expect(image.id).toBe('img-1');
-      expect(image.name).toBe('test.jpg');
-      expect(image.path).toBe('/path/to/image.jpg');
-      expect(image.width).toBe(100);
-      expect(image.height).toBe(200);
-      expect(image.alt).toBe('Test image');
+      expect(page.title).toBe('Test Page');
+      expect(page.document?.blocks).toHaveLength(1);
+      expect(page.metadata.tags).toEqual(['tag1', 'tag2']);
     });
+  });
 
-    it('should define OneNoteAttachment interface correctly', () => {
-      const attachment: OneNoteAttachment = {
-        id: 'att-1',
-        name: 'document.pdf',
-        path: '/path/to/document.pdf',
-        size: 1024,
-        mimeType: 'application/pdf',
-      };
-
-      expect(attachment.id).toBe('att-1');
-      expect(attachment.name).toBe('document.pdf');
-      expect(attachment.path).toBe('/path/to/document.pdf');
-      expect(attachment.size).toBe(1024);
-      expect(attachment.mimeType).toBe('application/pdf');
+  describe('Document Types', () => {
+    it('should define every block type', () => {
+      const blocks: OneNoteBlock[] = [
+        { type: 'heading', level: 2, runs: [{ text: 'Heading', bold: true }] },
+        { type: 'paragraph', runs: [{ text: 'Link', href: 'https://example.com' }] },
+        { type: 'image', src: 'assets/image.jpg', name: 'image.jpg', alt: 'Test image', width: 100, height: 200 },
+        { type: 'file', name: 'document.pdf', src: 'assets/document.pdf', size: 1024, mimeType: 'application/pdf' },
+        { type: 'todo', checked: false, runs: [{ text: 'Task' }] },
+        { type: 'code', language: 'typescript', text: 'const a = 1;' },
+        { type: 'equation', expression: 'x^2' },
+        { type: 'divider' },
+      ];
+      const document: OneNoteDocument = { blocks };
+
+      expect(document.blocks.map(block => block.type)).toEqual([
+        'heading', 'paragraph', 'image', 'file', 'todo', 'code', 'equation', 'divider',
+      ]);
     });
 
-    it('should define OneNoteTable interface correctly', () => {
-      const table: OneNoteTable = {
-        id: 'table-1',
+    it('should define tables with merged cells', () => {
+      const table: OneNoteTableBlock = {
+        type: 'table',
         rows: [
           {
             cells: [
-              { content: 'Cell 1', colspan: 1, rowspan: 1 },
-              { content: 'Cell 2', colspan: 1, rowspan: 1 },
+              { blocks: [{ type: 'paragraph', runs: [{ text: 'Cell 1' }] }], colSpan: 2 },
+            ],
+          },
+          {
+            cells: [
+              { blocks: [], rowSpan: 1 },
+              { blocks: [] },
             ],
           },
         ],
-        columns: 2,
       };
 
-      expect(table.id).toBe('table-1');
-      expect(Array.isArray(table.rows)).toBe(true);
-      expect(table.columns).toBe(2);
+      expect(table.rows).toHaveLength(2);
+      expect(table.rows[0]!.cells[0]!.colSpan).toBe(2);
     });
 
-    it('should define OneNoteList interface correctly', () => {
-      const list: OneNoteList = {
-        id: 'list-1',
-        type: 'unordered',
+    it('should define lists with nested blocks', () => {
+      const list: OneNoteListBlock = {
+        type: 'list',
+        ordered: false,
         items: [
-          { text: 'Item 1', level: 0 },
-          { text: 'Item 2', level: 1, children: [] },
+          { runs: [{ text: 'Item 1' }], children: [] },
+          {
+            runs: [{ text: 'Item 2' }],
+            children: [{ type: 'list', ordered: true, items: [{ runs: [{ text: 'Item 2.1' }], children: [] }] }],
+          },
         ],
       };
 
-      expect(list.id).toBe('list-1');
-      expect(list.type).toBe('unordered');
-      expect(Array.isArray(list.items)).toBe(true);
+      expect(list.ordered).toBe(false);
+      expect(list.items[1]!.children[0]!.type).toBe('list');
     });
   });
 
@@ -1,4 +1,7 @@
-import { CommandHelpers } from '../../../src/utils/command-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandHelpers, NotebookTally } from '../../../src/utils/command-helpers';
 import { logger } from '../../../src/utils/logger';
 import { ConfigService } from '../../../src/services/config.service';
 
@@ -8,6 +11,8 @@ jest.mock('../../../src/utils/logger', () => ({
     level: 'info',
     error: jest.fn(),
     info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
   },
 }));
 
@@ -84,6 +89,11 @@ describe('CommandHelpers', () => {
       }).toThrow('OneNote file path is required. Use -f or --file option.');
     });
 
+    it('should accept several file paths but not an empty list', () => {
+      expect(() => CommandHelpers.validateFilePath(['a.one', 'Notebooks'], 'test')).not.toThrow();
+      expect(() => CommandHelpers.validateFilePath([], 'test')).toThrow('OneNote file path is required.');
+    });
+
     it('should log error when file path is missing', () => {
       try {
         CommandHelpers.validateFilePath(undefined, 'test');
@@ -181,4 +191,293 @@ describe('CommandHelpers', () => {
       expect(logger.info).toHaveBeenCalledWith('DRY RUN MODE: No actual import will be performed');
     });
   });
+
+  describe('createPasswordResolver', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-passwords-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should prefer configured passwords by package path, section name or file name', async () => {
+      const resolve = CommandHelpers.createPasswordResolver({ passwordPrompt: false }, {
+        'Work\\Reviews.one': 'by-entry',
+        Diary: 'by-name',
+        'Notes.one': 'by-file'
+      });
+
+      await expect(resolve({ name: 'Reviews', filePath: '/tmp/x/Reviews.one', packageEntry: 'Work/Reviews.one' })).resolves.toBe('by-entry');
+      await expect(resolve({ name: 'Diary', filePath: '/tmp/Diary.one' })).resolves.toBe('by-name');
+      await expect(resolve({ name: 'Notes', filePath: '/tmp/Notes.one' })).resolves.toBe('by-file');
+      await expect(resolve({ name: 'Other', filePath: '/tmp/Other.one' })).resolves.toBeUndefined();
+    });
+
+    it('should fall back to the trimmed contents of the password file', async () => {
+      const passwordFile = path.join(tempDir, 'password.txt');
+      fs.writeFileSync(passwordFile, 'from-file\n');
+      const resolve = CommandHelpers.createPasswordResolver({ passwordFile, passwordPrompt: false }, { Diary: 'configured' });
+
+      await expect(resolve({ name: 'Other', filePath: '/tmp/Other.one' })).resolves.toBe('from-file');
+      await expect(resolve({ name: 'Diary', filePath: '/tmp/Diary.one' })).resolves.toBe('configured');
+    });
+
+    it('should throw when the password file does not exist', () => {
+      expect(() => CommandHelpers.createPasswordResolver({ passwordFile: path.join(tempDir, 'missing.txt') }))
+        .toThrow('Password file not found');
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('createParsingPoolOptions', () => {
+    it('should prefer --concurrency over the configured value and pass on the section timeout', () => {
+      const settings = CommandHelpers.createParsingPoolOptions({ concurrency: '3' }, { concurrency: 2, timeout: 5000 });
+
+      expect(settings.concurrency).toBe(3);
+      expect(settings.timeout).toBe(5000);
+      expect(CommandHelpers.createParsingPoolOptions({}, { concurrency: '2' as any }).concurrency).toBe(2);
+    });
+
+    it('should leave sections on the main thread unless a concurrency above 1 is set', () => {
+      expect(CommandHelpers.createParsingPoolOptions({}).concurrency).toBeUndefined();
+      expect(CommandHelpers.createParsingPoolOptions({ concurrency: '1' }).concurrency).toBeUndefined();
+      expect(CommandHelpers.createParsingPoolOptions({}, { concurrency: 1 }).concurrency).toBeUndefined();
+    });
+
+    it('should throw on a concurrency below 1', () => {
+      expect(() => CommandHelpers.createParsingPoolOptions({ concurrency: '0' })).toThrow('Concurrency must be a whole number');
+      expect(logger.error).toHaveBeenCalled();
+    });
+
+    it('should log each finished section with the counts so far', () => {
+      const { onProgress } = CommandHelpers.createParsingPoolOptions({ concurrency: '2' });
+
+      onProgress!({ event: 'started', section: 'Work/Notes.one', total: 4, completed: 0, failed: 0, running: 1 });
+      onProgress!({ event: 'failed', section: 'Work/Notes.one', total: 4, completed: 2, failed: 1, running: 1 });
+
+      expect(logger.info).toHaveBeenCalledTimes(1);
+      expect(logger.info).toHaveBeenCalledWith('Parsed 3/4 sections (1 failed)');
+    });
+  });
+
+  describe('createAssetsDirectory', () => {
+    it('should create a new directory for each run and remove it when the process exits', () => {
+      const once = jest.spyOn(process, 'once').mockImplementation(() => process);
+
+      const first = CommandHelpers.createAssetsDirectory();
+      const second = CommandHelpers.createAssetsDirectory();
+      fs.writeFileSync(path.join(first, 'image.png'), 'png');
+
+      expect(first).not.toBe(second);
+      expect(path.basename(first)).toMatch(/^oni-assets-/);
+      const onExit = once.mock.calls.filter(([event]) => event === 'exit').map(([, listener]) => listener as () => void);
+      expect(onExit).toHaveLength(2);
+      onExit.forEach(remove => remove());
+      expect(fs.existsSync(first)).toBe(false);
+      expect(fs.existsSync(second)).toBe(false);
+      once.mockRestore();
+    });
+
+    it('should remove the directory on Ctrl-C and kill, then end the process with the same signal', () => {
+      const once = jest.spyOn(process, 'once').mockImplementation(() => process);
+      const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+
+      const directory = CommandHelpers.createAssetsDirectory();
+      const [, onInterrupt] = once.mock.calls.find(([event]) => event === 'SIGINT')!;
+      (onInterrupt as () => void)();
+
+      expect(fs.existsSync(directory)).toBe(false);
+      expect(kill).toHaveBeenCalledWith(process.pid, 'SIGINT');
+      expect(once.mock.calls.map(([event]) => event)).toEqual(['exit', 'SIGINT', 'SIGTERM']);
+      kill.mockRestore();
+      once.mockRestore();
+    });
+  });
+
+  describe('removePageAssets', () => {
+    it('should delete the files extracted for a page and its versions, leaving files outside the assets directory', () => {
+      const assetsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-assets-'));
+      const write = (filePath: string) => {
+        fs.writeFileSync(filePath, 'data');
+        return filePath;
+      };
+      const image = write(path.join(assetsDirectory, 'image.png'));
+      const attachment = write(path.join(assetsDirectory, 'budget.xlsx'));
+      const older = write(path.join(assetsDirectory, 'older.png'));
+      const unrelated = write(path.join(assetsDirectory, 'other.png'));
+      const outside = write(path.join(os.tmpdir(), `oni-outside-${process.pid}.png`));
+      const page = {
+        id: 'page-1',
+        title: 'Page',
+        content: '',
+        createdDate: new Date(),
+        lastModifiedDate: new Date(),
+        metadata: {},
+        document: {
+          blocks: [
+            { type: 'list' as const, ordered: false, items: [{ runs: [], children: [{ type: 'image' as const, src: image }] }] },
+            { type: 'file' as const, name: 'Budget.xlsx', src: attachment },
+            { type: 'image' as const, src: outside }
+          ]
+        },
+        revisions: [{
+          id: 'rev-1',
+          title: 'Page',
+          content: '',
+          document: { blocks: [{ type: 'image' as const, src: older }] },
+          lastModifiedDate: new Date()
+        }]
+      };
+
+      try {
+        CommandHelpers.removePageAssets(page, assetsDirectory);
+
+        expect(fs.readdirSync(assetsDirectory)).toEqual([path.basename(unrelated)]);
+        expect(fs.existsSync(outside)).toBe(true);
+      } finally {
+        fs.rmSync(assetsDirectory, { recursive: true, force: true });
+        fs.rmSync(outside, { force: true });
+      }
+    });
+  });
+
+  describe('createRecordingOptions', () => {
+    it('should turn --max-recording-size into bytes and --no-recordings into skipping recordings', () => {
+      expect(CommandHelpers.createRecordingOptions({ recordings: true, maxRecordingSize: '2.5' }))
+        .toEqual({ extractRecordings: true, maxRecordingSize: 2621440 });
+      expect(CommandHelpers.createRecordingOptions({ recordings: false })).toEqual({ extractRecordings: false });
+    });
+
+    it('should throw on a size that is not a positive number', () => {
+      expect(() => CommandHelpers.createRecordingOptions({ maxRecordingSize: 'lots' })).toThrow('Maximum recording size must be a positive number');
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('getLayoutMode', () => {
+    it('should default to flat and accept columns', () => {
+      expect(CommandHelpers.getLayoutMode({})).toBe('flat');
+      expect(CommandHelpers.getLayoutMode({ layout: 'columns' })).toBe('columns');
+    });
+
+    it('should throw on an unknown layout', () => {
+      expect(() => CommandHelpers.getLayoutMode({ layout: 'grid' })).toThrow('Layout must be flat or columns, got: grid');
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('reportNotebooks', () => {
+    it('should list the sections and pages of each notebook when several were read', () => {
+      const tally = new Map<string, NotebookTally>();
+      const notebook = (id: string, name: string) => ({ id, name, createdDate: new Date(), lastModifiedDate: new Date(), sections: [], metadata: {} });
+      const section = { id: 'section-1', name: 'Inbox', pages: [], createdDate: new Date(), lastModifiedDate: new Date(), metadata: {} };
+      const page = { id: 'page-1', title: 'Todo', content: '', createdDate: new Date(), lastModifiedDate: new Date(), metadata: {} };
+      CommandHelpers.tallyNotebook(tally, { type: 'section', notebook: notebook('notebook-1', 'Work'), sectionGroups: [], section });
+      CommandHelpers.tallyNotebook(tally, { type: 'page', notebook: notebook('notebook-1', 'Work'), sectionGroups: [], section, page });
+      CommandHelpers.tallyNotebook(tally, { type: 'section', notebook: notebook('notebook-2', 'Home'), sectionGroups: [], section });
+
+      CommandHelpers.reportNotebooks(tally);
+
+      expect((logger.info as jest.Mock).mock.calls.map(call => call[0])).toEqual([
+        'Successfully processed 2 notebook(s)',
+        '- Work: 1 section(s), 1 page(s)',
+        '- Home: 1 section(s), 0 page(s)'
+      ]);
+    });
+  });
+
+  describe('createGraphSource', () => {
+    const environmentToken = process.env.GRAPH_ACCESS_TOKEN;
+
+    afterEach(() => {
+      if (environmentToken === undefined) {
+        delete process.env.GRAPH_ACCESS_TOKEN;
+      } else {
+        process.env.GRAPH_ACCESS_TOKEN = environmentToken;
+      }
+    });
+
+    it('should only create a source with --graph, with the token from a file or the environment', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-graph-token-'));
+      try {
+        const tokenFile = path.join(tempDir, 'token.txt');
+        fs.writeFileSync(tokenFile, 'file-token\n');
+        process.env.GRAPH_ACCESS_TOKEN = 'environment-token';
+
+        expect(CommandHelpers.createGraphSource({})).toBeUndefined();
+        expect(CommandHelpers.createGraphSource({ graph: true })?.baseUrl).toBe('https://graph.microsoft.com/v1.0');
+        expect(CommandHelpers.createGraphSource({ graph: true, graphTokenFile: tokenFile, graphUrl: 'http://localhost:8080/v1.0/' }))
+          .toEqual(expect.objectContaining({ baseUrl: 'http://localhost:8080/v1.0' }));
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should throw without an access token', () => {
+      delete process.env.GRAPH_ACCESS_TOKEN;
+
+      expect(() => CommandHelpers.createGraphSource({ graph: true })).toThrow('Microsoft Graph access token is required');
+      expect(() => CommandHelpers.createGraphSource({ graph: true, graphTokenFile: '/missing/token.txt' }))
+        .toThrow('Graph token file not found: /missing/token.txt');
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('reportProtectedSections', () => {
+    it('should warn about each skipped section with its reason', () => {
+      const section = (name: string, metadata: Record<string, any>) =>
+        ({ id: name, name, createdDate: new Date(), lastModifiedDate: new Date(), pages: [], metadata });
+      const sections = [
+        section('Diary', { encrypted: true, skipped: 'password-required', packageEntry: 'Personal/Diary.one' }),
+        section('Vault', { encrypted: true, skipped: 'invalid-password' }),
+        section('Open', {})
+      ];
+
+      expect(CommandHelpers.reportProtectedSections(sections)).toBe(2);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('"Personal/Diary.one": no password was supplied'));
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('"Vault": the supplied password was rejected'));
+    });
+  });
+
+  describe('reportSalvage', () => {
+    it('should warn about each loss and write the damaged sections to the report', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oni-salvage-'));
+      const reportPath = path.join(tempDir, 'salvage-report.json');
+      const section = (name: string, metadata: Record<string, any>) =>
+        ({ id: name, name, createdDate: new Date(), lastModifiedDate: new Date(), pages: [], metadata });
+      const losses = [
+        { kind: 'content', page: 'Todo', reason: 'Chunk out of range' },
+        { kind: 'page', reason: 'The page could not be found in the file' }
+      ];
+
+      try {
+        expect(CommandHelpers.reportSalvage([
+          section('Inbox', { salvage: losses, packageEntry: 'Work/Inbox.one', filePath: '/tmp/Inbox.one' }),
+          section('Plans', { salvage: [] })
+        ], reportPath)).toBe(2);
+
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('"Work/Inbox.one", 2 part(s) could not be recovered'));
+        expect(logger.warn).toHaveBeenCalledWith('- content on page "Todo": Chunk out of range');
+        const report = JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+        expect(report).toEqual(expect.objectContaining({ sectionsRead: 2, damagedSections: 1 }));
+        expect(report.sections).toEqual([{ section: 'Work/Inbox.one', filePath: '/tmp/Inbox.one', losses }]);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should only log the losses when no report path is given', () => {
+      const losses = [{ kind: 'page', reason: 'The page could not be found in the file' }];
+
+      expect(CommandHelpers.reportSalvage([
+        { id: 'Inbox', name: 'Inbox', createdDate: new Date(), lastModifiedDate: new Date(), pages: [], metadata: { salvage: losses } }
+      ])).toBe(1);
+
+      expect(logger.warn).toHaveBeenCalledWith('- page: The page could not be found in the file');
+      expect(logger.info).not.toHaveBeenCalledWith(expect.stringContaining('Salvage report saved'));
+    });
+  });
 });